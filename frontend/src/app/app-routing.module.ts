@@ -6,6 +6,8 @@ import { HomeComponent } from './features/home/home.component';
 import { SearchComponent } from './features/search/search.component';
 import { WorkshopComponent } from './features/workshop/workshop.component';
 import { DemoComponent } from './features/demo/demo.component';
+import { QUERY_STATE_SCHEMA_KEY } from './core/services/url-state.service';
+import { SEARCH_QUERY_SCHEMA, WORKSHOP_QUERY_SCHEMA } from './config/query-state/search-query.schema';
 
 /**
  * APPLICATION ROUTING CONFIGURATION
@@ -55,13 +57,10 @@ const routes: Routes = [
    * - 'full': Only matches if the ENTIRE URL is exactly ''
    * - Without 'full': Would match ALL URLs (since every URL starts with '')
    *
-   * Future implementation:
-   * - Will display welcome message
-   * - Quick start guide
-   * - Navigation cards to Search and Workshop pages
-   * - Recent searches (if we add that feature)
+   * Shows the user's saved searches (named, tagged) and recent searches
+   * (SavedSearchService); clicking one reopens /search with its query state.
    *
-   * Component: Will be created as HomeComponent
+   * Component: HomeComponent
    */
   {
     path: '',
@@ -81,7 +80,8 @@ const routes: Routes = [
    * - Filters in sidebar or collapsible panels
    *
    * All filter state stored in URL query parameters:
-   * - ?models=Ford:F-150,Chevy:Corvette (selected models)
+   * - ?models=Ford:F-150,Chevy:Corvette (selected models; '\', '|', ',' and ':'
+   *   inside names are escaped with '\', e.g. Mazda:MX-5\:Miata)
    * - ?yearMin=2020&yearMax=2024 (year range filter)
    * - ?page=2&size=20 (pagination)
    * - ?sortBy=year&sortOrder=desc (sorting)
@@ -99,7 +99,8 @@ const routes: Routes = [
    */
   {
     path: 'search',
-    component: SearchComponent  // Main vehicle search interface
+    component: SearchComponent,  // Main vehicle search interface
+    data: { [QUERY_STATE_SCHEMA_KEY]: SEARCH_QUERY_SCHEMA }  // Invalid params repaired on navigation
 
     // Future: Can add child routes if we want sub-pages
     // children: [
@@ -139,7 +140,24 @@ const routes: Routes = [
    */
   {
     path: 'workshop',
-    component: WorkshopComponent  // Drag-and-drop customizable workspace
+    component: WorkshopComponent,  // Drag-and-drop customizable workspace
+    data: { [QUERY_STATE_SCHEMA_KEY]: WORKSHOP_QUERY_SCHEMA }
+  },
+
+  /**
+   * WORKSHOP POP-OUT ROUTE
+   *
+   * Path: 'workshop/popout/:hostId/:panelId'
+   * URL: http://example.com/workshop/popout/9b1d.../results?models=Ford:F-150
+   *
+   * Opened by the Workshop in a new window when a panel is popped out.
+   * Renders only that panel (no grid) and keeps URL state in sync with the
+   * Workshop window identified by hostId (see PanelPopoutService).
+   */
+  {
+    path: 'workshop/popout/:hostId/:panelId',
+    component: WorkshopComponent,  // Same component, single-panel mode
+    data: { [QUERY_STATE_SCHEMA_KEY]: WORKSHOP_QUERY_SCHEMA }
   },
 
   /**
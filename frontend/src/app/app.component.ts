@@ -1,10 +1,79 @@
-import { Component } from '@angular/core';
+import { Component, HostListener, OnDestroy } from '@angular/core';
+import { Router } from '@angular/router';
+import { Subject } from 'rxjs';
+import { takeUntil } from 'rxjs/operators';
+import { QueryHistoryService, QueryHistoryState } from './core/services/query-history.service';
 
 @Component({
   selector: 'app-root',
   templateUrl: './app.component.html',
   styleUrls: ['./app.component.scss']
 })
-export class AppComponent {
+export class AppComponent implements OnDestroy {
   title = 'frontend';
+
+  /**
+   * Undo/redo availability and step labels (for the nav buttons)
+   */
+  history: QueryHistoryState = { undoLabel: null, redoLabel: null, undoCount: 0, redoCount: 0 };
+
+  private destroy$ = new Subject<void>();
+
+  constructor(
+    private router: Router,
+    private queryHistory: QueryHistoryService  // Injected here so recording starts with the app
+  ) {
+    this.queryHistory.state$
+      .pipe(takeUntil(this.destroy$))
+      .subscribe(state => this.history = state);
+  }
+
+  ngOnDestroy(): void {
+    this.destroy$.next();
+    this.destroy$.complete();
+  }
+
+  /**
+   * Pop-out windows show a single Workshop panel - no navigation header
+   */
+  get isPopout(): boolean {
+    return this.router.url.startsWith('/workshop/popout/');
+  }
+
+  undo(): void {
+    this.queryHistory.undo();
+  }
+
+  redo(): void {
+    this.queryHistory.redo();
+  }
+
+  /**
+   * KEYBOARD SHORTCUTS
+   * Ctrl+Z (Cmd+Z): undo, Ctrl+Shift+Z / Ctrl+Y: redo
+   * Text fields keep their own undo
+   */
+  @HostListener('document:keydown', ['$event'])
+  onKeydown(event: KeyboardEvent): void {
+    if (!(event.ctrlKey || event.metaKey) || event.altKey || this.isTextInput(event.target)) {
+      return;
+    }
+
+    const key = event.key.toLowerCase();
+    const handled = key === 'z' && !event.shiftKey ? this.queryHistory.undo()
+      : (key === 'z' && event.shiftKey) || key === 'y' ? this.queryHistory.redo()
+      : false;
+
+    if (handled) {
+      event.preventDefault();
+    }
+  }
+
+  private isTextInput(target: EventTarget | null): boolean {
+    const element = target as HTMLElement | null;
+    return !!element && (
+      element.isContentEditable ||
+      ['INPUT', 'TEXTAREA', 'SELECT'].includes(element.tagName)
+    );
+  }
 }
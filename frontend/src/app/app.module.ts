@@ -1,15 +1,21 @@
 import { NgModule } from '@angular/core';
 import { BrowserModule } from '@angular/platform-browser';
 import { BrowserAnimationsModule } from '@angular/platform-browser/animations';
-import { HttpClientModule } from '@angular/common/http';
+import { HttpClientModule, HTTP_INTERCEPTORS } from '@angular/common/http';
 
 import { AppRoutingModule } from './app-routing.module';
 import { AppComponent } from './app.component';
 import { SharedModule } from './shared/shared.module';
 import { DemoModule } from './demo/demo.module';
 import { UrlStateService } from './core/services/url-state.service';
+import { API_CONFIGS } from './core/services/api-config-registry.service';
+import { VEHICLE_API_CONFIG } from './config/api/vehicle-api.config';
+import { MockBackendInterceptor, MOCK_ROUTES } from './core/mock-backend';
+import { VEHICLE_MOCK_ROUTES } from './config/mock/vehicle-mock.routes';
+import { environment } from '../environments/environment';
 import { HomeComponent } from './features/home/home.component';
 import { SearchComponent } from './features/search/search.component';
+import { SearchFiltersComponent } from './features/search/search-filters/search-filters.component';
 import { WorkshopComponent } from './features/workshop/workshop.component';
 import { DemoComponent } from './features/demo/demo.component';
 
@@ -18,6 +24,7 @@ import { DemoComponent } from './features/demo/demo.component';
     AppComponent,
     HomeComponent,
     SearchComponent,
+    SearchFiltersComponent,
     WorkshopComponent,
     DemoComponent
   ],
@@ -30,7 +37,14 @@ import { DemoComponent } from './features/demo/demo.component';
     DemoModule  // Demo data and services
   ],
   providers: [
-    UrlStateService  // Explicitly provide the service
+    UrlStateService,  // Explicitly provide the service
+    { provide: API_CONFIGS, useValue: VEHICLE_API_CONFIG, multi: true },  // Resolves apiConfigRef 'vehicles'
+
+    // Offline mock backend (environment.mock.ts / npm run start:mock)
+    ...(environment.mockBackend.enabled ? [
+      { provide: HTTP_INTERCEPTORS, useClass: MockBackendInterceptor, multi: true },
+      { provide: MOCK_ROUTES, useValue: VEHICLE_MOCK_ROUTES, multi: true }
+    ] : [])
   ],
   bootstrap: [AppComponent]
 })
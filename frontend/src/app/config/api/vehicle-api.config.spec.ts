@@ -0,0 +1,95 @@
+import { TableRequestState } from '../../shared/models/table-config.model';
+import { mapTableStateToVehicleSearch } from './vehicle-api.config';
+
+describe('mapTableStateToVehicleSearch', () => {
+  function request(queryParams: TableRequestState['queryParams'], filters?: TableRequestState['filters']): TableRequestState {
+    return { page: 1, size: 20, queryParams, filters };
+  }
+
+  describe('models', () => {
+    it('should send unescaped Manufacturer:Model pairs', () => {
+      const filters = mapTableStateToVehicleSearch(request({ models: 'Ford:F-150,Mazda:MX-5\\:Miata,AC:Cobra\\|427' }));
+
+      expect(filters?.models).toBe('Ford:F-150,Mazda:MX-5:Miata,AC:Cobra|427');
+    });
+
+    it('should expand the compact URL form to the plain list', () => {
+      const filters = mapTableStateToVehicleSearch(request({ models: '~' + btoa('Ford(F-150,Ranger)').replace(/=+$/, '') }));
+
+      expect(filters?.models).toBe('Ford:F-150,Ford:Ranger');
+    });
+  });
+
+  describe('year range', () => {
+    it('should intersect the column range with the search form range', () => {
+      const filters = mapTableStateToVehicleSearch(request(
+        { yearMin: '2015', yearMax: '2024' },
+        { year: { operator: 'range', min: 2010, max: 2020 } }
+      ));
+
+      expect(filters).toEqual(jasmine.objectContaining({ yearMin: 2015, yearMax: 2020 }));
+    });
+
+    it('should use open column bounds as they are', () => {
+      const filters = mapTableStateToVehicleSearch(request({}, { year: { operator: 'range', min: 2018 } }));
+
+      expect(filters?.yearMin).toBe(2018);
+      expect(filters?.yearMax).toBeUndefined();
+    });
+
+    it('should match nothing when the ranges do not overlap', () => {
+      expect(mapTableStateToVehicleSearch(request(
+        { yearMin: '2020', yearMax: '2024' },
+        { year: { operator: 'range', min: 2010, max: 2015 } }
+      ))).toBeNull();
+    });
+
+    it('should accept ranges that touch', () => {
+      const filters = mapTableStateToVehicleSearch(request(
+        { yearMin: '2020' },
+        { year: { operator: 'range', max: 2020 } }
+      ));
+
+      expect(filters).toEqual(jasmine.objectContaining({ yearMin: 2020, yearMax: 2020 }));
+    });
+  });
+
+  describe('multi-select filters', () => {
+    it('should send the column values when the search form has none', () => {
+      const filters = mapTableStateToVehicleSearch(request({}, {
+        body_class: { operator: 'in', values: ['SUV', 'Pickup'] },
+        data_source: { operator: 'in', values: ['NHTSA'] }
+      }));
+
+      expect(filters).toEqual(jasmine.objectContaining({ bodyClass: 'SUV,Pickup', dataSource: 'NHTSA' }));
+    });
+
+    it('should keep only the column values the search form allows', () => {
+      const filters = mapTableStateToVehicleSearch(request(
+        { bodyClass: 'SUV', dataSource: 'nhtsa' },
+        {
+          body_class: { operator: 'in', values: ['SUV', 'Pickup'] },
+          data_source: { operator: 'in', values: ['NHTSA', 'EPA'] }
+        }
+      ));
+
+      expect(filters).toEqual(jasmine.objectContaining({ bodyClass: 'SUV', dataSource: 'NHTSA' }));
+    });
+
+    it('should match nothing when no column value is allowed', () => {
+      expect(mapTableStateToVehicleSearch(request(
+        { bodyClass: 'SUV' },
+        { body_class: { operator: 'in', values: ['Pickup'] } }
+      ))).toBeNull();
+
+      expect(mapTableStateToVehicleSearch(request(
+        { dataSource: 'EPA' },
+        { data_source: { operator: 'in', values: ['NHTSA'] } }
+      ))).toBeNull();
+    });
+
+    it('should keep the search form value without a column filter', () => {
+      expect(mapTableStateToVehicleSearch(request({ bodyClass: 'SUV' }))?.bodyClass).toBe('SUV');
+    });
+  });
+});
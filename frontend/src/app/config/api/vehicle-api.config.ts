@@ -17,6 +17,9 @@
 
 import { HttpParams } from '@angular/common/http';
 import { ApiConfig } from '../../core/services/api-config.interface';
+import { TableRequestState, SubTableRequestState } from '../../shared/models/table-config.model';
+import { decodeQueryState } from '../../core/services/query-state.model';
+import { SEARCH_QUERY_SCHEMA } from '../query-state/search-query.schema';
 import {
   VehicleSearchFilters,
   VehicleSearchResponse,
@@ -26,6 +29,7 @@ import {
   VinInstancesResponse,
   VinInstance
 } from './vehicle-api.types';
+import { ModelCombination, urlParamToModelCombos } from '../../models/manufacturer-model.model';
 
 /**
  * VEHICLE API CONFIGURATION
@@ -38,6 +42,15 @@ export const VEHICLE_API_CONFIG: ApiConfig = {
   id: 'vehicles',
   basePath: '/v1', // All vehicle endpoints are under /v1 (autos backend)
 
+  // GET responses are cached for 5 minutes; expired entries are served
+  // immediately and refreshed in the background
+  cache: {
+    enabled: true,
+    ttl: 5 * 60 * 1000,
+    staleWhileRevalidate: true,
+    maxEntries: 50
+  },
+
   endpoints: {
     /**
      * MANUFACTURER-MODEL COUNTS ENDPOINT
@@ -52,6 +65,11 @@ export const VEHICLE_API_CONFIG: ApiConfig = {
       url: '/manufacturer-model-combinations',
       method: 'GET',
 
+      // Large, rarely-changing payload shared by every picker - keep it longer
+      cache: { ttl: 30 * 60 * 1000 },
+      timeout: 20000,
+      retry: { count: 2, delay: 500 },
+
       // Transform response: extract and sort manufacturers
       transformResponse: (response: ManufacturerModelCountsResponse): Manufacturer[] => {
         const manufacturers = response.data;
@@ -81,6 +99,8 @@ export const VEHICLE_API_CONFIG: ApiConfig = {
       id: 'search',
       url: '/vehicle-details',
       method: 'GET',
+      timeout: 15000,
+      retry: { count: 2, delay: 500 },
 
       // Build HTTP params from filters
       buildParams: (filters: VehicleSearchFilters): HttpParams => {
@@ -96,8 +116,11 @@ export const VEHICLE_API_CONFIG: ApiConfig = {
         if (filters.yearMax) params = params.set('yearMax', filters.yearMax.toString());
         if (filters.bodyClass) params = params.set('bodyClass', filters.bodyClass);
         if (filters.dataSource) params = params.set('dataSource', filters.dataSource);
+        if (filters.instanceCountMin !== undefined) params = params.set('instanceCountMin', filters.instanceCountMin.toString());
+        if (filters.instanceCountMax !== undefined) params = params.set('instanceCountMax', filters.instanceCountMax.toString());
         if (filters.sortBy) params = params.set('sortBy', filters.sortBy);
         if (filters.sortOrder) params = params.set('sortOrder', filters.sortOrder);
+        if (filters.sort) params = params.set('sort', filters.sort);
 
         return params;
       }
@@ -115,6 +138,8 @@ export const VEHICLE_API_CONFIG: ApiConfig = {
       id: 'vinInstances',
       url: '/vins',
       method: 'GET',
+      timeout: 10000,
+      retry: { count: 1, delay: 500 },
 
       // Build params for VIN instances request
       buildParams: (request: { manufacturer?: string; model?: string; limit?: number; page?: number }): HttpParams => {
@@ -134,6 +159,167 @@ export const VEHICLE_API_CONFIG: ApiConfig = {
   }
 };
 
+/**
+ * HELPER FUNCTION: Flatten Manufacturer-Model Data
+ *
+ * The manufacturerModelCounts endpoint returns a hierarchical structure
+ * (Manufacturer -> Models[]), but picker tables need one row per model.
+ * Used as ApiConfigRef.responseTransformer by the picker table configs.
+ *
+ * @param manufacturers - Transformed response from manufacturerModelCounts
+ * @returns Flat rows: { manufacturer, model, count }
+ *
+ * @example
+ * flattenManufacturerModels([{ manufacturer: 'Ford', count: 50, models: [{ model: 'F-150', count: 20 }] }])
+ * // [{ manufacturer: 'Ford', model: 'F-150', count: 20 }]
+ */
+export function flattenManufacturerModels(
+  manufacturers: Manufacturer[]
+): Array<{ manufacturer: string; model: string; count: number }> {
+  const rows: Array<{ manufacturer: string; model: string; count: number }> = [];
+
+  manufacturers.forEach(mfr => {
+    mfr.models.forEach(model => {
+      rows.push({
+        manufacturer: mfr.manufacturer,
+        model: model.model,
+        count: model.count
+      });
+    });
+  });
+
+  return rows;
+}
+
+/**
+ * HELPER FUNCTION: Map Table State to Vehicle Search Filters
+ *
+ * Used as ApiConfigRef.paramMapper by the results table configs.
+ * Pagination and sorting come from the table itself; the search criteria
+ * (models, year range, body class, data source) come from the route's
+ * query params, which SearchComponent owns. The table's own column filters
+ * (year / VIN count ranges, body class / data source multi-selects) narrow
+ * those criteria further: year ranges are intersected, multi-select values
+ * are limited to the ones the search form allows.
+ *
+ * @param state - Table request state from BaseTableComponent
+ * @returns Filters for the 'search' endpoint, or null when the column filters
+ *          and the search criteria cannot both match (empty result, no request)
+ *
+ * @example
+ * // URL: /search?models=Ford:F-150&yearMin=2020
+ * mapTableStateToVehicleSearch({ page: 1, size: 20, queryParams: {...} })
+ * // { page: 1, size: 20, models: 'Ford:F-150', yearMin: 2020 }
+ *
+ * // Plus column filter f_body_class=SUV,Pickup
+ * // { ..., bodyClass: 'SUV,Pickup' }
+ *
+ * // With bodyClass=SUV in the URL, f_body_class=SUV,Pickup → { ..., bodyClass: 'SUV' }
+ * // and f_body_class=Pickup → null
+ */
+export function mapTableStateToVehicleSearch(state: TableRequestState): VehicleSearchFilters | null {
+  // Search criteria decoded through the route schema (invalid values never reach the API)
+  const query = decodeQueryState(SEARCH_QUERY_SCHEMA, state.queryParams).state;
+  const filters: VehicleSearchFilters = {
+    page: state.page,
+    size: state.size
+  };
+
+  if (state.sortBy) {
+    filters.sortBy = state.sortBy;
+    filters.sortOrder = state.sortOrder;
+  }
+
+  // Secondary sort keys travel as the full ordered list
+  if (state.sort && state.sort.length > 1) {
+    filters.sort = state.sort.map(criterion => `${criterion.field}:${criterion.order}`).join(',');
+  }
+
+  // The API only reads the plain "Manufacturer:Model,..." list (the URL may hold the compact or escaped form)
+  if (query.models) filters.models = modelCombosToApiParam(urlParamToModelCombos(query.models));
+  if (query.bodyClass) filters.bodyClass = query.bodyClass;
+  if (query.dataSource) filters.dataSource = query.dataSource;
+  if (query.yearMin !== undefined) filters.yearMin = query.yearMin;
+  if (query.yearMax !== undefined) filters.yearMax = query.yearMax;
+
+  // Column filters of the results table narrow the search further
+  const columnFilters = state.filters || {};
+
+  const year = columnFilters['year'];
+  if (year?.operator === 'range') {
+    if (year.min !== undefined) filters.yearMin = Math.max(year.min, filters.yearMin ?? year.min);
+    if (year.max !== undefined) filters.yearMax = Math.min(year.max, filters.yearMax ?? year.max);
+  }
+
+  // Ranges that don't overlap match nothing (the backend rejects yearMin > yearMax)
+  if (filters.yearMin !== undefined && filters.yearMax !== undefined && filters.yearMin > filters.yearMax) {
+    return null;
+  }
+
+  const instanceCount = columnFilters['instance_count'];
+  if (instanceCount?.operator === 'range') {
+    filters.instanceCountMin = instanceCount.min;
+    filters.instanceCountMax = instanceCount.max;
+  }
+
+  // Multi-select column filters keep the values the search form allows
+  const bodyClass = columnFilters['body_class'];
+  if (bodyClass?.operator === 'in') {
+    const values = intersectListFilter(filters.bodyClass, bodyClass.values);
+    if (values.length === 0) return null;
+    filters.bodyClass = values.join(',');
+  }
+
+  const dataSource = columnFilters['data_source'];
+  if (dataSource?.operator === 'in') {
+    const values = intersectListFilter(filters.dataSource, dataSource.values);
+    if (values.length === 0) return null;
+    filters.dataSource = values.join(',');
+  }
+
+  return filters;
+}
+
+/**
+ * API wire format of model combinations: unescaped "Manufacturer:Model" pairs,
+ * comma-separated. The backend splits on ',' and on the first ':' of each pair,
+ * so ':' inside a model name passes through; the URL's '\' escapes are not sent.
+ */
+function modelCombosToApiParam(combos: ModelCombination[]): string {
+  return combos.map(combo => `${combo.manufacturer}:${combo.model}`).join(',');
+}
+
+/**
+ * Values of a multi-select column filter allowed by a search-form value
+ * (a comma-separated list, matched case-insensitively like the backend; empty = all)
+ */
+function intersectListFilter(formValue: string | undefined, values: string[]): string[] {
+  const allowed = (formValue || '').split(',').filter(item => item !== '').map(item => item.toLowerCase());
+  return allowed.length === 0 ? values : values.filter(value => allowed.includes(value.toLowerCase()));
+}
+
+/**
+ * HELPER FUNCTION: Map Vehicle Row to VIN Instances Request
+ *
+ * Used as SubTableApiConfigRef.paramMapper by expandable vehicle tables:
+ * an expanded vehicle row fetches one page of its VINs.
+ *
+ * @param row - Expanded vehicle row (VehicleResult)
+ * @param request - Sub-table paging state
+ * @returns Request for the 'vinInstances' endpoint
+ */
+export function mapVehicleRowToVinRequest(
+  row: { manufacturer: string; model: string },
+  request: SubTableRequestState
+): { manufacturer: string; model: string; page: number; limit: number } {
+  return {
+    manufacturer: row.manufacturer,
+    model: row.model,
+    page: request.page,
+    limit: request.size
+  };
+}
+
 /**
  * HELPER FUNCTION: Get VIN Instances URL
  *
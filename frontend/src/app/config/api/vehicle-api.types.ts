@@ -21,7 +21,7 @@ import { BaseFilters, PaginatedResponse } from '../../core/services/api-config.i
 export interface VehicleSearchFilters extends BaseFilters {
   /**
    * SELECTED MODEL COMBINATIONS
-   * Comma-separated manufacturer:model pairs
+   * Comma-separated manufacturer:model pairs (unescaped; split on the first ':')
    * Example: "Ford:F-150,Chevrolet:Corvette"
    */
   models?: string;
@@ -56,17 +56,32 @@ export interface VehicleSearchFilters extends BaseFilters {
 
   /**
    * BODY CLASS FILTER
-   * Filter by vehicle body style
-   * Examples: "Pickup", "Sedan", "SUV", "Coupe"
+   * Filter by vehicle body style (comma-separated for several)
+   * Examples: "Pickup", "Sedan,SUV"
    */
   bodyClass?: string;
 
   /**
    * DATA SOURCE FILTER
-   * Filter by original data source
+   * Filter by original data source (comma-separated for several)
    * Example: "NHTSA"
    */
   dataSource?: string;
+
+  /**
+   * VIN COUNT RANGE
+   * Inclusive bounds on instance_count
+   * Example: 10
+   */
+  instanceCountMin?: number;
+  instanceCountMax?: number;
+
+  /**
+   * MULTI-COLUMN SORT
+   * Ordered "field:direction" list; sortBy/sortOrder carry its first entry
+   * Example: "manufacturer:asc,model:asc,year:desc"
+   */
+  sort?: string;
 }
 
 /**
@@ -0,0 +1,75 @@
+/*
+  WORKSHOP LAYOUTS CONFIGURATION
+
+  PURPOSE:
+  Built-in panel layouts for the Workshop page (12-column grid).
+  Users can modify these (changes persist to localStorage) or save
+  their own named layouts alongside them.
+
+  PANELS:
+  - picker:  Manufacturer/model picker (PICKER_TABLE_CONFIG)
+  - filters: Year range, body class, data source
+  - results: Vehicle results (RESULTS_TABLE_CONFIG)
+
+  URL:
+  /workshop?layout=results-focus  → selects a layout by name
+
+  USAGE:
+  import { WORKSHOP_LAYOUTS, DEFAULT_WORKSHOP_LAYOUT } from './config/layouts/workshop-layouts.config';
+*/
+
+import { PanelLayout } from '../../shared/models/panel-layout.model';
+
+/**
+ * Workspace ID used as the localStorage key suffix (panelLayouts_workshop)
+ */
+export const WORKSHOP_WORKSPACE_ID = 'workshop';
+
+/**
+ * Panels available in the Workshop (titles shared by the grid and pop-out windows)
+ */
+export const WORKSHOP_PANELS: { id: string; title: string }[] = [
+  { id: 'picker', title: 'Manufacturers & Models' },
+  { id: 'filters', title: 'Filters' },
+  { id: 'results', title: 'Results' }
+];
+
+/**
+ * Layout used when the URL and localStorage don't name one
+ */
+export const DEFAULT_WORKSHOP_LAYOUT = 'default';
+
+export const WORKSHOP_LAYOUTS: PanelLayout[] = [
+  // Picker + filters stacked on the left, results on the right
+  {
+    name: 'default',
+    label: 'Default',
+    items: [
+      { id: 'picker', x: 0, y: 0, w: 4, h: 8, minW: 3, minH: 3 },
+      { id: 'filters', x: 0, y: 8, w: 4, h: 4, minW: 3, minH: 2 },
+      { id: 'results', x: 4, y: 0, w: 8, h: 12, minW: 4, minH: 4 }
+    ]
+  },
+
+  // Full-width results with the picker and filters side by side above
+  {
+    name: 'results-focus',
+    label: 'Results Focus',
+    items: [
+      { id: 'picker', x: 0, y: 0, w: 6, h: 6, minW: 3, minH: 3 },
+      { id: 'filters', x: 6, y: 0, w: 6, h: 6, minW: 3, minH: 2 },
+      { id: 'results', x: 0, y: 6, w: 12, h: 10, minW: 4, minH: 4 }
+    ]
+  },
+
+  // Three equal columns
+  {
+    name: 'columns',
+    label: 'Three Columns',
+    items: [
+      { id: 'picker', x: 0, y: 0, w: 4, h: 12, minW: 3, minH: 3 },
+      { id: 'filters', x: 4, y: 0, w: 4, h: 12, minW: 3, minH: 2 },
+      { id: 'results', x: 8, y: 0, w: 4, h: 12, minW: 4, minH: 4 }
+    ]
+  }
+];
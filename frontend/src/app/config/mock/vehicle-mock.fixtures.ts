@@ -0,0 +1,179 @@
+/*
+  VEHICLE MOCK FIXTURES
+
+  PURPOSE:
+  Generated vehicle data served by the mock backend (VEHICLE_MOCK_ROUTES).
+  Generation is seeded, so every run (and every e2e test) sees exactly the
+  same manufacturers, vehicles and VINs.
+
+  DATA:
+  - MOCK_CATALOG:  manufacturers → models (with body class)
+  - Vehicles:      one row per manufacturer/model/year (VehicleResult shape)
+  - VINs:          instance_count per vehicle, generated on demand per page
+                   (never materialized - large counts cost nothing)
+
+  USAGE:
+  import { getMockVehicles, getMockVins } from './config/mock/vehicle-mock.fixtures';
+*/
+
+import { VehicleResult } from '../api/vehicle-api.types';
+import { VEHICLE_DATA_SOURCES } from '../query-state/search-query.schema';
+
+/**
+ * Manufacturer → [model, body class] catalog
+ */
+export const MOCK_CATALOG: Record<string, Array<[string, string]>> = {
+  'BMW': [['3 Series', 'Sedan'], ['M4', 'Coupe'], ['X5', 'SUV'], ['Z4', 'Convertible']],
+  'Chevrolet': [['Camaro', 'Convertible'], ['Corvette', 'Coupe'], ['Equinox', 'SUV'], ['Malibu', 'Sedan'], ['Silverado', 'Pickup'], ['Tahoe', 'SUV']],
+  'Dodge': [['Challenger', 'Coupe'], ['Charger', 'Sedan'], ['Grand Caravan', 'Van'], ['Ram 1500', 'Pickup']],
+  'Ford': [['Escape', 'SUV'], ['Explorer', 'SUV'], ['F-150', 'Pickup'], ['Focus', 'Sedan'], ['Mustang', 'Coupe'], ['Transit', 'Van']],
+  'Honda': [['Accord', 'Sedan'], ['CR-V', 'SUV'], ['Civic', 'Sedan'], ['Fit', 'Hatchback'], ['Odyssey', 'Van']],
+  'Jeep': [['Gladiator', 'Pickup'], ['Grand Cherokee', 'SUV'], ['Wrangler', 'SUV']],
+  'Subaru': [['Forester', 'SUV'], ['Impreza', 'Hatchback'], ['Outback', 'Wagon'], ['WRX', 'Sedan']],
+  'Tesla': [['Model 3', 'Sedan'], ['Model S', 'Sedan'], ['Model X', 'SUV'], ['Model Y', 'SUV']],
+  'Toyota': [['Camry', 'Sedan'], ['Corolla', 'Sedan'], ['Prius', 'Hatchback'], ['RAV4', 'SUV'], ['Sienna', 'Van'], ['Tacoma', 'Pickup']],
+  'Volkswagen': [['Golf', 'Hatchback'], ['Jetta', 'Sedan'], ['Passat', 'Wagon'], ['Tiguan', 'SUV']]
+};
+
+const DATA_SOURCES = [...VEHICLE_DATA_SOURCES];
+const STATES = ['CA', 'TX', 'FL', 'NY', 'IL', 'PA', 'OH', 'GA', 'WA', 'AZ', 'CO', 'MI'];
+const COLORS = ['Black', 'White', 'Silver', 'Gray', 'Blue', 'Red', 'Green', 'Brown'];
+const TITLE_STATUSES = ['Clean', 'Clean', 'Clean', 'Salvage', 'Rebuilt', 'Lemon'];
+const VIN_CHARS = 'ABCDEFGHJKLMNPRSTUVWXYZ0123456789';  // No I, O, Q
+
+const FIRST_YEAR = 2008;
+const LAST_YEAR = 2024;
+
+/**
+ * Seeded pseudo-random generator (mulberry32) returning floats in [0, 1)
+ */
+function createRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6D2B79F5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Stable 32-bit hash of a string (seeds per-vehicle / per-VIN generators)
+ */
+function hashString(value: string): number {
+  let hash = 2166136261;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 16777619);
+  }
+  return hash >>> 0;
+}
+
+function pick<T>(random: () => number, values: T[]): T {
+  return values[Math.floor(random() * values.length)];
+}
+
+let vehicles: VehicleResult[] | undefined;
+
+/**
+ * ALL MOCK VEHICLES
+ *
+ * One row per manufacturer/model/year, generated once and memoized.
+ * Each model is produced for a contiguous run of years.
+ *
+ * @returns VehicleResult rows (sorted by manufacturer, model, year)
+ */
+export function getMockVehicles(): VehicleResult[] {
+  if (vehicles) {
+    return vehicles;
+  }
+
+  vehicles = [];
+  Object.keys(MOCK_CATALOG).forEach(manufacturer => {
+    MOCK_CATALOG[manufacturer].forEach(([model, bodyClass]) => {
+      const random = createRandom(hashString(`${manufacturer}|${model}`));
+      const startYear = FIRST_YEAR + Math.floor(random() * 8);
+      const endYear = Math.min(LAST_YEAR, startYear + 4 + Math.floor(random() * 10));
+
+      for (let year = startYear; year <= endYear; year++) {
+        const key = `${manufacturer}|${model}|${year}`;
+        vehicles!.push({
+          vehicle_id: `mock-${hashString(key).toString(16)}`,
+          manufacturer,
+          model,
+          year,
+          body_class: bodyClass,
+          data_source: pick(random, DATA_SOURCES),
+          make_model_year: key,
+          instance_count: 5 + Math.floor(random() * 120)
+        });
+      }
+    });
+  });
+
+  return vehicles;
+}
+
+/**
+ * MOCK VIN PAGE
+ *
+ * VINs for a manufacturer/model (all years), generated for the requested
+ * page only. VIN #i of a model is always the same VIN.
+ *
+ * @param manufacturer - Manufacturer name (case-insensitive)
+ * @param model - Model name (case-insensitive)
+ * @param page - 1-indexed page
+ * @param limit - Page size
+ * @returns The page of VIN rows and the total VIN count
+ */
+export function getMockVins(
+  manufacturer: string,
+  model: string,
+  page: number,
+  limit: number
+): { instances: any[]; total: number } {
+  const rows = getMockVehicles().filter(v =>
+    v.manufacturer.toLowerCase() === manufacturer.toLowerCase() &&
+    v.model.toLowerCase() === model.toLowerCase()
+  );
+  const total = rows.reduce((sum, v) => sum + (v.instance_count || 0), 0);
+
+  const instances: any[] = [];
+  const start = (page - 1) * limit;
+  const end = Math.min(start + limit, total);
+
+  for (let index = start; index < end; index++) {
+    // Find the model year this VIN index falls into
+    let offset = index;
+    const vehicle = rows.find(v => {
+      if (offset < (v.instance_count || 0)) {
+        return true;
+      }
+      offset -= v.instance_count || 0;
+      return false;
+    })!;
+
+    const random = createRandom(hashString(`${vehicle.make_model_year}#${offset}`));
+    let vin = '';
+    for (let i = 0; i < 17; i++) {
+      vin += pick(random, VIN_CHARS.split(''));
+    }
+
+    const age = LAST_YEAR - vehicle.year;
+    instances.push({
+      vin,
+      manufacturer: vehicle.manufacturer,
+      model: vehicle.model,
+      year: vehicle.year,
+      registered_state: pick(random, STATES),
+      exterior_color: pick(random, COLORS),
+      estimated_value: Math.round((45000 - age * 2500) * (0.7 + random() * 0.6) / 100) * 100,
+      mileage: Math.round(age * (8000 + random() * 8000)),
+      condition_rating: 1 + Math.floor(random() * 5),
+      title_status: pick(random, TITLE_STATUSES)
+    });
+  }
+
+  return { instances, total };
+}
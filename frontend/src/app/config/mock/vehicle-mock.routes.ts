@@ -0,0 +1,215 @@
+/*
+  VEHICLE MOCK ROUTES
+
+  PURPOSE:
+  Mock backend handlers for VEHICLE_API_CONFIG, served from the generated
+  fixtures in vehicle-mock.fixtures.ts. Paths are derived from the API config,
+  so they follow the real endpoints if those ever move.
+
+  ENDPOINTS:
+  - GET /v1/manufacturer-model-combinations  → { data, total, page, size, totalPages }
+  - GET /v1/vehicle-details                  → { results, total, page, size, totalPages }
+      models (Ford:F-150,...), manufacturer, model, yearMin, yearMax,
+      bodyClass, dataSource (comma lists), instanceCountMin, instanceCountMax,
+      sortBy, sortOrder, sort (field:dir,... - wins over sortBy), page, size
+  - GET /v1/vins                             → { instances, total, page, limit }
+      manufacturer, model, page, limit
+
+  USAGE:
+  { provide: MOCK_ROUTES, useValue: VEHICLE_MOCK_ROUTES, multi: true }
+*/
+
+import { MockRoute, MockRequest, MockResponse } from '../../core/mock-backend';
+import { VEHICLE_API_CONFIG } from '../api/vehicle-api.config';
+import { Manufacturer, VehicleResult } from '../api/vehicle-api.types';
+import { getMockVehicles, getMockVins } from './vehicle-mock.fixtures';
+
+/**
+ * Full mock path of a VEHICLE_API_CONFIG endpoint (basePath + url)
+ */
+function endpointPath(endpointId: string): string {
+  return `${VEHICLE_API_CONFIG.basePath || ''}${VEHICLE_API_CONFIG.endpoints[endpointId].url}`;
+}
+
+/**
+ * Reads a positive integer param, falling back to a default
+ */
+function intParam(request: MockRequest, key: string, fallback: number): number {
+  const value = parseInt(request.params[key], 10);
+  return isNaN(value) || value < 1 ? fallback : value;
+}
+
+/**
+ * Case-insensitive equality for text filters
+ */
+function sameText(a: string | undefined, b: string): boolean {
+  return (a || '').toLowerCase() === b.toLowerCase();
+}
+
+/**
+ * Case-insensitive membership in a comma-separated list param (empty list = no filter)
+ */
+function inList(list: string | undefined, value: string): boolean {
+  const items = (list || '').split(',').filter(item => item !== '');
+  return items.length === 0 || items.some(item => sameText(value, item));
+}
+
+/**
+ * Model combinations of the 'models' param, parsed like the real backend:
+ * pairs split on ',', manufacturer before the first ':' (no escaping)
+ */
+function parseModelsParam(param: string | undefined): Array<{ manufacturer: string; model: string }> {
+  return (param || '')
+    .split(',')
+    .filter(pair => pair.includes(':'))
+    .map(pair => {
+      const separator = pair.indexOf(':');
+      return { manufacturer: pair.substring(0, separator), model: pair.substring(separator + 1) };
+    });
+}
+
+/**
+ * Sort keys of a search request: 'sort' list (field:dir,...) or sortBy/sortOrder
+ */
+function parseSort(params: Record<string, string>): Array<{ field: keyof VehicleResult; direction: number }> {
+  const entries = params['sort']
+    ? params['sort'].split(',')
+    : params['sortBy'] ? [`${params['sortBy']}:${params['sortOrder'] || 'asc'}`] : [];
+
+  return entries.map(entry => {
+    const [field, order] = entry.split(':');
+    return { field: field as keyof VehicleResult, direction: order === 'desc' ? -1 : 1 };
+  });
+}
+
+/**
+ * Slices one page out of a list and wraps it in the paginated envelope
+ */
+function paginate<T>(rows: T[], page: number, size: number) {
+  return {
+    items: rows.slice((page - 1) * size, page * size),
+    total: rows.length,
+    page,
+    size,
+    totalPages: Math.ceil(rows.length / size)
+  };
+}
+
+/**
+ * GET manufacturer-model-combinations
+ * Without a size param, all manufacturers are returned on one page
+ */
+function handleManufacturerModelCounts(request: MockRequest): MockResponse {
+  const byManufacturer = new Map<string, Manufacturer>();
+
+  getMockVehicles().forEach(vehicle => {
+    let entry = byManufacturer.get(vehicle.manufacturer);
+    if (!entry) {
+      entry = { manufacturer: vehicle.manufacturer, count: 0, models: [] };
+      byManufacturer.set(vehicle.manufacturer, entry);
+    }
+
+    let model = entry.models.find(m => m.model === vehicle.model);
+    if (!model) {
+      model = { model: vehicle.model, count: 0 };
+      entry.models.push(model);
+    }
+
+    model.count++;
+    entry.count++;
+  });
+
+  const manufacturers = Array.from(byManufacturer.values());
+  const { items, ...meta } = paginate(
+    manufacturers,
+    intParam(request, 'page', 1),
+    intParam(request, 'size', manufacturers.length || 1)
+  );
+
+  return { body: { data: items, ...meta } };
+}
+
+/**
+ * GET vehicle-details
+ * Filters, sorts and pages the fixture vehicles like the real search endpoint
+ */
+function handleVehicleSearch(request: MockRequest): MockResponse {
+  const params = request.params;
+  const yearMin = parseInt(params['yearMin'], 10);
+  const yearMax = parseInt(params['yearMax'], 10);
+  const countMin = parseInt(params['instanceCountMin'], 10);
+  const countMax = parseInt(params['instanceCountMax'], 10);
+
+  if (!isNaN(yearMin) && !isNaN(yearMax) && yearMin > yearMax) {
+    return { status: 400, body: { message: 'yearMin must not be greater than yearMax' } };
+  }
+
+  const combos = parseModelsParam(params['models']);
+
+  let rows = getMockVehicles().filter(vehicle =>
+    (combos.length === 0 || combos.some(c =>
+      sameText(c.manufacturer, vehicle.manufacturer) && sameText(c.model, vehicle.model))) &&
+    (!params['manufacturer'] || sameText(params['manufacturer'], vehicle.manufacturer)) &&
+    (!params['model'] || sameText(params['model'], vehicle.model)) &&
+    (isNaN(yearMin) || vehicle.year >= yearMin) &&
+    (isNaN(yearMax) || vehicle.year <= yearMax) &&
+    (isNaN(countMin) || (vehicle.instance_count || 0) >= countMin) &&
+    (isNaN(countMax) || (vehicle.instance_count || 0) <= countMax) &&
+    inList(params['bodyClass'], vehicle.body_class) &&
+    inList(params['dataSource'], vehicle.data_source)
+  );
+
+  const sortKeys = parseSort(params);
+  if (sortKeys.length > 0) {
+    // Array.prototype.sort is stable, so rows equal on every key keep fixture order
+    rows = [...rows].sort((a, b) => {
+      for (const { field, direction } of sortKeys) {
+        const left = a[field] ?? '';
+        const right = b[field] ?? '';
+        const result = typeof left === 'number' && typeof right === 'number'
+          ? left - right
+          : String(left).localeCompare(String(right));
+        if (result !== 0) {
+          return result * direction;
+        }
+      }
+      return 0;
+    });
+  }
+
+  const { items, ...meta } = paginate(
+    rows,
+    intParam(request, 'page', 1),
+    intParam(request, 'size', 20)
+  );
+
+  return { body: { results: items, ...meta } };
+}
+
+/**
+ * GET vins
+ * One page of VINs for a manufacturer/model
+ */
+function handleVinInstances(request: MockRequest): MockResponse {
+  const manufacturer = request.params['manufacturer'];
+  const model = request.params['model'];
+
+  if (!manufacturer || !model) {
+    return { status: 400, body: { message: 'manufacturer and model are required' } };
+  }
+
+  const page = intParam(request, 'page', 1);
+  const limit = intParam(request, 'limit', 20);
+  const { instances, total } = getMockVins(manufacturer, model, page, limit);
+
+  return { body: { instances, total, page, limit } };
+}
+
+/**
+ * VEHICLE MOCK ROUTES
+ */
+export const VEHICLE_MOCK_ROUTES: MockRoute[] = [
+  { method: 'GET', path: endpointPath('manufacturerModelCounts'), handle: handleManufacturerModelCounts },
+  { method: 'GET', path: endpointPath('search'), handle: handleVehicleSearch },
+  { method: 'GET', path: endpointPath('vinInstances'), handle: handleVinInstances }
+];
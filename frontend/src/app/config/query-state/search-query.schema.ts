@@ -0,0 +1,69 @@
+/*
+  SEARCH QUERY STATE SCHEMAS
+
+  PURPOSE:
+  Declarative query param schemas for the /search and /workshop routes
+  (see core/services/query-state.model.ts). Registered as route data, so
+  invalid params are repaired on navigation, and used by the components and
+  the results table's paramMapper to read typed search criteria.
+
+  PARAMS:
+  - models:     "Manufacturer:Model,..." (picker selection; compact "~..." when large)
+  - yearMin:    integer 1900-2100
+  - yearMax:    integer 1900-2100
+  - bodyClass:  one of VEHICLE_BODY_CLASSES
+  - dataSource: free text
+  - layout:     (workshop only) layout name slug
+
+  Table params (page, pageSize, sort, f_*) are owned and validated by
+  BaseTableComponent, not by these schemas.
+
+  USAGE:
+  this.urlState.selectState(SEARCH_QUERY_SCHEMA).subscribe(state => state.yearMin);
+*/
+
+import { defineQueryStateSchema, QueryState } from '../../core/services/query-state.model';
+
+/**
+ * Body classes known to the vehicle backend
+ */
+export const VEHICLE_BODY_CLASSES = [
+  'Sedan',
+  'Coupe',
+  'Convertible',
+  'Hatchback',
+  'Wagon',
+  'SUV',
+  'Pickup',
+  'Van'
+] as const;
+
+export type VehicleBodyClass = typeof VEHICLE_BODY_CLASSES[number];
+
+/**
+ * Data sources known to the vehicle backend
+ */
+export const VEHICLE_DATA_SOURCES = ['NHTSA', 'EPA'] as const;
+
+/**
+ * /search query params
+ */
+export const SEARCH_QUERY_SCHEMA = defineQueryStateSchema({
+  models: { type: 'string' },
+  yearMin: { type: 'integer', min: 1900, max: 2100 },
+  yearMax: { type: 'integer', min: 1900, max: 2100 },
+  bodyClass: { type: 'string', values: VEHICLE_BODY_CLASSES },
+  dataSource: { type: 'string' }
+});
+
+export type SearchQueryState = QueryState<typeof SEARCH_QUERY_SCHEMA>;
+
+/**
+ * /workshop query params (search criteria + active layout)
+ */
+export const WORKSHOP_QUERY_SCHEMA = defineQueryStateSchema({
+  ...SEARCH_QUERY_SCHEMA,
+  layout: { type: 'string', pattern: /^[a-z0-9-]+$/ }
+});
+
+export type WorkshopQueryState = QueryState<typeof WORKSHOP_QUERY_SCHEMA>;
@@ -2,35 +2,37 @@
   EXPANDABLE ROW DEMO CONFIGURATION
 
   PURPOSE:
-  Demonstrates expandable row functionality with static sub-table data.
+  Demonstrates expandable row functionality with lazy-loaded sub-tables.
   Shows vehicle search results with expandable VIN instance details.
 
   FEATURES:
   - Expandable vehicle rows (click chevron to expand)
-  - Static VIN instance sub-table data (from parent row property)
+  - VIN instances fetched on expand (vinInstances endpoint, one page at a time)
+  - Per-row loading/error states, cached after first load
   - No selection checkboxes (results table mode)
   - Demonstrates recursive BaseTable rendering
   - Compact sub-table styling
+  - Default multi-column sort: manufacturer, model, newest year first
+    (Shift+click headers to change it)
+  - Rows grouped by manufacturer (collapsible), VIN count sum/average per
+    manufacturer and for all vehicles
 
   USAGE:
   import { EXPANDABLE_DEMO_CONFIG } from './config/tables/expandable-demo.config';
-  <app-base-table [config]="EXPANDABLE_DEMO_CONFIG" [data]="vehicleData"></app-base-table>
+  <app-base-table [config]="{ ...EXPANDABLE_DEMO_CONFIG, data: vehicles }"></app-base-table>
 
   DATA STRUCTURE:
-  Parent rows must contain a 'vin_instances' property with an array of VIN details:
+  Parent rows are vehicle search results:
   {
     manufacturer: 'Ford',
     model: 'F-150',
     year: 2023,
-    instance_count: 3,
-    vin_instances: [
-      { vin: '1FTFW1...', registered_state: 'TX', ... },
-      ...
-    ]
+    instance_count: 1234    // Total VINs (sizes the sub-table paginator)
   }
 */
 
 import { TableConfig } from '../../shared/models/table-config.model';
+import { mapVehicleRowToVinRequest } from '../api/vehicle-api.config';
 
 export const EXPANDABLE_DEMO_CONFIG: TableConfig = {
   id: 'expandable-demo-table',
@@ -59,6 +61,7 @@ export const EXPANDABLE_DEMO_CONFIG: TableConfig = {
       key: 'year',
       label: 'Year',
       type: 'number',
+      format: { useGrouping: false },  // 2018, not 2,018
       width: '100px',
       sortable: true,
       filterable: false,
@@ -92,8 +95,19 @@ export const EXPANDABLE_DEMO_CONFIG: TableConfig = {
 
     // SUB-TABLE (VIN Instances)
     subTable: {
-      // Property name in parent row containing sub-data
-      dataKey: 'vin_instances',
+      // VINs are fetched when a row is expanded, one page at a time
+      apiConfigRef: {
+        configId: 'vehicles',
+        endpointId: 'vinInstances',
+        paramMapper: mapVehicleRowToVinRequest
+      },
+      totalKey: 'instance_count',  // Parent row's VIN count drives the sub-table paginator
+      pagination: {
+        enabled: true,
+        pageSize: 10,
+        pageSizeOptions: [10, 25, 50]
+      },
+
 
       // Sub-table columns
       columns: [
@@ -140,7 +154,8 @@ export const EXPANDABLE_DEMO_CONFIG: TableConfig = {
         {
           key: 'condition_rating',
           label: 'Condition',
-          type: 'number',
+          type: 'template',
+          templateName: 'conditionRating',  // ng-template provided by DemoComponent
           width: '90px',
           sortable: false,
           visible: true
@@ -157,6 +172,13 @@ export const EXPANDABLE_DEMO_CONFIG: TableConfig = {
     }
   },
 
+  // DEFAULT SORT (used while the URL has no sort param)
+  defaultSort: [
+    { field: 'manufacturer', order: 'asc' },
+    { field: 'model', order: 'asc' },
+    { field: 'year', order: 'desc' }
+  ],
+
   // PAGINATION
   pagination: {
     enabled: true,
@@ -166,6 +188,15 @@ export const EXPANDABLE_DEMO_CONFIG: TableConfig = {
     currentPageReportTemplate: 'Showing {first} to {last} of {totalRecords} vehicles'
   },
 
+  // ROW GROUPING (demo data is static, so all vehicles are grouped - the paginator is not used)
+  grouping: {
+    enabled: true,
+    groupBy: ['manufacturer'],
+    aggregates: [
+      { key: 'instance_count', functions: ['sum', 'avg'] }
+    ]
+  },
+
   // STYLING
   striped: true,
   bordered: false,
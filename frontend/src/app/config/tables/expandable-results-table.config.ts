@@ -9,7 +9,9 @@
   - Expandable rows (click to show VIN instances)
   - Sub-table shows detailed VIN information
   - Sortable columns in both parent and sub-table
+  - Column filters (year / VIN count ranges, body class multi-select, VIN value range)
   - Pagination for parent table
+  - Export to CSV / XLSX / JSON (optionally with VIN instances)
   - Configuration-driven API (references vehicle API config)
 
   USAGE:
@@ -22,15 +24,24 @@
 */
 
 import { TableConfig } from '../../shared/models/table-config.model';
+import { VEHICLE_BODY_CLASSES } from '../query-state/search-query.schema';
+import { mapTableStateToVehicleSearch, mapVehicleRowToVinRequest } from '../api/vehicle-api.config';
 
 export const EXPANDABLE_RESULTS_TABLE_CONFIG: TableConfig = {
   id: 'vehicle-results-expandable-table',
 
+  // URL STATE
+  // Drop-in for the results table: primary table of its route (bare page/sort params)
+  urlState: {
+    alias: ''
+  },
+
   // API CONFIGURATION REFERENCE
   // Main table uses search endpoint, expansion uses vinInstances endpoint
   apiConfigRef: {
     configId: 'vehicles',
-    endpointId: 'search'
+    endpointId: 'search',
+    paramMapper: mapTableStateToVehicleSearch  // Adds models/year/bodyClass/dataSource from the URL
   },
 
   // PARENT TABLE COLUMNS
@@ -57,9 +68,10 @@ export const EXPANDABLE_RESULTS_TABLE_CONFIG: TableConfig = {
       key: 'year',
       label: 'Year',
       type: 'number',
+      format: { useGrouping: false },  // 2018, not 2,018
       width: '100px',
       sortable: true,
-      filterable: false,
+      filterable: true,
       visible: true
     },
     {
@@ -68,7 +80,8 @@ export const EXPANDABLE_RESULTS_TABLE_CONFIG: TableConfig = {
       type: 'text',
       width: '120px',
       sortable: true,
-      filterable: false,
+      filterable: true,
+      filterOptions: VEHICLE_BODY_CLASSES,
       visible: true
     },
     {
@@ -77,7 +90,7 @@ export const EXPANDABLE_RESULTS_TABLE_CONFIG: TableConfig = {
       type: 'number',
       width: '100px',
       sortable: true,
-      filterable: false,
+      filterable: true,
       visible: true
     }
   ],
@@ -90,7 +103,21 @@ export const EXPANDABLE_RESULTS_TABLE_CONFIG: TableConfig = {
 
     // SUB-TABLE (VIN Instances)
     subTable: {
-      dataKey: 'vin_instances',  // Property name in parent row containing sub-data
+      dataKey: 'vin_instances',  // Property name in parent row containing sub-data (if embedded)
+
+      // Otherwise VINs are fetched when a row is expanded, one page at a time
+      apiConfigRef: {
+        configId: 'vehicles',
+        endpointId: 'vinInstances',
+        paramMapper: mapVehicleRowToVinRequest
+      },
+      totalKey: 'instance_count',  // Parent row's VIN count drives the sub-table paginator
+      pagination: {
+        enabled: true,
+        pageSize: 10,
+        pageSizeOptions: [10, 25, 50]
+      },
+
       columns: [
         {
           key: 'vin',
@@ -122,6 +149,7 @@ export const EXPANDABLE_RESULTS_TABLE_CONFIG: TableConfig = {
           type: 'currency',
           width: '100px',
           sortable: false,
+          filterable: true,  // Range filter (client-side, within the loaded page)
           visible: true
         },
         {
@@ -160,6 +188,12 @@ export const EXPANDABLE_RESULTS_TABLE_CONFIG: TableConfig = {
     position: 'bottom'
   },
 
+  // EXPORT (optionally with each vehicle's VIN instances as sub-rows)
+  export: {
+    enabled: true,
+    fileName: 'vehicle-results-vins'
+  },
+
   // STYLING
   striped: true,
   bordered: false,
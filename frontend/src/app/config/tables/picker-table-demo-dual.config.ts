@@ -7,6 +7,7 @@
  * FEATURES:
  * - Dual checkboxes embedded in manufacturer and model columns
  * - Hierarchical parent-child selection (manufacturer → models)
+ * - Tri-state manufacturer checkbox (indeterminate when some models are selected)
  * - Sortable and filterable columns
  * - Apply Selection button with counts
  * - URL-first state management for selections
@@ -22,6 +23,7 @@
  */
 
 import { TableConfig } from '../../shared/models/table-config.model';
+import { flattenManufacturerModels } from '../api/vehicle-api.config';
 
 export const PICKER_TABLE_DEMO_DUAL_CONFIG: TableConfig = {
   id: 'manufacturer-model-picker-dual',
@@ -30,7 +32,9 @@ export const PICKER_TABLE_DEMO_DUAL_CONFIG: TableConfig = {
   // This table fetches data from the vehicle API's manufacturerModelCounts endpoint
   apiConfigRef: {
     configId: 'vehicles',
-    endpointId: 'manufacturerModelCounts'
+    endpointId: 'manufacturerModelCounts',
+    paramMapper: () => ({}),  // Always fetch the full list (paging/sorting happen client-side)
+    responseTransformer: flattenManufacturerModels  // One row per manufacturer-model pair
   },
 
   // COLUMNS
@@ -76,7 +80,8 @@ export const PICKER_TABLE_DEMO_DUAL_CONFIG: TableConfig = {
       parentKey: 'manufacturer',
       childKey: 'model',
       parentColumn: 0,       // Checkbox in manufacturer column
-      childColumn: 1         // Checkbox in model column
+      childColumn: 1,        // Checkbox in model column
+      parentCheckbox: 'tri-state'  // Manufacturer checkbox shows partial selection
     },
 
     // Apply button
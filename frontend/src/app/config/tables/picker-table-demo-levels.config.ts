@@ -0,0 +1,115 @@
+/**
+ * PICKER TABLE CONFIGURATION - N-LEVEL HIERARCHY
+ *
+ * Configuration for the demo picker table with a three-level hierarchy.
+ * Demonstrates hierarchical selection with manufacturer → model → year.
+ *
+ * FEATURES:
+ * - Single checkbox column on left side
+ * - Three-level selection (selection.hierarchical.levels)
+ * - Manufacturer and model rows with tri-state checkboxes (derived from the years below)
+ * - Manufacturer/model checkboxes cascade to every year below them
+ * - URL-first state management for selections ("Ford|F-150|2022,...";
+ *   partial keys like "Ford|F-150" select every year of that model)
+ *
+ * ARCHITECTURE:
+ * - Configuration-driven: All behavior defined here, no code changes needed
+ * - Used by demo component for the N-level variant
+ *
+ * NOTE:
+ * Rows are the first page of vehicle search results (one per manufacturer-model-year).
+ * The actual API endpoints are defined in src/app/config/api/vehicle-api.config.ts
+ */
+
+import { TableConfig } from '../../shared/models/table-config.model';
+import { VehicleSearchResponse } from '../api/vehicle-api.types';
+
+export const PICKER_TABLE_DEMO_LEVELS_CONFIG: TableConfig = {
+  id: 'manufacturer-model-year-picker',
+
+  // API CONFIGURATION REFERENCE
+  // This table fetches data from the vehicle API's search endpoint
+  apiConfigRef: {
+    configId: 'vehicles',
+    endpointId: 'search',
+    paramMapper: () => ({ page: 1, size: 50 }),  // Always the same list (paging happens client-side)
+    responseTransformer: (response: VehicleSearchResponse) => response?.results || []
+  },
+
+  // COLUMNS (manufacturer and model are shown on their level rows)
+  columns: [
+    {
+      key: 'year',
+      label: 'Year',
+      type: 'number',
+      sortable: true,
+      filterable: false,
+      visible: true,
+      width: '100px'
+    },
+    {
+      key: 'body_class',
+      label: 'Body Class',
+      type: 'text',
+      sortable: true,
+      filterable: false,
+      visible: true,
+      width: '200px'
+    },
+    {
+      key: 'instance_count',
+      label: 'VINs',
+      type: 'number',
+      sortable: true,
+      filterable: false,
+      visible: true,
+      width: '100px'
+    }
+  ],
+
+  // SELECTION CONFIGURATION
+  selection: {
+    enabled: true,
+    mode: 'multi',
+    displayMode: 'single',  // One selection column on left
+
+    // Hierarchical selection (three levels)
+    hierarchical: {
+      enabled: true,
+      levels: ['manufacturer', 'model', 'year'],
+      parentCheckbox: 'tri-state'  // Manufacturer and model rows show partial selection
+    },
+
+    // Apply button
+    applyButton: {
+      enabled: true,
+      text: 'Apply Selection',
+      position: 'both'
+    },
+
+    // Selection info
+    showCount: true,
+    clearButton: true,
+
+    // URL-first state management
+    urlParam: 'vehicles-levels'
+  },
+
+  // PAGINATION
+  pagination: {
+    enabled: true,
+    pageSize: 50,
+    pageSizeOptions: [20, 50],
+    showCurrentPageReport: true,
+    currentPageReportTemplate: 'Showing {first} to {last} of {totalRecords} vehicles'
+  },
+
+  // STYLING
+  striped: true,
+  bordered: false,
+  hoverable: true,
+  size: 'normal',
+
+  // EMPTY STATE
+  emptyMessage: 'No vehicles available'
+};
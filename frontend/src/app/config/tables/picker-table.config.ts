@@ -11,6 +11,9 @@
   - Apply Selection button
   - Selection count display
   - Configuration-driven API (references vehicle API config)
+  - Virtual scrolling (the full manufacturer-model list, no pages)
+  - URL params under 'picker.' (picker.sort, picker.f_model, picker.selected),
+    apart from the results table's
 
   USAGE:
   import { PICKER_TABLE_CONFIG } from './config/tables/picker-table.config';
@@ -22,15 +25,24 @@
 */
 
 import { TableConfig } from '../../shared/models/table-config.model';
+import { flattenManufacturerModels } from '../api/vehicle-api.config';
 
 export const PICKER_TABLE_CONFIG: TableConfig = {
   id: 'manufacturer-model-picker',
 
+  // URL STATE
+  // Shares its route with the results table: ?picker.sort=model:asc
+  urlState: {
+    alias: 'picker'
+  },
+
   // API CONFIGURATION REFERENCE
   // This table fetches data from the vehicle API's manufacturerModelCounts endpoint
   apiConfigRef: {
     configId: 'vehicles',
-    endpointId: 'manufacturerModelCounts'
+    endpointId: 'manufacturerModelCounts',
+    paramMapper: () => ({}),  // Always fetch the full list (paging/sorting happen client-side)
+    responseTransformer: flattenManufacturerModels  // One row per manufacturer-model pair
   },
 
   // COLUMNS
@@ -80,6 +92,14 @@ export const PICKER_TABLE_CONFIG: TableConfig = {
     clearButton: true
   },
 
+  // VIRTUAL SCROLL
+  // Thousands of manufacturer-model rows: render only those in view
+  virtualScroll: {
+    enabled: true,
+    rowHeight: 44,
+    viewportHeight: '480px'
+  },
+
   // STYLING
   striped: true,
   bordered: false,
@@ -7,7 +7,11 @@
   FEATURES:
   - Display vehicle search results
   - Sortable columns
+  - Column filters (year / VIN count ranges, body class / source multi-selects)
   - Pagination
+  - Column manager (hide/reorder/resize, saved per user; Manufacturer is locked)
+  - Export to CSV / XLSX / JSON
+  - Primary table of its route: bare URL params (page, pageSize, sort, f_*)
   - No selection checkboxes (display only)
   - Configuration-driven API (references vehicle API config)
 
@@ -21,15 +25,24 @@
 */
 
 import { TableConfig } from '../../shared/models/table-config.model';
+import { VEHICLE_BODY_CLASSES, VEHICLE_DATA_SOURCES } from '../query-state/search-query.schema';
+import { mapTableStateToVehicleSearch } from '../api/vehicle-api.config';
 
 export const RESULTS_TABLE_CONFIG: TableConfig = {
   id: 'vehicle-results-table',
 
+  // URL STATE
+  // Primary table of /search and /workshop: keeps the readable ?page=2&sort=year:desc
+  urlState: {
+    alias: ''
+  },
+
   // API CONFIGURATION REFERENCE
   // This table fetches data from the vehicle API's search endpoint
   apiConfigRef: {
     configId: 'vehicles',
-    endpointId: 'search'
+    endpointId: 'search',
+    paramMapper: mapTableStateToVehicleSearch  // Adds models/year/bodyClass/dataSource from the URL
   },
 
   // COLUMNS
@@ -41,7 +54,8 @@ export const RESULTS_TABLE_CONFIG: TableConfig = {
       width: '150px',
       sortable: true,
       filterable: false,
-      visible: true
+      visible: true,
+      locked: true  // Identifies the row: always shown, always first
     },
     {
       key: 'model',
@@ -56,9 +70,10 @@ export const RESULTS_TABLE_CONFIG: TableConfig = {
       key: 'year',
       label: 'Year',
       type: 'number',
+      format: { useGrouping: false },  // 2018, not 2,018
       width: '100px',
       sortable: true,
-      filterable: false,
+      filterable: true,
       visible: true
     },
     {
@@ -67,7 +82,8 @@ export const RESULTS_TABLE_CONFIG: TableConfig = {
       type: 'text',
       width: '120px',
       sortable: true,
-      filterable: false,
+      filterable: true,
+      filterOptions: VEHICLE_BODY_CLASSES,
       visible: true
     },
     {
@@ -76,7 +92,8 @@ export const RESULTS_TABLE_CONFIG: TableConfig = {
       type: 'text',
       width: '120px',
       sortable: false,
-      filterable: false,
+      filterable: true,
+      filterOptions: VEHICLE_DATA_SOURCES,
       visible: true
     },
     {
@@ -85,7 +102,7 @@ export const RESULTS_TABLE_CONFIG: TableConfig = {
       type: 'number',
       width: '100px',
       sortable: true,
-      filterable: false,
+      filterable: true,
       visible: true
     }
   ],
@@ -98,6 +115,17 @@ export const RESULTS_TABLE_CONFIG: TableConfig = {
     position: 'bottom'
   },
 
+  // COLUMN MANAGER
+  columnManager: {
+    enabled: true
+  },
+
+  // EXPORT (all pages are fetched from the search endpoint)
+  export: {
+    enabled: true,
+    fileName: 'vehicle-results'
+  },
+
   // STYLING
   striped: true,
   bordered: false,
@@ -0,0 +1,2 @@
+// Barrel file for the mock backend
+export * from './mock-backend.interceptor';
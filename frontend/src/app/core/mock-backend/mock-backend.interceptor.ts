@@ -0,0 +1,160 @@
+/*
+  MOCK BACKEND INTERCEPTOR
+
+  PURPOSE:
+  Answers HTTP requests in the browser from registered mock routes, so the
+  app (and e2e tests) run without the real backend. Like ApiService, it is
+  generic: it knows nothing about vehicles - domains register MockRoute
+  handlers through the MOCK_ROUTES multi-provider.
+
+  ENABLING:
+  environment.mockBackend.enabled (environment.mock.ts sets it):
+    npm run start:mock   →   ng serve --configuration mock
+  AppModule only registers the interceptor when the flag is on, so
+  production bundles never route through it.
+
+  MATCHING:
+  Routes match on HTTP method + the END of the URL path, so the same route
+  works for ApiService URLs (apiUrl + basePath + endpoint) and raw
+  RequestCoordinatorService URLs. Query params are read from HttpParams
+  and from the URL's own query string. Unmatched requests pass through.
+
+  REGISTRATION:
+  providers: [
+    { provide: HTTP_INTERCEPTORS, useClass: MockBackendInterceptor, multi: true },
+    { provide: MOCK_ROUTES, useValue: VEHICLE_MOCK_ROUTES, multi: true }
+  ]
+*/
+
+import { Injectable, Inject, Optional, InjectionToken } from '@angular/core';
+import {
+  HttpInterceptor,
+  HttpRequest,
+  HttpHandler,
+  HttpEvent,
+  HttpResponse,
+  HttpErrorResponse
+} from '@angular/common/http';
+import { Observable, of, throwError, timer } from 'rxjs';
+import { delay, mergeMap } from 'rxjs/operators';
+
+import { environment } from '../../../environments/environment';
+
+/**
+ * Parsed request handed to a mock route handler
+ */
+export interface MockRequest {
+  method: string;
+  path: string;                     // URL path without query string
+  params: Record<string, string>;   // Query params (HttpParams + URL query string)
+  body: any;
+}
+
+/**
+ * Mock route handler result
+ * status defaults to 200; status >= 400 is delivered as an HttpErrorResponse
+ */
+export interface MockResponse {
+  status?: number;
+  body: any;
+}
+
+/**
+ * MOCK ROUTE
+ *
+ * One mocked endpoint.
+ *
+ * @example
+ * { method: 'GET', path: '/v1/vins', handle: req => ({ body: { instances: [] } }) }
+ */
+export interface MockRoute {
+  method: 'GET' | 'POST' | 'PUT' | 'DELETE' | 'PATCH';
+  path: string;   // Matched against the end of the request path
+  handle: (request: MockRequest) => MockResponse;
+}
+
+/**
+ * MOCK ROUTES INJECTION TOKEN
+ *
+ * Multi-provider token; each provider contributes an array of routes.
+ */
+export const MOCK_ROUTES = new InjectionToken<MockRoute[][]>('MOCK_ROUTES');
+
+@Injectable()
+export class MockBackendInterceptor implements HttpInterceptor {
+  private routes: MockRoute[];
+
+  constructor(@Optional() @Inject(MOCK_ROUTES) routes: MockRoute[][] | null) {
+    this.routes = (routes || []).reduce((all, group) => all.concat(group), [] as MockRoute[]);
+    console.log('[MockBackend] Enabled with', this.routes.length, 'routes');
+  }
+
+  intercept(req: HttpRequest<any>, next: HttpHandler): Observable<HttpEvent<any>> {
+    const request = this.parseRequest(req);
+    const route = this.routes.find(
+      r => r.method === request.method && request.path.endsWith(r.path)
+    );
+
+    if (!route) {
+      console.warn('[MockBackend] No mock route, passing through:', req.method, req.urlWithParams);
+      return next.handle(req);
+    }
+
+    console.log('[MockBackend] Handling:', request.method, request.path, request.params);
+
+    const latency = environment.mockBackend.latency;
+
+    let response: MockResponse;
+    try {
+      response = route.handle(request);
+    } catch (error: any) {
+      console.error('[MockBackend] Route handler failed:', error);
+      response = { status: 500, body: { message: error?.message || 'Mock handler error' } };
+    }
+
+    const status = response.status ?? 200;
+
+    if (status >= 400) {
+      return timer(latency).pipe(
+        mergeMap(() => throwError(() => new HttpErrorResponse({
+          status,
+          statusText: 'Mock Error',
+          url: req.urlWithParams,
+          error: response.body
+        })))
+      );
+    }
+
+    return of(new HttpResponse({
+      status,
+      statusText: 'OK',
+      url: req.urlWithParams,
+      body: response.body
+    })).pipe(delay(latency));
+  }
+
+  /**
+   * Splits the request URL into path + params (HttpParams win over the query string)
+   */
+  private parseRequest(req: HttpRequest<any>): MockRequest {
+    const [path, query] = req.url.split('?');
+    const params: Record<string, string> = {};
+
+    new URLSearchParams(query || '').forEach((value, key) => {
+      params[key] = value;
+    });
+    req.params.keys().forEach(key => {
+      const value = req.params.get(key);
+      if (value !== null) {
+        params[key] = value;
+      }
+    });
+
+    return {
+      method: req.method,
+      path: path.replace(/^[a-z]+:\/\/[^/]+/i, ''),
+      params,
+      body: req.body
+    };
+  }
+}
@@ -0,0 +1,234 @@
+import { fakeAsync, tick } from '@angular/core/testing';
+import { Observable, Subscription } from 'rxjs';
+
+import { ApiCachePolicy, ApiCacheService } from './api-cache.service';
+
+// Response time of the fake requests
+const LATENCY_MS = 100;
+
+describe('ApiCacheService', () => {
+  const TTL_MS = 1000;
+
+  const policy: ApiCachePolicy = { ttl: TTL_MS, staleWhileRevalidate: false, maxEntries: 10 };
+
+  let cache: ApiCacheService;
+
+  beforeEach(() => {
+    cache = new ApiCacheService();
+  });
+
+  describe('buildKey', () => {
+    it('should not depend on the key order of params', () => {
+      expect(cache.buildKey('vehicles.search', { size: 20, page: 1 }))
+        .toBe(cache.buildKey('vehicles.search', { page: 1, size: 20 }));
+      expect(cache.buildKey('vehicles.search')).toBe('vehicles.search::{}');
+    });
+
+    it('should sort the keys of objects nested in arrays but keep array order', () => {
+      const a = cache.buildKey('vehicles.search', { sort: [{ order: 1, field: 'year' }, { order: -1, field: 'make' }] });
+      const b = cache.buildKey('vehicles.search', { sort: [{ field: 'year', order: 1 }, { field: 'make', order: -1 }] });
+      const reordered = cache.buildKey('vehicles.search', { sort: [{ field: 'make', order: -1 }, { field: 'year', order: 1 }] });
+
+      expect(a).toBe(b);
+      expect(a).not.toBe(reordered);
+    });
+  });
+
+  describe('TTL', () => {
+    it('should serve fresh responses from the cache', fakeAsync(() => {
+      const fetch = new FakeFetch();
+
+      expect(load(cache, 'a', fetch, policy)).toEqual(['response 1']);
+      tick(TTL_MS - LATENCY_MS - 1);
+      expect(load(cache, 'a', fetch, policy)).toEqual(['response 1']);
+      expect(fetch.calls).toBe(1);
+    }));
+
+    it('should fetch again once the response has expired', fakeAsync(() => {
+      const fetch = new FakeFetch();
+
+      load(cache, 'a', fetch, policy);
+      tick(TTL_MS);
+
+      expect(load(cache, 'a', fetch, policy)).toEqual(['response 2']);
+      expect(fetch.calls).toBe(2);
+    }));
+
+    it('should only dedupe in-flight requests with a ttl of 0', fakeAsync(() => {
+      const fetch = new FakeFetch();
+      const noStore = { ...policy, ttl: 0 };
+
+      load(cache, 'a', fetch, noStore);
+      expect(load(cache, 'a', fetch, noStore)).toEqual(['response 2']);
+      expect(cache.getStats().size).toBe(0);
+    }));
+  });
+
+  describe('stale-while-revalidate', () => {
+    const swr = { ...policy, staleWhileRevalidate: true };
+
+    it('should serve the stale response at once and refresh it in the background', fakeAsync(() => {
+      const fetch = new FakeFetch();
+
+      load(cache, 'a', fetch, swr);
+      tick(TTL_MS);
+
+      const values: string[] = [];
+      subscribe(cache, 'a', fetch, swr, values);
+      expect(values).toEqual(['response 1']);
+      expect(fetch.calls).toBe(2);
+
+      tick(LATENCY_MS);
+      expect(load(cache, 'a', fetch, swr)).toEqual(['response 2']);
+      expect(fetch.calls).toBe(2);
+    }));
+
+    it('should start one background refresh for concurrent stale hits', fakeAsync(() => {
+      const fetch = new FakeFetch();
+
+      load(cache, 'a', fetch, swr);
+      tick(TTL_MS);
+      subscribe(cache, 'a', fetch, swr, []);
+      subscribe(cache, 'a', fetch, swr, []);
+      tick(LATENCY_MS);
+
+      expect(fetch.calls).toBe(2);
+    }));
+
+    it('should keep the stale response when the refresh fails', fakeAsync(() => {
+      const fetch = new FakeFetch();
+
+      load(cache, 'a', fetch, swr);
+      tick(TTL_MS);
+      fetch.fail = true;
+      subscribe(cache, 'a', fetch, swr, []);
+      tick(LATENCY_MS);
+
+      fetch.fail = false;
+      expect(load(cache, 'a', fetch, swr)).toEqual(['response 1']);
+    }));
+  });
+
+  describe('in-flight requests', () => {
+    it('should share one request between concurrent subscribers', fakeAsync(() => {
+      const fetch = new FakeFetch();
+      const first: string[] = [];
+      const second: string[] = [];
+
+      subscribe(cache, 'a', fetch, policy, first);
+      subscribe(cache, 'a', fetch, policy, second);
+      tick(LATENCY_MS);
+
+      expect(fetch.calls).toBe(1);
+      expect(first).toEqual(['response 1']);
+      expect(second).toEqual(['response 1']);
+    }));
+
+    it('should cancel the request when the last subscriber unsubscribes', fakeAsync(() => {
+      const fetch = new FakeFetch();
+
+      const first = subscribe(cache, 'a', fetch, policy, []);
+      const second = subscribe(cache, 'a', fetch, policy, []);
+      first.unsubscribe();
+      expect(fetch.cancelled).toBe(0);
+
+      second.unsubscribe();
+      expect(fetch.cancelled).toBe(1);
+
+      tick(LATENCY_MS);
+      expect(cache.getStats().size).toBe(0);
+      expect(load(cache, 'a', fetch, policy)).toEqual(['response 2']);
+    }));
+
+    it('should not store a response whose scope was invalidated while it ran', fakeAsync(() => {
+      const fetch = new FakeFetch();
+
+      subscribe(cache, 'vehicles.search::a', fetch, policy, [], 'vehicles.search');
+      cache.invalidate('vehicles');
+      tick(LATENCY_MS);
+
+      expect(cache.getStats('vehicles').size).toBe(0);
+    }));
+  });
+
+  describe('eviction', () => {
+    it('should evict the least recently used entries of a group', fakeAsync(() => {
+      const fetch = new FakeFetch();
+      const capped = { ...policy, maxEntries: 2 };
+
+      load(cache, 'a', fetch, capped, 'vehicles.search');
+      load(cache, 'b', fetch, capped, 'vehicles.counts');
+      load(cache, 'other', fetch, capped, 'vins');
+      load(cache, 'a', fetch, capped, 'vehicles.search');      // a is now more recent than b
+      load(cache, 'c', fetch, capped, 'vehicles.search');
+
+      expect(cache.getStats('vehicles').keys).toEqual(['a', 'c']);
+      expect(cache.getStats('vins').keys).toEqual(['other']);
+    }));
+  });
+});
+
+// ============================================================================
+// TEST HELPERS
+// ============================================================================
+
+/**
+ * Fake request: emits "response N" for the Nth call after LATENCY_MS
+ */
+class FakeFetch {
+  calls = 0;
+  cancelled = 0;
+  fail = false;
+
+  readonly fetch = (): Observable<string> => new Observable<string>(subscriber => {
+    const call = ++this.calls;
+    let done = false;
+
+    const timer = setTimeout(() => {
+      done = true;
+      if (this.fail) {
+        subscriber.error(new Error(`request ${call} failed`));
+      } else {
+        subscriber.next(`response ${call}`);
+        subscriber.complete();
+      }
+    }, LATENCY_MS);
+
+    return () => {
+      if (!done) {
+        this.cancelled++;
+        clearTimeout(timer);
+      }
+    };
+  });
+}
+
+function subscribe(
+  cache: ApiCacheService,
+  key: string,
+  fetch: FakeFetch,
+  policy: ApiCachePolicy,
+  values: string[],
+  scope: string = 'vehicles.search'
+): Subscription {
+  return cache.get(scope, key, fetch.fetch, policy).subscribe({
+    next: value => values.push(value),
+    error: () => undefined
+  });
+}
+
+/**
+ * Request through the cache and wait for the response
+ */
+function load(
+  cache: ApiCacheService,
+  key: string,
+  fetch: FakeFetch,
+  policy: ApiCachePolicy,
+  scope: string = 'vehicles.search'
+): string[] {
+  const values: string[] = [];
+  subscribe(cache, key, fetch, policy, values, scope);
+  tick(LATENCY_MS);
+  return values;
+}
@@ -0,0 +1,303 @@
+/*
+  API CACHE SERVICE
+
+  PURPOSE:
+  Single in-memory response cache shared by ApiService (per config/endpoint)
+  and RequestCoordinatorService (raw GET URLs). Combines three things that
+  were previously scattered or missing:
+  1. In-flight deduplication: identical concurrent requests share ONE HTTP call
+  2. TTL caching: completed responses are reused until they expire
+  3. Stale-while-revalidate: expired responses can be served instantly while
+     a background request refreshes them
+
+  CACHE KEYS:
+  Every entry belongs to a SCOPE and is keyed by scope + request params:
+    'vehicles.manufacturerModelCounts::{}'
+    'vehicles.search::{"page":1,"size":20}'
+  Params are serialized with sorted keys, so {a, b} and {b, a} share an entry.
+  The part of the scope before the first '.' is the GROUP (usually the
+  ApiConfig.id) - maxEntries is enforced per group, least recently used first.
+
+  INVALIDATION:
+  invalidate('vehicles')          → every vehicles.* entry
+  invalidate('vehicles.search')   → only the search endpoint's entries
+  invalidateMatching('/v1/vins')  → entries whose key contains the text
+
+  USAGE:
+  Components don't use this service directly - set ApiConfig.cache and call
+  ApiService as usual. ApiService.invalidateCache() exposes invalidation.
+*/
+
+import { Injectable } from '@angular/core';
+import { Observable, of } from 'rxjs';
+import { finalize, shareReplay, tap } from 'rxjs/operators';
+
+/**
+ * Resolved caching policy for a single request
+ */
+export interface ApiCachePolicy {
+  // How long a stored response is fresh (ms). 0 = dedupe in-flight requests only
+  ttl: number;
+
+  // Serve expired responses while refreshing in the background
+  staleWhileRevalidate: boolean;
+
+  // Maximum stored responses for the key's group
+  maxEntries: number;
+}
+
+/**
+ * Cache entry: the stored response and/or the request currently fetching it
+ */
+interface ApiCacheEntry {
+  scope: string;
+  value?: any;
+  hasValue: boolean;
+  storedAt: number;
+  inFlight?: Observable<any>;
+}
+
+/**
+ * API CACHE SERVICE
+ *
+ * Map-based cache. The Map's insertion order doubles as recency order:
+ * every hit re-inserts the entry, so the first entries are least recently used.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class ApiCacheService {
+  // Default time to live when a config enables caching without a ttl
+  static readonly DEFAULT_TTL = 5 * 60 * 1000; // 5 minutes
+
+  // Default cap on stored responses per group
+  static readonly DEFAULT_MAX_ENTRIES = 100;
+
+  private entries = new Map<string, ApiCacheEntry>();
+
+  /**
+   * BUILD CACHE KEY
+   *
+   * @param scope - Entry scope, e.g. 'vehicles.search'
+   * @param params - Request params (serialized with sorted keys)
+   * @returns Cache key string
+   */
+  buildKey(scope: string, params?: any): string {
+    return `${scope}::${JSON.stringify(this.sortObjectKeys(params ?? {}))}`;
+  }
+
+  /**
+   * GET OR FETCH
+   *
+   * Returns the cached response for the key when it is fresh, shares the
+   * in-flight request when one is running, otherwise calls fetch().
+   *
+   * @param scope - Entry scope (group + optional '.endpoint')
+   * @param key - Cache key from buildKey()
+   * @param fetch - Creates the request Observable (called lazily)
+   * @param policy - TTL / stale-while-revalidate / entry cap
+   * @returns Observable emitting the (cached or fresh) response once
+   */
+  get<T>(
+    scope: string,
+    key: string,
+    fetch: () => Observable<T>,
+    policy: ApiCachePolicy
+  ): Observable<T> {
+    const entry = this.entries.get(key);
+
+    if (entry?.hasValue) {
+      const age = Date.now() - entry.storedAt;
+
+      if (age < policy.ttl) {
+        console.log('[ApiCache] Fresh hit:', key);
+        this.touch(key, entry);
+        return of(entry.value as T);
+      }
+
+      if (policy.staleWhileRevalidate) {
+        console.log('[ApiCache] Stale hit, revalidating in background:', key);
+        this.touch(key, entry);
+        if (!entry.inFlight) {
+          this.fetchInto(scope, key, fetch, policy).subscribe({
+            error: error => console.warn('[ApiCache] Background revalidation failed:', key, error)
+          });
+        }
+        return of(entry.value as T);
+      }
+    }
+
+    if (entry?.inFlight) {
+      console.log('[ApiCache] Sharing in-flight request:', key);
+      return entry.inFlight;
+    }
+
+    return this.fetchInto(scope, key, fetch, policy);
+  }
+
+  /**
+   * INVALIDATE SCOPE
+   *
+   * Drops stored responses for a group ('vehicles') or a single endpoint
+   * ('vehicles.search'). In-flight requests still complete but their
+   * responses are not stored.
+   *
+   * @param scope - Group or group.endpoint to invalidate
+   * @returns Number of entries removed
+   */
+  invalidate(scope: string): number {
+    let count = 0;
+    for (const [key, entry] of Array.from(this.entries.entries())) {
+      if (entry.scope === scope || entry.scope.startsWith(`${scope}.`)) {
+        this.entries.delete(key);
+        count++;
+      }
+    }
+    console.log('[ApiCache] Invalidated', count, 'entries for scope:', scope);
+    return count;
+  }
+
+  /**
+   * INVALIDATE MATCHING
+   *
+   * Drops entries whose key contains the given text, optionally limited to a scope.
+   *
+   * @param pattern - Text to look for in cache keys
+   * @param scope - Optional scope the entries must belong to
+   * @returns Number of entries removed
+   */
+  invalidateMatching(pattern: string, scope?: string): number {
+    let count = 0;
+    for (const [key, entry] of Array.from(this.entries.entries())) {
+      if (scope && entry.scope !== scope) {
+        continue;
+      }
+      if (key.includes(pattern)) {
+        this.entries.delete(key);
+        count++;
+      }
+    }
+    console.log('[ApiCache] Invalidated', count, 'entries matching:', pattern);
+    return count;
+  }
+
+  /**
+   * CLEAR ALL
+   */
+  clear(): void {
+    console.log('[ApiCache] Clearing cache, count:', this.entries.size);
+    this.entries.clear();
+  }
+
+  /**
+   * CACHE STATS (DEBUG)
+   *
+   * @param scope - Optional scope to limit the stats to
+   * @returns Entry count, keys and oldest stored timestamp
+   */
+  getStats(scope?: string): { size: number; keys: string[]; oldestEntry?: number } {
+    const matching = Array.from(this.entries.entries()).filter(
+      ([, entry]) => !scope || entry.scope === scope || entry.scope.startsWith(`${scope}.`)
+    );
+    const stored = matching.filter(([, entry]) => entry.hasValue).map(([, entry]) => entry.storedAt);
+
+    return {
+      size: matching.length,
+      keys: matching.map(([key]) => key),
+      oldestEntry: stored.length > 0 ? Math.min(...stored) : undefined
+    };
+  }
+
+  // ============================================================================
+  // PRIVATE HELPER METHODS
+  // ============================================================================
+
+  /**
+   * Starts a shared request for the key and stores its response when it arrives.
+   * A failed request keeps any previous (stale) value.
+   */
+  private fetchInto<T>(
+    scope: string,
+    key: string,
+    fetch: () => Observable<T>,
+    policy: ApiCachePolicy
+  ): Observable<T> {
+    const entry: ApiCacheEntry = this.entries.get(key) || { scope, hasValue: false, storedAt: 0 };
+
+    const request$ = fetch().pipe(
+      tap(value => {
+        // Skip storing if the entry was invalidated while the request ran
+        if (policy.ttl > 0 && this.entries.get(key) === entry) {
+          entry.value = value;
+          entry.hasValue = true;
+          entry.storedAt = Date.now();
+          this.touch(key, entry);
+          this.evict(scope, policy.maxEntries);
+        }
+      }),
+      finalize(() => {
+        entry.inFlight = undefined;
+        if (!entry.hasValue && this.entries.get(key) === entry) {
+          this.entries.delete(key);
+        }
+      }),
+      // Multicast: every subscriber shares one HTTP request and gets its response.
+      // refCount: when the last subscriber unsubscribes (e.g. a superseded
+      // table load), the HTTP request is cancelled and nothing is stored.
+      shareReplay({ bufferSize: 1, refCount: true })
+    );
+
+    entry.inFlight = request$;
+    this.entries.set(key, entry);
+
+    return request$;
+  }
+
+  /**
+   * Marks an entry as most recently used (moves it to the end of the Map)
+   */
+  private touch(key: string, entry: ApiCacheEntry): void {
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+  }
+
+  /**
+   * Evicts least recently used stored entries of the scope's group above the cap.
+   * Entries that only hold an in-flight request don't count.
+   */
+  private evict(scope: string, maxEntries: number): void {
+    const group = scope.split('.')[0];
+    const stored = Array.from(this.entries.entries()).filter(
+      ([, entry]) => entry.hasValue && entry.scope.split('.')[0] === group
+    );
+
+    const excess = stored.length - maxEntries;
+    for (let i = 0; i < excess; i++) {
+      const [key] = stored[i];
+      console.log('[ApiCache] Evicting least recently used entry:', key);
+      this.entries.delete(key);
+    }
+  }
+
+  /**
+   * Recursively sorts object keys (also of objects inside arrays) so param
+   * order doesn't affect cache keys. Array order is kept - it is significant.
+   */
+  private sortObjectKeys(obj: any): any {
+    if (Array.isArray(obj)) {
+      return obj.map(item => this.sortObjectKeys(item));
+    }
+    if (typeof obj !== 'object' || obj === null) {
+      return obj;
+    }
+
+    const sorted: any = {};
+    Object.keys(obj)
+      .sort()
+      .forEach(key => {
+        sorted[key] = this.sortObjectKeys(obj[key]);
+      });
+
+    return sorted;
+  }
+}
@@ -0,0 +1,153 @@
+/*
+  API CONFIGURATION REGISTRY SERVICE
+
+  PURPOSE:
+  Resolves API configuration IDs (e.g. 'vehicles') to their ApiConfig objects
+  at runtime. Table configurations only hold an ApiConfigRef (configId +
+  endpointId), so something has to map that ID back to the real configuration
+  before ApiService can make the call. This registry is that lookup.
+
+  WHY A REGISTRY:
+  1. Table configs stay serializable-ish and free of direct imports of API configs
+  2. New domains register their config once at module level - no component changes
+  3. BaseTableComponent (and anything else) can resolve any configId generically
+
+  REGISTRATION:
+  Configurations are provided with the API_CONFIGS multi-provider token:
+
+  // In app.module.ts
+  providers: [
+    { provide: API_CONFIGS, useValue: VEHICLE_API_CONFIG, multi: true }
+  ]
+
+  Configurations can also be registered imperatively with register().
+
+  USAGE:
+  const config = this.registry.getConfig('vehicles');
+  if (config) {
+    this.apiService.request(config, 'search', { page: 1, size: 20 });
+  }
+*/
+
+import { Injectable, Inject, Optional, InjectionToken } from '@angular/core';
+
+import { ApiConfig, ApiEndpointConfig } from './api-config.interface';
+
+/**
+ * API CONFIGS INJECTION TOKEN
+ *
+ * Multi-provider token used to register ApiConfig objects with the registry.
+ * Each provider contributes one configuration.
+ *
+ * @example
+ * ```typescript
+ * providers: [
+ *   { provide: API_CONFIGS, useValue: VEHICLE_API_CONFIG, multi: true },
+ *   { provide: API_CONFIGS, useValue: PRODUCT_API_CONFIG, multi: true }
+ * ]
+ * ```
+ */
+export const API_CONFIGS = new InjectionToken<ApiConfig[]>('API_CONFIGS');
+
+/**
+ * RESOLVED API REFERENCE
+ *
+ * Result of resolving a configId/endpointId pair.
+ */
+export interface ResolvedApiRef {
+  config: ApiConfig;
+  endpoint: ApiEndpointConfig;
+}
+
+/**
+ * API CONFIGURATION REGISTRY SERVICE
+ *
+ * Singleton lookup table of all ApiConfig objects known to the application.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class ApiConfigRegistryService {
+  // Registered configurations indexed by ApiConfig.id
+  private configs = new Map<string, ApiConfig>();
+
+  /**
+   * CONSTRUCTOR
+   *
+   * Registers every configuration provided through the API_CONFIGS token.
+   *
+   * @param configs - Configurations from API_CONFIGS multi-providers (optional)
+   */
+  constructor(@Optional() @Inject(API_CONFIGS) configs: ApiConfig[] | null) {
+    (configs || []).forEach(config => this.register(config));
+  }
+
+  /**
+   * REGISTER CONFIGURATION
+   *
+   * Adds (or replaces) a configuration in the registry.
+   *
+   * @param config - API configuration to register
+   */
+  register(config: ApiConfig): void {
+    if (this.configs.has(config.id)) {
+      console.warn(`[ApiConfigRegistry] Replacing existing config '${config.id}'`);
+    }
+    this.configs.set(config.id, config);
+  }
+
+  /**
+   * GET CONFIGURATION
+   *
+   * @param configId - The ApiConfig.id to look up
+   * @returns The configuration, or undefined if not registered
+   */
+  getConfig(configId: string): ApiConfig | undefined {
+    return this.configs.get(configId);
+  }
+
+  /**
+   * HAS CONFIGURATION
+   *
+   * @param configId - The ApiConfig.id to check
+   * @returns true if a configuration with this ID is registered
+   */
+  hasConfig(configId: string): boolean {
+    return this.configs.has(configId);
+  }
+
+  /**
+   * RESOLVE REFERENCE
+   *
+   * Resolves a configId/endpointId pair to the configuration and endpoint.
+   * Returns undefined (and logs why) if either part is missing.
+   *
+   * @param configId - The ApiConfig.id
+   * @param endpointId - The endpoint key within that configuration
+   * @returns Resolved config and endpoint, or undefined
+   */
+  resolve(configId: string, endpointId: string): ResolvedApiRef | undefined {
+    const config = this.configs.get(configId);
+    if (!config) {
+      console.error(`[ApiConfigRegistry] No API config registered with id '${configId}'`);
+      return undefined;
+    }
+
+    const endpoint = config.endpoints[endpointId];
+    if (!endpoint) {
+      console.error(`[ApiConfigRegistry] Endpoint '${endpointId}' not found in API config '${configId}'`);
+      return undefined;
+    }
+
+    return { config, endpoint };
+  }
+
+  /**
+   * GET REGISTERED IDS
+   *
+   * @returns IDs of all registered configurations (for debugging)
+   */
+  getConfigIds(): string[] {
+    return Array.from(this.configs.keys());
+  }
+}
@@ -14,6 +14,80 @@
 import { Observable } from 'rxjs';
 import { HttpParams } from '@angular/common/http';
 
+/**
+ * API CACHE CONFIGURATION
+ *
+ * Caching settings honored by ApiService (through ApiCacheService).
+ * Set on an ApiConfig to apply to all of its GET endpoints; an endpoint's
+ * own cache settings override the config-level values field by field.
+ */
+export interface ApiCacheConfig {
+  /**
+   * ENABLED
+   * Whether responses are cached at all
+   */
+  enabled: boolean;
+
+  /**
+   * TIME TO LIVE
+   * How long a cached response is fresh, in milliseconds
+   * Default: 5 minutes
+   */
+  ttl?: number;
+
+  /**
+   * STALE-WHILE-REVALIDATE
+   * When true, an expired response is still returned immediately while a
+   * background request refreshes it for the next caller
+   * Default: false (expired responses are refetched before returning)
+   */
+  staleWhileRevalidate?: boolean;
+
+  /**
+   * MAX ENTRIES
+   * Maximum number of cached responses kept for this configuration.
+   * Least recently used entries are evicted first.
+   * Default: 100
+   */
+  maxEntries?: number;
+}
+
+/**
+ * API RETRY CONFIGURATION
+ *
+ * Automatic retries for transient failures, with exponential backoff
+ * (delay, delay × 2, delay × 4, ... capped at maxDelay).
+ * Only idempotent methods (GET, PUT, DELETE) are ever retried.
+ */
+export interface ApiRetryConfig {
+  /**
+   * RETRY COUNT
+   * Maximum number of retries after the first attempt
+   */
+  count: number;
+
+  /**
+   * INITIAL DELAY
+   * Delay before the first retry, in milliseconds
+   * Default: 500
+   */
+  delay?: number;
+
+  /**
+   * MAX DELAY
+   * Upper bound for the backoff delay, in milliseconds
+   * Default: 8000
+   */
+  maxDelay?: number;
+
+  /**
+   * RETRYABLE STATUSES
+   * HTTP statuses worth retrying (0 = network error). Timeouts always are.
+   * Default: [0, 408, 429, 500, 502, 503, 504]
+   */
+  statuses?: number[];
+}
+
 /**
  * API ENDPOINT CONFIGURATION
  *
@@ -70,6 +144,28 @@ export interface ApiEndpointConfig<TRequest = any, TResponse = any> {
    * @returns Transformed response object
    */
   transformResponse?: (response: any) => TResponse;
+
+  /**
+   * CACHE OVERRIDE
+   * Optional per-endpoint cache settings, merged over ApiConfig.cache
+   * Example: { ttl: 30 * 60 * 1000 } for rarely-changing reference data
+   * Only GET endpoints are ever cached.
+   */
+  cache?: Partial<ApiCacheConfig>;
+
+  /**
+   * TIMEOUT
+   * Optional per-attempt timeout in milliseconds. A request that takes
+   * longer fails with a TimeoutError (which is retryable).
+   */
+  timeout?: number;
+
+  /**
+   * RETRY POLICY
+   * Optional automatic retries for transient failures (idempotent methods only)
+   * Example: { count: 2, delay: 500 } → retries after 500ms, then 1000ms
+   */
+  retry?: ApiRetryConfig;
 }
 
 /**
@@ -110,12 +206,10 @@ export interface ApiConfig {
 
   /**
    * CACHE CONFIGURATION
-   * Optional caching settings for this API
+   * Optional caching settings for this API (GET endpoints only)
+   * Cached entries can be dropped with ApiService.invalidateCache()
    */
-  cache?: {
-    enabled: boolean;
-    ttl?: number; // Time to live in milliseconds
-  };
+  cache?: ApiCacheConfig;
 }
 
 /**
@@ -0,0 +1,178 @@
+/*
+  API ERROR MODEL
+
+  PURPOSE:
+  One normalized error type for every failed API call, so UI code can tell
+  "the backend is down" from "your request was invalid" without digging
+  through HttpErrorResponse, TimeoutError or TypeError objects.
+
+  ERROR KINDS:
+  - network:    No response at all (offline, DNS, CORS, backend not running)
+  - timeout:    Endpoint timeout elapsed (ApiEndpointConfig.timeout)
+  - validation: 400 / 422 - the request itself was rejected
+  - client:     Other 4xx (401, 403, 404, ...)
+  - server:     5xx - the backend failed
+  - parse:      Response arrived but couldn't be parsed or transformed
+  - unknown:    Anything else
+
+  USAGE:
+  ApiService and RequestCoordinatorService always error with an ApiError:
+
+  this.apiService.get(VEHICLE_API_CONFIG, 'search', filters).subscribe({
+    error: (error: ApiError) => {
+      if (error.kind === 'validation') { ... }
+      this.message = error.userMessage;
+    }
+  });
+*/
+
+import { HttpErrorResponse } from '@angular/common/http';
+import { TimeoutError } from 'rxjs';
+
+/**
+ * Category of an API failure
+ */
+export type ApiErrorKind =
+  | 'network'
+  | 'timeout'
+  | 'validation'
+  | 'client'
+  | 'server'
+  | 'parse'
+  | 'unknown';
+
+/**
+ * Where the failed request was going (for logging and messages)
+ */
+export interface ApiErrorContext {
+  configId?: string;
+  endpointId?: string;
+  url?: string;
+}
+
+/**
+ * Default user-facing messages per kind
+ */
+const API_ERROR_MESSAGES: Record<ApiErrorKind, string> = {
+  network: 'Unable to reach the server. Check your connection and try again.',
+  timeout: 'The server took too long to respond. Please try again.',
+  validation: 'The request was rejected. Check your search criteria and try again.',
+  client: 'The requested data could not be loaded.',
+  server: 'The server encountered an error. Please try again in a moment.',
+  parse: 'The server returned data in an unexpected format.',
+  unknown: 'Something went wrong while loading data.'
+};
+
+/**
+ * Short titles per kind (error panel headings)
+ */
+const API_ERROR_TITLES: Record<ApiErrorKind, string> = {
+  network: 'Server unreachable',
+  timeout: 'Request timed out',
+  validation: 'Invalid request',
+  client: 'Request failed',
+  server: 'Server error',
+  parse: 'Unexpected response',
+  unknown: 'Error'
+};
+
+/**
+ * API ERROR
+ *
+ * Normalized error thrown by ApiService / RequestCoordinatorService.
+ */
+export class ApiError extends Error {
+  /**
+   * @param kind - Failure category
+   * @param message - Technical message (for logs)
+   * @param status - HTTP status, when there was a response
+   * @param context - Config/endpoint/URL of the failed request
+   * @param details - Response body, when the backend sent one (e.g. validation errors)
+   * @param cause - Original error
+   */
+  constructor(
+    readonly kind: ApiErrorKind,
+    message: string,
+    readonly status?: number,
+    readonly context: ApiErrorContext = {},
+    readonly details?: any,
+    readonly cause?: any
+  ) {
+    super(message);
+    this.name = 'ApiError';
+    Object.setPrototypeOf(this, ApiError.prototype);
+  }
+
+  /**
+   * Message safe to show to users
+   * Validation errors prefer the backend's own message when it sent one
+   */
+  get userMessage(): string {
+    if (this.kind === 'validation' && typeof this.details?.message === 'string') {
+      return this.details.message;
+    }
+    return API_ERROR_MESSAGES[this.kind];
+  }
+
+  /**
+   * Short heading for error panels
+   */
+  get title(): string {
+    return API_ERROR_TITLES[this.kind];
+  }
+
+  /**
+   * Whether trying again might succeed (transient failures)
+   */
+  get retryable(): boolean {
+    return this.kind === 'network' || this.kind === 'timeout' || this.kind === 'server';
+  }
+}
+
+/**
+ * NORMALIZE ERROR
+ *
+ * Converts whatever a request pipeline threw into an ApiError.
+ * Already-normalized errors are returned unchanged.
+ *
+ * @param error - Raw error (HttpErrorResponse, TimeoutError, TypeError, ...)
+ * @param context - Config/endpoint/URL of the failed request
+ * @returns ApiError
+ */
+export function toApiError(error: any, context: ApiErrorContext = {}): ApiError {
+  if (error instanceof ApiError) {
+    return error;
+  }
+
+  if (error instanceof TimeoutError) {
+    return new ApiError('timeout', 'Request timed out', undefined, context, undefined, error);
+  }
+
+  if (error instanceof HttpErrorResponse) {
+    const fullContext = { ...context, url: context.url || error.url || undefined };
+
+    // Response received (2xx) but the body wasn't valid JSON
+    if (error.ok === false && error.status >= 200 && error.status < 300) {
+      return new ApiError('parse', error.message, error.status, fullContext, undefined, error);
+    }
+
+    // status 0 = the request never got a response
+    if (error.status === 0) {
+      return new ApiError('network', error.message, 0, fullContext, undefined, error);
+    }
+
+    if (error.status === 400 || error.status === 422) {
+      return new ApiError('validation', error.message, error.status, fullContext, error.error, error);
+    }
+
+    if (error.status >= 400 && error.status < 500) {
+      return new ApiError('client', error.message, error.status, fullContext, error.error, error);
+    }
+
+    if (error.status >= 500) {
+      return new ApiError('server', error.message, error.status, fullContext, error.error, error);
+    }
+  }
+
+  return new ApiError('unknown', error?.message || String(error), undefined, context, undefined, error);
+}
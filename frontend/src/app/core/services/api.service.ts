@@ -37,15 +37,36 @@
     'search',
     { page: 1, size: 20 }
   ).subscribe(data => ...);
+
+  CACHING:
+  GET endpoints honor ApiConfig.cache (and per-endpoint cache overrides)
+  through ApiCacheService: TTL, stale-while-revalidate and an entry cap.
+  Identical concurrent GETs always share one HTTP request, cached or not.
+
+  // After a mutation, drop cached responses
+  this.apiService.invalidateCache(VEHICLE_API_CONFIG, 'search');
+
+  RESILIENCE:
+  Endpoints can declare a per-attempt timeout and a retry policy
+  (exponential backoff, idempotent methods and transient statuses only):
+    search: { ..., timeout: 15000, retry: { count: 2, delay: 500 } }
+  Unsubscribing cancels the in-flight HTTP request (unless another
+  subscriber is sharing it), so callers get switchMap-style cancellation.
+
+  ERRORS:
+  Failed requests always error with an ApiError (see api-error.model.ts):
+  kind = network | timeout | validation | client | server | parse | unknown
 */
 
 import { Injectable } from '@angular/core';
-import { HttpClient, HttpParams, HttpHeaders } from '@angular/common/http';
-import { Observable, throwError } from 'rxjs';
-import { catchError, map } from 'rxjs/operators';
+import { HttpClient, HttpParams, HttpHeaders, HttpErrorResponse } from '@angular/common/http';
+import { Observable, throwError, timer, TimeoutError } from 'rxjs';
+import { catchError, map, retry, timeout } from 'rxjs/operators';
 
 // Import configuration interfaces
-import { ApiConfig, ApiEndpointConfig } from './api-config.interface';
+import { ApiConfig, ApiEndpointConfig, ApiRetryConfig } from './api-config.interface';
+import { ApiCacheService, ApiCachePolicy } from './api-cache.service';
+import { ApiError, toApiError } from './api-error.model';
 
 // Import environment configuration
 import { environment } from '../../../environments/environment';
@@ -71,14 +92,24 @@ export class ApiService {
    */
   private readonly apiUrl = environment.apiUrl;
 
+  /**
+   * DEFAULT RETRYABLE STATUSES
+   * Network errors (0), timeouts, rate limiting and transient server errors
+   */
+  static readonly RETRYABLE_STATUSES = [0, 408, 429, 500, 502, 503, 504];
+
   /**
    * CONSTRUCTOR
    *
    * Angular injects HttpClient dependency automatically.
    *
    * @param http - Angular's HTTP client for making requests
+   * @param cache - Shared response cache (honors ApiConfig.cache)
    */
-  constructor(private http: HttpClient) {}
+  constructor(
+    private http: HttpClient,
+    private cache: ApiCacheService
+  ) {}
 
   /**
    * GENERIC REQUEST METHOD
@@ -89,7 +120,7 @@ export class ApiService {
    * @param config - API configuration object
    * @param endpointId - Which endpoint to call (from config.endpoints)
    * @param requestData - Optional request data/filters
-   * @returns Observable<TResponse> - The response data
+   * @returns Observable<TResponse> - The response data (errors with ApiError)
    *
    * @example
    * ```typescript
@@ -113,7 +144,7 @@ export class ApiService {
     if (!endpoint) {
       const error = `Endpoint '${endpointId}' not found in API config '${config.id}'`;
       console.error(error);
-      return throwError(() => new Error(error));
+      return throwError(() => new ApiError('unknown', error, undefined, { configId: config.id, endpointId }));
     }
 
     // Build the full URL
@@ -156,28 +187,108 @@ export class ApiService {
         break;
 
       default:
-        return throwError(() => new Error(`Unsupported HTTP method: ${method}`));
+        return throwError(() => new ApiError(
+          'unknown',
+          `Unsupported HTTP method: ${method}`,
+          undefined,
+          { configId: config.id, endpointId, url }
+        ));
+    }
+
+    // Per-attempt timeout (fails with TimeoutError, which is retryable)
+    if (endpoint.timeout) {
+      request$ = request$.pipe(timeout(endpoint.timeout));
+    }
+
+    // Retries with exponential backoff - idempotent methods only
+    if (endpoint.retry && endpoint.retry.count > 0 && this.isIdempotent(method)) {
+      const policy = endpoint.retry;
+      request$ = request$.pipe(
+        retry({
+          count: policy.count,
+          delay: (error, retryCount) => {
+            if (!this.isRetryable(error, policy)) {
+              return throwError(() => error);
+            }
+            const backoff = this.getBackoffDelay(policy, retryCount);
+            console.warn(
+              `[ApiService] Retrying ${config.id}.${endpointId} (${retryCount}/${policy.count}) in ${backoff}ms`
+            );
+            return timer(backoff);
+          }
+        })
+      );
     }
 
     // Apply response transformation and error handling
-    return request$.pipe(
+    const response$ = request$.pipe(
       // Transform response if transformer is provided
+      // A transformer that throws means the response wasn't the expected shape
       map(response => {
-        if (endpoint.transformResponse) {
+        if (!endpoint.transformResponse) {
+          return response as TResponse;
+        }
+        try {
           return endpoint.transformResponse(response);
+        } catch (error: any) {
+          throw new ApiError(
+            'parse',
+            `transformResponse failed: ${error?.message || error}`,
+            undefined,
+            { configId: config.id, endpointId, url },
+            undefined,
+            error
+          );
         }
-        return response as TResponse;
       }),
 
-      // Error handling
+      // Error handling: every failure leaves here as a normalized ApiError
       catchError(error => {
+        const apiError = toApiError(error, { configId: config.id, endpointId, url });
         console.error(
-          `[ApiService] Request failed: ${config.id}.${endpointId}`,
-          error
+          `[ApiService] Request failed (${apiError.kind}): ${config.id}.${endpointId}`,
+          apiError
         );
-        return throwError(() => error);
+        return throwError(() => apiError);
       })
     );
+
+    // Only GETs are cached; anything else goes straight to the backend
+    if (method !== 'GET') {
+      return response$;
+    }
+
+    // Cache key uses the caller's request data (before transformRequest)
+    const scope = `${config.id}.${endpointId}`;
+    const cacheKey = this.cache.buildKey(scope, requestData);
+
+    return this.cache.get<TResponse>(
+      scope,
+      cacheKey,
+      () => response$,
+      this.resolveCachePolicy(config, endpoint)
+    );
+  }
+
+  /**
+   * INVALIDATE CACHE
+   *
+   * Drops cached responses for a whole configuration or a single endpoint.
+   * The next request refetches from the backend.
+   *
+   * @param config - API configuration (or its id)
+   * @param endpointId - Optional endpoint to limit invalidation to
+   * @returns Number of cached entries removed
+   *
+   * @example
+   * ```typescript
+   * this.apiService.invalidateCache(VEHICLE_API_CONFIG);                  // everything
+   * this.apiService.invalidateCache(VEHICLE_API_CONFIG, 'vinInstances');  // one endpoint
+   * ```
+   */
+  invalidateCache(config: ApiConfig | string, endpointId?: string): number {
+    const configId = typeof config === 'string' ? config : config.id;
+    return this.cache.invalidate(endpointId ? `${configId}.${endpointId}` : configId);
   }
 
   /**
@@ -296,6 +407,75 @@ export class ApiService {
     return url;
   }
 
+  /**
+   * IS IDEMPOTENT
+   *
+   * Only methods that can safely be repeated are retried.
+   * POST and PATCH may have side effects on every attempt.
+   */
+  private isIdempotent(method: string): boolean {
+    return method === 'GET' || method === 'PUT' || method === 'DELETE';
+  }
+
+  /**
+   * IS RETRYABLE
+   *
+   * Timeouts are always retryable; HTTP errors only for the configured
+   * (or default transient) statuses. Anything else fails immediately.
+   *
+   * @param error - Error from the failed attempt
+   * @param policy - Endpoint retry policy
+   */
+  private isRetryable(error: any, policy: ApiRetryConfig): boolean {
+    if (error instanceof TimeoutError) {
+      return true;
+    }
+    if (error instanceof HttpErrorResponse) {
+      const statuses = policy.statuses || ApiService.RETRYABLE_STATUSES;
+      return statuses.includes(error.status);
+    }
+    return false;
+  }
+
+  /**
+   * GET BACKOFF DELAY
+   *
+   * Exponential backoff: delay × 2^(retryCount - 1), capped at maxDelay.
+   *
+   * @param policy - Endpoint retry policy
+   * @param retryCount - 1 for the first retry, 2 for the second, ...
+   * @returns Delay in milliseconds
+   */
+  private getBackoffDelay(policy: ApiRetryConfig, retryCount: number): number {
+    const base = policy.delay ?? 500;
+    const max = policy.maxDelay ?? 8000;
+    return Math.min(base * Math.pow(2, retryCount - 1), max);
+  }
+
+  /**
+   * RESOLVE CACHE POLICY
+   *
+   * Merges the endpoint's cache override over ApiConfig.cache.
+   * Disabled caching resolves to ttl 0: concurrent requests are still
+   * deduplicated, but nothing is stored.
+   *
+   * @param config - API configuration
+   * @param endpoint - Endpoint configuration
+   * @returns Policy passed to ApiCacheService
+   */
+  private resolveCachePolicy(
+    config: ApiConfig,
+    endpoint: ApiEndpointConfig
+  ): ApiCachePolicy {
+    const settings = { enabled: false, ...config.cache, ...endpoint.cache };
+
+    return {
+      ttl: settings.enabled ? settings.ttl ?? ApiCacheService.DEFAULT_TTL : 0,
+      staleWhileRevalidate: settings.enabled && !!settings.staleWhileRevalidate,
+      maxEntries: settings.maxEntries ?? ApiCacheService.DEFAULT_MAX_ENTRIES
+    };
+  }
+
   /**
    * BUILD HTTP HEADERS
    *
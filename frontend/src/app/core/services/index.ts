@@ -1,6 +1,12 @@
 // Barrel file for core services
 export * from './api.service';
+export * from './api-cache.service';
+export * from './api-error.model';
 export * from './broadcast-channel.service';
 export * from './url-state.service';
+export * from './query-state.model';
 export * from './url-param.service';
 export * from './request-coordinator.service';
+export * from './api-config-registry.service';
+export * from './panel-popout.service';
+export * from './query-history.service';
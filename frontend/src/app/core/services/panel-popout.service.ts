@@ -0,0 +1,405 @@
+/*
+  PANEL POP-OUT SERVICE
+
+  PURPOSE:
+  Lets a panel of a grid workspace (e.g. Workshop) move into its own browser
+  window and keeps every window's URL state in sync over BroadcastChannel.
+  Filters, selections and pagination all live in the URL, so syncing query
+  params is enough to keep every panel consistent.
+
+  ROLES:
+  - Host: the main window that owns the grid (single source of truth)
+  - Pop-out: a window showing one panel, opened by the host
+
+  PROTOCOL (all messages carry the host's ID, so several hosts can coexist):
+  1. Host opens  /workshop/popout/{hostId}/{panelId}?{current query}
+  2. Pop-out  →  POPOUT_HELLO      { hostId, panelId }
+  3. Host     →  POPOUT_SNAPSHOT   { hostId, panelId, queryParams }
+     Pop-out applies the snapshot, then renders its panel
+  4. Either   →  POPOUT_STATE      { hostId, queryParams } whenever its URL changes
+  5. Pop-out  →  POPOUT_CLOSED     { hostId, panelId } when its window closes
+     Host restores the panel to the grid
+  6. Host     →  POPOUT_HOST_CLOSED { hostId } when it closes or leaves the page
+     Pop-outs close themselves
+
+  LOOP PREVENTION:
+  Every window remembers the last state it sent or applied. A URL change that
+  matches it (i.e. caused by applying a remote update) is not re-broadcast.
+
+  SCOPE:
+  Provided per component (not root) so subscriptions end with the workspace:
+
+  @Component({ providers: [PanelPopoutService] })
+*/
+
+import { Injectable, OnDestroy } from '@angular/core';
+import { BehaviorSubject, Observable, Subject, interval, timer } from 'rxjs';
+import { filter, map, takeUntil } from 'rxjs/operators';
+
+import { BroadcastChannelService } from './broadcast-channel.service';
+import { UrlStateService, QueryParams } from './url-state.service';
+
+/**
+ * Message types used by the pop-out protocol
+ */
+export const POPOUT_MESSAGES = {
+  HELLO: 'POPOUT_HELLO',
+  SNAPSHOT: 'POPOUT_SNAPSHOT',
+  STATE: 'POPOUT_STATE',
+  CLOSED: 'POPOUT_CLOSED',
+  HOST_CLOSED: 'POPOUT_HOST_CLOSED'
+} as const;
+
+/**
+ * Message payloads
+ */
+export interface PopoutHelloPayload {
+  hostId: string;
+  panelId: string;
+}
+
+export interface PopoutSnapshotPayload {
+  hostId: string;
+  panelId: string;
+  queryParams: QueryParams;
+}
+
+export interface PopoutStatePayload {
+  hostId: string;
+  queryParams: QueryParams;
+}
+
+export interface PopoutClosedPayload {
+  hostId: string;
+  panelId: string;
+}
+
+export interface PopoutHostClosedPayload {
+  hostId: string;
+}
+
+/**
+ * Options for starting a host or pop-out window
+ */
+export interface PopoutSyncOptions {
+  // Route prefix for pop-out windows (host only), e.g. '/workshop/popout'
+  popoutPath?: string;
+
+  // Query params that belong to one window and are never synced (e.g. 'layout')
+  localParams?: string[];
+}
+
+@Injectable()
+export class PanelPopoutService implements OnDestroy {
+  // Host ID shared by the host and all of its pop-outs
+  private hostId: string | null = null;
+  private role: 'host' | 'popout' | null = null;
+  private panelId: string | null = null;
+  private popoutPath = '/workshop/popout';
+  private localParams: string[] = [];
+
+  // Last synced state (serialized) - used to avoid echo loops
+  private lastSyncedKey = '';
+
+  // Host: open pop-out windows by panel ID
+  private windows = new Map<string, Window>();
+  private poppedOutSubject = new BehaviorSubject<string[]>([]);
+
+  // Pop-out: true once the host's snapshot has been applied (or timed out)
+  private readySubject = new BehaviorSubject<boolean>(false);
+
+  private destroy$ = new Subject<void>();
+
+  /**
+   * Host: IDs of panels currently shown in pop-out windows
+   */
+  poppedOut$: Observable<string[]> = this.poppedOutSubject.asObservable();
+
+  /**
+   * Pop-out: emits true when the initial state is in place
+   */
+  ready$: Observable<boolean> = this.readySubject.asObservable();
+
+  // Bound so it can be removed again
+  private readonly onBeforeUnload = (): void => this.announceClose();
+
+  constructor(
+    private broadcast: BroadcastChannelService,
+    private urlState: UrlStateService
+  ) {}
+
+  ngOnDestroy(): void {
+    this.announceClose();
+    window.removeEventListener('beforeunload', this.onBeforeUnload);
+    this.destroy$.next();
+    this.destroy$.complete();
+  }
+
+  // ============================================
+  // HOST
+  // ============================================
+
+  /**
+   * Start as the host (main window)
+   */
+  startHost(options: PopoutSyncOptions = {}): void {
+    this.role = 'host';
+    this.hostId = this.broadcast.getSenderId();
+    this.popoutPath = options.popoutPath || this.popoutPath;
+    this.localParams = options.localParams || [];
+    console.log('[PanelPopout] Started as host:', this.hostId);
+
+    // Handshake: a pop-out joined - send it the current state
+    this.on<PopoutHelloPayload>(POPOUT_MESSAGES.HELLO).subscribe(payload => {
+      console.log('[PanelPopout] Pop-out joined:', payload.panelId);
+      this.markPoppedOut(payload.panelId, true);
+      this.broadcast.sendMessage<PopoutSnapshotPayload>(POPOUT_MESSAGES.SNAPSHOT, {
+        hostId: this.hostId!,
+        panelId: payload.panelId,
+        queryParams: this.currentSharedParams()
+      });
+    });
+
+    // Pop-out closed - restore its panel
+    this.on<PopoutClosedPayload>(POPOUT_MESSAGES.CLOSED).subscribe(payload => {
+      console.log('[PanelPopout] Pop-out closed:', payload.panelId);
+      this.windows.delete(payload.panelId);
+      this.markPoppedOut(payload.panelId, false);
+    });
+
+    // Fallback cleanup: a pop-out that crashed never sends POPOUT_CLOSED
+    interval(1000)
+      .pipe(takeUntil(this.destroy$))
+      .subscribe(() => this.checkClosedWindows());
+
+    this.startStateSync();
+  }
+
+  /**
+   * Open a panel in a new window (MOVE semantics: host hides it)
+   *
+   * @returns false if the browser blocked the window
+   */
+  openPopout(panelId: string): boolean {
+    if (this.role !== 'host' || !this.hostId) {
+      console.error('[PanelPopout] openPopout() requires startHost()');
+      return false;
+    }
+
+    // Already open - just focus it
+    const existing = this.windows.get(panelId);
+    if (existing && !existing.closed) {
+      existing.focus();
+      return true;
+    }
+
+    const query = new URLSearchParams();
+    Object.entries(this.currentSharedParams()).forEach(([key, value]) => {
+      if (Array.isArray(value)) {
+        value.forEach(v => query.append(key, v));
+      } else if (value !== undefined) {
+        query.set(key, value);
+      }
+    });
+
+    const url = `${this.popoutPath}/${encodeURIComponent(this.hostId)}/${encodeURIComponent(panelId)}` +
+      (query.toString() ? `?${query.toString()}` : '');
+    const popup = window.open(url, `popout-${panelId}`, 'width=1000,height=700');
+
+    if (!popup) {
+      console.warn('[PanelPopout] Pop-out window was blocked:', panelId);
+      return false;
+    }
+
+    this.windows.set(panelId, popup);
+    this.markPoppedOut(panelId, true);
+    return true;
+  }
+
+  /**
+   * Close a pop-out window and restore its panel
+   */
+  closePopout(panelId: string): void {
+    this.windows.get(panelId)?.close();
+    this.windows.delete(panelId);
+    this.markPoppedOut(panelId, false);
+  }
+
+  private checkClosedWindows(): void {
+    this.windows.forEach((popup, panelId) => {
+      if (popup.closed) {
+        console.log('[PanelPopout] Pop-out window gone:', panelId);
+        this.windows.delete(panelId);
+        this.markPoppedOut(panelId, false);
+      }
+    });
+  }
+
+  private markPoppedOut(panelId: string, poppedOut: boolean): void {
+    const current = this.poppedOutSubject.value;
+    const has = current.includes(panelId);
+    if (poppedOut && !has) {
+      this.poppedOutSubject.next([...current, panelId]);
+    } else if (!poppedOut && has) {
+      this.poppedOutSubject.next(current.filter(id => id !== panelId));
+    }
+  }
+
+  // ============================================
+  // POP-OUT
+  // ============================================
+
+  /**
+   * Start as a pop-out window for one panel
+   */
+  startPopout(hostId: string, panelId: string, options: PopoutSyncOptions = {}): void {
+    this.role = 'popout';
+    this.hostId = hostId;
+    this.panelId = panelId;
+    this.localParams = options.localParams || [];
+    console.log('[PanelPopout] Started as pop-out:', panelId, 'host:', hostId);
+
+    // Snapshot from host: apply once, then render
+    this.on<PopoutSnapshotPayload>(POPOUT_MESSAGES.SNAPSHOT)
+      .pipe(filter(payload => payload.panelId === panelId))
+      .subscribe(payload => {
+        this.applyRemoteState(payload.queryParams);
+        this.readySubject.next(true);
+      });
+
+    // Host went away - nothing left to sync with
+    this.on<PopoutHostClosedPayload>(POPOUT_MESSAGES.HOST_CLOSED).subscribe(() => {
+      console.log('[PanelPopout] Host closed, closing pop-out');
+      window.close();
+    });
+
+    // Host may be gone already (e.g. reloaded pop-out) - render with our own URL
+    timer(2000)
+      .pipe(takeUntil(this.destroy$))
+      .subscribe(() => {
+        if (!this.readySubject.value) {
+          console.warn('[PanelPopout] No snapshot from host, using own URL state');
+          this.readySubject.next(true);
+        }
+      });
+
+    this.startStateSync();
+
+    this.broadcast.sendMessage<PopoutHelloPayload>(POPOUT_MESSAGES.HELLO, { hostId, panelId });
+  }
+
+  // ============================================
+  // SHARED
+  // ============================================
+
+  /**
+   * Broadcast local URL changes, apply remote ones (both roles)
+   */
+  private startStateSync(): void {
+    this.lastSyncedKey = this.serialize(this.currentSharedParams());
+
+    this.urlState.queryParams$
+      .pipe(takeUntil(this.destroy$))
+      .subscribe(params => {
+        const shared = this.stripLocalParams(params);
+        const key = this.serialize(shared);
+        if (key === this.lastSyncedKey) {
+          return;
+        }
+        this.lastSyncedKey = key;
+        this.broadcast.sendMessage<PopoutStatePayload>(POPOUT_MESSAGES.STATE, {
+          hostId: this.hostId!,
+          queryParams: shared
+        });
+      });
+
+    this.on<PopoutStatePayload>(POPOUT_MESSAGES.STATE).subscribe(payload => {
+      this.applyRemoteState(payload.queryParams);
+    });
+
+    window.addEventListener('beforeunload', this.onBeforeUnload);
+  }
+
+  /**
+   * Replace our shared params with the remote ones, keeping local-only params
+   */
+  private applyRemoteState(queryParams: QueryParams): void {
+    const shared = this.stripLocalParams(queryParams);
+    const key = this.serialize(shared);
+    if (key === this.serialize(this.currentSharedParams())) {
+      this.lastSyncedKey = key;
+      return;
+    }
+
+    this.lastSyncedKey = key;
+    // Mirrors the other window - the undo step (if any) is recorded there
+    this.urlState.replaceQueryParams({ ...shared, ...this.currentLocalParams() }, { skipHistory: true }).subscribe();
+  }
+
+  /**
+   * Tell the other side this window is going away (once)
+   */
+  private announceClose(): void {
+    if (!this.hostId || !this.role) {
+      return;
+    }
+
+    if (this.role === 'host') {
+      this.broadcast.sendMessage<PopoutHostClosedPayload>(POPOUT_MESSAGES.HOST_CLOSED, {
+        hostId: this.hostId
+      });
+    } else if (this.panelId) {
+      this.broadcast.sendMessage<PopoutClosedPayload>(POPOUT_MESSAGES.CLOSED, {
+        hostId: this.hostId,
+        panelId: this.panelId
+      });
+    }
+    this.role = null;
+  }
+
+  /**
+   * Messages of one type addressed to our host group (never our own)
+   */
+  private on<T extends { hostId: string }>(type: string): Observable<T> {
+    return this.broadcast.onMessage<T>(type).pipe(
+      filter(message => !this.broadcast.isOwnMessage(message)),
+      filter(message => message.payload?.hostId === this.hostId),
+      map(message => message.payload),
+      takeUntil(this.destroy$)
+    );
+  }
+
+  private currentSharedParams(): QueryParams {
+    return this.stripLocalParams(this.currentParams());
+  }
+
+  private currentLocalParams(): QueryParams {
+    const params = this.currentParams();
+    const local: QueryParams = {};
+    this.localParams.forEach(key => {
+      if (params[key] !== undefined) {
+        local[key] = params[key];
+      }
+    });
+    return local;
+  }
+
+  private currentParams(): QueryParams {
+    return this.urlState.getQueryParamsSnapshot();
+  }
+
+  private stripLocalParams(params: QueryParams): QueryParams {
+    const shared: QueryParams = {};
+    Object.keys(params)
+      .filter(key => !this.localParams.includes(key) && params[key] !== undefined)
+      .forEach(key => (shared[key] = params[key]));
+    return shared;
+  }
+
+  /**
+   * Order-independent serialization for comparing param sets
+   */
+  private serialize(params: QueryParams): string {
+    return JSON.stringify(Object.keys(params).sort().map(key => [key, params[key]]));
+  }
+}
@@ -0,0 +1,154 @@
+import { NavigationEnd, Router } from '@angular/router';
+import { Subject, of } from 'rxjs';
+
+import { QUERY_HISTORY_COALESCE_MS, QueryHistoryService } from './query-history.service';
+import { QueryParams, QueryParamsChange, UrlStateService, URL_CHANGE_DEBOUNCE_MS } from './url-state.service';
+
+describe('QueryHistoryService', () => {
+  let changes$: Subject<QueryParamsChange>;
+  let events$: Subject<unknown>;
+  let router: { url: string; events: Subject<unknown> };
+  let setQueryParams: jasmine.Spy;
+  let service: QueryHistoryService;
+
+  // Params of the fake URL, updated by every write
+  let params: QueryParams;
+
+  beforeEach(() => {
+    jasmine.clock().install();
+    jasmine.clock().mockDate(new Date(2024, 0, 1));
+
+    changes$ = new Subject<QueryParamsChange>();
+    events$ = new Subject<unknown>();
+    router = { url: '/search?page=1', events: events$ };
+    setQueryParams = jasmine.createSpy('setQueryParams').and.returnValue(of(true));
+    params = {};
+
+    const urlState = { changes$, setQueryParams } as unknown as UrlStateService;
+    service = new QueryHistoryService(urlState, router as unknown as Router);
+  });
+
+  afterEach(() => {
+    service.ngOnDestroy();
+    jasmine.clock().uninstall();
+  });
+
+  /**
+   * Emit a write of the given params, then let time pass
+   */
+  function write(changed: QueryParams, elapsedMs: number = QUERY_HISTORY_COALESCE_MS + 1, label?: string): void {
+    const before = { ...params };
+    params = { ...params, ...changed };
+    changes$.next({ before, after: { ...params }, label });
+    jasmine.clock().tick(elapsedMs);
+  }
+
+  describe('undo and redo', () => {
+    it('should undo the newest step first and redo in reverse order', () => {
+      write({ sort: 'year:desc' });
+      write({ f_make: 'Ford' });
+
+      expect(service.getUndoSteps().map(step => step.label)).toEqual(['Sorted by year', 'Filtered by make']);
+
+      expect(service.undo()).toBe(true);
+      expect(setQueryParams).toHaveBeenCalledWith({ f_make: undefined }, { skipHistory: true });
+
+      expect(service.undo()).toBe(true);
+      expect(setQueryParams).toHaveBeenCalledWith({ sort: undefined }, { skipHistory: true });
+      expect(service.undo()).toBe(false);
+
+      expect(service.redo()).toBe(true);
+      expect(setQueryParams).toHaveBeenCalledWith({ sort: 'year:desc' }, { skipHistory: true });
+
+      expect(service.redo()).toBe(true);
+      expect(setQueryParams).toHaveBeenCalledWith({ f_make: 'Ford' }, { skipHistory: true });
+      expect(service.redo()).toBe(false);
+    });
+
+    it('should keep only the changed params in a step', () => {
+      write({ sort: 'year:desc', page: '2' });
+      write({ f_make: 'Ford' });
+
+      expect(service.getUndoSteps()[1].before).toEqual({ f_make: undefined });
+      expect(service.getUndoSteps()[1].after).toEqual({ f_make: 'Ford' });
+    });
+
+    it('should drop the redo steps when a new change is written', () => {
+      write({ sort: 'year:desc' });
+      write({ f_make: 'Ford' });
+      service.undo();
+
+      let redoCount = -1;
+      service.state$.subscribe(state => redoCount = state.redoCount);
+      expect(redoCount).toBe(1);
+
+      write({ page: '3' });
+
+      expect(redoCount).toBe(0);
+      expect(service.redo()).toBe(false);
+      expect(service.getUndoSteps().map(step => step.label)).toEqual(['Sorted by year', 'Went to page 3']);
+    });
+
+    it('should label a cleared default sort', () => {
+      write({ sort: 'year:desc' });
+      write({ sort: '-' });
+
+      expect(service.getUndoSteps()[1].label).toBe('Cleared sort');
+    });
+
+    it('should prefer the label of the write', () => {
+      write({ selected: 'Ford|F-150' }, undefined, 'Picked F-150');
+
+      expect(service.getUndoSteps()[0].label).toBe('Picked F-150');
+    });
+  });
+
+  describe('coalescing', () => {
+    it('should derive the window from the URL debounce', () => {
+      expect(QUERY_HISTORY_COALESCE_MS).toBeGreaterThan(URL_CHANGE_DEBOUNCE_MS);
+    });
+
+    it('should merge debounced writes of one burst into one step', () => {
+      write({ f_make: 'F' }, URL_CHANGE_DEBOUNCE_MS);
+      write({ f_make: 'Fo' }, URL_CHANGE_DEBOUNCE_MS);
+      write({ f_make: 'Ford' });
+
+      const steps = service.getUndoSteps();
+      expect(steps.length).toBe(1);
+      expect(steps[0].before).toEqual({ f_make: undefined });
+      expect(steps[0].after).toEqual({ f_make: 'Ford' });
+    });
+
+    it('should keep writes a full window apart as separate steps', () => {
+      write({ f_make: 'F' }, QUERY_HISTORY_COALESCE_MS);
+      write({ f_make: 'Ford' });
+
+      expect(service.getUndoSteps().map(step => step.after)).toEqual([{ f_make: 'F' }, { f_make: 'Ford' }]);
+    });
+
+    it('should drop a step whose writes cancel each other out', () => {
+      write({ f_make: 'Ford' }, URL_CHANGE_DEBOUNCE_MS);
+      write({ f_make: undefined });
+
+      expect(service.getUndoSteps()).toEqual([]);
+    });
+  });
+
+  describe('route changes', () => {
+    it('should clear the history when the path changes', () => {
+      write({ sort: 'year:desc' });
+      write({ f_make: 'Ford' });
+      service.undo();
+
+      router.url = '/search?page=2';
+      events$.next(new NavigationEnd(1, router.url, router.url));
+      expect(service.getUndoSteps().length).toBe(1);
+
+      router.url = '/workshop';
+      events$.next(new NavigationEnd(2, router.url, router.url));
+      expect(service.getUndoSteps()).toEqual([]);
+      expect(service.undo()).toBe(false);
+      expect(service.redo()).toBe(false);
+    });
+  });
+});
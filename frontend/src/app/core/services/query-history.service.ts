@@ -0,0 +1,303 @@
+/*
+  QUERY HISTORY SERVICE
+
+  PURPOSE:
+  In-app undo/redo of query state. Every URL write that goes through
+  UrlStateService (filters, sort, paging, selections, search criteria) becomes
+  an undo step, so an accidental "Clear" is one Ctrl+Z away - without
+  walking back through the browser history.
+
+  KEY CONCEPTS:
+  - A step keeps only the params it changed (before and after values);
+    undo writes the before values back, redo the after values. Params
+    changed by others in between are left alone.
+  - Rapid writes (less than QUERY_HISTORY_COALESCE_MS apart, twice the URL
+    debounce) coalesce into one step, labelled by the first write - one sort
+    click that also resets the page is one step, and so is a burst of filter
+    typing whose writes arrive a debounce apart
+  - Undo/redo writes are not recorded themselves (skipHistory); a new
+    change after an undo drops the redo steps
+  - The history belongs to one route: it is cleared when the path changes
+  - Labels come from the write (QueryParamsWriteOptions.historyLabel), or
+    are derived from the changed param names ("Sorted by year")
+
+  USAGE:
+  constructor(private history: QueryHistoryService) {}
+
+  this.history.state$.subscribe(state => this.undoLabel = state.undoLabel);
+  this.history.undo();   // Restores the params of the last step
+  this.history.redo();
+*/
+
+import { Injectable, OnDestroy } from '@angular/core';
+import { NavigationEnd, Router } from '@angular/router';
+import { BehaviorSubject, Observable, Subject } from 'rxjs';
+import { filter, takeUntil } from 'rxjs/operators';
+
+import {
+  QueryParams,
+  QueryParamsChange,
+  UrlStateService,
+  URL_CHANGE_DEBOUNCE_MS,
+  URL_NAMESPACE_SEPARATOR
+} from './url-state.service';
+
+/**
+ * Writes closer together than this are one undo step
+ * (twice the URL debounce: debounced writes are at least one debounce apart)
+ */
+export const QUERY_HISTORY_COALESCE_MS = URL_CHANGE_DEBOUNCE_MS * 2;
+
+/**
+ * Undo steps kept (oldest dropped first)
+ */
+export const MAX_QUERY_HISTORY_STEPS = 50;
+
+/**
+ * One undo step: the params it changed
+ */
+export interface QueryHistoryStep {
+  label: string;
+  before: QueryParams;              // Changed params before the step (undefined = absent)
+  after: QueryParams;               // Changed params after the step
+  timestamp: number;                // Time of the last write merged into the step
+}
+
+/**
+ * What undo/redo controls need to render
+ */
+export interface QueryHistoryState {
+  undoLabel: string | null;         // Label of the step undo() reverts (null = nothing to undo)
+  redoLabel: string | null;         // Label of the step redo() re-applies
+  undoCount: number;
+  redoCount: number;
+}
+
+/**
+ * QUERY HISTORY SERVICE
+ *
+ * Records UrlStateService.changes$ as undo steps and replays them.
+ * Inject it once at startup (AppComponent) so recording starts with the app.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class QueryHistoryService implements OnDestroy {
+  private destroy$ = new Subject<void>();
+
+  private undoStack: QueryHistoryStep[] = [];
+  private redoStack: QueryHistoryStep[] = [];
+
+  // Route path the steps belong to
+  private path: string | null = null;
+
+  private stateSubject = new BehaviorSubject<QueryHistoryState>(this.buildState());
+  public state$: Observable<QueryHistoryState> = this.stateSubject.asObservable();
+
+  constructor(
+    private urlState: UrlStateService,
+    private router: Router
+  ) {
+    this.urlState.changes$
+      .pipe(takeUntil(this.destroy$))
+      .subscribe(change => this.record(change));
+
+    // New route → new history
+    this.router.events
+      .pipe(
+        filter(event => event instanceof NavigationEnd),
+        takeUntil(this.destroy$)
+      )
+      .subscribe(() => {
+        const path = this.currentPath();
+        if (path !== this.path) {
+          this.path = path;
+          this.clear();
+        }
+      });
+  }
+
+  ngOnDestroy(): void {
+    this.destroy$.next();
+    this.destroy$.complete();
+  }
+
+  /**
+   * UNDO: write back the params of the last step
+   *
+   * @returns false if there was nothing to undo
+   */
+  undo(): boolean {
+    const step = this.undoStack.pop();
+    if (!step) {
+      return false;
+    }
+
+    console.log('[QueryHistoryService] Undo:', step.label);
+    this.redoStack.push(step);
+    this.urlState.setQueryParams(step.before, { skipHistory: true }).subscribe();
+    this.emitState();
+    return true;
+  }
+
+  /**
+   * REDO: re-apply the last undone step
+   *
+   * @returns false if there was nothing to redo
+   */
+  redo(): boolean {
+    const step = this.redoStack.pop();
+    if (!step) {
+      return false;
+    }
+
+    console.log('[QueryHistoryService] Redo:', step.label);
+    this.undoStack.push(step);
+    this.urlState.setQueryParams(step.after, { skipHistory: true }).subscribe();
+    this.emitState();
+    return true;
+  }
+
+  /**
+   * Forget all steps
+   */
+  clear(): void {
+    this.undoStack = [];
+    this.redoStack = [];
+    this.emitState();
+  }
+
+  /**
+   * Undo steps, oldest first (read-only copy)
+   */
+  getUndoSteps(): QueryHistoryStep[] {
+    return [...this.undoStack];
+  }
+
+  // ============================================================================
+  // PRIVATE HELPERS
+  // ============================================================================
+
+  /**
+   * Add a URL write as a step (or merge it into the last one)
+   */
+  private record(change: QueryParamsChange): void {
+    const diff = this.diffParams(change.before, change.after);
+    if (!diff) {
+      return;
+    }
+
+    this.path = this.currentPath();
+    this.redoStack = [];
+
+    const now = Date.now();
+    const last = this.undoStack[this.undoStack.length - 1];
+
+    if (last && now - last.timestamp < QUERY_HISTORY_COALESCE_MS) {
+      // Keep the earliest before value of each param, the latest after value
+      Object.keys(diff.after).forEach(key => {
+        if (!(key in last.before)) {
+          last.before[key] = diff.before[key];
+        }
+        last.after[key] = diff.after[key];
+      });
+      last.timestamp = now;
+
+      // Writes that cancelled each other out leave nothing to undo
+      if (!this.diffParams(last.before, last.after)) {
+        this.undoStack.pop();
+      }
+    } else {
+      this.undoStack.push({
+        label: change.label || this.describeChange(diff.after),
+        before: diff.before,
+        after: diff.after,
+        timestamp: now
+      });
+
+      if (this.undoStack.length > MAX_QUERY_HISTORY_STEPS) {
+        this.undoStack.shift();
+      }
+    }
+
+    this.emitState();
+  }
+
+  private currentPath(): string {
+    return this.router.url.split(/[?#]/)[0];
+  }
+
+  private buildState(): QueryHistoryState {
+    return {
+      undoLabel: this.undoStack[this.undoStack.length - 1]?.label ?? null,
+      redoLabel: this.redoStack[this.redoStack.length - 1]?.label ?? null,
+      undoCount: this.undoStack.length,
+      redoCount: this.redoStack.length
+    };
+  }
+
+  private emitState(): void {
+    this.stateSubject.next(this.buildState());
+  }
+
+  /**
+   * Params whose value differs (null if none), with their before/after values
+   */
+  private diffParams(before: QueryParams, after: QueryParams): { before: QueryParams; after: QueryParams } | null {
+    const keys = new Set([...Object.keys(before), ...Object.keys(after)]);
+    const diff = { before: {} as QueryParams, after: {} as QueryParams };
+    let changed = false;
+
+    keys.forEach(key => {
+      if (String(before[key] ?? '') !== String(after[key] ?? '')) {
+        diff.before[key] = before[key];
+        diff.after[key] = after[key];
+        changed = true;
+      }
+    });
+
+    return changed ? diff : null;
+  }
+
+  /**
+   * Label from the changed params (namespace prefixes dropped)
+   * { sort: 'year:desc' } → "Sorted by year", { selected: undefined } → "Cleared selection"
+   */
+  private describeChange(after: QueryParams): string {
+    const names = Object.keys(after).map(key => ({
+      key,
+      name: key.substring(key.lastIndexOf(URL_NAMESPACE_SEPARATOR) + 1)
+    }));
+
+    // A page reset that comes with another change is not worth mentioning
+    const significant = names.length > 1 ? names.filter(n => n.name !== 'page') : names;
+    const { key, name } = significant[0];
+    const value = after[key];
+    const removed = value === undefined || value === '';
+
+    if (significant.length > 1) {
+      return `Changed ${significant.map(n => this.humanize(n.name)).join(', ')}`;
+    }
+    if (name === 'sort') {
+      // 'sort=-' clears a table's default sort
+      return removed || value === '-' ? 'Cleared sort' : `Sorted by ${this.humanize(String(value).split(':')[0])}`;
+    }
+    if (name.startsWith('f_')) {
+      return removed ? `Cleared ${this.humanize(name.substring(2))} filter` : `Filtered by ${this.humanize(name.substring(2))}`;
+    }
+    if (name === 'page') {
+      return `Went to page ${removed ? 1 : value}`;
+    }
+    if (name === 'selected') {
+      return removed ? 'Cleared selection' : 'Changed selection';
+    }
+    return removed ? `Cleared ${this.humanize(name)}` : `Changed ${this.humanize(name)}`;
+  }
+
+  /**
+   * 'body_class' → 'body class', 'yearMin' → 'year min'
+   */
+  private humanize(name: string): string {
+    return name.replace(/_/g, ' ').replace(/([a-z])([A-Z])/g, '$1 $2').toLowerCase();
+  }
+}
@@ -0,0 +1,154 @@
+import { decodeQueryState, defineQueryStateSchema, encodeQueryState } from './query-state.model';
+
+describe('query state schema', () => {
+  const SCHEMA = defineQueryStateSchema({
+    page: { type: 'integer', min: 1, default: 1 },
+    yearMin: { type: 'integer', min: 1900, max: 2100 },
+    ratio: { type: 'number', min: 0, max: 1 },
+    bodyClass: { type: 'string', values: ['Sedan', 'SUV'] as const },
+    layout: { type: 'string', pattern: /^[a-z0-9-]+$/ },
+    expanded: { type: 'boolean', default: false },
+    columns: { type: 'array', values: ['make', 'model', 'year'] as const, default: ['make', 'model'] },
+    tags: { type: 'array' }
+  });
+
+  describe('decodeQueryState', () => {
+    it('should use defaults for missing and empty params', () => {
+      const { state, invalid } = decodeQueryState(SCHEMA, { yearMin: '' });
+
+      expect(state).toEqual({
+        page: 1,
+        yearMin: undefined,
+        ratio: undefined,
+        bodyClass: undefined,
+        layout: undefined,
+        expanded: false,
+        columns: ['make', 'model'],
+        tags: undefined
+      });
+      expect(invalid).toEqual([]);
+    });
+
+    it('should decode valid values by type', () => {
+      const { state, invalid } = decodeQueryState(SCHEMA, {
+        page: '3',
+        yearMin: '2020',
+        ratio: '0.25',
+        bodyClass: 'SUV',
+        layout: 'results-focus',
+        expanded: 'true',
+        columns: 'year,make',
+        tags: ['a', 'b']
+      });
+
+      expect(state).toEqual({
+        page: 3,
+        yearMin: 2020,
+        ratio: 0.25,
+        bodyClass: 'SUV',
+        layout: 'results-focus',
+        expanded: true,
+        columns: ['year', 'make'],
+        tags: ['a', 'b']
+      });
+      expect(invalid).toEqual([]);
+    });
+
+    it('should ignore params not in the schema', () => {
+      const { state } = decodeQueryState(SCHEMA, { models: 'Ford:F-150' });
+
+      expect('models' in state).toBe(false);
+    });
+
+    it('should clamp numbers to min/max and report them', () => {
+      const { state, invalid } = decodeQueryState(SCHEMA, { page: '0', yearMin: '3000', ratio: '-0.5' });
+
+      expect(state.page).toBe(1);
+      expect(state.yearMin).toBe(2100);
+      expect(state.ratio).toBe(0);
+      expect(invalid).toEqual(['page', 'yearMin', 'ratio']);
+    });
+
+    it('should only accept plain decimal integers', () => {
+      ['abc', '1e3', '0x7E4', '2.0', '20 20', ' 2020', '+2020'].forEach(value => {
+        const { state, invalid } = decodeQueryState(SCHEMA, { yearMin: value, page: value });
+
+        expect(state.yearMin).withContext(value).toBeUndefined();
+        expect(state.page).withContext(value).toBe(1);
+        expect(invalid).withContext(value).toEqual(['page', 'yearMin']);
+      });
+
+      expect(decodeQueryState(SCHEMA, { page: '007' }).state.page).toBe(7);
+      expect(decodeQueryState(SCHEMA, { page: '-2' }).state.page).toBe(1);
+    });
+
+    it('should reject strings outside the allowed values or pattern', () => {
+      const { state, invalid } = decodeQueryState(SCHEMA, { bodyClass: 'Boat', layout: 'My Layout', expanded: 'yes' });
+
+      expect(state.bodyClass).toBeUndefined();
+      expect(state.layout).toBeUndefined();
+      expect(state.expanded).toBe(false);
+      expect(invalid).toEqual(['bodyClass', 'layout', 'expanded']);
+    });
+
+    it('should drop disallowed array items, keeping the allowed ones', () => {
+      expect(decodeQueryState(SCHEMA, { columns: 'make,price,year' })).toEqual({
+        state: jasmine.objectContaining({ columns: ['make', 'year'] }),
+        invalid: ['columns']
+      });
+      expect(decodeQueryState(SCHEMA, { columns: 'price' }).state.columns).toEqual(['make', 'model']);
+    });
+
+    it('should not share the default array between states', () => {
+      const first = decodeQueryState(SCHEMA, {}).state;
+      first.columns.push('year');
+
+      expect(decodeQueryState(SCHEMA, {}).state.columns).toEqual(['make', 'model']);
+    });
+  });
+
+  describe('encodeQueryState', () => {
+    it('should encode only the given keys', () => {
+      expect(encodeQueryState(SCHEMA, { yearMin: 2020, bodyClass: 'SUV', tags: ['a', 'b'] }))
+        .toEqual({ yearMin: '2020', bodyClass: 'SUV', tags: 'a,b' });
+    });
+
+    it('should drop defaults, undefined, empty strings and empty arrays', () => {
+      expect(encodeQueryState(SCHEMA, {
+        page: 1,
+        expanded: false,
+        columns: ['make', 'model'],
+        yearMin: undefined,
+        layout: '',
+        tags: []
+      })).toEqual({
+        page: undefined,
+        expanded: undefined,
+        columns: undefined,
+        yearMin: undefined,
+        layout: undefined,
+        tags: undefined
+      });
+    });
+
+    it('should keep non-default values of params with defaults', () => {
+      expect(encodeQueryState(SCHEMA, { page: 2, expanded: true, columns: ['model', 'make'] }))
+        .toEqual({ page: '2', expanded: 'true', columns: 'model,make' });
+    });
+
+    it('should round-trip through decodeQueryState', () => {
+      const { state } = decodeQueryState(SCHEMA, {
+        page: '4',
+        yearMin: '1999',
+        ratio: '0.5',
+        bodyClass: 'Sedan',
+        layout: 'compact',
+        expanded: 'true',
+        columns: 'year',
+        tags: 'x,y'
+      });
+
+      expect(decodeQueryState(SCHEMA, encodeQueryState(SCHEMA, state))).toEqual({ state, invalid: [] });
+    });
+  });
+});
@@ -0,0 +1,251 @@
+/*
+  QUERY STATE SCHEMA
+
+  PURPOSE:
+  Declarative description of the query params a route (or table) owns, used
+  by UrlStateService to turn raw URL strings into a typed state object and back.
+
+  WHAT A SCHEMA GIVES YOU:
+  1. Typed state: { yearMin: number | undefined, bodyClass: 'SUV' | ... }
+  2. Validation + repair: 'yearMin=abc' → default, 'page=0' → min,
+     'bodyClass=Boat' → default. Repaired keys are reported so the URL
+     can be rewritten.
+  3. Short links: values equal to their default are dropped from the URL.
+
+  PARAM TYPES:
+  - string:  free text (optional `pattern`, optional allowed `values`)
+  - number:  float, clamped to min/max
+  - integer: whole number in decimal digits ('1e3', '0x7E4' are invalid), clamped to min/max
+  - boolean: 'true' / 'false'
+  - array:   comma-separated list (optional allowed `values` per item)
+
+  USAGE:
+  export const SEARCH_QUERY_SCHEMA = defineQueryStateSchema({
+    yearMin: { type: 'integer', min: 1900, max: 2100 },
+    bodyClass: { type: 'string', values: ['Sedan', 'SUV'] as const },
+    page: { type: 'integer', min: 1, default: 1 }
+  });
+
+  this.urlState.selectState(SEARCH_QUERY_SCHEMA).subscribe(state => {
+    state.yearMin;   // number | undefined
+    state.page;      // number (has a default)
+  });
+*/
+
+import { QueryParams } from './url-state.service';
+
+/**
+ * Supported query param types
+ */
+export type QueryParamType = 'string' | 'number' | 'integer' | 'boolean' | 'array';
+
+/**
+ * One param's definition
+ */
+export interface QueryParamDef {
+  type: QueryParamType;
+
+  // Value used when the param is missing or invalid (and dropped from the URL when equal)
+  default?: string | number | boolean | readonly string[];
+
+  // Allowed values (string, or each array item)
+  values?: readonly string[];
+
+  // Range for number/integer (out-of-range values are clamped)
+  min?: number;
+  max?: number;
+
+  // Required format for strings (non-matching values are invalid)
+  pattern?: RegExp;
+}
+
+/**
+ * Schema: URL param name → definition
+ */
+export type QueryStateSchema = Record<string, QueryParamDef>;
+
+/**
+ * Decoded value type of one definition
+ */
+export type QueryParamValue<D extends QueryParamDef> =
+  D['type'] extends 'number' | 'integer' ? number :
+  D['type'] extends 'boolean' ? boolean :
+  D['type'] extends 'array' ? (D['values'] extends readonly (infer V)[] ? V[] : string[]) :
+  D['values'] extends readonly (infer V)[] ? V : string;
+
+/**
+ * Typed state object of a schema
+ * Params with a default are always present; others may be undefined
+ */
+export type QueryState<S extends QueryStateSchema> = {
+  [K in keyof S]: S[K] extends { default: any }
+    ? QueryParamValue<S[K]>
+    : QueryParamValue<S[K]> | undefined;
+};
+
+/**
+ * Result of decoding a URL against a schema
+ */
+export interface DecodedQueryState<S extends QueryStateSchema> {
+  state: QueryState<S>;
+
+  // Params whose URL value was invalid and got repaired (or dropped)
+  invalid: Array<keyof S & string>;
+}
+
+/**
+ * DEFINE SCHEMA
+ *
+ * Identity helper that keeps the literal types of the schema,
+ * so QueryState<typeof SCHEMA> is precise.
+ */
+export function defineQueryStateSchema<S extends QueryStateSchema>(schema: S): S {
+  return schema;
+}
+
+/**
+ * DECODE QUERY STATE
+ *
+ * Reads every schema param from the query params, validating and repairing.
+ * Params not in the schema are ignored.
+ *
+ * @param schema - Query state schema
+ * @param params - Raw query params (from the URL)
+ * @returns Typed state + names of params that were invalid
+ */
+export function decodeQueryState<S extends QueryStateSchema>(
+  schema: S,
+  params: QueryParams
+): DecodedQueryState<S> {
+  const state: Record<string, unknown> = {};
+  const invalid: Array<keyof S & string> = [];
+
+  Object.keys(schema).forEach(key => {
+    const def = schema[key];
+    const raw = params[key];
+    const value = Array.isArray(raw) ? raw.join(',') : raw;
+
+    if (value === undefined || value === '') {
+      state[key] = cloneDefault(def);
+      return;
+    }
+
+    const result = decodeParamValue(def, value);
+    if (result.valid) {
+      state[key] = result.value;
+    } else {
+      state[key] = result.value !== undefined ? result.value : cloneDefault(def);
+      invalid.push(key);
+    }
+  });
+
+  return { state: state as QueryState<S>, invalid };
+}
+
+/**
+ * ENCODE QUERY STATE
+ *
+ * Converts (part of) a state object back to query params.
+ * Values equal to their default, undefined values and empty arrays become
+ * undefined, which removes them from the URL when merged.
+ *
+ * @param schema - Query state schema
+ * @param state - Full or partial state (only given keys are encoded)
+ * @returns Query params ready for UrlStateService.setQueryParams()
+ */
+export function encodeQueryState<S extends QueryStateSchema>(
+  schema: S,
+  state: Partial<QueryState<S>>
+): QueryParams {
+  const params: QueryParams = {};
+
+  (Object.keys(state) as Array<keyof S & string>).forEach(key => {
+    const def = schema[key];
+    if (!def) {
+      return;
+    }
+
+    const value: unknown = state[key];
+    if (value === undefined || value === null || value === '' ||
+        (Array.isArray(value) && value.length === 0) ||
+        isDefaultValue(def, value)) {
+      params[key] = undefined;
+      return;
+    }
+
+    params[key] = Array.isArray(value) ? value.join(',') : String(value);
+  });
+
+  return params;
+}
+
+// ============================================================================
+// PRIVATE HELPERS
+// ============================================================================
+
+const INTEGER_PATTERN = /^-?\d+$/;
+
+/**
+ * Decodes one non-empty URL value.
+ * Invalid values may still come back with a repaired value (e.g. clamped numbers).
+ */
+function decodeParamValue(def: QueryParamDef, value: string): { valid: boolean; value?: unknown } {
+  switch (def.type) {
+    case 'number':
+    case 'integer': {
+      // Integers must be plain decimal digits ('0x7E4', '1e3' and '2.0' are invalid)
+      if (def.type === 'integer' && !INTEGER_PATTERN.test(value)) {
+        return { valid: false };
+      }
+      const num = def.type === 'integer' ? parseInt(value, 10) : parseFloat(value);
+      if (value.trim() === '' || isNaN(num)) {
+        return { valid: false };
+      }
+      const clamped = Math.min(def.max ?? Infinity, Math.max(def.min ?? -Infinity, num));
+      return clamped === num ? { valid: true, value: num } : { valid: false, value: clamped };
+    }
+
+    case 'boolean':
+      if (value === 'true' || value === 'false') {
+        return { valid: true, value: value === 'true' };
+      }
+      return { valid: false };
+
+    case 'array': {
+      const items = value.split(',').filter(item => item !== '');
+      const allowed = def.values ? items.filter(item => def.values!.includes(item)) : items;
+      return allowed.length === items.length
+        ? { valid: true, value: items }
+        : { valid: false, value: allowed.length > 0 ? allowed : undefined };
+    }
+
+    default:
+      if (def.values && !def.values.includes(value)) {
+        return { valid: false };
+      }
+      if (def.pattern && !def.pattern.test(value)) {
+        return { valid: false };
+      }
+      return { valid: true, value };
+  }
+}
+
+/**
+ * Default value of a definition (arrays copied so callers can't mutate the schema)
+ */
+function cloneDefault(def: QueryParamDef): unknown {
+  return Array.isArray(def.default) ? [...def.default] : def.default;
+}
+
+/**
+ * Is the value equal to the definition's default?
+ */
+function isDefaultValue(def: QueryParamDef, value: unknown): boolean {
+  if (def.default === undefined) {
+    return false;
+  }
+  if (Array.isArray(def.default)) {
+    return Array.isArray(value) && value.join(',') === def.default.join(',');
+  }
+  return value === def.default;
+}
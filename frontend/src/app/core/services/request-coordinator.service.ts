@@ -13,9 +13,9 @@
   4. User Experience: Faster response times via deduplication
 
   ARCHITECTURE:
-  Uses a Map to store pending requests indexed by a hash of URL + params.
-  When a request completes, it's removed from the cache. Stale requests
-  are automatically cleaned up after a timeout.
+  Storage lives in the shared ApiCacheService (scope 'coordinator'), the same
+  cache ApiService uses for configured endpoints. By default only in-flight
+  requests are shared; pass a cache config to also keep completed responses.
 
   EXAMPLE:
   // First call - makes HTTP request
@@ -30,16 +30,12 @@
 
 import { Injectable } from '@angular/core';
 import { HttpClient } from '@angular/common/http';
-import { Observable, of, throwError } from 'rxjs';
-import { shareReplay, catchError, finalize } from 'rxjs/operators';
+import { Observable, throwError } from 'rxjs';
+import { catchError } from 'rxjs/operators';
 
-/**
- * Cache entry storing pending request Observable
- */
-interface CacheEntry<T> {
-  observable: Observable<T>;
-  timestamp: number;
-}
+import { ApiCacheConfig } from './api-config.interface';
+import { ApiCacheService } from './api-cache.service';
+import { toApiError } from './api-error.model';
 
 /**
  * REQUEST COORDINATOR SERVICE
@@ -51,14 +47,13 @@ interface CacheEntry<T> {
   providedIn: 'root'
 })
 export class RequestCoordinatorService {
-  // Cache of pending requests indexed by URL + params hash
-  private requestCache = new Map<string, CacheEntry<any>>();
-
-  // How long to keep cached responses in memory (ms)
-  // After this time, stale cached responses are discarded
-  private readonly CACHE_TIMEOUT = 5 * 60 * 1000; // 5 minutes
+  // ApiCacheService scope for all coordinator entries
+  private readonly CACHE_SCOPE = 'coordinator';
 
-  constructor(private http: HttpClient) {}
+  constructor(
+    private http: HttpClient,
+    private cache: ApiCacheService
+  ) {}
 
   /**
    * GET REQUEST WITH DEDUPLICATION
@@ -69,6 +64,8 @@ export class RequestCoordinatorService {
    *
    * @param url - The API endpoint URL
    * @param params - Query parameters (automatically serialized for caching)
+   * @param cacheConfig - Optional caching (same shape as ApiConfig.cache);
+   *                      without it, only in-flight requests are shared
    * @returns Observable<T> - Cached or new HTTP request observable
    *
    * @example
@@ -77,66 +74,21 @@ export class RequestCoordinatorService {
    * coordinator.get('/api/users', {page: 1}).subscribe(...);
    * coordinator.get('/api/users', {page: 1}).subscribe(...);
    */
-  get<T>(url: string, params?: any): Observable<T> {
-    const cacheKey = this.generateCacheKey(url, params);
+  get<T>(url: string, params?: any, cacheConfig?: ApiCacheConfig): Observable<T> {
+    const cacheKey = this.cache.buildKey(this.CACHE_SCOPE, { url, params: params ?? {} });
 
     console.log('[RequestCoordinator] GET request:', { url, params, cacheKey });
 
-    // Check if we have a cached request in progress
-    const cachedEntry = this.requestCache.get(cacheKey);
-    if (cachedEntry) {
-      // Check if cached response is still fresh
-      if (Date.now() - cachedEntry.timestamp < this.CACHE_TIMEOUT) {
-        console.log('[RequestCoordinator] Using fresh cached response:', cacheKey);
-        return cachedEntry.observable;
+    return this.cache.get<T>(
+      this.CACHE_SCOPE,
+      cacheKey,
+      () => this.createRequest<T>(url, params, cacheKey),
+      {
+        ttl: cacheConfig?.enabled ? cacheConfig.ttl ?? ApiCacheService.DEFAULT_TTL : 0,
+        staleWhileRevalidate: !!cacheConfig?.enabled && !!cacheConfig.staleWhileRevalidate,
+        maxEntries: cacheConfig?.maxEntries ?? ApiCacheService.DEFAULT_MAX_ENTRIES
       }
-      // Cached entry is stale, remove it
-      this.requestCache.delete(cacheKey);
-      console.log('[RequestCoordinator] Cached entry stale, removing:', cacheKey);
-    }
-
-    // Make new HTTP request
-    console.log('[RequestCoordinator] Making new HTTP request:', cacheKey);
-
-    // Build query string from params
-    let queryUrl = url;
-    if (params && Object.keys(params).length > 0) {
-      const queryString = this.buildQueryString(params);
-      queryUrl = `${url}?${queryString}`;
-    }
-
-    // Create observable with:
-    // - shareReplay(1) = multicast to all subscribers + cache last value
-    // - catchError = error handling
-    // - finalize = cleanup after complete
-    const request$ = this.http.get<T>(queryUrl).pipe(
-      // shareReplay(1) makes this Observable:
-      // 1. Multicast: All subscribers share ONE HTTP request
-      // 2. Cached: New subscribers get cached response instantly
-      shareReplay(1),
-
-      // Clean up cache entry when request completes or errors
-      finalize(() => {
-        console.log('[RequestCoordinator] Removing cached request:', cacheKey);
-        this.requestCache.delete(cacheKey);
-      }),
-
-      // Error handling with detailed logging
-      catchError((error) => {
-        console.error('[RequestCoordinator] Request failed:', { cacheKey, error });
-        return throwError(() => error);
-      })
     );
-
-    // Store this request in cache so subsequent calls find it
-    this.requestCache.set(cacheKey, {
-      observable: request$,
-      timestamp: Date.now()
-    });
-
-    console.log('[RequestCoordinator] Cached request, key:', cacheKey);
-
-    return request$;
   }
 
   /**
@@ -151,8 +103,8 @@ export class RequestCoordinatorService {
    * this.loadData(); // Will make fresh HTTP request
    */
   clearCache(): void {
-    console.log('[RequestCoordinator] Clearing cache, count:', this.requestCache.size);
-    this.requestCache.clear();
+    console.log('[RequestCoordinator] Clearing cache');
+    this.cache.invalidate(this.CACHE_SCOPE);
   }
 
   /**
@@ -168,47 +120,38 @@ export class RequestCoordinatorService {
    * this.coordinator.clearCacheByPattern('/api/users/profile');
    */
   clearCacheByPattern(urlPattern: string): void {
-    let count = 0;
-    for (const key of this.requestCache.keys()) {
-      if (key.includes(urlPattern)) {
-        this.requestCache.delete(key);
-        count++;
-      }
-    }
+    const count = this.cache.invalidateMatching(urlPattern, this.CACHE_SCOPE);
     console.log('[RequestCoordinator] Cleared', count, 'entries matching:', urlPattern);
   }
 
   /**
-   * GENERATE CACHE KEY
+   * CREATE REQUEST
    *
-   * Creates a unique key by combining URL and params.
-   * This key is used to identify identical requests.
+   * Builds the raw HTTP GET for a URL + params (called by the cache on a miss).
    *
    * @param url - API endpoint URL
-   * @param params - Query parameters object
-   * @returns Unique cache key string
-   *
-   * ALGORITHM:
-   * 1. Sort params object by key (for consistency)
-   * 2. Convert to JSON string
-   * 3. Combine with URL
-   * 4. Create hash for size efficiency
+   * @param params - Query parameters
+   * @param cacheKey - Key used for logging
+   * @returns HTTP request Observable
    */
-  private generateCacheKey(url: string, params?: any): string {
-    // If no params, key is just the URL
-    if (!params || Object.keys(params).length === 0) {
-      return url;
-    }
-
-    // Sort params by key for consistent cache hits
-    // This ensures {a: 1, b: 2} and {b: 2, a: 1} generate same key
-    const sortedParams = this.sortObjectKeys(params);
-    const paramString = JSON.stringify(sortedParams);
+  private createRequest<T>(url: string, params: any, cacheKey: string): Observable<T> {
+    console.log('[RequestCoordinator] Making new HTTP request:', cacheKey);
 
-    // Combine URL with serialized params
-    const cacheKey = `${url}::${paramString}`;
+    // Build query string from params
+    let queryUrl = url;
+    if (params && Object.keys(params).length > 0) {
+      const queryString = this.buildQueryString(params);
+      queryUrl = `${url}?${queryString}`;
+    }
 
-    return cacheKey;
+    return this.http.get<T>(queryUrl).pipe(
+      // Error handling with detailed logging (normalized to ApiError)
+      catchError((error) => {
+        const apiError = toApiError(error, { url });
+        console.error('[RequestCoordinator] Request failed:', { cacheKey, kind: apiError.kind, error: apiError });
+        return throwError(() => apiError);
+      })
+    );
   }
 
   /**
@@ -276,34 +219,6 @@ export class RequestCoordinatorService {
     return result;
   }
 
-  /**
-   * SORT OBJECT KEYS
-   *
-   * Recursively sorts object keys alphabetically.
-   * Used to ensure consistent cache keys regardless of param order.
-   *
-   * @param obj - Object to sort
-   * @returns New object with sorted keys
-   *
-   * @example
-   * Input: { z: 1, a: 2, m: 3 }
-   * Output: { a: 2, m: 3, z: 1 }
-   */
-  private sortObjectKeys(obj: any): any {
-    if (typeof obj !== 'object' || obj === null || Array.isArray(obj)) {
-      return obj;
-    }
-
-    const sorted: any = {};
-    Object.keys(obj)
-      .sort()
-      .forEach((key) => {
-        sorted[key] = this.sortObjectKeys(obj[key]);
-      });
-
-    return sorted;
-  }
-
   /**
    * CACHE STATS (DEBUG)
    *
@@ -320,19 +235,6 @@ export class RequestCoordinatorService {
     keys: string[];
     oldestEntry?: number;
   } {
-    const stats = {
-      size: this.requestCache.size,
-      keys: Array.from(this.requestCache.keys()),
-      oldestEntry: undefined as number | undefined
-    };
-
-    if (this.requestCache.size > 0) {
-      const timestamps = Array.from(this.requestCache.values()).map(
-        (entry) => entry.timestamp
-      );
-      stats.oldestEntry = Math.min(...timestamps);
-    }
-
-    return stats;
+    return this.cache.getStats(this.CACHE_SCOPE);
   }
 }
@@ -0,0 +1,58 @@
+import { ActivatedRoute, Router } from '@angular/router';
+import { Subject } from 'rxjs';
+
+import { QueryParams, UrlStateService } from './url-state.service';
+
+describe('UrlStateService', () => {
+  let service: UrlStateService;
+
+  beforeEach(() => {
+    const route = { queryParams: new Subject<QueryParams>() };
+    const router = { events: new Subject<unknown>() };
+    service = new UrlStateService(router as unknown as Router, route as unknown as ActivatedRoute);
+  });
+
+  afterEach(() => {
+    service.ngOnDestroy();
+  });
+
+  describe('getNamespacedParams', () => {
+    const URL: QueryParams = {
+      page: '2',
+      sort: 'year:desc',
+      f_year: '2015..',
+      models: 'Ford:F-150',
+      layout: 'compact',
+      'picker.page': '3',
+      'results.pageSize': '50'
+    };
+
+    it('should read params under the namespace and its alias', () => {
+      service.registerNamespaceAlias('manufacturer-model-picker', 'picker');
+
+      expect(service.getNamespacedParams('manufacturer-model-picker', { ...URL, 'manufacturer-model-picker.sort': 'model:asc' }))
+        .toEqual({ sort: 'model:asc', page: '3' });
+    });
+
+    it('should read only the registered names under a bare alias', () => {
+      service.registerNamespaceAlias('results', '', ['page', 'pageSize', 'sort', 'f_year', 'selected']);
+
+      expect(service.getNamespacedParams('results', URL))
+        .toEqual({ pageSize: '50', page: '2', sort: 'year:desc', f_year: '2015..' });
+    });
+
+    it('should read every bare param under a bare alias without registered names', () => {
+      service.registerNamespaceAlias('results', '');
+
+      expect(Object.keys(service.getNamespacedParams('results', URL)))
+        .toEqual(['pageSize', 'page', 'sort', 'f_year', 'models', 'layout']);
+    });
+
+    it('should forget the registered names with the alias', () => {
+      service.registerNamespaceAlias('results', '', ['page']);
+      service.unregisterNamespaceAlias('results');
+
+      expect(service.getNamespacedParams('results', URL)).toEqual({ pageSize: '50' });
+    });
+  });
+});
@@ -1,7 +1,14 @@
 import { Injectable, OnDestroy } from '@angular/core';
-import { Router, ActivatedRoute, NavigationExtras } from '@angular/router';
+import { Router, ActivatedRoute, ActivatedRouteSnapshot, NavigationEnd, NavigationExtras } from '@angular/router';
 import { BehaviorSubject, Observable, Subject, from, of } from 'rxjs';
-import { map, distinctUntilChanged, takeUntil, catchError } from 'rxjs/operators';
+import { map, distinctUntilChanged, takeUntil, catchError, filter } from 'rxjs/operators';
+
+import {
+  QueryStateSchema,
+  QueryState,
+  decodeQueryState,
+  encodeQueryState
+} from './query-state.model';
 
 /**
  * Type definition for query parameters
@@ -11,6 +18,42 @@ export interface QueryParams {
   [key: string]: string | string[] | undefined;
 }
 
+/**
+ * Route data key for a route's query state schema
+ * Routes that declare one get invalid params repaired on navigation:
+ * { path: 'search', component: SearchComponent, data: { [QUERY_STATE_SCHEMA_KEY]: SEARCH_QUERY_SCHEMA } }
+ */
+export const QUERY_STATE_SCHEMA_KEY = 'queryStateSchema';
+
+/**
+ * Separator between a namespace (or its alias) and a param name
+ * Namespace 'vehicle-results-table' + 'page' → 'vehicle-results-table.page'
+ */
+export const URL_NAMESPACE_SEPARATOR = '.';
+
+/**
+ * Time rapid URL changes get to settle before they are adopted
+ * (BaseTableComponent's URL watcher)
+ */
+export const URL_CHANGE_DEBOUNCE_MS = 300;
+
+/**
+ * Options of a query param write
+ */
+export interface QueryParamsWriteOptions {
+  historyLabel?: string;    // Undo step label ("Sorted by Year"; default: derived from the changed params)
+  skipHistory?: boolean;    // Not a user action (state sync, undo/redo itself) - no undo step
+}
+
+/**
+ * A query param write that changed the URL (see UrlStateService.changes$)
+ */
+export interface QueryParamsChange {
+  before: QueryParams;      // All params before the write
+  after: QueryParams;       // All params after the write
+  label?: string;           // QueryParamsWriteOptions.historyLabel
+}
+
 /**
  * Professional-grade URL State Management Service
  *
@@ -20,6 +63,7 @@ export interface QueryParams {
  * - Error handling (navigation failure handling)
  * - Parameter encoding/decoding (arrays, objects, primitives)
  * - Cross-route persistence (maintain params across navigation)
+ * - Namespaced params (several tables on one route, each with its own page/sort)
  * - Reactive programming patterns (Observable-based API)
  *
  * @example
@@ -34,6 +78,17 @@ export interface QueryParams {
  *
  * // Navigate with persistence
  * this.urlState.navigateWithPersistence(['/details', id], ['models', 'year']);
+ *
+ * // Typed state through a schema (see query-state.model.ts)
+ * this.urlState.selectState(SEARCH_QUERY_SCHEMA).subscribe(state => state.yearMin);
+ * this.urlState.patchState(SEARCH_QUERY_SCHEMA, { yearMin: 2020 });
+ *
+ * // Namespaced params (?picker.page=2)
+ * this.urlState.registerNamespaceAlias('manufacturer-model-picker', 'picker');
+ * this.urlState.setNamespacedParams('manufacturer-model-picker', { page: '2' });
+ *
+ * // Label the undo step of a write (see QueryHistoryService)
+ * this.urlState.setQueryParams({ models: undefined }, { historyLabel: 'Cleared models' });
  * ```
  */
 @Injectable({
@@ -52,11 +107,24 @@ export class UrlStateService implements OnDestroy {
   // Components can subscribe but cannot directly modify state
   public queryParams$ = this.queryParamsSubject.asObservable();
 
+  // WRITES: Every setQueryParams/replaceQueryParams that changed the URL
+  // (unless skipHistory) - the source of QueryHistoryService's undo steps
+  private changesSubject = new Subject<QueryParamsChange>();
+  public changes$ = this.changesSubject.asObservable();
+
   // CROSS-ROUTE PERSISTENCE: Configure which params persist across all routes
   // Add param names here to automatically preserve them during navigation
   // Example: ['models', 'year', 'bodyClass'] - these survive route changes
   private persistentParams: string[] = [];
 
+  // NAMESPACE ALIASES: Short prefix written instead of a namespace
+  // Example: 'vehicle-results-table' => '' (bare params), 'manufacturer-model-picker' => 'picker'
+  private namespaceAliases = new Map<string, string>();
+
+  // BARE PARAM OWNERSHIP: Param names a namespace with the '' alias reads
+  // Example: 'vehicle-results-table' => ['page', 'pageSize', 'sort', 'f_year', 'selected']
+  private bareParamNames = new Map<string, string[]>();
+
   constructor(
     private router: Router,
     private route: ActivatedRoute
@@ -69,6 +137,20 @@ export class UrlStateService implements OnDestroy {
       .subscribe((params) => {
         this.queryParamsSubject.next(params);
       });
+
+    // SCHEMA REPAIR: After each navigation, rewrite invalid params of routes
+    // that declare a query state schema (e.g. ?yearMin=abc → param removed)
+    this.router.events
+      .pipe(
+        filter(event => event instanceof NavigationEnd),
+        takeUntil(this.destroy$)
+      )
+      .subscribe(() => {
+        const schema = this.findRouteSchema(this.router.routerState.snapshot.root);
+        if (schema) {
+          this.repairState(schema).subscribe();
+        }
+      });
   }
 
   /**
@@ -118,6 +200,16 @@ export class UrlStateService implements OnDestroy {
     return this.queryParamsSubject.value[key] as string || null;
   }
 
+  /**
+   * Get all current query parameters synchronously (snapshot)
+   * Use sparingly - prefer queryParams$ for reactive updates
+   *
+   * @returns Copy of the current query parameters
+   */
+  getQueryParamsSnapshot(): QueryParams {
+    return { ...this.queryParamsSubject.value };
+  }
+
   /**
    * Get query parameter decoded as an array
    * Automatically splits comma-separated values: 'a,b,c' → ['a', 'b', 'c']
@@ -188,32 +280,85 @@ export class UrlStateService implements OnDestroy {
   }
 
   // ============================================================================
-  // WRITE METHODS: Update query parameters in URL
+  // SCHEMA METHODS: Typed state through a QueryStateSchema
   // ============================================================================
 
   /**
-   * Set or update query parameters (merges with existing params)
-   * Handles navigation errors gracefully and returns success status
+   * Get an Observable of the typed state described by a schema
+   * Invalid values are repaired (default/clamped); only emits when the state changes
    *
-   * @param params - Object with parameter key-value pairs
-   * @returns Observable<boolean> - true if navigation succeeded, false if failed
+   * @param schema - Query state schema
+   * @returns Observable emitting the typed state
    *
    * @example
    * ```typescript
-   * // Update multiple params at once
-   * this.urlState.setQueryParams({ page: '2', sort: 'asc' }).subscribe(success => {
-   *   if (success) console.log('Navigation successful');
+   * this.urlState.selectState(SEARCH_QUERY_SCHEMA).subscribe(state => {
+   *   console.log(state.yearMin);  // number | undefined - never NaN
    * });
    * ```
    */
-  setQueryParams(params: QueryParams): Observable<boolean> {
-    // ERROR HANDLING: Wrap router.navigate() in Observable for error handling
-    // If navigation fails (guards, resolvers, etc.), catch error and return false
+  selectState<S extends QueryStateSchema>(schema: S): Observable<QueryState<S>> {
+    return this.queryParams$.pipe(
+      map(params => decodeQueryState(schema, params).state),
+      distinctUntilChanged((a, b) => JSON.stringify(a) === JSON.stringify(b))
+    );
+  }
+
+  /**
+   * Get the typed state described by a schema synchronously (snapshot)
+   *
+   * @param schema - Query state schema
+   * @returns Typed state
+   */
+  getStateSnapshot<S extends QueryStateSchema>(schema: S): QueryState<S> {
+    return decodeQueryState(schema, this.queryParamsSubject.value).state;
+  }
+
+  /**
+   * Update part of a schema's state (merges with other params)
+   * Values equal to their default and undefined values are removed from the URL
+   *
+   * @param schema - Query state schema
+   * @param state - Keys to update
+   * @returns Observable<boolean> - navigation success status
+   *
+   * @example
+   * ```typescript
+   * this.urlState.patchState(SEARCH_QUERY_SCHEMA, { yearMin: 2020, bodyClass: undefined });
+   * ```
+   */
+  patchState<S extends QueryStateSchema>(
+    schema: S,
+    state: Partial<QueryState<S>>
+  ): Observable<boolean> {
+    return this.setQueryParams(encodeQueryState(schema, state));
+  }
+
+  /**
+   * Rewrite the URL if any schema param is invalid (replaces the history entry)
+   * Repaired values (e.g. clamped numbers) are written; unrepairable ones removed
+   *
+   * @param schema - Query state schema
+   * @returns Observable<boolean> - true if nothing needed repair or the rewrite succeeded
+   */
+  repairState<S extends QueryStateSchema>(schema: S): Observable<boolean> {
+    const { state, invalid } = decodeQueryState(schema, this.queryParamsSubject.value);
+    if (invalid.length === 0) {
+      return of(true);
+    }
+
+    const repaired: Partial<QueryState<S>> = {};
+    invalid.forEach(key => {
+      repaired[key] = state[key];
+    });
+    console.warn('[UrlStateService] Repairing invalid query params:', invalid);
+
     return from(
       this.router.navigate([], {
         relativeTo: this.route,
-        queryParams: params,
-        queryParamsHandling: 'merge' // Merge with existing params (don't replace all)
+        queryParams: encodeQueryState(schema, repaired),
+        queryParamsHandling: 'merge',
+        replaceUrl: true  // Don't leave the invalid URL in history
       })
     ).pipe(
       catchError((error) => {
@@ -223,6 +368,178 @@ export class UrlStateService implements OnDestroy {
     );
   }
 
+  // ============================================================================
+  // NAMESPACE METHODS: Params scoped to one owner (e.g. a table)
+  // ============================================================================
+
+  /**
+   * Use a short alias instead of a namespace in the URL
+   * An empty alias writes bare param names (?page=2) - meant for the one
+   * primary table of a route. Params under the full namespace are still read.
+   * With an empty alias, pass the names the namespace owns: other bare params
+   * on the route (e.g. the search form's ?models=) are then not read as its own.
+   *
+   * @param namespace - Namespace (e.g. a TableConfig.id)
+   * @param alias - Short prefix ('' = no prefix)
+   * @param bareParams - Names read under the empty alias (default: every bare param)
+   *
+   * @example
+   * ```typescript
+   * this.urlState.registerNamespaceAlias('manufacturer-model-picker', 'picker');
+   * // ?picker.page=2&picker.sort=model:asc
+   * ```
+   */
+  registerNamespaceAlias(namespace: string, alias: string, bareParams?: string[]): void {
+    this.namespaceAliases.forEach((existing, owner) => {
+      if (existing === alias && owner !== namespace) {
+        console.warn('[UrlStateService] URL alias', JSON.stringify(alias), 'of', namespace, 'is also used by', owner);
+      }
+    });
+    this.namespaceAliases.set(namespace, alias);
+
+    if (bareParams) {
+      this.bareParamNames.set(namespace, bareParams);
+    } else {
+      this.bareParamNames.delete(namespace);
+    }
+  }
+
+  /**
+   * Stop using a namespace's alias (e.g. when its table is destroyed)
+   *
+   * @param namespace - Namespace whose alias to remove
+   */
+  unregisterNamespaceAlias(namespace: string): void {
+    this.namespaceAliases.delete(namespace);
+    this.bareParamNames.delete(namespace);
+  }
+
+  /**
+   * Prefix a namespace writes to the URL: its alias if registered, else the namespace
+   *
+   * @param namespace - Namespace
+   * @returns Prefix ('' = bare param names)
+   */
+  getNamespacePrefix(namespace: string): string {
+    return this.namespaceAliases.get(namespace) ?? namespace;
+  }
+
+  /**
+   * Read a namespace's params (prefix removed)
+   * Params under the alias win over params under the full namespace
+   * Under the empty alias, only the bare names registered for the namespace are read
+   *
+   * @param namespace - Namespace
+   * @param params - Query params to read (default: current URL)
+   * @returns Params of the namespace, by bare name
+   *
+   * @example
+   * ```typescript
+   * // URL: ?picker.page=2&page=5
+   * this.urlState.getNamespacedParams('manufacturer-model-picker');   // { page: '2' }
+   * ```
+   */
+  getNamespacedParams(namespace: string, params: QueryParams = this.queryParamsSubject.value): QueryParams {
+    const prefixes = [namespace, this.getNamespacePrefix(namespace)];
+    const owned = this.bareParamNames.get(namespace);
+    const result: QueryParams = {};
+
+    prefixes.forEach(prefix => {
+      Object.keys(params).forEach(key => {
+        const name = this.stripNamespacePrefix(prefix, key);
+        if (name !== null && (prefix || !owned || owned.includes(name))) {
+          result[name] = params[key];
+        }
+      });
+    });
+
+    return result;
+  }
+
+  /**
+   * Get an Observable of a namespace's params (prefix removed)
+   * Only emits when the namespace's params change
+   *
+   * @param namespace - Namespace
+   * @returns Observable emitting the namespace's params
+   */
+  selectNamespace(namespace: string): Observable<QueryParams> {
+    return this.queryParams$.pipe(
+      map(params => this.getNamespacedParams(namespace, params)),
+      distinctUntilChanged((a, b) => JSON.stringify(a) === JSON.stringify(b))
+    );
+  }
+
+  /**
+   * Prefix params for a namespace (ready for setQueryParams)
+   * Written under the alias; a copy under the full namespace is removed
+   *
+   * @param namespace - Namespace
+   * @param params - Params by bare name (undefined removes the param)
+   * @returns Params by URL name
+   *
+   * @example
+   * ```typescript
+   * this.urlState.namespaceParams('manufacturer-model-picker', { page: undefined });
+   * // { 'picker.page': undefined }
+   * ```
+   */
+  namespaceParams(namespace: string, params: QueryParams): QueryParams {
+    const prefix = this.getNamespacePrefix(namespace);
+    const current = this.queryParamsSubject.value;
+    const result: QueryParams = {};
+
+    Object.keys(params).forEach(name => {
+      result[this.toNamespacedKey(prefix, name)] = params[name];
+
+      const fullKey = this.toNamespacedKey(namespace, name);
+      if (prefix !== namespace && current[fullKey] !== undefined) {
+        result[fullKey] = undefined;
+      }
+    });
+
+    return result;
+  }
+
+  /**
+   * Set or update a namespace's params (merges with existing params)
+   *
+   * @param namespace - Namespace
+   * @param params - Params by bare name (undefined removes the param)
+   * @param options - Undo history label / opt-out
+   * @returns Observable<boolean> - navigation success status
+   */
+  setNamespacedParams(namespace: string, params: QueryParams, options: QueryParamsWriteOptions = {}): Observable<boolean> {
+    return this.setQueryParams(this.namespaceParams(namespace, params), options);
+  }
+
+  // ============================================================================
+  // WRITE METHODS: Update query parameters in URL
+  // ============================================================================
+
+  /**
+   * Set or update query parameters (merges with existing params)
+   * Handles navigation errors gracefully and returns success status
+   *
+   * @param params - Object with parameter key-value pairs
+   * @param options - Undo history label / opt-out
+   * @returns Observable<boolean> - true if navigation succeeded, false if failed
+   *
+   * @example
+   * ```typescript
+   * // Update multiple params at once
+   * this.urlState.setQueryParams({ page: '2', sort: 'asc' }).subscribe(success => {
+   *   if (success) console.log('Navigation successful');
+   * });
+   * ```
+   */
+  setQueryParams(params: QueryParams, options: QueryParamsWriteOptions = {}): Observable<boolean> {
+    return this.navigateQueryParams({
+      queryParams: params,
+      queryParamsHandling: 'merge' // Merge with existing params (don't replace all)
+    }, options);
+  }
+
   /**
    * Set query parameter from an array value
    * Automatically encodes array as comma-separated string
@@ -258,21 +575,14 @@ export class UrlStateService implements OnDestroy {
    * Removes existing params and sets only the provided ones
    *
    * @param params - New query parameters (replaces all existing)
+   * @param options - Undo history label / opt-out
    * @returns Observable<boolean> - navigation success status
    */
-  replaceQueryParams(params: QueryParams): Observable<boolean> {
-    return from(
-      this.router.navigate([], {
-        relativeTo: this.route,
-        queryParams: params,
-        // NO queryParamsHandling - defaults to replace behavior
-      })
-    ).pipe(
-      catchError((error) => {
-        console.error('[UrlStateService] Navigation failed:', error);
-        return of(false);
-      })
-    );
+  replaceQueryParams(params: QueryParams, options: QueryParamsWriteOptions = {}): Observable<boolean> {
+    return this.navigateQueryParams({
+      queryParams: params
+      // NO queryParamsHandling - defaults to replace behavior
+    }, options);
   }
 
   /**
@@ -297,6 +607,32 @@ export class UrlStateService implements OnDestroy {
     return this.replaceQueryParams({});
   }
 
+  /**
+   * PRIVATE: Navigate to new query params on the current route and report the change
+   * (changes$) once the URL actually changed
+   */
+  private navigateQueryParams(extras: NavigationExtras, options: QueryParamsWriteOptions): Observable<boolean> {
+    const before = this.router.routerState.snapshot.root.queryParams;
+
+    // ERROR HANDLING: Wrap router.navigate() in Observable for error handling
+    // If navigation fails (guards, resolvers, etc.), catch error and return false
+    // (the change is reported inside the promise, so unsubscribed writes are recorded too)
+    return from(
+      this.router.navigate([], { relativeTo: this.route, ...extras }).then(success => {
+        const after = this.router.routerState.snapshot.root.queryParams;
+        if (success && !options.skipHistory && after !== before) {
+          this.changesSubject.next({ before, after, label: options.historyLabel });
+        }
+        return success;
+      })
+    ).pipe(
+      catchError((error) => {
+        console.error('[UrlStateService] Navigation failed:', error);
+        return of(false);
+      })
+    );
+  }
+
   // ============================================================================
   // CROSS-ROUTE PERSISTENCE: Maintain params across navigation
   // ============================================================================
@@ -392,6 +728,41 @@ export class UrlStateService implements OnDestroy {
   // ENCODING/DECODING HELPERS: Handle complex parameter types
   // ============================================================================
 
+  /**
+   * PRIVATE: Find the deepest active route's query state schema (route data)
+   *
+   * @param snapshot - Route snapshot to start from
+   * @returns The schema, or undefined if no active route declares one
+   */
+  private findRouteSchema(snapshot: ActivatedRouteSnapshot): QueryStateSchema | undefined {
+    let schema: QueryStateSchema | undefined;
+    let current: ActivatedRouteSnapshot | null = snapshot;
+    while (current) {
+      schema = current.data[QUERY_STATE_SCHEMA_KEY] || schema;
+      current = current.firstChild;
+    }
+    return schema;
+  }
+
+  /**
+   * PRIVATE: URL name of a param under a prefix ('' = bare name)
+   */
+  private toNamespacedKey(prefix: string, name: string): string {
+    return prefix ? `${prefix}${URL_NAMESPACE_SEPARATOR}${name}` : name;
+  }
+
+  /**
+   * PRIVATE: Bare name of a URL param under a prefix, or null if it isn't under it
+   * The empty prefix owns every param without a namespace
+   */
+  private stripNamespacePrefix(prefix: string, key: string): string | null {
+    if (!prefix) {
+      return key.includes(URL_NAMESPACE_SEPARATOR) ? null : key;
+    }
+    const start = `${prefix}${URL_NAMESPACE_SEPARATOR}`;
+    return key.startsWith(start) ? key.substring(start.length) : null;
+  }
+
   /**
    * PRIVATE: Encode a value for URL storage
    * Handles arrays (comma-separated), objects (JSON), primitives (string)
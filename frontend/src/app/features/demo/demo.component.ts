@@ -1,13 +1,19 @@
 import { Component, OnInit, OnDestroy } from '@angular/core';
-import { Subject, forkJoin } from 'rxjs';
+import { Subject } from 'rxjs';
 import { takeUntil, take } from 'rxjs/operators';
 import { TableConfig, SelectionChangeEvent } from '../../shared/models';
-import { Manufacturer } from '../../config/api/vehicle-api.types';
+import { Manufacturer, VehicleSearchResponse } from '../../config/api/vehicle-api.types';
 import { ApiService } from '../../core/services/api.service';
 import { VEHICLE_API_CONFIG } from '../../config/api/vehicle-api.config';
 import { UrlStateService } from '../../core/services/url-state.service';
+import {
+  urlParamToModelCombos,
+  modelCombosToUrlParam,
+  modelComboToSelectionKey
+} from '../../models/manufacturer-model.model';
 import { PICKER_TABLE_DEMO_SINGLE_CONFIG } from '../../config/tables/picker-table-demo-single.config';
 import { PICKER_TABLE_DEMO_DUAL_CONFIG } from '../../config/tables/picker-table-demo-dual.config';
+import { PICKER_TABLE_DEMO_LEVELS_CONFIG } from '../../config/tables/picker-table-demo-levels.config';
 import { EXPANDABLE_DEMO_CONFIG } from '../../config/tables/expandable-demo.config';
 
 /**
@@ -21,6 +27,7 @@ import { EXPANDABLE_DEMO_CONFIG } from '../../config/tables/expandable-demo.conf
  * - BaseTableComponent with picker configuration
  * - Hierarchical checkbox pattern (manufacturer-model parent-child)
  * - Tri-state parent checkboxes (unchecked/indeterminate/checked)
+ * - N-level hierarchy (manufacturer → model → year)
  * - Selection events and state management
  * - URL-first state management (selections persist in URL)
  */
@@ -43,6 +50,12 @@ export class DemoComponent implements OnInit, OnDestroy {
    */
   pickerConfigDual!: TableConfig;
 
+  /**
+   * Picker table configuration - N-Level Hierarchy
+   * Demonstrates manufacturer → model → year selection (loads its own data)
+   */
+  pickerConfigLevels: TableConfig = PICKER_TABLE_DEMO_LEVELS_CONFIG;
+
   /**
    * Expandable table configuration
    * Demonstrates expandable rows with sub-table VIN details
@@ -50,7 +63,7 @@ export class DemoComponent implements OnInit, OnDestroy {
   expandableConfig: TableConfig = EXPANDABLE_DEMO_CONFIG;
 
   /**
-   * Vehicle data with VIN instances for expandable demo
+   * Vehicle rows for expandable demo (VINs are lazy-loaded on expand)
    */
   expandableData: any[] = [];
 
@@ -78,6 +91,12 @@ export class DemoComponent implements OnInit, OnDestroy {
   selectedItemsDual: any[] = [];
   selectionCountDual = 0;
 
+  /**
+   * Current selection state - N-Level Hierarchy
+   */
+  selectedKeysLevels: Set<string> = new Set();
+  selectionCountLevels = 0;
+
   /**
    * URL-first hydration (initial selection from URL)
    */
@@ -251,18 +270,15 @@ export class DemoComponent implements OnInit, OnDestroy {
         // URL-first state management
         serializer: (items: any[]) => {
           // Convert items to URL format: "Ford:F-150,Ford:Mustang,Dodge:Durango"
-          return items.map(item => `${item.manufacturer}:${item.model}`).join(',');
+          return modelCombosToUrlParam(items);
         },
         deserializer: (urlValue: string) => {
           // Parse URL format back to items
-          return urlValue.split(',').map(pair => {
-            const [manufacturer, model] = pair.split(':');
-            return { manufacturer, model };
-          });
+          return urlParamToModelCombos(urlValue);
         },
         keyGenerator: (item: any) => {
           // Generate unique key: "manufacturer|model"
-          return `${item.manufacturer}|${item.model}`;
+          return modelComboToSelectionKey(item);
         }
       }
     };
@@ -283,18 +299,15 @@ export class DemoComponent implements OnInit, OnDestroy {
         // URL-first state management
         serializer: (items: any[]) => {
           // Convert items to URL format: "Ford:F-150,Ford:Mustang,Dodge:Durango"
-          return items.map(item => `${item.manufacturer}:${item.model}`).join(',');
+          return modelCombosToUrlParam(items);
         },
         deserializer: (urlValue: string) => {
           // Parse URL format back to items
-          return urlValue.split(',').map(pair => {
-            const [manufacturer, model] = pair.split(':');
-            return { manufacturer, model };
-          });
+          return urlParamToModelCombos(urlValue);
         },
         keyGenerator: (item: any) => {
           // Generate unique key: "manufacturer|model"
-          return `${item.manufacturer}|${item.model}`;
+          return modelComboToSelectionKey(item);
         }
       }
     };
@@ -420,98 +433,38 @@ export class DemoComponent implements OnInit, OnDestroy {
   }
 
   /**
-   * Load expandable demo data (vehicle results with VIN instances)
+   * Handle selection change event - N-Level Hierarchy
+   * (BaseTable keeps the selection in the URL itself: 'vehicles-levels')
+   */
+  onSelectionChangeLevels(event: SelectionChangeEvent): void {
+    console.log('[DemoComponent] N-level selection changed:', event);
+    this.selectedKeysLevels = event.selectedKeys;
+    this.selectionCountLevels = event.selectedKeys.size;
+  }
+
+  /**
+   * Load expandable demo data (vehicle results)
    * Demonstrates Phase 6: Expandable rows functionality
    *
-   * NOTE: Fetches real VIN data from Elasticsearch and groups by vehicle
+   * NOTE: Only parent rows are fetched here - each row's VIN instances are
+   * lazy-loaded by BaseTable when the row is expanded (subTable.apiConfigRef)
    */
   private loadExpandableData(): void {
-    console.log('[DemoComponent] Loading expandable demo data from real VIN data...');
+    console.log('[DemoComponent] Loading expandable demo vehicles...');
 
-    // Get real manufacturer-model data first
-    this.apiService.get<any, Manufacturer[]>(
+    this.apiService.get<any, VehicleSearchResponse>(
       VEHICLE_API_CONFIG,
-      'manufacturerModelCounts'
+      'search',
+      { page: 1, size: 50 }
     ).subscribe({
-      next: (manufacturers) => {
-        // Fetch VINs for first 3 manufacturers
-        const manufacturersToLoad = manufacturers.slice(0, 3);
-        const vinRequests = manufacturersToLoad.map(mfr =>
-          this.apiService.get<any, any[]>(
-            VEHICLE_API_CONFIG,
-            'vinInstances',
-            { manufacturer: mfr.manufacturer, limit: 50 }
-          )
-        );
-
-        // Wait for all VIN requests to complete using forkJoin
-        forkJoin(vinRequests).subscribe({
-          next: (vinArrays: any[][]) => {
-            // Flatten all VINs
-            const allVins = vinArrays.flat().filter(v => v); // Filter out any undefined
-
-            // Group VINs by vehicle (manufacturer + model + year)
-            this.expandableData = this.groupVinsByVehicle(allVins);
-            console.log('[DemoComponent] Loaded', this.expandableData.length, 'vehicles with', allVins.length, 'total VINs from Elasticsearch');
-          },
-          error: (error) => {
-            console.error('[DemoComponent] Error loading VIN data:', error);
-            this.expandableData = [];
-          }
-        });
+      next: (response) => {
+        this.expandableData = response?.results || [];
+        console.log('[DemoComponent] Loaded', this.expandableData.length, 'vehicles');
       },
       error: (error) => {
-        console.error('[DemoComponent] Error loading manufacturer data:', error);
+        console.error('[DemoComponent] Error loading vehicle data:', error);
         this.expandableData = [];
       }
     });
   }
-
-  /**
-   * Group VIN instances by vehicle (manufacturer + model + year)
-   * Creates vehicle summary rows with embedded VIN instances
-   *
-   * @param vins - Array of VIN instances from Elasticsearch
-   * @returns Array of vehicle objects with vin_instances property
-   */
-  private groupVinsByVehicle(vins: any[]): any[] {
-    // Group VINs by vehicle_id (or manufacturer+model+year if no vehicle_id)
-    const vehicleMap = new Map<string, any>();
-
-    vins.forEach(vin => {
-      // Use vehicle_id if available, otherwise create key from manufacturer+model+year
-      const vehicleKey = vin.vehicle_id || `${vin.manufacturer}-${vin.model}-${vin.year}`;
-
-      if (!vehicleMap.has(vehicleKey)) {
-        // Create new vehicle entry
-        vehicleMap.set(vehicleKey, {
-          vehicle_id: vehicleKey,
-          manufacturer: vin.manufacturer,
-          model: vin.model,
-          year: vin.year,
-          body_class: vin.body_class || 'Unknown',
-          data_source: vin.data_source || 'Elasticsearch',
-          make_model_year: `${vin.manufacturer}|${vin.model}|${vin.year}`,
-          instance_count: 0,
-          vin_instances: []
-        });
-      }
-
-      // Add VIN to this vehicle's instances
-      const vehicle = vehicleMap.get(vehicleKey);
-      vehicle.vin_instances.push(vin);
-      vehicle.instance_count = vehicle.vin_instances.length;
-    });
-
-    // Convert map to array and sort by manufacturer, model, year
-    return Array.from(vehicleMap.values()).sort((a, b) => {
-      if (a.manufacturer !== b.manufacturer) {
-        return a.manufacturer.localeCompare(b.manufacturer);
-      }
-      if (a.model !== b.model) {
-        return a.model.localeCompare(b.model);
-      }
-      return b.year - a.year; // Newest first
-    });
-  }
 }
@@ -1,15 +1,163 @@
-import { Component, OnInit } from '@angular/core';
+import { Component, OnInit, OnDestroy } from '@angular/core';
+import { Subject } from 'rxjs';
+import { takeUntil } from 'rxjs/operators';
+import { QueryParams } from '../../core/services/url-state.service';
+import { decodeQueryState } from '../../core/services/query-state.model';
+import { SEARCH_QUERY_SCHEMA } from '../../config/query-state/search-query.schema';
+import { urlParamToModelCombos } from '../../models/manufacturer-model.model';
+import {
+  SavedSearchService,
+  SavedSearch,
+  RecentSearch
+} from '../../shared/services/saved-search.service';
 
+/**
+ * HOME PAGE COMPONENT
+ *
+ * PURPOSE:
+ * Landing page. Lists the user's saved and recent searches
+ * (SavedSearchService); one click reopens a search with its criteria,
+ * sort, page size and column preferences.
+ *
+ * SAVED SEARCHES:
+ * - Filter by tag (click a tag chip)
+ * - Edit name and tags inline, delete
+ *
+ * RECENT SEARCHES:
+ * - Recorded automatically by the Search page, newest first
+ */
 @Component({
   selector: 'app-home',
   templateUrl: './home.component.html',
   styleUrls: ['./home.component.scss']
 })
-export class HomeComponent implements OnInit {
+export class HomeComponent implements OnInit, OnDestroy {
 
-  constructor() { }
+  /**
+   * Saved searches (newest first) and recent searches (newest first)
+   */
+  savedSearches: SavedSearch[] = [];
+  recentSearches: RecentSearch[] = [];
+
+  /**
+   * All tags in use, and the tag the saved list is filtered by
+   */
+  tags: string[] = [];
+  activeTag: string | null = null;
+
+  /**
+   * Inline edit of a saved search (name, comma-separated tags)
+   */
+  editingId: string | null = null;
+  editName = '';
+  editTags = '';
+
+  /**
+   * Cleanup subject for subscription management
+   */
+  private destroy$ = new Subject<void>();
+
+  constructor(private savedSearchService: SavedSearchService) {}
 
   ngOnInit(): void {
+    this.savedSearchService.savedSearches$
+      .pipe(takeUntil(this.destroy$))
+      .subscribe(searches => {
+        this.savedSearches = searches;
+        this.tags = this.savedSearchService.getAllTags();
+        if (this.activeTag && !this.tags.includes(this.activeTag)) {
+          this.activeTag = null;
+        }
+      });
+
+    this.savedSearchService.recentSearches$
+      .pipe(takeUntil(this.destroy$))
+      .subscribe(searches => this.recentSearches = searches);
+  }
+
+  ngOnDestroy(): void {
+    this.destroy$.next();
+    this.destroy$.complete();
+  }
+
+  /**
+   * Saved searches shown (filtered by the active tag)
+   */
+  get visibleSavedSearches(): SavedSearch[] {
+    return this.activeTag
+      ? this.savedSearches.filter(search => search.tags.includes(this.activeTag!))
+      : this.savedSearches;
+  }
+
+  /**
+   * Click on a tag: filter by it (click again to show all)
+   */
+  toggleTag(tag: string): void {
+    this.activeTag = this.activeTag === tag ? null : tag;
+  }
+
+  openSearch(search: SavedSearch | RecentSearch): void {
+    this.savedSearchService.openSearch(search);
+  }
+
+  startEdit(search: SavedSearch): void {
+    this.editingId = search.id;
+    this.editName = search.name;
+    this.editTags = search.tags.join(', ');
   }
 
+  cancelEdit(): void {
+    this.editingId = null;
+  }
+
+  /**
+   * Save the inline edit (a name taken by another search keeps the form open)
+   */
+  saveEdit(): void {
+    if (!this.editingId) {
+      return;
+    }
+
+    if (!this.savedSearchService.renameSearch(this.editingId, this.editName)) {
+      return;
+    }
+
+    this.savedSearchService.setSearchTags(this.editingId, this.editTags.split(','));
+    this.editingId = null;
+  }
+
+  deleteSearch(search: SavedSearch): void {
+    this.savedSearchService.deleteSearch(search.id);
+  }
+
+  removeRecentSearch(search: RecentSearch): void {
+    this.savedSearchService.removeRecentSearch(search.key);
+  }
+
+  clearRecentSearches(): void {
+    this.savedSearchService.clearRecentSearches();
+  }
+
+  /**
+   * One-line summary of a search's criteria
+   * "Ford F-150, Ford Ranger · 2020–2024 · Pickup"
+   */
+  describeSearch(queryParams: QueryParams): string {
+    const state = decodeQueryState(SEARCH_QUERY_SCHEMA, queryParams).state;
+    const parts: string[] = [];
+
+    const combos = urlParamToModelCombos(state.models);
+    if (combos.length > 0) {
+      const shown = combos.slice(0, 3).map(combo => `${combo.manufacturer} ${combo.model}`);
+      parts.push(combos.length > 3 ? `${shown.join(', ')} +${combos.length - 3} more` : shown.join(', '));
+    }
+
+    if (state.yearMin !== undefined || state.yearMax !== undefined) {
+      parts.push(`${state.yearMin ?? '…'}–${state.yearMax ?? '…'}`);
+    }
+    if (state.bodyClass) parts.push(state.bodyClass);
+    if (state.dataSource) parts.push(state.dataSource);
+
+    return parts.length > 0 ? parts.join(' · ') : 'All vehicles';
+  }
 }
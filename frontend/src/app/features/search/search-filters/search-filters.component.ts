@@ -0,0 +1,118 @@
+import { Component, Input, Output, EventEmitter, OnChanges, SimpleChanges } from '@angular/core';
+import { VEHICLE_BODY_CLASSES, VehicleBodyClass } from '../../../config/query-state/search-query.schema';
+
+/**
+ * SEARCH FILTER VALUES
+ * Filter criteria edited by SearchFiltersComponent (mirrors the URL params)
+ */
+export interface SearchFilterValues {
+  yearMin?: number;
+  yearMax?: number;
+  bodyClass?: VehicleBodyClass;
+  dataSource?: string;
+}
+
+/**
+ * SEARCH FILTERS COMPONENT
+ *
+ * PURPOSE:
+ * Filter panel for vehicle search (year range, body class, data source).
+ * Presentational only - the host owns URL state:
+ * - [values] is hydrated from the URL by the host
+ * - (filtersChange) emits on Apply; the host writes the URL
+ *
+ * Edits are kept as a local draft until Apply, so typing a year
+ * doesn't trigger a search on every keystroke.
+ */
+@Component({
+  selector: 'app-search-filters',
+  templateUrl: './search-filters.component.html',
+  styleUrls: ['./search-filters.component.scss']
+})
+export class SearchFiltersComponent implements OnChanges {
+
+  /**
+   * Applied filter values (from URL)
+   */
+  @Input() values: SearchFilterValues = {};
+
+  /**
+   * Emitted when the user applies or clears the filters
+   */
+  @Output() filtersChange = new EventEmitter<SearchFilterValues>();
+
+  /**
+   * Body class options
+   */
+  readonly bodyClassOptions = VEHICLE_BODY_CLASSES.map(value => ({ label: value, value }));
+
+  /**
+   * Local draft of the filter values (edited by the form)
+   */
+  draft: SearchFilterValues = {};
+
+  ngOnChanges(changes: SimpleChanges): void {
+    // URL changed (back/forward, shared link, clear) - reset draft to applied values
+    if (changes['values']) {
+      this.draft = { ...(this.values || {}) };
+    }
+  }
+
+  /**
+   * Is the year range invalid (min after max)?
+   */
+  isYearRangeInvalid(): boolean {
+    const { yearMin, yearMax } = this.normalize(this.draft);
+    return yearMin !== undefined && yearMax !== undefined && yearMin > yearMax;
+  }
+
+  /**
+   * Does the draft differ from the applied values?
+   */
+  isDirty(): boolean {
+    const draft = this.normalize(this.draft);
+    const applied = this.normalize(this.values || {});
+    return draft.yearMin !== applied.yearMin ||
+      draft.yearMax !== applied.yearMax ||
+      draft.bodyClass !== applied.bodyClass ||
+      draft.dataSource !== applied.dataSource;
+  }
+
+  /**
+   * Apply the draft filters
+   */
+  apply(): void {
+    if (this.isYearRangeInvalid()) {
+      return;
+    }
+    this.filtersChange.emit(this.normalize(this.draft));
+  }
+
+  /**
+   * Clear all filters
+   */
+  clear(): void {
+    this.draft = {};
+    this.filtersChange.emit({});
+  }
+
+  /**
+   * Normalize form values: empty inputs become undefined, years become integers
+   */
+  private normalize(values: SearchFilterValues): SearchFilterValues {
+    return {
+      yearMin: this.toYear(values.yearMin),
+      yearMax: this.toYear(values.yearMax),
+      bodyClass: values.bodyClass || undefined,
+      dataSource: values.dataSource?.trim() || undefined
+    };
+  }
+
+  private toYear(value: number | string | undefined | null): number | undefined {
+    if (value === undefined || value === null || value === '') {
+      return undefined;
+    }
+    const year = parseInt(String(value), 10);
+    return isNaN(year) ? undefined : year;
+  }
+}
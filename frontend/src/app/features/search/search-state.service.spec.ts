@@ -0,0 +1,108 @@
+import { Subject, of } from 'rxjs';
+
+import { UrlStateService } from '../../core/services/url-state.service';
+import { SearchQueryState } from '../../config/query-state/search-query.schema';
+import { SearchStateService } from './search-state.service';
+
+describe('SearchStateService', () => {
+  let state$: Subject<SearchQueryState>;
+  let setQueryParams: jasmine.Spy;
+  let service: SearchStateService;
+
+  beforeEach(() => {
+    state$ = new Subject<SearchQueryState>();
+    setQueryParams = jasmine.createSpy('setQueryParams').and.returnValue(of(true));
+
+    const urlState = {
+      selectState: () => state$,
+      setQueryParams,
+      namespaceParams: (_id: string, params: Record<string, unknown>) => params
+    } as unknown as UrlStateService;
+    service = new SearchStateService(urlState);
+  });
+
+  afterEach(() => {
+    service.ngOnDestroy();
+  });
+
+  /**
+   * Emit a URL state (params not given are absent)
+   */
+  function emit(state: Partial<SearchQueryState>): void {
+    state$.next({
+      models: undefined,
+      yearMin: undefined,
+      yearMax: undefined,
+      bodyClass: undefined,
+      dataSource: undefined,
+      ...state
+    });
+  }
+
+  describe('hydration', () => {
+    it('should derive applied models, picker keys and filters from the URL', () => {
+      emit({ models: 'Ford:F-150,AC:Cobra\\|427', yearMin: 2020, bodyClass: 'SUV' });
+
+      expect(service.appliedModels).toEqual([
+        { manufacturer: 'Ford', model: 'F-150' },
+        { manufacturer: 'AC', model: 'Cobra|427' }
+      ]);
+      expect(service.initialPickerSelection).toEqual(new Set(['Ford|F-150', 'AC|Cobra\\|427']));
+      expect(service.filters).toEqual({ yearMin: 2020, yearMax: undefined, bodyClass: 'SUV', dataSource: undefined });
+      expect(service.hasActiveCriteria()).toBe(true);
+    });
+
+    it('should keep the picker selection when only other criteria change', () => {
+      ['Mazda:MX-5:Miata', 'Ford:F-150,Ford:Ranger'].forEach(models => {
+        emit({ models });
+        const selection = service.initialPickerSelection;
+
+        emit({ models, yearMin: 2020 });
+        expect(service.initialPickerSelection).withContext(models).toBe(selection);
+      });
+    });
+
+    it('should keep the picker selection when the same models are re-encoded or reordered', () => {
+      emit({ models: 'Ford:F-150,Ford:Ranger' });
+      const selection = service.initialPickerSelection;
+
+      emit({ models: 'Ford:Ranger,Ford:F-150' });
+      expect(service.initialPickerSelection).toBe(selection);
+
+      emit({ models: '~' + btoa('Ford(F-150,Ranger)').replace(/=+$/, '') });
+      expect(service.initialPickerSelection).toBe(selection);
+    });
+
+    it('should rebuild the picker selection when the models change', () => {
+      emit({ models: 'Ford:F-150' });
+      emit({ models: 'Ford:F-150,Ford:Ranger' });
+
+      expect(service.initialPickerSelection).toEqual(new Set(['Ford|F-150', 'Ford|Ranger']));
+
+      emit({});
+      expect(service.initialPickerSelection).toEqual(new Set());
+      expect(service.hasActiveCriteria()).toBe(false);
+    });
+  });
+
+  describe('writes', () => {
+    it('should write filters and reset the results page', () => {
+      service.applyFilters({ yearMin: 2020, bodyClass: 'SUV' });
+
+      expect(setQueryParams).toHaveBeenCalledWith(
+        { yearMin: '2020', yearMax: undefined, bodyClass: 'SUV', dataSource: undefined, page: undefined },
+        { historyLabel: 'Changed filters' }
+      );
+    });
+
+    it('should remove one applied model', () => {
+      emit({ models: 'Ford:F-150,Ford:Ranger' });
+      service.removeModel({ manufacturer: 'Ford', model: 'F-150' });
+
+      expect(setQueryParams).toHaveBeenCalledWith(
+        { models: 'Ford:Ranger', page: undefined },
+        { historyLabel: 'Removed Ford F-150' }
+      );
+    });
+  });
+});
@@ -0,0 +1,201 @@
+/*
+  SEARCH STATE SERVICE
+
+  PURPOSE:
+  The search criteria shared by the /search and /workshop pages: reads them
+  from the URL (SEARCH_QUERY_SCHEMA) and writes picker, filter and chip
+  changes back. Both pages bind the same picker, filter panel and results
+  table, so they read and write the criteria the same way.
+
+  URL OWNERSHIP:
+  - models, yearMin, yearMax, bodyClass, dataSource (SEARCH_QUERY_SCHEMA)
+  - Every write also sends the results table back to its first page
+
+  SCOPE:
+  Provided per component (not root) so the URL subscription ends with the page:
+
+  @Component({ providers: [SearchStateService] })
+
+  USAGE:
+  constructor(private searchState: SearchStateService) {}
+
+  get filters() { return this.searchState.filters; }
+  onPickerApply(event) { this.searchState.applyPickerSelection(event); }
+*/
+
+import { Injectable, OnDestroy } from '@angular/core';
+import { Subject } from 'rxjs';
+import { takeUntil } from 'rxjs/operators';
+
+import { SelectionChangeEvent } from '../../shared/models';
+import { UrlStateService, QueryParams } from '../../core/services/url-state.service';
+import { encodeQueryState } from '../../core/services/query-state.model';
+import { SEARCH_QUERY_SCHEMA, SearchQueryState } from '../../config/query-state/search-query.schema';
+import { RESULTS_TABLE_CONFIG } from '../../config/tables/results-table.config';
+import {
+  ModelCombination,
+  urlParamToModelCombos,
+  modelCombosToUrlParam,
+  modelComboToSelectionKey
+} from '../../models/manufacturer-model.model';
+import { SearchFilterValues } from './search-filters/search-filters.component';
+
+/**
+ * SEARCH STATE SERVICE
+ *
+ * Hydrates the search criteria from the URL and writes changes back.
+ */
+@Injectable()
+export class SearchStateService implements OnDestroy {
+  /**
+   * Applied model selection (from the 'models' URL param)
+   */
+  appliedModels: ModelCombination[] = [];
+
+  /**
+   * Picker hydration keys ("manufacturer|model") derived from 'models'
+   */
+  initialPickerSelection?: Set<string>;
+
+  /**
+   * Current filter values (from URL)
+   */
+  filters: SearchFilterValues = {};
+
+  private destroy$ = new Subject<void>();
+
+  constructor(private urlState: UrlStateService) {
+    // URL-first: hydrate all search state from query params (typed by the schema)
+    this.urlState.selectState(SEARCH_QUERY_SCHEMA)
+      .pipe(takeUntil(this.destroy$))
+      .subscribe(state => this.hydrateFromUrl(state));
+  }
+
+  ngOnDestroy(): void {
+    this.destroy$.next();
+    this.destroy$.complete();
+  }
+
+  /**
+   * Picker Apply clicked: write selection to 'models' and go back to page 1
+   */
+  applyPickerSelection(event: SelectionChangeEvent): void {
+    const combos: ModelCombination[] = event.selectedItems.map(item => ({
+      manufacturer: item.manufacturer,
+      model: item.model
+    }));
+
+    const models = modelCombosToUrlParam(combos, { compact: true });
+    console.log('[SearchStateService] Applying model selection:', combos.length, 'models');
+
+    this.urlState.setQueryParams({
+      models: models || undefined,
+      ...this.resultsFirstPageParams()
+    }, { historyLabel: combos.length > 0 ? `Applied ${combos.length} models` : 'Cleared models' }).subscribe();
+  }
+
+  /**
+   * Filter panel changed: write filters to URL and go back to page 1
+   */
+  applyFilters(values: SearchFilterValues): void {
+    console.log('[SearchStateService] Filters changed:', values);
+
+    this.urlState.setQueryParams({
+      ...encodeQueryState(SEARCH_QUERY_SCHEMA, {
+        yearMin: values.yearMin,
+        yearMax: values.yearMax,
+        bodyClass: values.bodyClass,
+        dataSource: values.dataSource
+      }),
+      ...this.resultsFirstPageParams()
+    }, { historyLabel: 'Changed filters' }).subscribe();
+  }
+
+  /**
+   * Remove a single applied model (chip close)
+   */
+  removeModel(combo: ModelCombination): void {
+    const remaining = this.appliedModels.filter(
+      c => !(c.manufacturer === combo.manufacturer && c.model === combo.model)
+    );
+
+    this.urlState.setQueryParams({
+      models: modelCombosToUrlParam(remaining, { compact: true }) || undefined,
+      ...this.resultsFirstPageParams()
+    }, { historyLabel: `Removed ${combo.manufacturer} ${combo.model}` }).subscribe();
+  }
+
+  /**
+   * Reset the whole search (models and filters)
+   */
+  clear(): void {
+    console.log('[SearchStateService] Clearing search');
+
+    this.urlState.setQueryParams({
+      ...encodeQueryState(SEARCH_QUERY_SCHEMA, {
+        models: undefined,
+        yearMin: undefined,
+        yearMax: undefined,
+        bodyClass: undefined,
+        dataSource: undefined
+      }),
+      ...this.resultsFirstPageParams()
+    }, { historyLabel: 'Cleared search' }).subscribe();
+  }
+
+  /**
+   * Is any search criterion active?
+   */
+  hasActiveCriteria(): boolean {
+    return this.appliedModels.length > 0 ||
+      this.filters.yearMin !== undefined ||
+      this.filters.yearMax !== undefined ||
+      !!this.filters.bodyClass ||
+      !!this.filters.dataSource;
+  }
+
+  /**
+   * URL params that send the results table back to its first page
+   * (written through the table's URL namespace)
+   */
+  resultsFirstPageParams(): QueryParams {
+    return this.urlState.namespaceParams(RESULTS_TABLE_CONFIG.id, { page: undefined });
+  }
+
+  // ============================================================================
+  // PRIVATE HELPERS
+  // ============================================================================
+
+  /**
+   * Hydrate state from URL query params
+   * Only rebuilds picker selection when the decoded models actually changed
+   * (not just their encoding or order), so unrelated URL writes don't reset
+   * the picker's in-progress selection
+   */
+  private hydrateFromUrl(state: SearchQueryState): void {
+    const combos = urlParamToModelCombos(state.models);
+
+    if (!this.initialPickerSelection || !this.sameModels(combos, this.appliedModels)) {
+      this.appliedModels = combos;
+      this.initialPickerSelection = new Set(
+        this.appliedModels.map(modelComboToSelectionKey)
+      );
+      console.log('[SearchStateService] Hydrated models from URL:', this.appliedModels.length);
+    }
+
+    this.filters = {
+      yearMin: state.yearMin,
+      yearMax: state.yearMax,
+      bodyClass: state.bodyClass,
+      dataSource: state.dataSource
+    };
+  }
+
+  /**
+   * Do two model lists hold the same combinations (in any order)?
+   */
+  private sameModels(a: ModelCombination[], b: ModelCombination[]): boolean {
+    const keys = (combos: ModelCombination[]) => combos.map(modelComboToSelectionKey).sort().join(',');
+    return keys(a) === keys(b);
+  }
+}
@@ -1,15 +1,189 @@
-import { Component, OnInit } from '@angular/core';
+import { Component, OnInit, OnDestroy } from '@angular/core';
+import { Subject } from 'rxjs';
+import { debounceTime, takeUntil } from 'rxjs/operators';
+import { TableConfig, SelectionChangeEvent } from '../../shared/models';
+import { SavedSearchService, SearchSnapshot } from '../../shared/services/saved-search.service';
+import { UrlStateService } from '../../core/services/url-state.service';
+import { encodeQueryState } from '../../core/services/query-state.model';
+import { SEARCH_QUERY_SCHEMA } from '../../config/query-state/search-query.schema';
+import { PICKER_TABLE_CONFIG } from '../../config/tables/picker-table.config';
+import { RESULTS_TABLE_CONFIG } from '../../config/tables/results-table.config';
+import { ModelCombination } from '../../models/manufacturer-model.model';
+import { SearchFilterValues } from './search-filters/search-filters.component';
+import { SearchStateService } from './search-state.service';
 
+/**
+ * SEARCH PAGE COMPONENT
+ *
+ * PURPOSE:
+ * Main vehicle search interface. Composes three pieces, all driven by URL state:
+ * - Manufacturer/model picker (PICKER_TABLE_CONFIG)
+ * - Filter panel (year range, body class, data source)
+ * - Results table (RESULTS_TABLE_CONFIG)
+ *
+ * URL OWNERSHIP:
+ * - This component owns: models, yearMin, yearMax, bodyClass, dataSource
+ *   (declared in SEARCH_QUERY_SCHEMA - typed, validated, repaired on navigation;
+ *   read and written through SearchStateService, shared with the Workshop page)
+ * - The results table owns: page, pageSize, sort, f_* (bare names - its
+ *   URL alias is ''; see RESULTS_TABLE_CONFIG.urlState)
+ * - The picker table owns: picker.sort, picker.f_*, picker.selected
+ * - The results table's paramMapper reads everything from the URL, so
+ *   writing a param here is all it takes to refresh results.
+ *
+ * SAVED / RECENT SEARCHES:
+ * - "Save Search" stores the current query state under a name (SavedSearchService)
+ * - Every search with criteria is recorded in the recent-search history
+ *   (one entry per set of criteria; sort/page size refinements update it)
+ * - Both are listed on the Home page
+ *
+ * Example:
+ * /search?models=Ford:F-150&yearMin=2020&yearMax=2024&page=1&pageSize=20&sort=year:desc
+ */
 @Component({
   selector: 'app-search',
   templateUrl: './search.component.html',
-  styleUrls: ['./search.component.scss']
+  styleUrls: ['./search.component.scss'],
+  providers: [SearchStateService]
 })
-export class SearchComponent implements OnInit {
+export class SearchComponent implements OnInit, OnDestroy {
 
-  constructor() { }
+  /**
+   * Picker and results table configurations (from config files)
+   */
+  pickerConfig: TableConfig = PICKER_TABLE_CONFIG;
+  resultsConfig: TableConfig = RESULTS_TABLE_CONFIG;
+
+  /**
+   * Save form inputs (name, comma-separated tags)
+   */
+  saveName = '';
+  saveTags = '';
+
+  /**
+   * Cleanup subject for subscription management
+   */
+  private destroy$ = new Subject<void>();
+
+  /**
+   * Wait this long after the last URL change before recording a recent search
+   */
+  private readonly RECENT_SEARCH_DEBOUNCE_MS = 1000;
+
+  constructor(
+    private urlState: UrlStateService,
+    private searchState: SearchStateService,
+    private savedSearches: SavedSearchService
+  ) {}
+
+  /**
+   * Search state hydrated from URL (SearchStateService)
+   */
+  get appliedModels(): ModelCombination[] {
+    return this.searchState.appliedModels;
+  }
+
+  get initialPickerSelection(): Set<string> | undefined {
+    return this.searchState.initialPickerSelection;
+  }
+
+  get filters(): SearchFilterValues {
+    return this.searchState.filters;
+  }
 
   ngOnInit(): void {
+    console.log('[SearchComponent] Initializing...');
+
+    // Recent searches: record the settled state of searches with criteria
+    this.urlState.queryParams$
+      .pipe(debounceTime(this.RECENT_SEARCH_DEBOUNCE_MS), takeUntil(this.destroy$))
+      .subscribe(() => this.recordRecentSearch());
+  }
+
+  ngOnDestroy(): void {
+    this.destroy$.next();
+    this.destroy$.complete();
+  }
+
+  /**
+   * Picker Apply clicked: write selection to 'models' and go back to page 1
+   */
+  onPickerApply(event: SelectionChangeEvent): void {
+    this.searchState.applyPickerSelection(event);
+  }
+
+  /**
+   * Filter panel changed: write filters to URL and go back to page 1
+   */
+  onFiltersChange(values: SearchFilterValues): void {
+    this.searchState.applyFilters(values);
+  }
+
+  /**
+   * Remove a single applied model (chip close)
+   */
+  removeAppliedModel(combo: ModelCombination): void {
+    this.searchState.removeModel(combo);
+  }
+
+  /**
+   * Reset the whole search (models and filters)
+   */
+  clearSearch(): void {
+    this.searchState.clear();
+  }
+
+  /**
+   * Save the current search under the name from the save form
+   */
+  saveSearch(): void {
+    const tags = this.saveTags.split(',');
+    const saved = this.savedSearches.saveSearch(this.saveName, this.captureSearch(), tags);
+
+    if (saved) {
+      this.saveName = '';
+      this.saveTags = '';
+    }
   }
 
+  /**
+   * Snapshot of the current search: all query params except the results
+   * page (a reopened search starts on page 1) and the picker's unapplied
+   * selection
+   */
+  private captureSearch(): SearchSnapshot {
+    const excluded = {
+      ...this.searchState.resultsFirstPageParams(),
+      ...this.urlState.namespaceParams(this.pickerConfig.id, { selected: undefined })
+    };
+
+    const queryParams = this.urlState.getQueryParamsSnapshot();
+    Object.keys(excluded).forEach(key => delete queryParams[key]);
+
+    return {
+      route: '/search',
+      queryParams,
+      columnPreferencesId: this.resultsConfig.id
+    };
+  }
+
+  /**
+   * Add the current search to the recent-search history (if it has criteria)
+   * Keyed by its criteria, so changing sort or page size updates one entry
+   */
+  private recordRecentSearch(): void {
+    if (!this.hasActiveCriteria()) {
+      return;
+    }
+
+    const criteria = encodeQueryState(SEARCH_QUERY_SCHEMA, this.urlState.getStateSnapshot(SEARCH_QUERY_SCHEMA));
+    this.savedSearches.recordRecentSearch(this.captureSearch(), JSON.stringify(criteria));
+  }
+
+  /**
+   * Is any search criterion active?
+   */
+  hasActiveCriteria(): boolean {
+    return this.searchState.hasActiveCriteria();
+  }
 }
@@ -1,15 +1,350 @@
-import { Component, OnInit } from '@angular/core';
+import { Component, OnInit, OnDestroy } from '@angular/core';
+import { ActivatedRoute } from '@angular/router';
+import { Subject } from 'rxjs';
+import { takeUntil } from 'rxjs/operators';
+import {
+  TableConfig,
+  SelectionChangeEvent,
+  PanelLayout,
+  PanelLayoutItem,
+  mergeLayout
+} from '../../shared/models';
+import { PanelLayoutService } from '../../shared/services/panel-layout.service';
+import { UrlStateService } from '../../core/services/url-state.service';
+import { WORKSHOP_QUERY_SCHEMA, WorkshopQueryState } from '../../config/query-state/search-query.schema';
+import { PanelPopoutService } from '../../core/services/panel-popout.service';
+import { PICKER_TABLE_CONFIG } from '../../config/tables/picker-table.config';
+import { RESULTS_TABLE_CONFIG } from '../../config/tables/results-table.config';
+import {
+  WORKSHOP_LAYOUTS,
+  WORKSHOP_PANELS,
+  WORKSHOP_WORKSPACE_ID,
+  DEFAULT_WORKSHOP_LAYOUT
+} from '../../config/layouts/workshop-layouts.config';
+import { SearchFilterValues } from '../search/search-filters/search-filters.component';
+import { SearchStateService } from '../search/search-state.service';
 
+/**
+ * WORKSHOP PAGE COMPONENT
+ *
+ * PURPOSE:
+ * Customizable workspace: the same picker, filters and results as /search,
+ * arranged in a 12-column grid of draggable/resizable panels.
+ *
+ * STATE:
+ * - URL: search criteria (models, yearMin, ... - SearchStateService, shared
+ *   with /search) and the active layout name (layout)
+ * - localStorage: what each layout looks like (PanelLayoutService)
+ *
+ * LAYOUTS:
+ * - Built-in layouts come from WORKSHOP_LAYOUTS
+ * - Moving/resizing a panel saves the active layout
+ * - "Save As" creates a user layout; "Reset" restores a built-in one
+ *
+ * POP-OUT:
+ * - Any panel can move into its own window (/workshop/popout/:hostId/:panelId)
+ * - The same component renders the pop-out in single-panel mode
+ * - PanelPopoutService keeps URL state in sync between all windows
+ * - The grid hides popped-out panels and restores them when the window closes
+ *
+ * Example:
+ * /workshop?models=Ford:F-150&layout=results-focus
+ */
 @Component({
   selector: 'app-workshop',
   templateUrl: './workshop.component.html',
-  styleUrls: ['./workshop.component.scss']
+  styleUrls: ['./workshop.component.scss'],
+  providers: [
+    PanelPopoutService,  // One sync session per Workshop window
+    SearchStateService
+  ]
 })
-export class WorkshopComponent implements OnInit {
+export class WorkshopComponent implements OnInit, OnDestroy {
 
-  constructor() { }
+  /**
+   * Panel contents (same configs as the search page)
+   */
+  pickerConfig: TableConfig = PICKER_TABLE_CONFIG;
+  resultsConfig: TableConfig = RESULTS_TABLE_CONFIG;
+
+  /**
+   * Active layout name and the panel positions rendered by the grid
+   */
+  activeLayoutName = DEFAULT_WORKSHOP_LAYOUT;
+  layoutItems: PanelLayoutItem[] = [];
+  gridItems: PanelLayoutItem[] = [];
+
+  /**
+   * Panels currently shown in pop-out windows (hidden from the grid)
+   */
+  poppedOutPanels: string[] = [];
+
+  /**
+   * Pop-out mode: the single panel this window shows (null in the main window)
+   */
+  popoutPanelId: string | null = null;
+  popoutReady = false;
+
+  /**
+   * Layout switcher options (built-in + user-created)
+   */
+  layoutOptions: { label: string; value: string }[] = [];
+
+  /**
+   * "Save As" input value
+   */
+  newLayoutLabel = '';
+
+  /**
+   * Cleanup subject for subscription management
+   */
+  private destroy$ = new Subject<void>();
+
+  constructor(
+    private route: ActivatedRoute,
+    private urlState: UrlStateService,
+    private layoutService: PanelLayoutService,
+    private popoutService: PanelPopoutService,
+    private searchState: SearchStateService
+  ) {}
+
+  /**
+   * Search state hydrated from URL (SearchStateService)
+   */
+  get initialPickerSelection(): Set<string> | undefined {
+    return this.searchState.initialPickerSelection;
+  }
+
+  get filters(): SearchFilterValues {
+    return this.searchState.filters;
+  }
 
   ngOnInit(): void {
+    console.log('[WorkshopComponent] Initializing...');
+
+    const hostId = this.route.snapshot.paramMap.get('hostId');
+    this.popoutPanelId = this.route.snapshot.paramMap.get('panelId');
+
+    if (hostId && this.popoutPanelId) {
+      this.initPopout(hostId, this.popoutPanelId);
+    } else {
+      this.initHost();
+    }
+
+    if (!this.popoutPanelId) {
+      this.urlState.selectState(WORKSHOP_QUERY_SCHEMA)
+        .pipe(takeUntil(this.destroy$))
+        .subscribe(state => this.hydrateLayoutFromUrl(state));
+    }
+  }
+
+  ngOnDestroy(): void {
+    this.destroy$.next();
+    this.destroy$.complete();
+  }
+
+  // ============================================
+  // POP-OUT WINDOWS
+  // ============================================
+
+  /**
+   * Main window: host the grid and accept pop-outs
+   */
+  private initHost(): void {
+    this.refreshLayoutOptions();
+
+    // 'layout' describes this window only - never pushed to pop-outs
+    this.popoutService.startHost({ popoutPath: '/workshop/popout', localParams: ['layout'] });
+
+    this.popoutService.poppedOut$
+      .pipe(takeUntil(this.destroy$))
+      .subscribe(panelIds => {
+        this.poppedOutPanels = panelIds;
+        this.refreshGridItems();
+      });
+  }
+
+  /**
+   * Pop-out window: wait for the host's state, then render the panel
+   */
+  private initPopout(hostId: string, panelId: string): void {
+    this.popoutService.startPopout(hostId, panelId, { localParams: ['layout'] });
+
+    this.popoutService.ready$
+      .pipe(takeUntil(this.destroy$))
+      .subscribe(ready => (this.popoutReady = ready));
+  }
+
+  /**
+   * Grid asked to pop a panel out
+   */
+  popOutPanel(panelId: string): void {
+    if (!this.popoutService.openPopout(panelId)) {
+      console.warn('[WorkshopComponent] Could not open pop-out (blocked by browser?)');
+    }
+  }
+
+  /**
+   * Bring a popped-out panel back into the grid
+   */
+  restorePanel(panelId: string): void {
+    this.popoutService.closePopout(panelId);
+  }
+
+  /**
+   * Pop-out window: close it (the host restores the panel)
+   */
+  closePopoutWindow(): void {
+    window.close();
+  }
+
+  /**
+   * Rebuild the grid's items (popped-out panels are hidden).
+   * Kept as a field, not a getter, so the grid only sees a new array on real changes.
+   */
+  private refreshGridItems(): void {
+    this.gridItems = this.layoutItems.filter(item => !this.poppedOutPanels.includes(item.id));
+  }
+
+  getPanelTitle(panelId: string): string {
+    return WORKSHOP_PANELS.find(panel => panel.id === panelId)?.title || panelId;
   }
 
+  // ============================================
+  // LAYOUT MANAGEMENT
+  // ============================================
+
+  /**
+   * Pick the layout named in ?layout=, falling back to the last used one
+   */
+  private hydrateLayoutFromUrl(state: WorkshopQueryState): void {
+    const requested = state.layout
+      || this.layoutService.getActiveLayoutName(WORKSHOP_WORKSPACE_ID)
+      || DEFAULT_WORKSHOP_LAYOUT;
+
+    const name = this.layoutExists(requested) ? requested : DEFAULT_WORKSHOP_LAYOUT;
+    if (name !== requested) {
+      console.warn('[WorkshopComponent] Unknown layout, using default:', requested);
+    }
+
+    if (name !== this.activeLayoutName || this.layoutItems.length === 0) {
+      this.activeLayoutName = name;
+      this.layoutItems = this.resolveLayoutItems(name);
+      this.refreshGridItems();
+      this.layoutService.setActiveLayoutName(WORKSHOP_WORKSPACE_ID, name);
+      console.log('[WorkshopComponent] Active layout:', name);
+    }
+  }
+
+  /**
+   * Stored positions for a layout, reconciled with the current panel set
+   */
+  private resolveLayoutItems(name: string): PanelLayoutItem[] {
+    const builtIn = this.getBuiltInLayout(name);
+    const defaults = (builtIn || this.getBuiltInLayout(DEFAULT_WORKSHOP_LAYOUT)!).items;
+    const saved = this.layoutService.getLayout(WORKSHOP_WORKSPACE_ID, name);
+
+    return saved ? mergeLayout(saved.items, defaults) : defaults.map(item => ({ ...item }));
+  }
+
+  private getBuiltInLayout(name: string): PanelLayout | undefined {
+    return WORKSHOP_LAYOUTS.find(layout => layout.name === name);
+  }
+
+  private layoutExists(name: string): boolean {
+    return !!this.getBuiltInLayout(name) ||
+      !!this.layoutService.getLayout(WORKSHOP_WORKSPACE_ID, name);
+  }
+
+  private refreshLayoutOptions(): void {
+    const custom = (this.layoutService.loadLayouts(WORKSHOP_WORKSPACE_ID)?.layouts || [])
+      .filter(layout => !this.getBuiltInLayout(layout.name));
+
+    this.layoutOptions = [...WORKSHOP_LAYOUTS, ...custom].map(layout => ({
+      label: layout.label || layout.name,
+      value: layout.name
+    }));
+  }
+
+  /**
+   * Is the active layout user-created (deletable) rather than built-in?
+   */
+  isCustomLayout(): boolean {
+    return !this.getBuiltInLayout(this.activeLayoutName);
+  }
+
+  /**
+   * Layout switcher changed: the URL drives the actual switch
+   */
+  switchLayout(name: string): void {
+    this.urlState.setQueryParams({ layout: name }, { historyLabel: 'Switched layout' }).subscribe();
+  }
+
+  /**
+   * Grid emitted a new arrangement: persist it under the active layout
+   */
+  onLayoutChange(items: PanelLayoutItem[]): void {
+    // Popped-out panels keep their last position for when they come back
+    const hidden = this.layoutItems.filter(item => this.poppedOutPanels.includes(item.id));
+    items = [...items, ...hidden];
+
+    this.layoutItems = items;
+    this.refreshGridItems();
+    const existing = this.getBuiltInLayout(this.activeLayoutName) ||
+      this.layoutService.getLayout(WORKSHOP_WORKSPACE_ID, this.activeLayoutName);
+
+    this.layoutService.saveLayout(WORKSHOP_WORKSPACE_ID, {
+      name: this.activeLayoutName,
+      label: existing?.label,
+      items
+    });
+  }
+
+  /**
+   * Save the current arrangement as a new named layout and switch to it
+   */
+  saveLayoutAs(): void {
+    const label = this.newLayoutLabel.trim();
+    const name = label.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '');
+    if (!name) {
+      return;
+    }
+    if (this.getBuiltInLayout(name)) {
+      console.warn('[WorkshopComponent] Cannot overwrite built-in layout:', name);
+      return;
+    }
+
+    this.layoutService.saveLayout(WORKSHOP_WORKSPACE_ID, { name, label, items: this.layoutItems });
+    this.newLayoutLabel = '';
+    this.refreshLayoutOptions();
+    this.switchLayout(name);
+  }
+
+  /**
+   * Built-in layout: restore its configured positions.
+   * User layout: delete it and fall back to the default layout.
+   */
+  resetLayout(): void {
+    this.layoutService.deleteLayout(WORKSHOP_WORKSPACE_ID, this.activeLayoutName);
+
+    if (this.isCustomLayout()) {
+      this.refreshLayoutOptions();
+      this.switchLayout(DEFAULT_WORKSHOP_LAYOUT);
+    } else {
+      this.layoutItems = this.resolveLayoutItems(this.activeLayoutName);
+      this.refreshGridItems();
+    }
+  }
+
+  // ============================================
+  // SEARCH STATE (same URL params as /search)
+  // ============================================
+
+  onPickerApply(event: SelectionChangeEvent): void {
+    this.searchState.applyPickerSelection(event);
+  }
+
+  onFiltersChange(values: SearchFilterValues): void {
+    this.searchState.applyFilters(values);
+  }
 }
@@ -13,9 +13,15 @@
   USAGE:
   - ManufacturerModelPickerComponent uses these to display the picker UI
   - UrlStateService stores selected combinations as "Ford:F-150,Chevrolet:Corvette"
+    (large selections in the compact "~..." form, see shared/models/selection-url.model.ts)
+  - '\', '|', ',' and ':' inside names are escaped with '\'
+    ("AC:Cobra\|427") - see shared/models/selection-key.model.ts
   - Backend API uses model combinations to filter vehicle search results
 */
 
+import { decodeSelectionKey, encodeSelectionKey, joinSelectionKeys } from '../shared/models/selection-key.model';
+import { decodeSelectionParam, encodeSelectionParam } from '../shared/models/selection-url.model';
+
 /**
  * MODEL INTERFACE
  *
@@ -132,6 +138,7 @@ export interface ManufacturerModelCountsResponse {
  * USAGE IN URL:
  * Multiple combinations are encoded in URL as comma-separated strings:
  * ?models=Ford:F-150,Chevrolet:Corvette,Toyota:Camry
+ * (delimiters inside names escaped: "AC:Cobra\|427")
  *
  * The UrlStateService handles encoding/decoding this format.
  */
@@ -162,14 +169,16 @@ export interface ModelCombination {
  * Converts a ModelCombination object to its string representation.
  *
  * @param combo - The combination to convert
- * @returns String in format "Manufacturer:Model"
+ * @returns String in format "Manufacturer:Model" (delimiters in names escaped)
  *
  * Example:
  * modelComboToString({ manufacturer: "Ford", model: "F-150" })
  * // Returns: "Ford:F-150"
+ * modelComboToString({ manufacturer: "Mazda", model: "MX-5:Miata" })
+ * // Returns: "Mazda:MX-5\:Miata"
  */
 export function modelComboToString(combo: ModelCombination): string {
-  return `${combo.manufacturer}:${combo.model}`;
+  return encodeSelectionKey([combo.manufacturer, combo.model], ':');
 }
 
 /**
@@ -183,10 +192,34 @@ export function modelComboToString(combo: ModelCombination): string {
  * Example:
  * stringToModelCombo("Ford:F-150")
  * // Returns: { manufacturer: "Ford", model: "F-150" }
+ *
+ * BACKWARD COMPATIBILITY:
+ * - Unescaped legacy strings: the first ':' separates the manufacturer,
+ *   the rest is the model ("Mazda:MX-5:Miata" → MX-5:Miata)
+ * - Selection keys in "Manufacturer|Model" format are accepted too
  */
 export function stringToModelCombo(str: string): ModelCombination {
-  const [manufacturer, model] = str.split(':');
-  return { manufacturer, model };
+  let path = decodeSelectionKey(str, ':');
+  if (path.length === 1) {
+    path = decodeSelectionKey(str);
+  }
+
+  const [manufacturer, ...model] = path;
+  return { manufacturer, model: model.join(':') };
+}
+
+/**
+ * MODEL COMBINATION TO SELECTION KEY
+ *
+ * Key of the combination in a manufacturer → model picker
+ * (HierarchicalSelectionHelper format).
+ *
+ * Example:
+ * modelComboToSelectionKey({ manufacturer: "Ford", model: "F-150" })
+ * // Returns: "Ford|F-150"
+ */
+export function modelComboToSelectionKey(combo: ModelCombination): string {
+  return encodeSelectionKey([combo.manufacturer, combo.model]);
 }
 
 /**
@@ -231,7 +264,8 @@ export function stringsToModelCombos(strings: string[]): ModelCombination[] {
  * URL PARAM TO MODEL COMBINATIONS
  *
  * Converts the URL query parameter format to ModelCombination array.
- * This handles the comma-separated format used in URLs.
+ * This handles the comma-separated format used in URLs, and the compact
+ * "~..." form written for large selections.
  *
  * @param param - URL query parameter value (comma-separated combinations)
  * @returns Array of ModelCombination objects
@@ -254,10 +288,9 @@ export function urlParamToModelCombos(param: string | null | undefined): ModelCo
     return [];
   }
 
-  return param
-    .split(',')
-    .filter(s => s.includes(':')) // Only process valid format
-    .map(stringToModelCombo);
+  return decodeSelectionParam(param, { separator: ':' })
+    .map(stringToModelCombo)
+    .filter(combo => !!combo.manufacturer && !!combo.model); // Only keep valid combinations
 }
 
 /**
@@ -266,6 +299,8 @@ export function urlParamToModelCombos(param: string | null | undefined): ModelCo
  * Converts an array of ModelCombination objects to URL query parameter format.
  *
  * @param combos - Array of combinations
+ * @param options - compact: write large selections in the compact "~..." form
+ *                  (for the browser URL - the backend API only reads the plain list)
  * @returns Comma-separated string for URL query parameter
  *
  * Example:
@@ -278,10 +313,14 @@ export function urlParamToModelCombos(param: string | null | undefined): ModelCo
  * EDGE CASES:
  * - Empty array: returns empty string
  */
-export function modelCombosToUrlParam(combos: ModelCombination[]): string {
+export function modelCombosToUrlParam(combos: ModelCombination[], options: { compact?: boolean } = {}): string {
   if (combos.length === 0) {
     return '';
   }
 
-  return modelCombosToStrings(combos).join(',');
+  if (options.compact) {
+    return encodeSelectionParam(modelCombosToStrings(combos), { separator: ':' });
+  }
+
+  return joinSelectionKeys(modelCombosToStrings(combos));
 }
@@ -16,47 +16,321 @@
 
   FEATURES:
   ✅ Configuration-driven rendering
-  ✅ Hierarchical checkbox selection (binary: checked/unchecked)
+  ✅ Hierarchical checkbox selection (binary, or tri-state with indeterminate parents)
   ✅ Two picker patterns: single-selector and dual-selector
-  ✅ Expandable rows with sub-tables
-  ✅ Pagination
-  ✅ Sorting and filtering
+  ✅ Expandable rows with sub-tables (embedded or lazy-loaded per row, with paging)
+  ✅ Configuration-driven API loading (apiConfigRef → ApiConfigRegistryService → ApiService)
+  ✅ Pagination, or virtual scrolling for large datasets (only visible rows are rendered;
+     paginated API endpoints are read in windows of rows as they scroll into view)
+  ✅ Multi-column sorting (shift-click adds columns) and typed column filters (contains / numeric range / date between / multi-select in)
   ✅ Loading states
   ✅ Empty states
+  ✅ Error states (typed ApiError, inline panel with Retry - distinct from empty)
+  ✅ Column manager (toolbar button; saved order/visibility/width per table id),
+     drag headers to reorder, drag header edges to resize
+  ✅ Export to CSV / XLSX / JSON (current view or all pages, optionally with sub-rows)
+  ✅ Row grouping by one or more columns (collapsible group headers,
+     count/sum/min/max/avg footers per group and for the whole table)
+  ✅ Cell rendering by column type (number/currency/date/boolean) and
+     consumer ng-templates (type: 'template' + templateName → appTableCellTemplate)
 */
 
-import { Component, OnInit, OnChanges, SimpleChanges, Input, Output, EventEmitter, OnDestroy } from '@angular/core';
+import {
+  Component,
+  OnInit,
+  OnChanges,
+  AfterContentInit,
+  SimpleChanges,
+  Input,
+  Output,
+  EventEmitter,
+  OnDestroy,
+  ContentChildren,
+  QueryList,
+  TemplateRef,
+  Inject,
+  LOCALE_ID,
+  ElementRef,
+  HostListener
+} from '@angular/core';
+import { NumberSymbol, formatCurrency, formatDate, formatNumber, getCurrencySymbol, getLocaleNumberSymbol } from '@angular/common';
 import { ActivatedRoute } from '@angular/router';
-import { Subject } from 'rxjs';
-import { debounceTime, distinctUntilChanged, takeUntil } from 'rxjs/operators';
+import { EMPTY, Observable, Subject, from, merge, of, throwError } from 'rxjs';
+import {
+  catchError,
+  concatMap,
+  debounceTime,
+  distinctUntilChanged,
+  expand,
+  map,
+  reduce,
+  switchMap,
+  takeUntil,
+  tap,
+  toArray
+} from 'rxjs/operators';
+
+import {
+  TableConfig,
+  TableColumn,
+  TableRequestState,
+  SubTableRequestState,
+  SortCriterion,
+  AggregateFunction
+} from '../../models/table-config.model';
+import {
+  ColumnFilter,
+  ColumnFilterOperator,
+  getColumnFilterOperator,
+  getColumnFilterOptions,
+  isColumnFilterEmpty,
+  encodeColumnFilter,
+  decodeColumnFilter,
+  matchesColumnFilter
+} from '../../models/column-filter.model';
+import { HierarchicalSelectionHelper, HierarchyLine, CheckboxState, SelectionChangeEvent } from '../../models/selection-state.model';
+import { VirtualRow, VirtualRange, VirtualScrollWindow } from '../../models/virtual-scroll.model';
+import { decodeSelectionParam, encodeSelectionParam, isCompactSelectionParam } from '../../models/selection-url.model';
+import { decodeSelectionKey } from '../../models/selection-key.model';
+import {
+  AggregateValues,
+  GroupedRow,
+  RowGroup,
+  computeAggregates,
+  flattenRowGroups,
+  groupRows
+} from '../../models/row-grouping.model';
+import {
+  ExportCell,
+  ExportColumn,
+  ExportFormat,
+  ExportRow,
+  ExportScope,
+  ExportTable,
+  TableExportOptions
+} from '../../models/table-export.model';
+import {
+  UrlStateService,
+  QueryParams,
+  QueryParamsWriteOptions,
+  URL_CHANGE_DEBOUNCE_MS,
+  RequestCoordinatorService,
+  ApiService,
+  ApiConfigRegistryService,
+  ApiError,
+  toApiError,
+  QueryStateSchema,
+  defineQueryStateSchema,
+  decodeQueryState,
+  encodeQueryState
+} from '../../../core/services';
+import { ColumnPreferencesService, ColumnPreferences, ColumnState } from '../../services/column-preferences.service';
+import { TableExportService } from '../../services/table-export.service';
+import { TableCellTemplateDirective, TableCellTemplateContext } from './table-cell-template.directive';
+
+/**
+ * Sub-table state of one expanded row
+ */
+interface SubTableState {
+  rows: any[];              // Rows currently shown (one page)
+  allRows?: any[];          // Full list when paging client-side
+  total: number;            // Total sub-rows (for the paginator)
+  first: number;            // Index of first row on the current page
+  size: number;             // Page size
+  serverSide: boolean;      // true = each page is fetched from the API
+  loading: boolean;
+  error: string | null;
+  requestKey?: string;      // Latest request (older responses are ignored)
+}
+
+/**
+ * Rows of the virtual scroll viewport currently rendered (see getVirtualWindow)
+ */
+interface VirtualSlice extends VirtualRange {
+  items: VirtualRow[];
+}
+
+/**
+ * Active header pointer interaction (drag to reorder / drag edge to resize)
+ */
+interface ColumnInteraction {
+  type: 'move' | 'resize';
+  columnKey: string;
+  pointerX: number;         // Pointer position at start (px)
+  startWidth: number;       // Header width at start (px, resize)
+  width?: number;           // Current width (px, resize)
+  targetKey?: string;       // Header under the pointer (move)
+  dragging: boolean;        // Moved past the drag threshold
+}
+
+/**
+ * One page of rows read from an API response (see readPageResponse / readSubTableResponse)
+ */
+interface RowPage {
+  rows: any[];
+  total: number;
+  serverSide: boolean;      // false = full list (there are no further pages)
+}
+
+/**
+ * A row to export with its sub-rows (when sub-rows are included)
+ */
+interface ExportEntry {
+  row: any;
+  subRows: any[];
+}
+
+/**
+ * Result message of the last export (shown in the export panel)
+ */
+interface ExportMessage {
+  severity: 'info' | 'error';
+  text: string;
+}
+
+/**
+ * How a cell is rendered (see getCellRenderMode)
+ */
+type CellRenderMode = 'text' | 'boolean' | 'template';
+
+// Currency of 'currency' columns (ColumnType: "Currency display ($)")
+const CELL_CURRENCY_CODE = 'USD';
+
+// Format of 'date' columns without a dateFormat
+const DEFAULT_CELL_DATE_FORMAT = 'mediumDate';
+
+// Selected values of an unset 'in' filter (shared instance keeps ngModel stable)
+const NO_FILTER_VALUES: string[] = [];
+
+// VirtualScrollConfig defaults
+const DEFAULT_VIRTUAL_ROW_HEIGHT = 44;
+const DEFAULT_VIRTUAL_EXPANDED_ROW_HEIGHT = 320;
+const DEFAULT_VIRTUAL_VIEWPORT_HEIGHT = '500px';
+const DEFAULT_VIRTUAL_BUFFER_ROWS = 10;
+const DEFAULT_VIRTUAL_WINDOW_SIZE = 100;
+
+// Viewport height assumed until the first scroll event reports the real one
+const INITIAL_VIRTUAL_VIEWPORT_PX = 800;
+
+// Header drag: pointer travel before a press becomes a drag (px), narrowest resize (px)
+const COLUMN_DRAG_THRESHOLD = 5;
+const MIN_COLUMN_WIDTH = 48;
+
+// Aggregate labels in footer cells ("Sum: $12,500.00")
+const AGGREGATE_LABELS: Record<AggregateFunction, string> = {
+  count: 'Count',
+  sum: 'Sum',
+  min: 'Min',
+  max: 'Max',
+  avg: 'Avg'
+};
+
+// TableExportConfig defaults
+const DEFAULT_EXPORT_FORMATS: ExportFormat[] = ['csv', 'xlsx', 'json'];
+const DEFAULT_EXPORT_PAGE_SIZE = 500;
+const DEFAULT_EXPORT_MAX_ROWS = 10000;
+
+// Export panel dropdown labels
+const EXPORT_FORMAT_LABELS: Record<ExportFormat, string> = {
+  csv: 'CSV',
+  xlsx: 'Excel (XLSX)',
+  json: 'JSON'
+};
+const EXPORT_SCOPE_OPTIONS: { label: string; value: ExportScope }[] = [
+  { label: 'Current view', value: 'view' },
+  { label: 'All pages', value: 'all' }
+];
+
+/**
+ * Sort param value of an explicitly cleared sort ("sort=-"), written when the
+ * table has a defaultSort - an absent param would bring the default back
+ */
+const SORT_NONE_MARKER = '-';
+
+/**
+ * Query-state schema of the table's page/pageSize/sort params
+ * Only sortable columns are valid sort entries; default page/pageSize/sort are dropped from the URL
+ */
+function buildTableQuerySchema(config: TableConfig) {
+  const sortValues = config.columns
+    .filter(column => column.sortable)
+    .reduce((values, column) => values.concat(`${column.key}:asc`, `${column.key}:desc`), [SORT_NONE_MARKER]);
+
+  return defineQueryStateSchema({
+    page: { type: 'integer', min: 1, default: 1 },
+    pageSize: { type: 'integer', min: 1, max: 1000, default: config.pagination?.pageSize || 20 },
+    sort: { type: 'array', values: sortValues, default: (config.defaultSort || []).map(encodeSortCriterion) }
+  });
+}
+
+/**
+ * { field: 'year', order: 'desc' } → 'year:desc' (one entry of the sort param)
+ */
+function encodeSortCriterion(criterion: SortCriterion): string {
+  return `${criterion.field}:${criterion.order}`;
+}
 
-import { TableConfig, TableColumn } from '../../models/table-config.model';
-import { HierarchicalSelectionHelper, CheckboxState, SelectionChangeEvent } from '../../models/selection-state.model';
-import { UrlStateService, RequestCoordinatorService } from '../../../core/services';
+type TableQuerySchema = ReturnType<typeof buildTableQuerySchema>;
+
+/**
+ * Query-state schema of the table's column filters (f_<columnKey>, filterable columns only)
+ * Values are operator-encoded strings (see column-filter.model)
+ */
+function buildTableFilterSchema(config: TableConfig): QueryStateSchema {
+  const schema: QueryStateSchema = {};
+  config.columns
+    .filter(column => column.filterable)
+    .forEach(column => {
+      schema[`f_${column.key}`] = { type: 'string' };
+    });
+  return schema;
+}
 
 @Component({
   selector: 'app-base-table',
   templateUrl: './base-table.component.html',
   styleUrls: ['./base-table.component.scss']
 })
-export class BaseTableComponent implements OnInit, OnChanges, OnDestroy {
+export class BaseTableComponent implements OnInit, OnChanges, AfterContentInit, OnDestroy {
   // Configuration
   @Input() config!: TableConfig;
 
   // URL-first hydration (parent passes initial selection from URL)
   @Input() initialSelection?: Set<string>;
 
+  // Named cell templates from an enclosing table (projected templates win)
+  @Input() cellTemplates: Record<string, TemplateRef<TableCellTemplateContext>> = {};
+
+  // Cell templates projected by the consumer (ng-template appTableCellTemplate="name")
+  @ContentChildren(TableCellTemplateDirective) projectedCellTemplates!: QueryList<TableCellTemplateDirective>;
+
   // Events
   @Output() selectionChange = new EventEmitter<SelectionChangeEvent>();
   @Output() selectionApply = new EventEmitter<SelectionChangeEvent>();
   @Output() rowExpand = new EventEmitter<any>();
   @Output() rowCollapse = new EventEmitter<any>();
+  @Output() loadError = new EventEmitter<ApiError>();
 
   // Table data
   data: any[] = [];
   totalRecords: number = 0;
   loading: boolean = false;
 
+  // Last load failure (null = last load succeeded). Shown instead of the empty state.
+  apiError: ApiError | null = null;
+
+  // Unfiltered/unsorted rows for client-side operations (static data or full API lists)
+  private sourceData: any[] = [];
+
+  // True when the last apiConfigRef response was paginated (server pages/sorts/filters)
+  private serverSidePaging: boolean = false;
+
+  // Serialized request of the last apiConfigRef load (skips reloads when URL changes don't affect it)
+  private lastApiRequestKey?: string;
+
+  // Data loads (switchMap): starting a new load cancels the previous in-flight request
+  private dataLoad$ = new Subject<Observable<unknown>>();
+
   // Pagination
   first: number = 0;  // PrimeNG paginator uses 'first' (index of first record)
   rows: number = 20;  // PrimeNG paginator uses 'rows' (page size)
@@ -66,24 +340,97 @@ export class BaseTableComponent implements OnInit, OnChanges, OnDestroy {
   selectedRows: Set<string> = new Set();
 
   // Parent checkbox state cache (prevents infinite change detection loop)
-  // Maps parentValue -> CheckboxState ('checked' | 'unchecked')
+  // Maps node key ("Ford", "Ford|F-150") -> CheckboxState ('checked' | 'unchecked', plus 'indeterminate' in tri-state mode)
   parentCheckboxStates = new Map<string, CheckboxState>();
 
   // PHASE 4: Picker pattern detection (single-selector or dual-selector)
   pickerPattern: 'single' | 'dual' | undefined;
   parentColumnIndex: number | undefined;
   childColumnIndex: number | undefined;
+  private parentColumnKey?: string;  // Column keys of the dual-selector checkboxes
+  private childColumnKey?: string;   // (indexes refer to config.columns, not the displayed order)
+  private nodeColumnDepths = new Map<string, number>();  // Dual-selector: column key -> level of its node checkbox
+
+  // Column layout (config columns + saved ColumnManager preferences)
+  managedColumns: TableColumn[] = [];     // Columns as ColumnManager sees them
+  columnPreferences?: ColumnPreferences;  // Applied preferences (undefined = config layout)
+  columnManagerOpen: boolean = false;
+  private visibleColumns?: TableColumn[]; // Displayed columns in display order
+
+  // Header drag/resize (null when idle)
+  columnInteraction: ColumnInteraction | null = null;
+  private headerDragged = false;  // Swallows the click that ends a drag (no sort)
+
+  // Export (config.export)
+  exportPanelOpen: boolean = false;
+  exportOptions: TableExportOptions = { format: 'csv', scope: 'view', includeSubRows: false };
+  exportFormatOptions: { label: string; value: ExportFormat }[] = [];
+  readonly exportScopeOptions = EXPORT_SCOPE_OPTIONS;
+  exporting: boolean = false;
+  exportMessage: ExportMessage | null = null;
+
+  // Sorting (priority order: first criterion sorts first)
+  sortCriteria: SortCriterion[] = [];
+
+  // Primary sort column/direction (first criterion)
+  get sortField(): string | undefined {
+    return this.sortCriteria[0]?.field;
+  }
 
-  // Sorting
-  sortField?: string;                           // Current sort column
-  sortOrder: 'asc' | 'desc' = 'asc';           // Sort direction
+  get sortOrder(): 'asc' | 'desc' {
+    return this.sortCriteria[0]?.order ?? 'asc';
+  }
 
   // Filtering
-  activeFilters: Record<string, string> = {};  // Column key -> filter value
+  activeFilters: Record<string, ColumnFilter> = {};  // Column key -> typed filter
+  private filterOptionLists = new Map<string, string[]>();  // 'in' options per column (stable for p-multiSelect)
 
   // Expandable rows
   expandedRows: Set<any> = new Set();
-  subTableData: Map<any, any[]> = new Map();  // Cache for sub-table data
+  private subTableStates = new Map<any, SubTableState>();  // Per expanded row (kept on collapse)
+
+  // Row grouping (config.grouping)
+  private toggledGroups = new Set<string>();  // Group keys flipped from the configured default
+  private groupingVersion = 0;                // Bumped when a group is collapsed/expanded
+  private groupingCache?: {
+    data: any[];
+    groups: RowGroup[];
+    totals: AggregateValues;
+    version: number;
+    lines: GroupedRow[];
+  };
+
+  // URL param schemas (built from config in ngOnInit). The table only decodes
+  // leniently and never repairs the URL itself - the host owns the route's URL.
+  private querySchema!: TableQuerySchema;
+  private filterSchema: QueryStateSchema = {};
+
+  // URL param namespace (config.urlState.namespace or config.id); schema params
+  // are read and written through it (see UrlStateService namespace methods)
+  private urlNamespace = '';
+
+  // Cell templates by name (inherited + projected), also handed to sub-tables
+  cellTemplateMap: Record<string, TemplateRef<TableCellTemplateContext>> = {};
+  private missingCellTemplates = new Set<string>();  // Names already warned about
+
+  // Virtual scroll state (config.virtualScroll)
+  private virtualScrollTop = 0;
+  private virtualViewportHeight = INITIAL_VIRTUAL_VIEWPORT_PX;
+  private virtualRowHeight = DEFAULT_VIRTUAL_ROW_HEIGHT;  // Measured average when fixedRowHeight is false
+  private expandedRowHeights = new WeakMap<any, number>();  // Measured expanded-row heights
+  private virtualVersion = 0;  // Bumped when expansion or measured heights change the layout
+  private virtualRowsCache?: {
+    data: any[];
+    helper?: HierarchicalSelectionHelper;
+    version: number;
+    rows: VirtualRow[];
+    window: VirtualScrollWindow;
+  };
+  private virtualSliceCache?: { rows: VirtualRow[]; scrollTop: number; viewportHeight: number; slice: VirtualSlice };
+  private loadedVirtualWindows = new Set<number>();   // Lazy windows in this.data
+  private loadingVirtualWindows = new Set<number>();  // Requested, not arrived yet
+  private failedVirtualWindows = new Map<number, ApiError>();  // Shown as error rows until retried or reloaded
+  private virtualReset$ = new Subject<void>();        // Cancels window requests of the previous load
 
   // Cleanup
   private destroy$ = new Subject<void>();
@@ -91,7 +438,13 @@ export class BaseTableComponent implements OnInit, OnChanges, OnDestroy {
   constructor(
     private urlState: UrlStateService,
     private route: ActivatedRoute,
-    private requestCoordinator: RequestCoordinatorService
+    private requestCoordinator: RequestCoordinatorService,
+    private apiService: ApiService,
+    private apiConfigRegistry: ApiConfigRegistryService,
+    private columnPrefs: ColumnPreferencesService,
+    private exportService: TableExportService,
+    private elementRef: ElementRef<HTMLElement>,
+    @Inject(LOCALE_ID) private locale: string
   ) {}
 
   /**
@@ -104,6 +457,20 @@ export class BaseTableComponent implements OnInit, OnChanges, OnDestroy {
       console.log('[BaseTable] Hydrating selection from URL:', this.initialSelection);
       this.hydrateSelection(this.initialSelection);
     }
+
+    if (changes['cellTemplates']) {
+      this.buildCellTemplateMap();
+    }
+  }
+
+  /**
+   * Lifecycle: Collect projected cell templates (and follow later changes)
+   */
+  ngAfterContentInit(): void {
+    this.buildCellTemplateMap();
+    this.projectedCellTemplates.changes
+      .pipe(takeUntil(this.destroy$))
+      .subscribe(() => this.buildCellTemplateMap());
   }
 
   ngOnInit(): void {
@@ -115,11 +482,32 @@ export class BaseTableComponent implements OnInit, OnChanges, OnDestroy {
       return;
     }
 
+    // Latest load wins: a URL change that fires before the previous response
+    // arrives unsubscribes it, so a stale page can never overwrite a newer one
+    this.dataLoad$
+      .pipe(
+        switchMap(load$ => load$),
+        takeUntil(this.destroy$)
+      )
+      .subscribe();
+
     // Initialize pagination
     if (this.config.pagination?.enabled) {
       this.rows = this.config.pagination.pageSize || 20;
     }
 
+    // Initialize virtual scroll (replaces pagination)
+    if (this.isVirtualScroll()) {
+      this.virtualRowHeight = this.config.virtualScroll!.rowHeight || DEFAULT_VIRTUAL_ROW_HEIGHT;
+    }
+
+    // Build URL param schemas from the column/pagination config
+    this.querySchema = buildTableQuerySchema(this.config);
+    this.filterSchema = buildTableFilterSchema(this.config);
+
+    // Scope this table's URL params (several tables can share one route)
+    this.initializeUrlNamespace();
+
     // Initialize selection helper (if selection enabled)
     if (this.config.selection?.enabled && this.config.selection.hierarchical?.enabled) {
       console.log('[BaseTable] Hierarchical selection enabled');
@@ -127,6 +515,14 @@ export class BaseTableComponent implements OnInit, OnChanges, OnDestroy {
       // We'll initialize this after data loads
     }
 
+    // Column order/visibility/width (saved ColumnManager preferences)
+    this.initializeColumnLayout();
+
+    // Export formats offered in the export panel
+    if (this.config.export?.enabled) {
+      this.initializeExport();
+    }
+
     // STEP 1.2: Hydrate sort state from URL (URL-first pattern)
     this.hydrateSortStateFromUrl();
 
@@ -136,21 +532,18 @@ export class BaseTableComponent implements OnInit, OnChanges, OnDestroy {
     // STEP 1.4: Hydrate pagination state from URL (URL-first pattern)
     this.hydratePaginationStateFromUrl();
 
-    // PHASE 2: Subscribe to URL changes and reload data when URL changes
-    // This enables server-side operations (sort, filter, pagination all via API)
-    if (this.config.api) {
-      console.log('[BaseTable] API mode enabled, watching URL changes');
-      this.route.queryParams
-        .pipe(
-          debounceTime(300),  // Wait for rapid URL changes to settle
-          distinctUntilChanged(),
-          takeUntil(this.destroy$)
-        )
-        .subscribe(() => {
-          console.log('[BaseTable] URL changed, reloading data from API');
-          this.loadData();
-        });
-    }
+    // PHASE 2: Subscribe to URL changes
+    // - Picks up state written by others (undo/redo, host components, back button)
+    // - API mode: reloads data (server-side sort, filter, pagination all via API)
+    this.route.queryParams
+      .pipe(
+        debounceTime(URL_CHANGE_DEBOUNCE_MS),  // Wait for rapid URL changes to settle
+        distinctUntilChanged(),
+        takeUntil(this.destroy$)
+      )
+      .subscribe(() => {
+        this.onUrlChange();
+      });
 
     // Load data
     this.loadData();
@@ -159,6 +552,43 @@ export class BaseTableComponent implements OnInit, OnChanges, OnDestroy {
   ngOnDestroy(): void {
     this.destroy$.next();
     this.destroy$.complete();
+
+    if (this.config.urlState?.alias !== undefined) {
+      this.urlState.unregisterNamespaceAlias(this.urlNamespace);
+    }
+  }
+
+  /**
+   * URL STATE: Set up the param namespace (and its alias, if configured)
+   * Under a bare alias ('') the table only reads its own params: page, pageSize,
+   * sort, f_<column> and the default selection param
+   */
+  private initializeUrlNamespace(): void {
+    this.urlNamespace = this.config.urlState?.namespace ?? this.config.id;
+
+    const alias = this.config.urlState?.alias;
+    if (alias !== undefined) {
+      const ownParams = [...Object.keys(this.querySchema), ...Object.keys(this.filterSchema)];
+      if (!this.config.selection?.urlParam) {
+        ownParams.push('selected');
+      }
+      this.urlState.registerNamespaceAlias(this.urlNamespace, alias, ownParams);
+    }
+    console.log('[BaseTable] URL namespace:', this.urlNamespace, 'prefix:', JSON.stringify(this.urlState.getNamespacePrefix(this.urlNamespace)));
+  }
+
+  /**
+   * URL STATE: This table's params, by bare name (page, sort, f_model, ...)
+   */
+  private getTableUrlParams(): QueryParams {
+    return this.urlState.getNamespacedParams(this.urlNamespace, this.route.snapshot.queryParams);
+  }
+
+  /**
+   * URL STATE: Write this table's params (by bare name) under its namespace
+   */
+  private setTableUrlParams(params: QueryParams, options: QueryParamsWriteOptions = {}): Observable<boolean> {
+    return this.urlState.setNamespacedParams(this.urlNamespace, params, options);
   }
 
   /**
@@ -186,6 +616,19 @@ export class BaseTableComponent implements OnInit, OnChanges, OnDestroy {
       this.pickerPattern = 'dual';
       this.parentColumnIndex = hierarchicalConfig.parentColumn;
       this.childColumnIndex = hierarchicalConfig.childColumn;
+      this.parentColumnKey = this.config.columns[this.parentColumnIndex!]?.key;
+      this.childColumnKey = this.config.columns[this.childColumnIndex!]?.key;
+
+      // Top level in the parent column; levels between top and leaf in the
+      // column of the same key (N-level hierarchies, if that column exists)
+      if (this.parentColumnKey) {
+        this.nodeColumnDepths.set(this.parentColumnKey, 0);
+      }
+      this.getHierarchyLevels().slice(1, -1).forEach((levelKey, index) => {
+        if (this.config.columns.some(col => col.key === levelKey)) {
+          this.nodeColumnDepths.set(levelKey, index + 1);
+        }
+      });
       console.log('[BaseTable] Picker pattern: DUAL (parent in column', this.parentColumnIndex, ', child in column', this.childColumnIndex, ')');
     } else {
       // Single-selector pattern: checkbox column on left
@@ -200,15 +643,37 @@ export class BaseTableComponent implements OnInit, OnChanges, OnDestroy {
     });
   }
 
+  /**
+   * DATA SOURCE: Is this table backed by an API?
+   * Legacy config.api always wins; apiConfigRef is used unless static data is supplied
+   */
+  isApiMode(): boolean {
+    return !!this.config.api || (!this.config.data && !!this.config.apiConfigRef);
+  }
+
+  /**
+   * DATA SOURCE: Does the server handle paging, sorting and filtering?
+   * True for legacy config.api and for paginated apiConfigRef responses.
+   * Array responses (full lists) are paged/sorted/filtered client-side.
+   */
+  isServerSide(): boolean {
+    return !!this.config.api || this.serverSidePaging;
+  }
+
   /**
    * LOAD DATA
-   * Loads data from config.data (static) or config.api (dynamic)
+   * Loads data from config.api (legacy), config.data (static) or config.apiConfigRef
    * PHASE 2: Added API support with server-side operations
    */
   private loadData(): void {
     console.log('[BaseTable] loadData() called');
+    this.apiError = null;
 
-    // Option 1: API data (server-side operations)
+    if (this.isVirtualScroll()) {
+      this.resetVirtualScroll();
+    }
+
+    // Option 1: Legacy API data (server-side operations)
     if (this.config.api) {
       console.log('[BaseTable] Loading data from API');
       this.loadDataFromApi();
@@ -218,24 +683,175 @@ export class BaseTableComponent implements OnInit, OnChanges, OnDestroy {
     // Option 2: Static data (client-side operations only)
     if (this.config.data) {
       console.log('[BaseTable] Using static data:', this.config.data.length, 'rows');
-      this.data = this.config.data;
-      this.totalRecords = this.data.length;
+      this.dataLoad$.next(EMPTY);  // Cancel any in-flight API load
+      this.setClientSideData(this.config.data);
+      return;
+    }
 
-      // Initialize selection helper after data is loaded
-      this.initializeSelectionHelper();
+    // Option 3: Configuration-driven API (resolved through ApiConfigRegistryService)
+    if (this.config.apiConfigRef) {
+      console.log('[BaseTable] Loading data from API config reference:', this.config.apiConfigRef);
+      this.loadDataFromApiConfigRef();
       return;
     }
 
     // No data source
-    console.warn('[BaseTable] No data source configured (config.data or config.api)');
+    console.warn('[BaseTable] No data source configured (config.data, config.api or config.apiConfigRef)');
     this.data = [];
     this.totalRecords = 0;
   }
 
+  /**
+   * SET CLIENT-SIDE DATA
+   * Stores the full row set and applies any sort/filter hydrated from the URL
+   */
+  private setClientSideData(rows: any[]): void {
+    this.sourceData = rows;
+    this.data = rows;
+    this.totalRecords = rows.length;
+
+    // Initialize selection helper after data is loaded
+    this.initializeSelectionHelper();
+
+    // Apply sort/filter state that was hydrated from the URL
+    if (this.sortCriteria.length > 0 || Object.keys(this.activeFilters).length > 0) {
+      this.applyDataTransformations();
+    }
+  }
+
+  /**
+   * URL CHANGE HANDLER
+   * URL is the source of truth: adopts sort, filter, pagination and selection
+   * written by others (page resets from the host, undo/redo, back button).
+   * API mode: reloads data unless the change doesn't affect the apiConfigRef request
+   * (e.g. a picker's selection param changing while its full list is already loaded)
+   */
+  private onUrlChange(): void {
+    const sortChanged = this.syncSortStateFromUrl();
+    const filtersChanged = this.syncFilterStateFromUrl();
+    this.hydratePaginationStateFromUrl();
+    this.syncSelectionFromUrl();
+
+    if (sortChanged || filtersChanged) {
+      this.applyDataTransformations();
+    }
+
+    if (!this.isApiMode()) {
+      return;
+    }
+
+    if (!this.config.api && this.config.apiConfigRef) {
+      const requestKey = JSON.stringify(this.buildApiConfigRefRequest());
+      if (requestKey === this.lastApiRequestKey) {
+        console.log('[BaseTable] URL changed, API request unchanged - skipping reload');
+        return;
+      }
+    }
+
+    console.log('[BaseTable] URL changed, reloading data from API');
+    this.loadData();
+  }
+
+  /**
+   * LOAD DATA FROM API CONFIG REFERENCE
+   * Resolves config.apiConfigRef through ApiConfigRegistryService and calls
+   * ApiService.request, so the endpoint's buildParams/transformResponse/retry apply.
+   * Runs through dataLoad$, so a newer load cancels this one.
+   *
+   * Response handling:
+   * - Array → full list, paged/sorted/filtered client-side
+   * - { results|data, total } → one page, paged/sorted/filtered server-side
+   */
+  private loadDataFromApiConfigRef(): void {
+    const ref = this.config.apiConfigRef!;
+    const apiConfig = this.apiConfigRegistry.getConfig(ref.configId);
+
+    if (!apiConfig) {
+      console.error('[BaseTable] API config not registered:', ref.configId);
+      this.handleApiError(new Error(`API config '${ref.configId}' is not registered`));
+      return;
+    }
+
+    const request = this.buildApiConfigRefRequest();
+    this.lastApiRequestKey = JSON.stringify(request);
+    console.log('[BaseTable] API config request:', ref.configId, ref.endpointId, request);
+
+    this.loading = true;
+
+    this.dataLoad$.next(
+      this.requestApiConfigRef(request).pipe(
+        tap((response: any) => {
+          if (Array.isArray(response)) {
+            this.serverSidePaging = false;
+            this.setClientSideData(response);
+          } else {
+            this.serverSidePaging = true;
+            const rows = response?.results || response?.data || [];
+            this.totalRecords = response?.total ?? response?.totalRecords ?? rows.length;
+            this.data = this.isVirtualScroll() ? this.toVirtualData(rows) : rows;
+            this.initializeSelectionHelper();
+          }
+
+          this.loading = false;
+          this.ensureVirtualWindowsLoaded();
+          console.log('[BaseTable] Data loaded from API config:', this.data.length, 'rows');
+        }),
+        catchError((error: any) => {
+          console.error('[BaseTable] API config error:', error);
+          this.lastApiRequestKey = undefined;  // Allow the next URL change to retry
+          this.handleApiError(error);
+          this.loading = false;
+          return EMPTY;
+        })
+      )
+    );
+  }
+
+  /**
+   * BUILD TABLE REQUEST STATE
+   * Snapshot of pagination/sort/filter state plus URL params for paramMapper
+   * (first/rows default to the current page; virtual scroll passes a lazy window)
+   */
+  private buildTableRequestState(first = this.first, rows = this.rows): TableRequestState {
+    const state: TableRequestState = {
+      page: Math.floor(first / rows) + 1,
+      size: rows,
+      queryParams: { ...this.route.snapshot.queryParams }
+    };
+
+    if (this.sortCriteria.length > 0) {
+      state.sortBy = this.sortField;
+      state.sortOrder = this.sortOrder;
+      state.sort = this.sortCriteria.map(criterion => ({ ...criterion }));
+    }
+
+    if (Object.keys(this.activeFilters).length > 0) {
+      state.filters = { ...this.activeFilters };
+    }
+
+    return state;
+  }
+
+  /**
+   * BUILD API CONFIG REFERENCE REQUEST
+   * Applies apiConfigRef.paramMapper, or sends BaseFilters fields by default
+   */
+  private buildApiConfigRefRequest(first = this.first, rows = this.rows): any {
+    const state = this.buildTableRequestState(first, rows);
+
+    if (this.config.apiConfigRef?.paramMapper) {
+      return this.config.apiConfigRef.paramMapper(state);
+    }
+
+    const { page, size, sortBy, sortOrder } = state;
+    return { page, size, sortBy, sortOrder };
+  }
+
   /**
    * LOAD DATA FROM API (PHASE 2)
    * Fetches data from API endpoint with URL-first parameters
    * Uses RequestCoordinator to deduplicate identical concurrent requests
+   * Runs through dataLoad$, so a newer load cancels this one
    */
   private loadDataFromApi(): void {
     // Set loading state
@@ -255,11 +871,9 @@ export class BaseTableComponent implements OnInit, OnChanges, OnDestroy {
 
     // Use RequestCoordinator to deduplicate concurrent requests
     // If another component is already requesting the same data, this returns cached Observable
-    this.requestCoordinator
-      .get(apiEndpoint, apiParams)
-      .pipe(takeUntil(this.destroy$))
-      .subscribe({
-        next: (response: any) => {
+    this.dataLoad$.next(
+      this.requestCoordinator.get(apiEndpoint, apiParams).pipe(
+        tap((response: any) => {
           console.log('[BaseTable] API response received:', response);
 
           // Apply response transformer if configured
@@ -269,21 +883,25 @@ export class BaseTableComponent implements OnInit, OnChanges, OnDestroy {
 
           // Extract data and totals from response
           // Expected response format: { data: [...], total: number, page: number, pageSize: number }
-          this.data = response.data || response.results || [];
+          const rows = response.data || response.results || [];
           this.totalRecords = response.total || response.totalRecords || 0;
+          this.data = this.isVirtualScroll() ? this.toVirtualData(rows) : rows;
 
           // Initialize selection helper after API data is loaded
           this.initializeSelectionHelper();
 
           this.loading = false;
+          this.ensureVirtualWindowsLoaded();
           console.log('[BaseTable] Data loaded from API:', this.data.length, 'rows');
-        },
-        error: (error: any) => {
+        }),
+        catchError((error: any) => {
           console.error('[BaseTable] API error:', error);
           this.handleApiError(error);
           this.loading = false;
-        }
-      });
+          return EMPTY;
+        })
+      )
+    );
   }
 
   /**
@@ -291,19 +909,27 @@ export class BaseTableComponent implements OnInit, OnChanges, OnDestroy {
    * Converts component state (sort, filter, pagination) to API request parameters
    * Respects URL-first principle: uses component state that was hydrated from URL
    *
+   * config.api.paramMapper receives sort ({ field, order }[]) and filters
+   * (ColumnFilter per column) as objects. Without a mapper the params become a
+   * query string, so both are sent in their URL formats instead:
+   * sort=year:desc,make:asc, f_year=2015..
+   *
+   * @param first - Index of the first row (default: current page; virtual scroll passes a lazy window)
+   * @param rows - Rows per request (default: page size)
    * @returns API request parameter object
    */
-  private buildApiRequestParams(): any {
+  private buildApiRequestParams(first = this.first, rows = this.rows): any {
     const params: any = {
       // Pagination: convert 0-indexed first/rows to 1-indexed page/pageSize
-      page: Math.floor(this.first / this.rows) + 1,
-      pageSize: this.rows
+      page: Math.floor(first / rows) + 1,
+      pageSize: rows
     };
 
-    // Sorting: only include if sort is active
-    if (this.sortField) {
+    // Sorting: only include if sort is active (sortBy/sortOrder = primary, sort = full list)
+    if (this.sortCriteria.length > 0) {
       params.sortBy = this.sortField;
       params.sortOrder = this.sortOrder;
+      params.sort = this.sortCriteria.map(criterion => ({ ...criterion }));
     }
 
     // Filtering: only include if any filters are active
@@ -316,7 +942,15 @@ export class BaseTableComponent implements OnInit, OnChanges, OnDestroy {
       return this.config.api.paramMapper(params);
     }
 
-    return params;
+    const { sort, filters, ...query } = params;
+    if (sort) {
+      query.sort = (sort as SortCriterion[]).map(encodeSortCriterion).join(',');
+    }
+    if (filters) {
+      Object.keys(filters).forEach(key => (query[`f_${key}`] = encodeColumnFilter(filters[key])));
+    }
+
+    return query;
   }
 
   /**
@@ -326,14 +960,36 @@ export class BaseTableComponent implements OnInit, OnChanges, OnDestroy {
    * @param error - The error from API call
    */
   private handleApiError(error: any): void {
-    console.error('[BaseTable] API error occurred:', error);
+    this.apiError = toApiError(error);
+    console.error('[BaseTable] API error occurred:', this.apiError.kind, this.apiError);
 
-    // Reset data
+    // Reset data (the error panel replaces the table)
     this.data = [];
     this.totalRecords = 0;
 
-    // Emit error event or show toast message
-    // For now, just log and keep UI responsive
+    this.loadError.emit(this.apiError);
+  }
+
+  /**
+   * RETRY LOAD
+   * Error panel "Retry" action: reloads with the current URL state
+   */
+  retryLoad(): void {
+    console.log('[BaseTable] Retrying data load');
+    this.lastApiRequestKey = undefined;
+    this.loadData();
+  }
+
+  /**
+   * SELECTION: Hierarchy level keys, top first
+   * selection.hierarchical.levels, or [parentKey, childKey] for the two-level picker
+   */
+  getHierarchyLevels(): string[] {
+    const hierarchical = this.config.selection?.hierarchical;
+    if (hierarchical?.levels && hierarchical.levels.length >= 2) {
+      return hierarchical.levels;
+    }
+    return [hierarchical?.parentKey, hierarchical?.childKey].filter((key): key is string => !!key);
   }
 
   /**
@@ -346,11 +1002,11 @@ export class BaseTableComponent implements OnInit, OnChanges, OnDestroy {
       return;
     }
 
-    const parentKey = this.config.selection.hierarchical.parentKey;
-    const childKey = this.config.selection.hierarchical.childKey;
+    const levels = this.getHierarchyLevels();
+    const parentMode = this.config.selection.hierarchical.parentCheckbox;
 
-    console.log('[BaseTable] Creating HierarchicalSelectionHelper:', { parentKey, childKey, dataCount: this.data.length });
-    this.selectionHelper = new HierarchicalSelectionHelper(this.data, parentKey, childKey);
+    console.log('[BaseTable] Creating HierarchicalSelectionHelper:', { levels, parentMode, dataCount: this.data.length });
+    this.selectionHelper = new HierarchicalSelectionHelper(this.data, levels, parentMode);
 
     // Apply initial selection if provided (URL hydration)
     if (this.initialSelection && this.initialSelection.size > 0) {
@@ -383,7 +1039,8 @@ export class BaseTableComponent implements OnInit, OnChanges, OnDestroy {
     this.updateParentCheckboxStateCache();
 
     // Emit selection change to update parent component's display
-    this.emitSelectionChange();
+    // (restoring state is not a user action - no undo step)
+    this.emitSelectionChange({ skipHistory: true });
   }
 
   /**
@@ -399,14 +1056,13 @@ export class BaseTableComponent implements OnInit, OnChanges, OnDestroy {
     // Clear existing cache
     this.parentCheckboxStates.clear();
 
-    // Build cache for all unique parents
-    const parents = this.selectionHelper.getUniqueParents();
-    parents.forEach(parentValue => {
-      const state = this.selectionHelper!.getParentState(parentValue);
-      this.parentCheckboxStates.set(parentValue, state);
+    // Build cache for every node (all levels above the leaves)
+    this.selectionHelper.getAllNodes().forEach(node => {
+      const state = this.selectionHelper!.getNodeState(node.key);
+      this.parentCheckboxStates.set(node.key, state);
     });
 
-    console.log('[BaseTable] Updated parent checkbox state cache:', this.parentCheckboxStates.size, 'parents');
+    console.log('[BaseTable] Updated parent checkbox state cache:', this.parentCheckboxStates.size, 'nodes');
   }
 
   /**
@@ -425,24 +1081,52 @@ export class BaseTableComponent implements OnInit, OnChanges, OnDestroy {
 
   /**
    * PHASE 4 HELPER: Determine if parent checkbox should be shown for this column (dual mode only)
-   * In dual mode, parent checkbox appears in the parent column
+   * In dual mode, parent checkbox appears in the parent column (and, for N-level
+   * hierarchies, node checkboxes in the columns of the levels in between)
+   *
+   * @param columnIndex - Index in getVisibleColumns() (the displayed order)
    */
   shouldShowParentCheckbox(columnIndex: number): boolean {
+    return this.getNodeCheckboxDepth(columnIndex) >= 0;
+  }
+
+  /**
+   * Dual mode: level of the node checkbox in a column (-1 = none)
+   *
+   * @param columnIndex - Index in getVisibleColumns() (the displayed order)
+   */
+  getNodeCheckboxDepth(columnIndex: number): number {
     if (!this.isDualSelectorMode()) {
-      return false;
+      return -1;
+    }
+    const key = this.getVisibleColumns()[columnIndex]?.key;
+    return key !== undefined ? this.nodeColumnDepths.get(key) ?? -1 : -1;
+  }
+
+  /**
+   * Dual mode: key of the node a row's checkbox in a column stands for
+   * (e.g., "Ford|F-150" in the model column of a manufacturer → model → year picker)
+   *
+   * @param columnIndex - Index in getVisibleColumns() (the displayed order)
+   */
+  getRowNodeKey(row: any, columnIndex: number): string {
+    if (!this.selectionHelper) {
+      return '';
     }
-    return columnIndex === this.parentColumnIndex;
+    return this.selectionHelper.getPathKey(row, Math.max(0, this.getNodeCheckboxDepth(columnIndex)));
   }
 
   /**
    * PHASE 4 HELPER: Determine if child checkbox should be shown for this column (dual mode only)
    * In dual mode, child checkbox appears in the child column
+   *
+   * @param columnIndex - Index in getVisibleColumns() (the displayed order)
    */
   shouldShowChildCheckbox(columnIndex: number): boolean {
     if (!this.isDualSelectorMode()) {
       return false;
     }
-    return columnIndex === this.childColumnIndex;
+    return this.getVisibleColumns()[columnIndex]?.key === this.childColumnKey;
   }
 
   /**
@@ -459,41 +1143,73 @@ export class BaseTableComponent implements OnInit, OnChanges, OnDestroy {
    * CHECKBOX: Get parent checkbox state (tri-state logic)
    * NOTE: This method should NOT be called from templates (causes infinite loop).
    * Templates should use getCachedParentState() instead which uses the cache.
+   *
+   * @param nodeKey - Node key ("Ford", or "Ford|F-150" below the top level)
    */
-  getParentCheckboxState(parentValue: string): CheckboxState {
+  getParentCheckboxState(nodeKey: string): CheckboxState {
     if (!this.selectionHelper) {
       return 'unchecked';
     }
-    return this.selectionHelper.getParentState(parentValue);
+    return this.selectionHelper.getNodeState(nodeKey);
   }
 
   /**
    * CHECKBOX: Get cached parent checkbox state (for template use)
    * Uses cached state to prevent infinite change detection loops
    */
-  getCachedParentState(parentValue: string): CheckboxState {
-    return this.parentCheckboxStates.get(parentValue) || 'unchecked';
+  getCachedParentState(nodeKey: string): CheckboxState {
+    return this.parentCheckboxStates.get(nodeKey) || 'unchecked';
+  }
+
+  /**
+   * CHECKBOX: Get parent checkbox value (true = shown checked, including indeterminate)
+   */
+  getParentCheckboxValue(nodeKey: string, row?: any): boolean {
+    return this.getParentCheckboxDisplayState(nodeKey, row) !== 'unchecked';
   }
 
   /**
-   * CHECKBOX: Get parent checkbox value (binary only - no indeterminate/tri-state)
+   * CHECKBOX: State the parent checkbox shows
    * PHASE 4 STEP 4.3: Dual-selector mode behavior
    *
-   * In dual-selector mode: Display the specific row's selection state
+   * Binary mode, dual-selector: Display the specific row's selection state
    * (Parent checkbox shows if THIS ROW is selected, not aggregate state)
    *
-   * In single-selector mode: Display aggregate parent state
+   * Binary mode, single-selector: Display aggregate parent state
    * (Parent checkbox shows if ALL children are selected)
+   *
+   * Tri-state mode, both patterns: Display aggregate parent state
+   * (checked = all, indeterminate = some, unchecked = none)
+   */
+  getParentCheckboxDisplayState(nodeKey: string, row?: any): CheckboxState {
+    if (this.isDualSelectorMode() && row && !this.isTriStateParentCheckbox()) {
+      return this.isRowSelected(row) ? 'checked' : 'unchecked';
+    }
+    return this.getCachedParentState(nodeKey);
+  }
+
+  /**
+   * CHECKBOX: Accessible label of a parent checkbox (the visual indeterminate
+   * state isn't exposed by p-checkbox, so the label carries it)
+   * Nodes below the top level are labelled with their path ("Ford F-150")
    */
-  getParentCheckboxValue(parentValue: string, row?: any): boolean {
-    // In dual mode, show the specific row's selection state
-    if (this.isDualSelectorMode() && row) {
-      return this.isRowSelected(row);
+  getParentCheckboxLabel(nodeKey: string, state: CheckboxState): string {
+    const name = this.selectionHelper?.getNode(nodeKey)?.path.join(' ') ?? nodeKey;
+    switch (state) {
+      case 'checked':
+        return `${name}: all selected`;
+      case 'indeterminate':
+        return `${name}: some selected`;
+      default:
+        return `${name}: none selected`;
     }
+  }
 
-    // In single mode, show the aggregate parent state
-    const state = this.getParentCheckboxState(parentValue);
-    return state === 'checked';
+  /**
+   * CHECKBOX: Are parent checkboxes tri-state? (selection.hierarchical.parentCheckbox)
+   */
+  isTriStateParentCheckbox(): boolean {
+    return this.config.selection?.hierarchical?.parentCheckbox === 'tri-state';
   }
 
   /**
@@ -518,7 +1234,10 @@ export class BaseTableComponent implements OnInit, OnChanges, OnDestroy {
     this.enforceStateMatchingRule();
 
     // Emit selection change event
-    this.emitSelectionChange();
+    const name = decodeSelectionKey(this.selectionHelper.getPathKey(row)).join(' ');
+    this.emitSelectionChange({
+      historyLabel: `${this.selectionHelper.isSelected(row) ? 'Selected' : 'Deselected'} ${name}`
+    });
   }
 
   /**
@@ -532,48 +1251,56 @@ export class BaseTableComponent implements OnInit, OnChanges, OnDestroy {
       return;
     }
 
-    // For dual mode, verify that parent checkbox state accurately reflects child selections
-    const parents = this.selectionHelper.getUniqueParents();
+    // For dual mode, verify that every node checkbox state accurately reflects child selections
+    const nodes = this.selectionHelper.getAllNodes();
 
-    parents.forEach(parentValue => {
-      const parentState = this.selectionHelper!.getParentState(parentValue);
-      const children = this.selectionHelper!.getChildren(parentValue);
+    nodes.forEach(node => {
+      const nodeState = this.selectionHelper!.getNodeState(node.key);
+      const children = this.selectionHelper!.getRowsUnder(node.key);
 
-      // Verify state matching: parent is checked only if ALL children are selected
-      const allChildrenSelected = children.every(child => this.selectionHelper!.isSelected(child));
-      const expectedState = allChildrenSelected ? 'checked' : 'unchecked';
+      // Verify state matching: node is checked only if ALL rows under it are selected
+      // (tri-state: indeterminate if only some are)
+      const selectedCount = children.filter(child => this.selectionHelper!.isSelected(child)).length;
+      const expectedState: CheckboxState = selectedCount === children.length
+        ? 'checked'
+        : this.isTriStateParentCheckbox() && selectedCount > 0 ? 'indeterminate' : 'unchecked';
 
-      if (parentState !== expectedState) {
-        console.warn('[BaseTable] State mismatch detected for parent:', parentValue, 'Expected:', expectedState, 'Got:', parentState);
+      if (nodeState !== expectedState) {
+        console.warn('[BaseTable] State mismatch detected for node:', node.key, 'Expected:', expectedState, 'Got:', nodeState);
       }
     });
 
-    console.log('[BaseTable] State matching rule enforced for', parents.length, 'parents');
+    console.log('[BaseTable] State matching rule enforced for', nodes.length, 'nodes');
   }
 
   /**
    * CHECKBOX: Toggle parent (affects all children)
    *
-   * PHASE 4 BEHAVIOR (Binary-only, per PHASE-4-PLAN.md):
+   * PHASE 4 BEHAVIOR (per PHASE-4-PLAN.md):
    * - If parent is CHECKED (all children selected) → Click UNCHECKS all children
    * - If parent is UNCHECKED (less than all selected) → Click CHECKS all children
+   * - Tri-state: INDETERMINATE (some selected) → Click CHECKS all children
    *
    * PHASE 4 STEP 4.4: State Matching Rule
    * When parent checkbox state changes, child selections are updated to match.
    * Parent state always reflects the true selection state of all children.
+   *
+   * N-level: the toggle cascades to every level below the node
+   *
+   * @param nodeKey - Node key ("Ford", or "Ford|F-150" below the top level)
    */
-  onParentCheckboxChange(parentValue: string, event: any): void {
-    console.log('[BaseTable] onParentCheckboxChange:', parentValue, 'event:', event);
+  onParentCheckboxChange(nodeKey: string, event: any): void {
+    console.log('[BaseTable] onParentCheckboxChange:', nodeKey, 'event:', event);
 
     if (!this.selectionHelper) {
       console.warn('[BaseTable] Selection helper not initialized');
       return;
     }
 
-    // toggleParent already implements the correct behavior:
+    // toggleNode already implements the correct behavior:
     // - checked → deselect all
-    // - unchecked → select all (applies to both "none selected" and "some selected" cases)
-    this.selectionHelper.toggleParent(parentValue);
+    // - unchecked / indeterminate → select all (both "none selected" and "some selected")
+    this.selectionHelper.toggleNode(nodeKey);
 
     // Update parent checkbox state cache
     this.updateParentCheckboxStateCache();
@@ -582,13 +1309,17 @@ export class BaseTableComponent implements OnInit, OnChanges, OnDestroy {
     this.enforceStateMatchingRule();
 
     // Emit selection change event
-    this.emitSelectionChange();
+    const name = this.selectionHelper.getNode(nodeKey)?.path.join(' ') ?? nodeKey;
+    this.emitSelectionChange({
+      historyLabel: `${this.selectionHelper.getNodeState(nodeKey) === 'checked' ? 'Selected' : 'Deselected'} all ${name}`
+    });
   }
 
   /**
    * SELECTION: Emit selection change event
+   * @param urlOptions - Undo step label (or opt-out) of the URL write
    */
-  private emitSelectionChange(): void {
+  private emitSelectionChange(urlOptions: QueryParamsWriteOptions = {}): void {
     if (!this.selectionHelper) {
       return;
     }
@@ -603,16 +1334,19 @@ export class BaseTableComponent implements OnInit, OnChanges, OnDestroy {
 
     // PHASE 4 STEP 4.5: Update URL with selection state
     if (this.config.selection?.hierarchical?.enabled) {
-      this.updateSelectionInUrl();
+      this.updateSelectionInUrl(urlOptions);
     }
   }
 
   /**
    * PHASE 4 STEP 4.5: Update URL with current selection state
    * Serializes selected keys to URL parameter format: "parent|child,parent|child,..."
-   * Uses query parameter name from config (default: 'selected')
+   * (N levels: full paths, "Ford|F-150|2022,..." - a partial selection is the list of its leaves)
+   * Large selections are written in the compact form ("~...", see selection-url.model.ts)
+   * once they pass selection.urlCompactThreshold
+   * Uses query parameter name from config (default: 'selected' in the table's namespace)
    */
-  private updateSelectionInUrl(): void {
+  private updateSelectionInUrl(urlOptions: QueryParamsWriteOptions = {}): void {
     if (!this.selectionHelper) {
       return;
     }
@@ -622,7 +1356,7 @@ export class BaseTableComponent implements OnInit, OnChanges, OnDestroy {
 
     if (selectedKeys.size === 0) {
       // Clear selection from URL if no items selected
-      this.urlState.setQueryParams({ [urlParam]: undefined }).subscribe(
+      this.setSelectionUrlParam(undefined, urlOptions).subscribe(
         (success) => {
           if (success) {
             console.log('[BaseTable] Cleared selection from URL');
@@ -630,12 +1364,15 @@ export class BaseTableComponent implements OnInit, OnChanges, OnDestroy {
         }
       );
     } else {
-      // Serialize selection to URL format: "parent|child,parent|child,..."
-      const selectedString = Array.from(selectedKeys).join(',');
-      this.urlState.setQueryParams({ [urlParam]: selectedString }).subscribe(
+      // Serialize selection to URL format: "parent|child,parent|child,..." (or compact)
+      const selectedString = encodeSelectionParam(selectedKeys, {
+        compactThreshold: this.config.selection?.urlCompactThreshold
+      });
+      this.setSelectionUrlParam(selectedString, urlOptions).subscribe(
         (success) => {
           if (success) {
-            console.log('[BaseTable] Updated URL with selection:', urlParam, '=', selectedString);
+            console.log('[BaseTable] Updated URL with selection:', urlParam, '=',
+              isCompactSelectionParam(selectedString) ? `(compact, ${selectedKeys.size} keys)` : selectedString);
           }
         }
       );
@@ -644,27 +1381,58 @@ export class BaseTableComponent implements OnInit, OnChanges, OnDestroy {
 
   /**
    * PHASE 4 STEP 4.5: Deserialize selection from URL parameter
-   * Parses URL format "parent|child,parent|child,..." to Set<string>
+   * Parses URL format "parent|child,parent|child,..." (or the compact form) to Set<string>
+   * Keys of any depth are kept - partial keys ("Ford", "Ford|F-150") select
+   * the whole branch when hydrated (see HierarchicalSelectionHelper.setSelectedKeys)
    * Returns empty Set if no selection in URL
    */
   private deserializeSelectionFromUrl(): Set<string> {
-    const urlParam = this.config.selection?.urlParam || 'selected';
-    const selectedParam = this.urlState.getQueryParamSnapshot(urlParam);
+    const urlParam = this.config.selection?.urlParam;
+    const selectedParam = urlParam
+      ? this.urlState.getQueryParamSnapshot(urlParam)
+      : this.getTableUrlParams()['selected'] as string | undefined;
 
     if (!selectedParam) {
       return new Set();
     }
 
-    // Parse comma-separated list of "parent|child" keys
-    const keys = selectedParam
-      .split(',')
-      .map(k => k.trim())
-      .filter(k => k.length > 0 && k.includes('|'));
+    // Parse comma-separated list of "parent|child" (or partial) keys
+    const keys = decodeSelectionParam(selectedParam);
 
     console.log('[BaseTable] Deserialized selection from URL:', keys.length, 'items');
     return new Set(keys);
   }
 
+  /**
+   * PHASE 4 STEP 4.5: Write the selection param
+   * A configured urlParam is used as-is (the host chose the name); the default
+   * 'selected' param lives in the table's namespace
+   */
+  private setSelectionUrlParam(value: string | undefined, options: QueryParamsWriteOptions = {}): Observable<boolean> {
+    const urlParam = this.config.selection?.urlParam;
+    return urlParam
+      ? this.urlState.setQueryParams({ [urlParam]: value }, options)
+      : this.setTableUrlParams({ selected: value }, options);
+  }
+
+  /**
+   * SELECTION: Adopt a selection param changed by others (undo/redo, back button)
+   */
+  private syncSelectionFromUrl(): void {
+    if (!this.selectionHelper || !this.config.selection?.hierarchical?.enabled) {
+      return;
+    }
+
+    const urlKeys = this.deserializeSelectionFromUrl();
+    const currentKeys = this.selectionHelper.getSelectedKeys();
+    const same = urlKeys.size === currentKeys.size && Array.from(urlKeys).every(key => currentKeys.has(key));
+
+    if (!same) {
+      console.log('[BaseTable] Selection changed in URL, rehydrating');
+      this.hydrateSelection(urlKeys);
+    }
+  }
+
   /**
    * PHASE 4 STEP 4.5: Hydrate selection from URL on initialization
    * Called after data is loaded to restore selection from URL parameters
@@ -716,7 +1484,7 @@ export class BaseTableComponent implements OnInit, OnChanges, OnDestroy {
     // Update parent checkbox state cache
     this.updateParentCheckboxStateCache();
 
-    this.emitSelectionChange();
+    this.emitSelectionChange({ historyLabel: 'Cleared selection' });
   }
 
   /**
@@ -754,170 +1522,425 @@ export class BaseTableComponent implements OnInit, OnChanges, OnDestroy {
       // Load sub-table data if needed
       this.loadSubTableData(row);
     }
+
+    // Virtual scroll: the expanded row is added to / removed from the row list
+    this.virtualVersion++;
   }
 
   /**
    * EXPANDABLE: Load sub-table data
+   * Runs on every expand; rows that already loaded successfully are not fetched again
    */
   private loadSubTableData(parentRow: any): void {
     if (!this.config.expandable?.subTable) {
       return;
     }
 
+    const existing = this.subTableStates.get(parentRow);
+    if (existing && !existing.error) {
+      return;
+    }
+
     const subTableConfig = this.config.expandable.subTable;
+    const pageSize = subTableConfig.pagination?.pageSize || 10;
 
     // Option 1: Data is in parent row
     if (subTableConfig.dataKey && parentRow[subTableConfig.dataKey]) {
       console.log('[BaseTable] Sub-table data found in parent row:', subTableConfig.dataKey);
-      this.subTableData.set(parentRow, parentRow[subTableConfig.dataKey]);
+      const state = this.createSubTableState(pageSize);
+      this.subTableStates.set(parentRow, state);
+      this.setSubTableRows(state, parentRow[subTableConfig.dataKey]);
       return;
     }
 
     // Option 2: Fetch from API
-    if (subTableConfig.api) {
-      console.log('[BaseTable] Sub-table API loading not yet implemented');
-      // TODO: Implement API loading in next iteration
+    if (subTableConfig.apiConfigRef || subTableConfig.api) {
+      this.subTableStates.set(parentRow, this.createSubTableState(pageSize));
+      this.fetchSubTablePage(parentRow, 0, pageSize);
       return;
     }
 
     console.warn('[BaseTable] No sub-table data source configured');
   }
 
-  /**
-   * EXPANDABLE: Get sub-table data for row
-   */
-  getSubTableData(parentRow: any): any[] {
-    return this.subTableData.get(parentRow) || [];
+  private createSubTableState(size: number): SubTableState {
+    return { rows: [], total: 0, first: 0, size, serverSide: false, loading: false, error: null };
   }
 
   /**
-   * PAGINATION: Page change event
-   * STEP 1.4: URL-first pattern - update URL first, then reload data if needed
+   * EXPANDABLE: Fetch one page of sub-rows for a parent row
+   * Uses subTable.apiConfigRef (registry + ApiService) or the legacy subTable.api endpoint.
+   * Responses are cached by ApiCacheService (ApiConfig.cache for apiConfigRef, 5 minutes
+   * for the legacy endpoint), so re-expanding or re-visiting a page is free.
    */
-  onPageChange(event: any): void {
-    console.log('[BaseTable] Page changed:', event);
-    this.first = event.first;
-    this.rows = event.rows;
+  private fetchSubTablePage(parentRow: any, first: number, size: number): void {
+    const state = this.subTableStates.get(parentRow)!;
+    const { requestKey, request$ } = this.buildSubTableRequest(parentRow, first, size);
 
-    // STEP 1.4: Update URL first (URL-first pattern)
-    const paginationParams = this.serializePaginationState();
-    this.urlState.setQueryParams(paginationParams).subscribe(
-      (success) => {
-        if (success) {
-          console.log('[BaseTable] Updated URL with pagination state:', paginationParams);
-        } else {
-          console.warn('[BaseTable] Failed to update URL with pagination state');
-        }
-      }
-    );
+    state.requestKey = requestKey;
+    state.first = first;
+    state.size = size;
+    state.error = null;
 
-    // If using API, reload data with new page
-    if (this.config.api) {
-      this.loadData();
+    if (!request$) {
+      state.error = `API config '${this.config.expandable!.subTable!.apiConfigRef!.configId}' is not registered`;
+      return;
     }
+
+    console.log('[BaseTable] Fetching sub-table data:', requestKey);
+    state.loading = true;
+
+    request$
+      .pipe(takeUntil(this.destroy$))
+      .subscribe({
+        next: (response: any) => {
+          // A newer page was requested meanwhile - drop this one
+          if (state.requestKey !== requestKey) {
+            return;
+          }
+          state.loading = false;
+          this.applySubTableResponse(parentRow, state, response);
+        },
+        error: (error: any) => {
+          console.error('[BaseTable] Sub-table API error:', error);
+          if (state.requestKey !== requestKey) {
+            return;
+          }
+          state.loading = false;
+          state.error = toApiError(error).userMessage;
+        }
+      });
   }
 
   /**
-   * SORT STATE HYDRATION (URL-First Pattern)
-   * Deserialize sort state from URL parameter
-   * Format: ?sort=fieldName:asc or ?sort=fieldName:desc
-   * Example: ?sort=manufacturer:asc
-   *
-   * STEP 1.2: Hydrate sort state from URL on component init
+   * EXPANDABLE: Request for one page of sub-rows (subTable.apiConfigRef or legacy subTable.api)
+   * requestKey identifies the request; request$ is null when the API config isn't registered.
+   * The table-level responseTransformer is applied to the response.
    */
-  private hydrateSortStateFromUrl(): void {
-    const sortParam = this.urlState.getQueryParamSnapshot('sort');
-    if (!sortParam) {
-      console.log('[BaseTable] No sort parameter in URL');
-      return;
+  private buildSubTableRequest(
+    parentRow: any,
+    first: number,
+    size: number
+  ): { requestKey: string; request$: Observable<any> | null } {
+    const subTableConfig = this.config.expandable!.subTable!;
+    const paging: SubTableRequestState = { page: Math.floor(first / size) + 1, size };
+
+    const ref = subTableConfig.apiConfigRef;
+    const mapper = ref ? ref.paramMapper : subTableConfig.api?.paramMapper;
+    const request = mapper ? mapper(parentRow, paging) : { ...paging };
+    const source = ref ? `${ref.configId}/${ref.endpointId}` : subTableConfig.api!.endpoint;
+    const requestKey = `${source}?${JSON.stringify(request)}`;
+
+    if (!ref) {
+      return {
+        requestKey,
+        request$: this.requestCoordinator.get(subTableConfig.api!.endpoint, request, { enabled: true })
+      };
     }
 
-    // Deserialize: "fieldName:asc" → { sortField: "fieldName", sortOrder: "asc" }
-    const { sortField, sortOrder } = this.deserializeSortState(sortParam);
-
-    if (sortField) {
-      this.sortField = sortField;
-      this.sortOrder = sortOrder;
-      console.log('[BaseTable] Hydrated sort state from URL:', { sortField, sortOrder });
+    const apiConfig = this.apiConfigRegistry.getConfig(ref.configId);
+    if (!apiConfig) {
+      return { requestKey, request$: null };
     }
+
+    return {
+      requestKey,
+      request$: this.apiService.request(apiConfig, ref.endpointId, request).pipe(
+        map((response: any) => ref.responseTransformer ? ref.responseTransformer(response) : response)
+      )
+    };
+  }
+
+  /**
+   * EXPANDABLE: Read a sub-table API response
+   * - Array + totalKey (with pagination) → one server page, total from the parent row
+   * - Array → full list, paged client-side
+   * - { results|data, total } → one server page
+   */
+  private readSubTableResponse(parentRow: any, response: any): RowPage {
+    const subTableConfig = this.config.expandable!.subTable!;
+
+    if (Array.isArray(response)) {
+      const totalFromParent = subTableConfig.totalKey ? parentRow[subTableConfig.totalKey] : undefined;
+      return subTableConfig.pagination?.enabled && typeof totalFromParent === 'number'
+        ? { rows: response, total: totalFromParent, serverSide: true }
+        : { rows: response, total: response.length, serverSide: false };
+    }
+
+    const rows = response?.results || response?.data || [];
+    return { rows, total: response?.total ?? response?.totalRecords ?? rows.length, serverSide: true };
+  }
+
+  /**
+   * EXPANDABLE: Store a sub-table API response (see readSubTableResponse)
+   */
+  private applySubTableResponse(parentRow: any, state: SubTableState, response: any): void {
+    const page = this.readSubTableResponse(parentRow, response);
+
+    if (page.serverSide) {
+      state.serverSide = true;
+      state.rows = page.rows;
+      state.total = page.total;
+    } else {
+      this.setSubTableRows(state, page.rows);
+    }
+
+    console.log('[BaseTable] Sub-table data loaded:', state.rows.length, 'of', state.total);
+  }
+
+  /**
+   * EXPANDABLE: Use a full sub-row list (paged client-side)
+   */
+  private setSubTableRows(state: SubTableState, rows: any[]): void {
+    state.serverSide = false;
+    state.allRows = rows;
+    state.total = rows.length;
+    state.first = 0;
+    state.rows = this.isSubTableClientPaged()
+      ? rows.slice(0, state.size)
+      : rows;
+  }
+
+  /**
+   * EXPANDABLE: Are full sub-row lists shown one page at a time?
+   * Not with sub-table virtual scroll - the sub-table scrolls through all of them
+   */
+  private isSubTableClientPaged(): boolean {
+    const subTableConfig = this.config.expandable?.subTable;
+    return !!subTableConfig?.pagination?.enabled && !subTableConfig.virtualScroll?.enabled;
+  }
+
+  /**
+   * EXPANDABLE: Get sub-table data for row
+   */
+  getSubTableData(parentRow: any): any[] {
+    return this.subTableStates.get(parentRow)?.rows || [];
+  }
+
+  getSubTableState(parentRow: any): SubTableState | undefined {
+    return this.subTableStates.get(parentRow);
+  }
+
+  isSubTableLoading(parentRow: any): boolean {
+    return this.subTableStates.get(parentRow)?.loading || false;
+  }
+
+  getSubTableError(parentRow: any): string | null {
+    return this.subTableStates.get(parentRow)?.error || null;
+  }
+
+  /**
+   * EXPANDABLE: Show the sub-table paginator?
+   */
+  shouldShowSubTablePagination(parentRow: any): boolean {
+    const state = this.subTableStates.get(parentRow);
+    if (!state || state.error || state.total <= state.size) {
+      return false;
+    }
+    // Server-paged sub-tables always page; full lists page unless virtually scrolled
+    return state.serverSide
+      ? !!this.config.expandable?.subTable?.pagination?.enabled
+      : this.isSubTableClientPaged();
+  }
+
+  /**
+   * EXPANDABLE: Sub-table page change (independent of the parent table and the URL)
+   */
+  onSubTablePageChange(parentRow: any, event: any): void {
+    const state = this.subTableStates.get(parentRow);
+    if (!state) {
+      return;
+    }
+
+    if (state.serverSide) {
+      this.fetchSubTablePage(parentRow, event.first, event.rows);
+      return;
+    }
+
+    state.first = event.first;
+    state.size = event.rows;
+    state.rows = (state.allRows || []).slice(event.first, event.first + event.rows);
+  }
+
+  /**
+   * EXPANDABLE: Retry a failed sub-table load
+   */
+  retrySubTable(parentRow: any): void {
+    const state = this.subTableStates.get(parentRow);
+    if (state?.serverSide && state.total > 0) {
+      this.fetchSubTablePage(parentRow, state.first, state.size);
+      return;
+    }
+
+    this.subTableStates.delete(parentRow);
+    this.loadSubTableData(parentRow);
+  }
+
+  /**
+   * PAGINATION: Page change event
+   * STEP 1.4: URL-first pattern - update URL first, then reload data if needed
+   */
+  onPageChange(event: any): void {
+    console.log('[BaseTable] Page changed:', event);
+    this.first = event.first;
+    this.rows = event.rows;
+
+    // STEP 1.4: Update URL first (URL-first pattern)
+    const paginationParams = encodeQueryState(this.querySchema, this.serializePaginationState());
+    this.setTableUrlParams(paginationParams).subscribe(
+      (success) => {
+        if (success) {
+          console.log('[BaseTable] Updated URL with pagination state:', paginationParams);
+        } else {
+          console.warn('[BaseTable] Failed to update URL with pagination state');
+        }
+      }
+    );
+
+    // If the server pages, reload data with new page
+    if (this.isApiMode() && this.isServerSide()) {
+      this.loadData();
+    }
+  }
+
+  /**
+   * SORT STATE HYDRATION (URL-First Pattern)
+   * Deserialize sort state from URL parameter (ordered list, highest priority first)
+   * Format: ?sort=fieldName:asc,otherField:desc
+   * Example: ?sort=manufacturer:asc,model:asc,year:desc
+   * Entries for unknown or non-sortable columns are ignored (schema validation);
+   * without a sort param, config.defaultSort applies; ?sort=- means no sort
+   *
+   * STEP 1.2: Hydrate sort state from URL on component init
+   */
+  private hydrateSortStateFromUrl(): void {
+    const sortParam = decodeQueryState(this.querySchema, this.getTableUrlParams()).state.sort;
+
+    // Deserialize: ["manufacturer:asc", "year:desc"] → [{ field, order }, ...]
+    this.sortCriteria = this.deserializeSortState(sortParam);
+
+    if (this.sortCriteria.length === 0) {
+      console.log('[BaseTable] No valid sort parameter in URL');
+      return;
+    }
+    console.log('[BaseTable] Hydrated sort state from URL:', this.sortCriteria);
+  }
+
+  /**
+   * SORT: Adopt a sort param changed by others (undo/redo, back button)
+   * @returns true if the sort changed
+   */
+  private syncSortStateFromUrl(): boolean {
+    const sortParam = decodeQueryState(this.querySchema, this.getTableUrlParams()).state.sort;
+    const urlSort = this.deserializeSortState(sortParam).map(encodeSortCriterion);
+
+    if (urlSort.join(',') === this.sortCriteria.map(encodeSortCriterion).join(',')) {
+      return false;
+    }
+
+    this.hydrateSortStateFromUrl();
+    return true;
   }
 
   /**
    * SORT STATE SERIALIZATION
-   * Convert { sortField, sortOrder } to URL parameter format
-   * Format: "fieldName:asc" → URL param value
+   * Convert sortCriteria to URL parameter entries
+   * Format: [{ field: "year", order: "desc" }] → ["year:desc"]
+   * No sort → [] (param dropped), or ["-"] when that differs from config.defaultSort
    */
-  private serializeSortState(): string {
-    if (!this.sortField) {
-      return '';
+  private serializeSortState(): string[] {
+    if (this.sortCriteria.length === 0 && (this.config.defaultSort?.length ?? 0) > 0) {
+      return [SORT_NONE_MARKER];
     }
-    return `${this.sortField}:${this.sortOrder}`;
+    return this.sortCriteria.map(encodeSortCriterion);
   }
 
   /**
    * SORT STATE DESERIALIZATION
-   * Parse URL parameter to { sortField, sortOrder }
-   * Format: "fieldName:asc" → { sortField: "fieldName", sortOrder: "asc" }
+   * Parse URL parameter entries to sort criteria
+   * Format: ["fieldName:asc"] → [{ field: "fieldName", order: "asc" }]
+   * A column listed twice keeps its first (highest priority) entry; ["-"] → []
    */
-  private deserializeSortState(sortParam: string): { sortField: string | undefined; sortOrder: 'asc' | 'desc' } {
-    const parts = sortParam.split(':');
-    if (parts.length === 2 && (parts[1] === 'asc' || parts[1] === 'desc')) {
-      return {
-        sortField: parts[0],
-        sortOrder: parts[1]
-      };
-    }
-    // Invalid format, return defaults
-    return {
-      sortField: undefined,
-      sortOrder: 'asc'
-    };
+  private deserializeSortState(entries: string[]): SortCriterion[] {
+    const criteria: SortCriterion[] = [];
+
+    entries.forEach(entry => {
+      const parts = entry.split(':');
+      if (parts.length === 2 && (parts[1] === 'asc' || parts[1] === 'desc') &&
+          !criteria.some(criterion => criterion.field === parts[0])) {
+        criteria.push({ field: parts[0], order: parts[1] });
+      }
+    });
+
+    return criteria;
   }
 
   /**
    * FILTER STATE HYDRATION (URL-First Pattern)
    * Deserialize filter state from URL parameters
-   * Format: ?f_columnKey=filterValue
-   * Example: ?f_manufacturer=Ford&f_model=F-150
+   * Format: ?f_columnKey=encodedFilter (encoding depends on the column's operator)
+   * Example: ?f_model=F-150&f_year=2015..2020&f_body_class=SUV,Pickup
    *
    * STEP 1.3: Hydrate filter state from URL on component init
    */
   private hydrateFilterStateFromUrl(): void {
-    // Get all query params and find those starting with 'f_'
-    const allParams = this.route.snapshot.queryParams || {};
-    const filterParams = Object.entries(allParams).filter(([key]) => key.startsWith('f_'));
+    // Only f_ params of filterable columns are part of the schema
+    const { state } = decodeQueryState(this.filterSchema, this.getTableUrlParams());
+    const filterParams = Object.entries(state).filter(([, value]) => value !== undefined);
 
     if (filterParams.length === 0) {
       console.log('[BaseTable] No filter parameters in URL');
       return;
     }
 
-    // Deserialize: { "f_columnKey": "filterValue" } → { "columnKey": "filterValue" }
+    // Deserialize: { "f_year": "2015..2020" } → { "year": { operator: 'range', min: 2015, max: 2020 } }
     filterParams.forEach(([key, value]) => {
-      const columnKey = key.substring(2); // Remove 'f_' prefix
-      this.activeFilters[columnKey] = String(value).toLowerCase();
+      const column = this.config.columns.find(col => col.key === key.substring(2)); // Remove 'f_' prefix
+      const filter = column ? decodeColumnFilter(column, String(value)) : null;
+      if (filter) {
+        this.activeFilters[column!.key] = filter;
+      } else {
+        console.warn('[BaseTable] Ignored invalid filter parameter:', key, value);
+      }
     });
 
     console.log('[BaseTable] Hydrated filter state from URL:', this.activeFilters);
   }
 
+  /**
+   * FILTERING: Adopt filter params changed by others (undo/redo, back button)
+   * @returns true if the filters changed
+   */
+  private syncFilterStateFromUrl(): boolean {
+    const { state } = decodeQueryState(this.filterSchema, this.getTableUrlParams());
+    const urlFilters = encodeQueryState(this.filterSchema, state);
+
+    if (JSON.stringify(urlFilters) === JSON.stringify(this.serializeFilterState())) {
+      return false;
+    }
+
+    this.activeFilters = {};
+    this.hydrateFilterStateFromUrl();
+    return true;
+  }
+
   /**
    * FILTER STATE SERIALIZATION
    * Convert activeFilters to URL parameter format
-   * Format: { "columnKey": "filterValue" } → { "f_columnKey": "filterValue" }
+   * Format: { "year": { operator: 'range', min: 2015 } } → { "f_year": "2015.." }
    *
+   * Every filterable column is included, so cleared filters are removed from the URL
    * Returns object with 'f_' prefixed keys ready for setQueryParams()
    */
-  private serializeFilterState(): Record<string, string> {
-    const filterParams: Record<string, string> = {};
+  private serializeFilterState(): QueryParams {
+    const filterState: Record<string, string | undefined> = {};
 
-    Object.entries(this.activeFilters).forEach(([columnKey, filterValue]) => {
-      if (filterValue && filterValue.trim()) {
-        filterParams[`f_${columnKey}`] = filterValue;
-      }
+    Object.keys(this.filterSchema).forEach(key => {
+      const filter = this.activeFilters[key.substring(2)];
+      filterState[key] = filter ? encodeColumnFilter(filter) : undefined;
     });
 
-    return filterParams;
+    return encodeQueryState(this.filterSchema, filterState);
   }
 
   /**
@@ -930,75 +1953,92 @@ export class BaseTableComponent implements OnInit, OnChanges, OnDestroy {
    * STEP 1.4: Hydrate pagination state from URL on component init
    */
   private hydratePaginationStateFromUrl(): void {
-    const pageParam = this.route.snapshot.queryParams['page'];
-    const pageSizeParam = this.route.snapshot.queryParams['pageSize'];
-
-    // Parse page (1-indexed in URL, convert to 0-indexed for component)
-    if (pageParam) {
-      const pageNumber = parseInt(pageParam, 10);
-      if (!isNaN(pageNumber) && pageNumber > 0) {
-        // first = (pageNumber - 1) * pageSize
-        // We need to know pageSize to calculate first
-        const pageSize = pageSizeParam ? parseInt(pageSizeParam, 10) : this.rows;
-        if (!isNaN(pageSize) && pageSize > 0) {
-          this.first = (pageNumber - 1) * pageSize;
-        }
-      }
+    // Virtual scroll has no pages: the first window is requested, the rest on scroll
+    if (this.isVirtualScroll()) {
+      this.first = 0;
+      this.rows = this.config.virtualScroll!.windowSize || DEFAULT_VIRTUAL_WINDOW_SIZE;
+      return;
     }
 
-    // Parse page size
-    if (pageSizeParam) {
-      const pageSize = parseInt(pageSizeParam, 10);
-      if (!isNaN(pageSize) && pageSize > 0) {
-        this.rows = pageSize;
-      }
-    }
+    // Missing/invalid values fall back to the schema defaults (page 1, configured page size)
+    const { state, invalid } = decodeQueryState(this.querySchema, this.getTableUrlParams());
 
-    if (pageParam || pageSizeParam) {
-      console.log('[BaseTable] Hydrated pagination state from URL:', { page: pageParam, pageSize: pageSizeParam, first: this.first, rows: this.rows });
+    // first = (pageNumber - 1) * pageSize
+    this.rows = state.pageSize;
+    this.first = (state.page - 1) * state.pageSize;
+
+    if (invalid.length > 0) {
+      console.warn('[BaseTable] Ignored invalid URL params:', invalid);
     }
+    console.log('[BaseTable] Hydrated pagination state from URL:', { page: state.page, pageSize: state.pageSize, first: this.first, rows: this.rows });
   }
 
   /**
    * PAGINATION STATE SERIALIZATION
    * Convert component pagination state to URL parameter format
-   * Format: { first: 20, rows: 10 } → { page: "3", pageSize: "10" }
+   * Format: { first: 20, rows: 10 } → { page: 3, pageSize: 10 }
    * Page is 1-indexed in URL for user-friendly display
+   * Pass through encodeQueryState() so default values are dropped from the URL
    */
-  private serializePaginationState(): { page: string; pageSize: string } {
+  private serializePaginationState(): { page: number; pageSize: number } {
     // first = (pageNumber - 1) * rows
     // pageNumber = (first / rows) + 1
     const pageNumber = Math.floor(this.first / this.rows) + 1;
     return {
-      page: String(pageNumber),
-      pageSize: String(this.rows)
+      page: pageNumber,
+      pageSize: this.rows
     };
   }
 
   /**
    * SORTING: Toggle sort on column
    * STEP 1.2: URL-first pattern - update URL first, then apply to data
-   * Clicking same column reverses direction, clicking different column sorts ascending
+   *
+   * Click:       sort by this column only (clicking the only sorted column reverses it)
+   * Shift-click: add this column as the next sort key; on a column that is
+   *              already sorted, ascending → descending → removed
    */
-  onSortColumn(column: TableColumn): void {
+  onSortColumn(column: TableColumn, event?: MouseEvent): void {
+    // Click that ends a header drag/resize
+    if (this.headerDragged) {
+      this.headerDragged = false;
+      return;
+    }
+
     if (!column.sortable) {
       return;
     }
 
-    console.log('[BaseTable] Sort column:', column.key);
+    const multi = event?.shiftKey === true;
+    console.log('[BaseTable] Sort column:', column.key, multi ? '(multi)' : '');
 
-    if (this.sortField === column.key) {
-      // Same column: toggle direction
-      this.sortOrder = this.sortOrder === 'asc' ? 'desc' : 'asc';
+    const existing = this.sortCriteria.find(criterion => criterion.field === column.key);
+
+    if (multi) {
+      if (!existing) {
+        this.sortCriteria = [...this.sortCriteria, { field: column.key, order: 'asc' }];
+      } else if (existing.order === 'asc') {
+        this.sortCriteria = this.sortCriteria.map(criterion =>
+          criterion === existing ? { ...criterion, order: 'desc' } : criterion
+        );
+      } else {
+        this.sortCriteria = this.sortCriteria.filter(criterion => criterion !== existing);
+      }
+    } else if (existing && this.sortCriteria.length === 1) {
+      // Same (only) column: toggle direction
+      this.sortCriteria = [{ field: column.key, order: existing.order === 'asc' ? 'desc' : 'asc' }];
     } else {
-      // Different column: reset to ascending
-      this.sortField = column.key;
-      this.sortOrder = 'asc';
+      // Different column (or leaving multi-sort): sort by this column ascending
+      this.sortCriteria = [{ field: column.key, order: 'asc' }];
     }
 
     // STEP 1.2: Update URL first (URL-first pattern)
     const sortParam = this.serializeSortState();
-    this.urlState.setQueryParams({ sort: sortParam }).subscribe(
+    const sortLabels = this.sortCriteria.map(criterion =>
+      this.config.columns.find(col => col.key === criterion.field)?.label || criterion.field
+    );
+    const historyLabel = sortLabels.length > 0 ? `Sorted by ${sortLabels.join(', then ')}` : 'Cleared sort';
+    this.setTableUrlParams(encodeQueryState(this.querySchema, { sort: sortParam }), { historyLabel }).subscribe(
       (success) => {
         if (success) {
           console.log('[BaseTable] Updated URL with sort state:', sortParam);
@@ -1013,26 +2053,65 @@ export class BaseTableComponent implements OnInit, OnChanges, OnDestroy {
   }
 
   /**
-   * FILTERING: Update filter for column
-   * STEP 1.3: URL-first pattern - update URL first, then apply to data
+   * FILTERING: Text (contains) filter input
    */
   onFilterColumn(column: TableColumn, event: any): void {
+    const value: string = event.target?.value || '';
+    this.setColumnFilter(column, { operator: 'contains', value });
+  }
+
+  /**
+   * FILTERING: Numeric range filter input (min or max bound)
+   */
+  onRangeFilterChange(column: TableColumn, bound: 'min' | 'max', event: any): void {
+    const current = this.activeFilters[column.key];
+    const filter: ColumnFilter = current?.operator === 'range' ? { ...current } : { operator: 'range' };
+    const raw: string = event.target?.value ?? '';
+    const value = raw === '' ? undefined : Number(raw);
+    filter[bound] = value === undefined || isNaN(value) ? undefined : value;
+    this.setColumnFilter(column, filter);
+  }
+
+  /**
+   * FILTERING: Date between filter input (from or to date, yyyy-mm-dd)
+   */
+  onDateFilterChange(column: TableColumn, bound: 'from' | 'to', event: any): void {
+    const current = this.activeFilters[column.key];
+    const filter: ColumnFilter = current?.operator === 'between' ? { ...current } : { operator: 'between' };
+    filter[bound] = event.target?.value || undefined;
+    this.setColumnFilter(column, filter);
+  }
+
+  /**
+   * FILTERING: Multi-select (in) filter change
+   */
+  onInFilterChange(column: TableColumn, values: string[]): void {
+    this.setColumnFilter(column, { operator: 'in', values: values || [] });
+  }
+
+  /**
+   * FILTERING: Set (or clear, when empty) the filter of a column
+   * STEP 1.3: URL-first pattern - update URL first, then apply to data
+   * Filter changes return to the first page
+   */
+  private setColumnFilter(column: TableColumn, filter: ColumnFilter): void {
     if (!column.filterable) {
       return;
     }
 
-    const value = event.target?.value || '';
-    console.log('[BaseTable] Filter column:', column.key, 'value:', value);
+    console.log('[BaseTable] Filter column:', column.key, 'filter:', filter);
 
-    if (value && value.trim()) {
-      this.activeFilters[column.key] = value.toLowerCase();
-    } else {
+    if (isColumnFilterEmpty(filter)) {
       delete this.activeFilters[column.key];
+    } else {
+      this.activeFilters[column.key] = filter;
     }
+    this.first = 0;
 
     // STEP 1.3: Update URL first (URL-first pattern)
-    const filterParams = this.serializeFilterState();
-    this.urlState.setQueryParams(filterParams).subscribe(
+    const filterParams = { ...this.serializeFilterState(), ...this.firstPageParams() };
+    const historyLabel = this.activeFilters[column.key] ? `Filtered by ${column.label}` : `Cleared ${column.label} filter`;
+    this.setTableUrlParams(filterParams, { historyLabel }).subscribe(
       (success) => {
         if (success) {
           console.log('[BaseTable] Updated URL with filter state:', filterParams);
@@ -1046,6 +2125,14 @@ export class BaseTableComponent implements OnInit, OnChanges, OnDestroy {
     this.applyDataTransformations();
   }
 
+  /**
+   * URL params that return a paginated table to its first page
+   * (unpaginated tables, e.g. sub-tables, have no page param to reset)
+   */
+  private firstPageParams(): QueryParams {
+    return this.config.pagination?.enabled ? encodeQueryState(this.querySchema, { page: 1 }) : {};
+  }
+
   /**
    * FILTERING: Clear all filters
    * STEP 1.3: URL-first pattern - update URL first, then apply to data
@@ -1053,19 +2140,17 @@ export class BaseTableComponent implements OnInit, OnChanges, OnDestroy {
   clearAllFilters(): void {
     console.log('[BaseTable] Clearing all filters');
     this.activeFilters = {};
+    this.first = 0;
 
-    // STEP 1.3: Update URL first - remove all f_ parameters
-    const allParams = this.route.snapshot.queryParams || {};
-    const filterKeys = Object.keys(allParams).filter(key => key.startsWith('f_'));
+    // STEP 1.3: Update URL first - remove all f_ parameters of this table's columns
+    const allParams = this.getTableUrlParams();
+    const hasFilterParams = Object.keys(this.filterSchema).some(key => allParams[key] !== undefined);
 
-    if (filterKeys.length > 0) {
-      // Create object with filter params set to undefined (removes them)
-      const clearParams: Record<string, string | undefined> = {};
-      filterKeys.forEach(key => {
-        clearParams[key] = undefined;  // undefined will remove from URL
-      });
+    if (hasFilterParams) {
+      // Every filter param encodes to undefined (removes it from the URL)
+      const clearParams = { ...this.serializeFilterState(), ...this.firstPageParams() };
 
-      this.urlState.setQueryParams(clearParams).subscribe(
+      this.setTableUrlParams(clearParams, { historyLabel: 'Cleared filters' }).subscribe(
         (success) => {
           if (success) {
             console.log('[BaseTable] Cleared filter parameters from URL');
@@ -1082,54 +2167,40 @@ export class BaseTableComponent implements OnInit, OnChanges, OnDestroy {
 
   /**
    * Apply sorting and filtering to data
-   * Sorts data by sortField, then applies all active filters
+   * Applies all active filters, then sorts by every sort criterion in priority order
    */
   private applyDataTransformations(): void {
-    if (!this.config.data) {
+    // Server-side tables reload from the API when sort/filter state changes
+    if (this.isServerSide()) {
       return;
     }
 
     // Start with original data
-    let transformed = [...this.config.data];
+    let transformed = [...this.sourceData];
 
     // Apply filters
     if (Object.keys(this.activeFilters).length > 0) {
-      transformed = transformed.filter(row => {
-        for (const [colKey, filterValue] of Object.entries(this.activeFilters)) {
-          const rowValue = String(row[colKey] || '').toLowerCase();
-          if (!rowValue.includes(filterValue)) {
-            return false;
-          }
-        }
-        return true;
-      });
+      const filters = Object.entries(this.activeFilters);
+      transformed = transformed.filter(row =>
+        filters.every(([colKey, filter]) => matchesColumnFilter(filter, row[colKey]))
+      );
     }
 
-    // Apply sorting
-    if (this.sortField) {
-      transformed.sort((a, b) => {
-        const aVal = a[this.sortField!];
-        const bVal = b[this.sortField!];
-
-        // Handle null/undefined
-        if (aVal == null && bVal == null) return 0;
-        if (aVal == null) return 1;
-        if (bVal == null) return -1;
-
-        // Compare values
-        let comparison = 0;
-        if (typeof aVal === 'string') {
-          comparison = aVal.localeCompare(bVal);
-        } else if (typeof aVal === 'number') {
-          comparison = aVal - bVal;
-        } else if (aVal instanceof Date && bVal instanceof Date) {
-          comparison = aVal.getTime() - bVal.getTime();
-        } else {
-          comparison = String(aVal).localeCompare(String(bVal));
-        }
-
-        return this.sortOrder === 'asc' ? comparison : -comparison;
-      });
+    // Apply sorting: compare by each criterion in priority order; rows equal on
+    // every key keep their original order (index tie-break keeps the sort stable)
+    if (this.sortCriteria.length > 0) {
+      transformed = transformed
+        .map((row, index) => ({ row, index }))
+        .sort((a, b) => {
+          for (const criterion of this.sortCriteria) {
+            const comparison = this.compareSortValues(a.row[criterion.field], b.row[criterion.field], criterion.order);
+            if (comparison !== 0) {
+              return comparison;
+            }
+          }
+          return a.index - b.index;
+        })
+        .map(entry => entry.row);
     }
 
     // Update data and total records
@@ -1141,6 +2212,31 @@ export class BaseTableComponent implements OnInit, OnChanges, OnDestroy {
     this.updateSelectionHelperWithVisibleData();
   }
 
+  /**
+   * Compares two cell values for one sort criterion
+   * null/undefined always sort last, regardless of direction
+   */
+  private compareSortValues(aVal: any, bVal: any, order: 'asc' | 'desc'): number {
+    // Handle null/undefined
+    if (aVal == null && bVal == null) return 0;
+    if (aVal == null) return 1;
+    if (bVal == null) return -1;
+
+    // Compare values
+    let comparison = 0;
+    if (typeof aVal === 'string') {
+      comparison = aVal.localeCompare(bVal);
+    } else if (typeof aVal === 'number') {
+      comparison = aVal - bVal;
+    } else if (aVal instanceof Date && bVal instanceof Date) {
+      comparison = aVal.getTime() - bVal.getTime();
+    } else {
+      comparison = String(aVal).localeCompare(String(bVal));
+    }
+
+    return order === 'asc' ? comparison : -comparison;
+  }
+
   /**
    * PHASE 5: Update selection helper with visible (filtered/sorted) data
    * This ensures parent checkbox states reflect visible children, not all children
@@ -1155,10 +2251,10 @@ export class BaseTableComponent implements OnInit, OnChanges, OnDestroy {
     const currentSelections = this.selectionHelper.getSelectedKeys();
 
     // Recreate helper with visible/filtered data
-    const parentKey = this.config.selection.hierarchical.parentKey;
-    const childKey = this.config.selection.hierarchical.childKey;
+    const levels = this.getHierarchyLevels();
+    const parentMode = this.config.selection.hierarchical.parentCheckbox;
 
-    this.selectionHelper = new HierarchicalSelectionHelper(this.data, parentKey, childKey);
+    this.selectionHelper = new HierarchicalSelectionHelper(this.data, levels, parentMode);
 
     // Restore selections
     if (currentSelections.size > 0) {
@@ -1192,116 +2288,874 @@ export class BaseTableComponent implements OnInit, OnChanges, OnDestroy {
       return '';
     }
 
-    if (this.sortField !== column.key) {
+    const criterion = this.sortCriteria.find(c => c.field === column.key);
+    if (!criterion) {
       return 'pi pi-sort';
     }
 
-    return this.sortOrder === 'asc' ? 'pi pi-sort-up' : 'pi pi-sort-down';
+    return criterion.order === 'asc' ? 'pi pi-sort-up' : 'pi pi-sort-down';
   }
 
   /**
-   * UTILITY: Get visible columns
+   * UTILITY: Sort priority of a column (1 = primary)
+   * Only shown while more than one column is sorted
    */
-  getVisibleColumns(): TableColumn[] {
-    return this.config.columns.filter(col => col.visible !== false);
+  getSortPriority(column: TableColumn): number | null {
+    if (this.sortCriteria.length < 2) {
+      return null;
+    }
+    const index = this.sortCriteria.findIndex(c => c.field === column.key);
+    return index >= 0 ? index + 1 : null;
   }
 
   /**
-   * UTILITY: Check if any column is filterable
+   * UTILITY: Get visible columns
+   * In display order, with ColumnManager preferences applied
    */
-  hasFilterableColumns(): boolean {
-    return this.getVisibleColumns().some(col => col.filterable === true);
+  getVisibleColumns(): TableColumn[] {
+    return this.visibleColumns || this.config.columns.filter(col => col.visible !== false);
   }
 
   /**
-   * UTILITY: Get filter keys
-   * (Used in templates instead of Object.keys)
+   * COLUMNS: Set up the column layout
+   * Dual-selector checkbox columns carry the selection, so they are locked
+   * (can't be hidden or moved). Saved preferences only apply while the
+   * column manager is enabled - otherwise there'd be no way to undo them.
    */
-  getFilterKeys(): string[] {
-    return Object.keys(this.activeFilters);
+  private initializeColumnLayout(): void {
+    this.managedColumns = this.config.columns.map(col =>
+      this.nodeColumnDepths.has(col.key) || col.key === this.childColumnKey ? { ...col, locked: true } : col
+    );
+
+    if (this.config.columnManager?.enabled) {
+      this.columnPreferences = this.columnPrefs.loadPreferences(this.config.id) || undefined;
+    }
+
+    this.applyColumnLayout();
   }
 
   /**
-   * UTILITY: Get unique parent values (for hierarchical rendering)
+   * COLUMNS: Rebuild the displayed columns from config + preferences
+   * (mergePreferences drops stale keys, adds new columns and keeps locked /
+   * non-reorderable columns at their configured position)
    */
-  getUniqueParents(): string[] {
-    if (!this.selectionHelper) {
-      return [];
+  private applyColumnLayout(): void {
+    if (!this.columnPreferences) {
+      this.visibleColumns = this.managedColumns.filter(col => col.visible !== false);
+      return;
     }
-    return this.selectionHelper.getUniqueParents();
+
+    const merged = this.columnPrefs.mergePreferences(this.columnPreferences, this.managedColumns);
+    const columnsByKey = new Map(this.managedColumns.map(col => [col.key, col]));
+
+    this.visibleColumns = merged.columns
+      .filter(state => state.visible)
+      .map(state => {
+        const col = columnsByKey.get(state.key)!;
+        // Saved width only for resizable columns
+        return state.width && col.resizable !== false ? { ...col, width: state.width } : col;
+      });
+
+    console.log('[BaseTable] Applied column preferences:', this.visibleColumns.map(col => col.key));
   }
 
   /**
-   * UTILITY: Get children for parent
+   * COLUMNS: Can the user change the layout in the table itself?
+   * Same switch as the column manager (its Reset is the way back)
    */
-  getChildrenForParent(parentValue: string): any[] {
-    if (!this.selectionHelper) {
-      return [];
-    }
-    return this.selectionHelper.getChildren(parentValue);
+  isColumnLayoutEditable(): boolean {
+    return this.config.columnManager?.enabled === true;
   }
 
   /**
-   * PHASE 4 STEP 4.2: Get hierarchical data structure for single-selector pattern
-   * Returns array of parent values for rendering parent rows
-   * Children rows are rendered under each parent using getChildrenForParent()
+   * COLUMNS: Can this header be dragged / be a drop target?
    */
-  getHierarchicalParents(): string[] {
-    if (!this.isSingleSelectorMode() || !this.selectionHelper) {
-      return [];
-    }
-    return this.selectionHelper.getUniqueParents();
+  isColumnReorderable(column: TableColumn): boolean {
+    return this.isColumnLayoutEditable() && column.locked !== true && column.reorderable !== false;
   }
 
   /**
-   * PHASE 4 STEP 4.2: Check if row is a parent row (used in single-selector template)
-   * Parent rows show parent checkbox and parent value, but no child values
+   * COLUMNS: Does this header get a resize handle?
    */
-  isParentRow(row: any): boolean {
-    if (!this.isSingleSelectorMode() || !this.config.selection?.hierarchical?.enabled) {
-      return false;
-    }
-    const childKey = this.config.selection.hierarchical.childKey;
-    // A parent row has no child value (or child value is undefined/empty)
-    return !row[childKey];
+  isColumnResizable(column: TableColumn): boolean {
+    return this.isColumnLayoutEditable() && column.resizable !== false;
+  }
+
+  isColumnDragging(column: TableColumn): boolean {
+    return this.columnInteraction?.type === 'move' && this.columnInteraction.dragging &&
+      this.columnInteraction.columnKey === column.key;
+  }
+
+  isColumnDropTarget(column: TableColumn): boolean {
+    return this.columnInteraction?.type === 'move' && this.columnInteraction.targetKey === column.key &&
+      this.columnInteraction.columnKey !== column.key;
   }
 
   /**
-   * PHASE 4 STEP 4.2: Check if row is a child row (used in single-selector template)
-   * Child rows show child checkbox and child value
+   * COLUMNS: Start dragging a header (pointerdown on th)
+   * Becomes a drag only after COLUMN_DRAG_THRESHOLD px, so plain clicks still sort
    */
-  isChildRow(row: any): boolean {
-    if (!this.isSingleSelectorMode() || !this.config.selection?.hierarchical?.enabled) {
-      return false;
+  startColumnMove(event: PointerEvent, column: TableColumn): void {
+    this.headerDragged = false;
+    if (event.button !== 0 || !this.isColumnReorderable(column)) {
+      return;
     }
-    const childKey = this.config.selection.hierarchical.childKey;
-    // A child row has a child value defined
-    return row[childKey] !== undefined && row[childKey] !== null && row[childKey] !== '';
+
+    this.columnInteraction = {
+      type: 'move',
+      columnKey: column.key,
+      pointerX: event.clientX,
+      startWidth: 0,
+      dragging: false
+    };
   }
 
   /**
-   * PAGINATION: Get displayed data based on current page (client-side pagination)
-   * For hierarchical tables that don't use p-table's built-in pagination
-   * Returns a slice of this.data based on first and rows
+   * COLUMNS: Start resizing a column (pointerdown on the header's edge handle)
    */
-  getDisplayedData(): any[] {
-    if (!this.config.pagination?.enabled) {
-      return this.data;
+  startColumnResize(event: PointerEvent, column: TableColumn): void {
+    this.headerDragged = false;
+    if (event.button !== 0 || !this.isColumnResizable(column)) {
+      return;
     }
+    event.preventDefault();
+    event.stopPropagation();  // Not a header drag
 
-    // Calculate slice range
-    const startIndex = this.first;
-    const endIndex = this.first + this.rows;
-
-    return this.data.slice(startIndex, endIndex);
+    const header = (event.target as HTMLElement).closest('th');
+    this.columnInteraction = {
+      type: 'resize',
+      columnKey: column.key,
+      pointerX: event.clientX,
+      startWidth: header?.offsetWidth || MIN_COLUMN_WIDTH,
+      dragging: false
+    };
   }
 
   /**
-   * PAGINATION: Check if pagination should be shown
+   * COLUMNS: Pointer moved - track the drop target, or resize live
    */
-  shouldShowPagination(): boolean {
-    return this.config.pagination?.enabled === true && this.totalRecords > 0;
-  }
+  @HostListener('document:pointermove', ['$event'])
+  onColumnPointerMove(event: PointerEvent): void {
+    const interaction = this.columnInteraction;
+    if (!interaction) {
+      return;
+    }
+
+    const dx = event.clientX - interaction.pointerX;
+    if (!interaction.dragging && Math.abs(dx) < COLUMN_DRAG_THRESHOLD) {
+      return;
+    }
+    interaction.dragging = true;
+
+    if (interaction.type === 'resize') {
+      interaction.width = Math.max(MIN_COLUMN_WIDTH, Math.round(interaction.startWidth + dx));
+      this.visibleColumns = this.getVisibleColumns().map(col =>
+        col.key === interaction.columnKey ? { ...col, width: `${interaction.width}px` } : col
+      );
+      return;
+    }
+
+    // Only headers of this table (sub-tables render their own) that can move
+    const header = (event.target as HTMLElement | null)?.closest?.('th[data-column-key]') as HTMLElement | null;
+    const ownHeader = header && header.closest('app-base-table') === this.elementRef.nativeElement ? header : null;
+    const target = ownHeader ? this.getVisibleColumns().find(col => col.key === ownHeader.dataset['columnKey']) : undefined;
+    interaction.targetKey = target && this.isColumnReorderable(target) ? target.key : undefined;
+  }
+
+  /**
+   * COLUMNS: Pointer released - drop the column / keep the width, and save
+   */
+  @HostListener('document:pointerup')
+  @HostListener('document:pointercancel')
+  onColumnPointerUp(): void {
+    const interaction = this.columnInteraction;
+    if (!interaction) {
+      return;
+    }
+    this.columnInteraction = null;
+
+    if (!interaction.dragging) {
+      return;
+    }
+    this.headerDragged = true;
+
+    if (interaction.type === 'resize' && interaction.width) {
+      this.saveColumnLayout(states => {
+        const state = states.find(s => s.key === interaction.columnKey);
+        if (state) {
+          state.width = `${interaction.width}px`;
+        }
+      });
+      return;
+    }
+
+    if (interaction.type === 'move' && interaction.targetKey && interaction.targetKey !== interaction.columnKey) {
+      this.saveColumnLayout(states => {
+        const from = states.findIndex(s => s.key === interaction.columnKey);
+        const [moved] = states.splice(from, 1);
+        const to = states.findIndex(s => s.key === interaction.targetKey);
+        // Dropped on a header to the right: go after it, otherwise before it
+        states.splice(from <= to ? to + 1 : to, 0, moved);
+      });
+    }
+  }
+
+  /**
+   * COLUMNS: Change the layout and persist it (same storage as the column manager)
+   *
+   * @param change - Edits the full column state list (display order)
+   */
+  private saveColumnLayout(change: (states: ColumnState[]) => void): void {
+    const base = this.columnPreferences ||
+      this.columnPrefs.buildDefaultPreferences(this.config.id, this.managedColumns);
+    const preferences = this.columnPrefs.mergePreferences(base, this.managedColumns);
+
+    change(preferences.columns);
+    preferences.columns.forEach((state, index) => {
+      state.order = index;
+    });
+
+    this.columnPrefs.savePreferences(this.config.id, preferences);
+    this.columnPreferences = preferences;
+    this.applyColumnLayout();
+  }
+
+  /**
+   * COLUMNS: Toolbar button - show/hide the column manager
+   */
+  toggleColumnManager(): void {
+    this.columnManagerOpen = !this.columnManagerOpen;
+  }
+
+  /**
+   * COLUMNS: Column manager applied (already saved by ColumnManagerComponent)
+   */
+  onColumnManagerApply(preferences: ColumnPreferences): void {
+    this.columnPreferences = preferences;
+    this.applyColumnLayout();
+    this.columnManagerOpen = false;
+  }
+
+  /**
+   * EXPORT: Offered formats (first one preselected)
+   */
+  private initializeExport(): void {
+    const formats = this.config.export!.formats?.length ? this.config.export!.formats : DEFAULT_EXPORT_FORMATS;
+    this.exportFormatOptions = formats.map(format => ({ label: EXPORT_FORMAT_LABELS[format], value: format }));
+    this.exportOptions = { format: formats[0], scope: 'view', includeSubRows: false };
+  }
+
+  /**
+   * EXPORT: Can the export walk every page? (server-paged API tables only -
+   * client-side tables already hold all rows, so 'view' is everything)
+   */
+  canExportAllPages(): boolean {
+    return this.isApiMode() && this.isServerSide();
+  }
+
+  /**
+   * EXPORT: Can sub-table rows be included?
+   */
+  canExportSubRows(): boolean {
+    return !!this.config.expandable?.subTable;
+  }
+
+  /**
+   * EXPORT: Toolbar button - show/hide the export panel
+   */
+  toggleExportPanel(): void {
+    this.exportPanelOpen = !this.exportPanelOpen;
+    this.exportMessage = null;
+  }
+
+  /**
+   * EXPORT: Write the file
+   * - view: the rows the table holds, in display order (filters and sort applied;
+   *         the current page of a server-paged table, loaded windows in virtual scroll)
+   * - all:  every page of a server-paged table, fetched exportConfig.pageSize rows at a time
+   * Columns are the visible ones in display order (ColumnManager / header drag).
+   * Sub-rows come from the expanded row's state, the parent row (dataKey) or the
+   * sub-table API (all of its pages), one parent at a time.
+   * At most exportConfig.maxRows lines (rows + sub-rows) are written.
+   */
+  onExport(): void {
+    if (this.exporting || !this.config.export) {
+      return;
+    }
+
+    const maxRows = this.config.export.maxRows || DEFAULT_EXPORT_MAX_ROWS;
+    const { format, scope } = this.exportOptions;
+    const allPages = scope === 'all' && this.canExportAllPages();
+    const includeSubRows = this.exportOptions.includeSubRows && this.canExportSubRows();
+
+    // Lazy virtual scroll data has holes for windows that haven't loaded
+    const rows$ = allPages ? this.fetchAllRows(maxRows) : of(this.data.filter(() => true));
+    let available = 0;
+
+    console.log('[BaseTable] Exporting:', format, scope, includeSubRows ? 'with sub-rows' : '');
+    this.exporting = true;
+    this.exportMessage = null;
+
+    rows$
+      .pipe(
+        concatMap(rows => {
+          available = allPages ? Math.max(this.totalRecords, rows.length) : rows.length;
+          const exported = rows.slice(0, maxRows);
+          return includeSubRows
+            ? this.collectSubRows(exported, maxRows)
+            : of(exported.map(row => ({ row, subRows: [] })));
+        }),
+        takeUntil(this.destroy$)
+      )
+      .subscribe({
+        next: (entries: ExportEntry[]) => {
+          const lines = entries.reduce((count, entry) => count + 1 + entry.subRows.length, 0);
+          this.exportService.download(
+            this.buildExportTable(entries, includeSubRows),
+            format,
+            this.config.export?.fileName || this.config.id
+          );
+
+          this.exporting = false;
+          this.exportMessage = entries.length < available || lines >= maxRows
+            ? { severity: 'info', text: `Exported ${lines} lines - the export limit is ${maxRows}.` }
+            : { severity: 'info', text: `Exported ${lines} lines.` };
+        },
+        error: (error: any) => {
+          console.error('[BaseTable] Export failed:', error);
+          this.exporting = false;
+          this.exportMessage = { severity: 'error', text: `Export failed: ${toApiError(error).userMessage}` };
+        }
+      });
+  }
+
+  /**
+   * EXPORT: Fetch every page (up to limit rows), one request at a time
+   */
+  private fetchAllRows(limit: number): Observable<any[]> {
+    const size = Math.min(limit, this.config.export?.pageSize || DEFAULT_EXPORT_PAGE_SIZE);
+    const fetchPage = (first: number) => this.requestPage(first, size).pipe(
+      map((response: any) => ({ first, page: this.readPageResponse(response) }))
+    );
+
+    return fetchPage(0).pipe(
+      expand(({ first, page }) => {
+        const next = first + size;
+        return page.serverSide && page.rows.length === size && next < Math.min(page.total, limit)
+          ? fetchPage(next)
+          : EMPTY;
+      }),
+      reduce((rows, { page }) => rows.concat(page.rows), [] as any[]),
+      map(rows => rows.slice(0, limit))
+    );
+  }
+
+  /**
+   * EXPORT: Attach sub-rows to each row, parent by parent, until maxRows lines are used
+   */
+  private collectSubRows(rows: any[], maxRows: number): Observable<ExportEntry[]> {
+    let lines = 0;
+
+    return from(rows).pipe(
+      concatMap(row => {
+        if (lines >= maxRows) {
+          return EMPTY;
+        }
+        lines++;
+        return this.fetchAllSubRows(row, maxRows - lines).pipe(
+          map(subRows => {
+            lines += subRows.length;
+            return { row, subRows };
+          })
+        );
+      }),
+      toArray()
+    );
+  }
+
+  /**
+   * EXPORT: All sub-rows of a parent row (up to limit)
+   * Full lists already held (expanded rows, dataKey) are used as-is; otherwise
+   * the sub-table API is read page by page
+   */
+  private fetchAllSubRows(parentRow: any, limit: number): Observable<any[]> {
+    const subTableConfig = this.config.expandable!.subTable!;
+    const state = this.subTableStates.get(parentRow);
+
+    if (limit <= 0) {
+      return of([]);
+    }
+    if (state?.allRows) {
+      return of(state.allRows.slice(0, limit));
+    }
+    if (subTableConfig.dataKey && parentRow[subTableConfig.dataKey]) {
+      return of(parentRow[subTableConfig.dataKey].slice(0, limit));
+    }
+    if (!subTableConfig.apiConfigRef && !subTableConfig.api) {
+      return of([]);
+    }
+
+    const size = Math.min(limit, this.config.export?.pageSize || DEFAULT_EXPORT_PAGE_SIZE);
+    const fetchPage = (first: number) => {
+      const { request$ } = this.buildSubTableRequest(parentRow, first, size);
+      if (!request$) {
+        return throwError(() => new Error(`API config '${subTableConfig.apiConfigRef!.configId}' is not registered`));
+      }
+      return request$.pipe(map((response: any) => ({ first, page: this.readSubTableResponse(parentRow, response) })));
+    };
+
+    return fetchPage(0).pipe(
+      expand(({ first, page }) => {
+        const next = first + size;
+        return page.serverSide && page.rows.length > 0 && next < Math.min(page.total, limit)
+          ? fetchPage(next)
+          : EMPTY;
+      }),
+      reduce((rows, { page }) => rows.concat(page.rows), [] as any[]),
+      map(rows => rows.slice(0, limit))
+    );
+  }
+
+  /**
+   * EXPORT: Rows → cells of the visible columns (sub-table: its visible columns)
+   */
+  private buildExportTable(entries: ExportEntry[], includeSubRows: boolean): ExportTable {
+    const columns = this.getVisibleColumns();
+    const subColumns = includeSubRows
+      ? this.config.expandable!.subTable!.columns.filter(col => col.visible !== false)
+      : [];
+
+    const rows: ExportRow[] = entries.map(entry => ({
+      cells: columns.map(col => this.toExportCell(entry.row, col)),
+      subRows: includeSubRows
+        ? entry.subRows.map(subRow => subColumns.map(col => this.toExportCell(subRow, col)))
+        : undefined
+    }));
+
+    return {
+      name: this.config.export?.fileName || this.config.id,
+      columns: columns.map(col => this.toExportColumn(col)),
+      subColumns: subColumns.map(col => this.toExportColumn(col)),
+      rows
+    };
+  }
+
+  private toExportColumn(column: TableColumn): ExportColumn {
+    return { key: column.key, label: column.label, type: column.type || 'text' };
+  }
+
+  /**
+   * EXPORT: One cell - display text as the table shows it, value typed by column type
+   */
+  private toExportCell(row: any, column: TableColumn): ExportCell {
+    const value = row?.[column.key];
+    const text = this.formatCellValue(row, column);
+
+    if (value === null || value === undefined || value === '') {
+      return { text, value: null };
+    }
+
+    switch (column.type) {
+      case 'number':
+      case 'currency':
+        return { text, value: this.toCellNumber(value) ?? String(value) };
+      case 'boolean':
+        return { text, value: this.isCellTrue(value) };
+      default:
+        return { text, value: typeof value === 'number' || typeof value === 'boolean' ? value : String(value) };
+    }
+  }
+
+  /**
+   * GROUPING: Is the table rendered in groups?
+   * Hierarchical pickers group by their own parent column; virtual scroll renders flat rows
+   */
+  isGrouped(): boolean {
+    const grouping = this.config.grouping;
+    return !!grouping?.enabled &&
+      grouping.groupBy.length > 0 &&
+      !this.config.selection?.hierarchical?.enabled &&
+      !this.isVirtualScroll();
+  }
+
+  /**
+   * GROUPING: Lines to render (group headers, rows, group footers)
+   * Memoized - groups are rebuilt when the data changes, lines when a group is toggled
+   */
+  getGroupedRows(): GroupedRow[] {
+    const grouping = this.config.grouping!;
+    const cache = this.groupingCache;
+
+    if (cache && cache.data === this.data && cache.version === this.groupingVersion) {
+      return cache.lines;
+    }
+
+    const aggregates = grouping.aggregates || [];
+    const groups = cache && cache.data === this.data
+      ? cache.groups
+      : groupRows(this.data, grouping.groupBy, aggregates);
+    const totals = cache && cache.data === this.data
+      ? cache.totals
+      : computeAggregates(this.data, aggregates);
+
+    const lines = flattenRowGroups(
+      groups,
+      key => this.isGroupKeyCollapsed(key),
+      aggregates.length > 0 && grouping.groupFooter !== false
+    );
+
+    this.groupingCache = { data: this.data, groups, totals, version: this.groupingVersion, lines };
+    return lines;
+  }
+
+  isGroupCollapsed(group: RowGroup): boolean {
+    return this.isGroupKeyCollapsed(group.key);
+  }
+
+  /**
+   * GROUPING: Collapse/expand a group (remembered across reloads by group key)
+   */
+  toggleGroup(group: RowGroup): void {
+    if (this.toggledGroups.has(group.key)) {
+      this.toggledGroups.delete(group.key);
+    } else {
+      this.toggledGroups.add(group.key);
+    }
+    this.groupingVersion++;
+  }
+
+  /**
+   * GROUPING: Group header text, e.g. "Manufacturer: Ford"
+   */
+  getGroupLabel(group: RowGroup): string {
+    const column = this.config.columns.find(col => col.key === group.column);
+    const text = column ? this.formatCellValue(group.rows[0], column) : String(group.value ?? '');
+    return `${column?.label || group.column}: ${text || '(empty)'}`;
+  }
+
+  /**
+   * GROUPING: Show the whole-table aggregate row?
+   */
+  hasTableAggregates(): boolean {
+    return this.isGrouped() &&
+      (this.config.grouping!.aggregates || []).length > 0 &&
+      this.config.grouping!.tableFooter !== false;
+  }
+
+  /**
+   * GROUPING: Whole-table aggregates (all grouped rows)
+   */
+  getTableAggregates(): AggregateValues {
+    this.getGroupedRows();
+    return this.groupingCache!.totals;
+  }
+
+  /**
+   * GROUPING: Aggregate text of one footer cell, e.g. "Sum: $12,500.00 · Avg: $6,250.00"
+   * Number/currency columns use the column's format; counts are whole numbers
+   */
+  getAggregateText(values: AggregateValues, column: TableColumn): string {
+    const aggregate = this.config.grouping?.aggregates?.find(agg => agg.key === column.key);
+    if (!aggregate) {
+      return '';
+    }
+
+    return aggregate.functions
+      .filter(fn => values[column.key]?.[fn] !== null && values[column.key]?.[fn] !== undefined)
+      .map(fn => `${AGGREGATE_LABELS[fn]}: ${this.formatAggregate(fn, values[column.key][fn]!, column)}`)
+      .join(' · ');
+  }
+
+  /**
+   * GROUPING: Stable identity of a rendered line (p-table rowTrackBy)
+   */
+  trackGroupedRow(index: number, line: GroupedRow): any {
+    return line.kind === 'row' ? line.row : `${line.kind}:${line.group.key}`;
+  }
+
+  private isGroupKeyCollapsed(key: string): boolean {
+    return !!this.config.grouping?.collapsed !== this.toggledGroups.has(key);
+  }
+
+  private formatAggregate(fn: AggregateFunction, value: number, column: TableColumn): string {
+    if (fn !== 'count' && (column.type === 'number' || column.type === 'currency')) {
+      return this.formatCellValue({ [column.key]: value }, column);
+    }
+    return formatNumber(value, this.locale, fn === 'count' ? '1.0-0' : '1.0-2');
+  }
+
+  /**
+   * CELL RENDERING: How to render a column's cells
+   * 'template' only when the named template exists - otherwise the value is shown as text
+   */
+  getCellRenderMode(column: TableColumn): CellRenderMode {
+    if (column.type === 'template') {
+      return this.getCellTemplate(column) ? 'template' : 'text';
+    }
+    return column.type === 'boolean' ? 'boolean' : 'text';
+  }
+
+  /**
+   * CELL RENDERING: Template for a type: 'template' column (null if not registered)
+   */
+  getCellTemplate(column: TableColumn): TemplateRef<TableCellTemplateContext> | null {
+    const name = column.templateName;
+    const template = name ? this.cellTemplateMap[name] : undefined;
+
+    if (!template) {
+      const warnKey = name || `<no templateName on '${column.key}'>`;
+      if (!this.missingCellTemplates.has(warnKey)) {
+        this.missingCellTemplates.add(warnKey);
+        console.warn('[BaseTable] Cell template not found, rendering plain value:', warnKey);
+      }
+      return null;
+    }
+
+    return template;
+  }
+
+  /**
+   * CELL RENDERING: Display text of a cell, formatted by column type
+   * - number:   formatNumber (numberFormat = digitsInfo, e.g. '1.0-2')
+   * - currency: formatCurrency in USD (numberFormat = digitsInfo)
+   *   (format.useGrouping: false drops the thousands separators: 2018, not 2,018)
+   * - date:     formatDate (dateFormat, default 'mediumDate')
+   * - boolean:  'Yes' / 'No' (also the icon's accessible label)
+   * Values that can't be formatted (e.g. non-numeric text in a number column) are shown as-is.
+   */
+  formatCellValue(row: any, column: TableColumn): string {
+    const value = row?.[column.key];
+    if (value === null || value === undefined || value === '') {
+      return '';
+    }
+
+    try {
+      switch (column.type) {
+        case 'number': {
+          const num = this.toCellNumber(value);
+          return num === null
+            ? String(value)
+            : this.applyGrouping(formatNumber(num, this.locale, column.numberFormat), column);
+        }
+        case 'currency': {
+          const num = this.toCellNumber(value);
+          return num === null
+            ? String(value)
+            : this.applyGrouping(
+                formatCurrency(
+                  num,
+                  this.locale,
+                  getCurrencySymbol(CELL_CURRENCY_CODE, 'narrow', this.locale),
+                  CELL_CURRENCY_CODE,
+                  column.numberFormat
+                ),
+                column
+              );
+        }
+        case 'date':
+          return formatDate(value, column.dateFormat || DEFAULT_CELL_DATE_FORMAT, this.locale);
+        case 'boolean':
+          return this.isCellTrue(value) ? 'Yes' : 'No';
+        default:
+          return String(value);
+      }
+    } catch (error) {
+      // Invalid date strings / format strings throw - show the raw value instead
+      console.warn('[BaseTable] Could not format cell value:', column.key, value, error);
+      return String(value);
+    }
+  }
+
+  /**
+   * CELL RENDERING: Boolean cell value ('true'/'1' strings count as true)
+   */
+  isCellTrue(value: any): boolean {
+    return value === true || value === 'true' || value === 1 || value === '1';
+  }
+
+  /**
+   * Drops the locale's thousands separators from a formatted number when the
+   * column opts out of grouping (Angular's formatNumber has no such option)
+   */
+  private applyGrouping(text: string, column: TableColumn): string {
+    if (column.format?.useGrouping !== false) {
+      return text;
+    }
+    return text.split(getLocaleNumberSymbol(this.locale, NumberSymbol.Group)).join('');
+  }
+
+  /**
+   * Numeric value of a cell (numeric strings from the API included), null if not a number
+   */
+  private toCellNumber(value: any): number | null {
+    const num = typeof value === 'number' ? value : Number(value);
+    return typeof value === 'boolean' || isNaN(num) ? null : num;
+  }
+
+  /**
+   * Merges inherited and projected cell templates (projected win on name clashes).
+   * Rebuilt only on input/content changes, so the map handed to sub-tables keeps its identity.
+   */
+  private buildCellTemplateMap(): void {
+    const map: Record<string, TemplateRef<TableCellTemplateContext>> = { ...this.cellTemplates };
+    this.projectedCellTemplates?.forEach(template => {
+      map[template.name] = template.templateRef;
+    });
+    this.cellTemplateMap = map;
+    this.missingCellTemplates.clear();
+  }
+
+  /**
+   * UTILITY: Check if any column is filterable
+   */
+  hasFilterableColumns(): boolean {
+    return this.getVisibleColumns().some(col => col.filterable === true);
+  }
+
+  /**
+   * UTILITY: Get filter keys
+   * (Used in templates instead of Object.keys)
+   */
+  getFilterKeys(): string[] {
+    return Object.keys(this.activeFilters);
+  }
+
+  /**
+   * FILTERING: Filter widget of a column (by operator)
+   */
+  getFilterOperator(column: TableColumn): ColumnFilterOperator {
+    return getColumnFilterOperator(column);
+  }
+
+  /**
+   * FILTERING: Options of an 'in' filter (same array instance per column)
+   */
+  getFilterOptions(column: TableColumn): string[] {
+    let options = this.filterOptionLists.get(column.key);
+    if (!options) {
+      options = [...getColumnFilterOptions(column)];
+      this.filterOptionLists.set(column.key, options);
+    }
+    return options;
+  }
+
+  /**
+   * FILTERING: Current text of a contains filter
+   */
+  getTextFilterValue(column: TableColumn): string {
+    const filter = this.activeFilters[column.key];
+    return filter?.operator === 'contains' ? filter.value : '';
+  }
+
+  /**
+   * FILTERING: Current bound of a range/between filter ('' when open)
+   */
+  getFilterBound(column: TableColumn, bound: 'min' | 'max' | 'from' | 'to'): string {
+    const filter: any = this.activeFilters[column.key];
+    return filter?.[bound] ?? '';
+  }
+
+  /**
+   * FILTERING: Current values of an 'in' filter
+   */
+  getInFilterValues(column: TableColumn): string[] {
+    const filter = this.activeFilters[column.key];
+    return filter?.operator === 'in' ? filter.values : NO_FILTER_VALUES;
+  }
+
+  /**
+   * UTILITY: Get unique parent values (for hierarchical rendering)
+   */
+  getUniqueParents(): string[] {
+    if (!this.selectionHelper) {
+      return [];
+    }
+    return this.selectionHelper.getUniqueParents();
+  }
+
+  /**
+   * UTILITY: Get children for parent
+   */
+  getChildrenForParent(parentValue: string): any[] {
+    if (!this.selectionHelper) {
+      return [];
+    }
+    return this.selectionHelper.getChildren(parentValue);
+  }
+
+  /**
+   * PHASE 4 STEP 4.2: Get hierarchical data structure for single-selector pattern
+   * Returns array of parent values for rendering parent rows
+   * Children rows are rendered under each parent using getChildrenForParent()
+   */
+  getHierarchicalParents(): string[] {
+    if (!this.isSingleSelectorMode() || !this.selectionHelper) {
+      return [];
+    }
+    return this.selectionHelper.getUniqueParents();
+  }
+
+  /**
+   * PHASE 4 STEP 4.2: Rows of the single-selector table, all levels
+   * Node rows (one per value of each level above the leaves) followed by
+   * their child nodes or, at the last node level, their data rows
+   */
+  getHierarchicalLines(): HierarchyLine[] {
+    if (!this.isSingleSelectorMode() || !this.selectionHelper) {
+      return [];
+    }
+    return this.selectionHelper.getLines();
+  }
+
+  /**
+   * PHASE 4 STEP 4.2: Check if row is a parent row (used in single-selector template)
+   * Parent rows show parent checkbox and parent value, but no child values
+   */
+  isParentRow(row: any): boolean {
+    if (!this.isSingleSelectorMode() || !this.config.selection?.hierarchical?.enabled) {
+      return false;
+    }
+    const childKey = this.getHierarchyLevels().slice(-1)[0];
+    // A parent row has no child value (or child value is undefined/empty)
+    return !row[childKey];
+  }
+
+  /**
+   * PHASE 4 STEP 4.2: Check if row is a child row (used in single-selector template)
+   * Child rows show child checkbox and child value
+   */
+  isChildRow(row: any): boolean {
+    if (!this.isSingleSelectorMode() || !this.config.selection?.hierarchical?.enabled) {
+      return false;
+    }
+    const childKey = this.getHierarchyLevels().slice(-1)[0];
+    // A child row has a child value defined
+    return row[childKey] !== undefined && row[childKey] !== null && row[childKey] !== '';
+  }
+
+  /**
+   * PAGINATION: Get displayed data based on current page (client-side pagination)
+   * For hierarchical tables that don't use p-table's built-in pagination
+   * Returns a slice of this.data based on first and rows
+   */
+  getDisplayedData(): any[] {
+    if (!this.config.pagination?.enabled) {
+      return this.data;
+    }
+
+    // Calculate slice range
+    const startIndex = this.first;
+    const endIndex = this.first + this.rows;
+
+    return this.data.slice(startIndex, endIndex);
+  }
+
+  /**
+   * PAGINATION: Check if pagination should be shown
+   */
+  shouldShowPagination(): boolean {
+    return this.config.pagination?.enabled === true && !this.isVirtualScroll() && this.totalRecords > 0;
+  }
 
   /**
    * PAGINATION: Get page report template
@@ -1319,4 +3173,386 @@ export class BaseTableComponent implements OnInit, OnChanges, OnDestroy {
   shouldShowCurrentPageReport(): boolean {
     return this.config.pagination?.showCurrentPageReport !== false; // Default to true
   }
+
+  // ============================================================================
+  // VIRTUAL SCROLL
+  // ============================================================================
+
+  /**
+   * VIRTUAL SCROLL: Is virtual scrolling enabled?
+   */
+  isVirtualScroll(): boolean {
+    return this.config.virtualScroll?.enabled === true;
+  }
+
+  /**
+   * VIRTUAL SCROLL: CSS height of the scroll viewport
+   */
+  getVirtualViewportHeight(): string {
+    return this.config.virtualScroll?.viewportHeight || DEFAULT_VIRTUAL_VIEWPORT_HEIGHT;
+  }
+
+  /**
+   * VIRTUAL SCROLL: Height forced on data rows (null = estimated mode, rows size to content)
+   */
+  getVirtualRowHeight(): number | null {
+    return this.config.virtualScroll?.fixedRowHeight === false ? null : this.virtualRowHeight;
+  }
+
+  /**
+   * VIRTUAL SCROLL: Does the table have a leading checkbox column?
+   * Single-selector tables and simple tables with selection do; dual-selector
+   * tables put their checkboxes inside data columns
+   */
+  hasSelectionColumn(): boolean {
+    return this.isSingleSelectorMode() ||
+      (!!this.config.selection?.enabled && !this.config.selection.hierarchical?.enabled);
+  }
+
+  /**
+   * VIRTUAL SCROLL: Number of table columns (colspan of full-width rows)
+   */
+  getVirtualColumnCount(): number {
+    return this.getVisibleColumns().length +
+      (this.config.expandable?.enabled ? 1 : 0) +
+      (this.hasSelectionColumn() ? 1 : 0);
+  }
+
+  /**
+   * VIRTUAL SCROLL: Rows to render for the current scroll position
+   * Memoized - change detection calls this constantly, the row list and the
+   * slice are only rebuilt when data, expansion, heights or scroll position change
+   */
+  getVirtualWindow(): VirtualSlice {
+    const { rows, window } = this.getVirtualRows();
+    const cached = this.virtualSliceCache;
+
+    if (cached && cached.rows === rows &&
+        cached.scrollTop === this.virtualScrollTop &&
+        cached.viewportHeight === this.virtualViewportHeight) {
+      return cached.slice;
+    }
+
+    const range = window.getRange(this.virtualScrollTop, this.virtualViewportHeight);
+    const slice: VirtualSlice = { ...range, items: rows.slice(range.start, range.end) };
+    this.virtualSliceCache = {
+      rows,
+      scrollTop: this.virtualScrollTop,
+      viewportHeight: this.virtualViewportHeight,
+      slice
+    };
+    return slice;
+  }
+
+  /**
+   * VIRTUAL SCROLL: ngFor identity of a rendered row
+   * A data row and its expanded row share the row object; ngFor keeps
+   * duplicate identities apart by order
+   */
+  trackVirtualItem(_index: number, item: VirtualRow): any {
+    switch (item.kind) {
+      case 'parent':
+        return `parent:${item.node!.key}`;
+      case 'placeholder':
+        return `placeholder:${item.index}`;
+      default:
+        return item.row;
+    }
+  }
+
+  /**
+   * VIRTUAL SCROLL: Viewport scrolled
+   * Records the position, measures the rendered rows and requests lazy
+   * windows that came into view
+   */
+  onVirtualScroll(event: Event): void {
+    const viewport = event.target as HTMLElement;
+    this.virtualScrollTop = viewport.scrollTop;
+    this.virtualViewportHeight = viewport.clientHeight;
+
+    this.measureVirtualRows(viewport);
+    this.ensureVirtualWindowsLoaded();
+  }
+
+  /**
+   * VIRTUAL SCROLL: Flattened row list (everything a full render would show)
+   * plus its height index
+   */
+  private getVirtualRows(): { rows: VirtualRow[]; window: VirtualScrollWindow } {
+    const cached = this.virtualRowsCache;
+    if (cached && cached.data === this.data &&
+        cached.helper === this.selectionHelper &&
+        cached.version === this.virtualVersion) {
+      return cached;
+    }
+
+    const rows = this.buildVirtualRows();
+    const bufferRows = this.config.virtualScroll?.bufferRows ?? DEFAULT_VIRTUAL_BUFFER_ROWS;
+    const window = new VirtualScrollWindow(rows.map(item => this.getVirtualItemHeight(item)), bufferRows);
+
+    this.virtualRowsCache = {
+      data: this.data,
+      helper: this.selectionHelper,
+      version: this.virtualVersion,
+      rows,
+      window
+    };
+    return this.virtualRowsCache;
+  }
+
+  /**
+   * VIRTUAL SCROLL: Flatten the table into rows
+   * - Single-selector: node rows of every level, then their children (grouped like the
+   *   paged table); rows of windows not loaded yet follow as placeholders and are grouped in on arrival
+   * - Dual-selector / simple: data rows in order, unloaded rows as placeholders in place
+   * Expanded rows follow their data row.
+   * Plain for loops on purpose: lazy data is a sparse array and forEach skips holes.
+   */
+  private buildVirtualRows(): VirtualRow[] {
+    const items: VirtualRow[] = [];
+    const expandable = !!this.config.expandable?.enabled;
+
+    const pushRow = (kind: 'child' | 'row', row: any, depth?: number) => {
+      items.push({ kind, row, depth });
+      if (expandable && this.isRowExpanded(row)) {
+        items.push({ kind: 'expanded', row });
+      }
+    };
+
+    if (this.isSingleSelectorMode()) {
+      this.getHierarchicalLines().forEach(line => {
+        if (line.kind === 'node') {
+          items.push({ kind: 'parent', node: line.node });
+        } else {
+          pushRow('child', line.row, line.depth);
+        }
+      });
+
+      for (let index = 0; index < this.data.length; index++) {
+        if (!(index in this.data)) {
+          items.push({ kind: 'placeholder', index });
+        }
+      }
+      return items;
+    }
+
+    for (let index = 0; index < this.data.length; index++) {
+      if (index in this.data) {
+        pushRow('row', this.data[index]);
+      } else {
+        items.push({ kind: 'placeholder', index });
+      }
+    }
+    return items;
+  }
+
+  /**
+   * VIRTUAL SCROLL: Height of one row (measured for expanded rows once rendered)
+   */
+  private getVirtualItemHeight(item: VirtualRow): number {
+    if (item.kind === 'expanded') {
+      return this.expandedRowHeights.get(item.row) ??
+        (this.config.virtualScroll?.expandedRowHeight || DEFAULT_VIRTUAL_EXPANDED_ROW_HEIGHT);
+    }
+    return this.virtualRowHeight;
+  }
+
+  /**
+   * VIRTUAL SCROLL: Measure the rendered rows
+   * Expanded rows are always measured (sub-tables vary in height); data rows
+   * only in estimated mode, where their average replaces rowHeight
+   */
+  private measureVirtualRows(viewport: HTMLElement): void {
+    const slice = this.virtualSliceCache?.slice;
+    if (!slice) {
+      return;
+    }
+
+    const estimated = this.config.virtualScroll?.fixedRowHeight === false;
+    let changed = false;
+    let rowHeightTotal = 0;
+    let rowCount = 0;
+
+    viewport.querySelectorAll<HTMLElement>(':scope > table > tbody > tr[data-virtual-item]').forEach(element => {
+      const item = slice.items[Number(element.dataset['virtualItem'])];
+      if (!item) {
+        return;
+      }
+
+      const height = element.offsetHeight;
+      if (item.kind === 'expanded') {
+        const previous = this.expandedRowHeights.get(item.row);
+        if (previous === undefined || Math.abs(previous - height) > 1) {
+          this.expandedRowHeights.set(item.row, height);
+          changed = true;
+        }
+      } else if (estimated && height > 0) {
+        rowHeightTotal += height;
+        rowCount++;
+      }
+    });
+
+    if (rowCount > 0) {
+      const average = Math.round(rowHeightTotal / rowCount);
+      if (Math.abs(average - this.virtualRowHeight) > 1) {
+        this.virtualRowHeight = average;
+        changed = true;
+      }
+    }
+
+    if (changed) {
+      this.virtualVersion++;
+    }
+  }
+
+  /**
+   * VIRTUAL SCROLL: Start over (new load - sort/filter/search changed)
+   */
+  private resetVirtualScroll(): void {
+    this.virtualReset$.next();
+    this.loadedVirtualWindows.clear();
+    this.loadingVirtualWindows.clear();
+    this.failedVirtualWindows.clear();
+    this.virtualScrollTop = 0;
+  }
+
+  /**
+   * VIRTUAL SCROLL: Server page → lazy data
+   * A sparse array of the full length with the first window filled in;
+   * holes render as placeholders until their window loads
+   */
+  private toVirtualData(rows: any[]): any[] {
+    const data = new Array(Math.max(this.totalRecords, rows.length));
+    rows.forEach((row, index) => data[index] = row);
+    this.loadedVirtualWindows.add(0);
+    return data;
+  }
+
+  /**
+   * VIRTUAL SCROLL: Request the windows of placeholders in (or near) the viewport
+   */
+  private ensureVirtualWindowsLoaded(): void {
+    if (!this.isVirtualScroll() || !this.isServerSide() || this.data.length === 0) {
+      return;
+    }
+
+    const windowSize = this.rows;
+    const windows = new Set<number>();
+    this.getVirtualWindow().items.forEach(item => {
+      if (item.kind === 'placeholder') {
+        windows.add(Math.floor(item.index! / windowSize));
+      }
+    });
+
+    windows.forEach(windowIndex => {
+      if (!this.loadedVirtualWindows.has(windowIndex) &&
+          !this.loadingVirtualWindows.has(windowIndex) &&
+          !this.failedVirtualWindows.has(windowIndex)) {
+        this.fetchVirtualWindow(windowIndex);
+      }
+    });
+  }
+
+  /**
+   * VIRTUAL SCROLL: Error of the failed window a placeholder row belongs to (null = still loading)
+   */
+  getVirtualWindowError(index: number): ApiError | null {
+    return this.failedVirtualWindows.get(Math.floor(index / this.rows)) || null;
+  }
+
+  /**
+   * VIRTUAL SCROLL: Error row "Retry" action - re-requests the placeholder row's window
+   */
+  retryVirtualWindow(index: number): void {
+    const windowIndex = Math.floor(index / this.rows);
+    if (this.failedVirtualWindows.delete(windowIndex)) {
+      this.fetchVirtualWindow(windowIndex);
+    }
+  }
+
+  /**
+   * VIRTUAL SCROLL: Fetch one window of rows and fill it into the lazy data
+   * Same request as a page (paramMapper, sort, filters) with page = window
+   */
+  private fetchVirtualWindow(windowIndex: number): void {
+    const windowSize = this.rows;
+    const first = windowIndex * windowSize;
+
+    console.log('[BaseTable] Fetching virtual scroll window:', windowIndex, 'rows', first, 'to', first + windowSize - 1);
+    this.loadingVirtualWindows.add(windowIndex);
+
+    this.requestPage(first, windowSize)
+      .pipe(takeUntil(merge(this.virtualReset$, this.destroy$)))
+      .subscribe({
+        next: (response: any) => {
+          const rows = this.readPageResponse(response).rows;
+
+          // Copy (keeps the holes) so memoized row lists see new data
+          const data = this.data.slice();
+          rows.forEach((row, index) => {
+            if (first + index < data.length) {
+              data[first + index] = row;
+            }
+          });
+          this.data = data;
+
+          this.loadingVirtualWindows.delete(windowIndex);
+          this.loadedVirtualWindows.add(windowIndex);
+
+          // Selection helper (and single-selector grouping) must see the new rows
+          this.updateSelectionHelperWithVisibleData();
+          console.log('[BaseTable] Virtual scroll window loaded:', windowIndex, rows.length, 'rows');
+        },
+        error: (error: any) => {
+          console.error('[BaseTable] Virtual scroll window error:', windowIndex, error);
+          this.loadingVirtualWindows.delete(windowIndex);
+          this.failedVirtualWindows.set(windowIndex, toApiError(error));
+        }
+      });
+  }
+
+  /**
+   * API: Read a page response (legacy config.api or paginated apiConfigRef)
+   * Array responses are full lists; the total falls back to the loaded totalRecords
+   */
+  private readPageResponse(response: any): RowPage {
+    if (Array.isArray(response)) {
+      return { rows: response, total: response.length, serverSide: false };
+    }
+
+    const rows = response?.results || response?.data || [];
+    return { rows, total: response?.total || response?.totalRecords || this.totalRecords, serverSide: true };
+  }
+
+  /**
+   * API: Request for one page or window of rows, through the same source as the main load
+   * (paramMapper, sort and filters apply). Used by virtual scroll windows and export.
+   */
+  private requestPage(first: number, rows: number): Observable<any> {
+    if (this.config.api) {
+      const transformer = this.config.api.responseTransformer;
+      return this.requestCoordinator.get(this.config.api.http!.endpoint, this.buildApiRequestParams(first, rows)).pipe(
+        map((response: any) => transformer ? transformer(response) : response)
+      );
+    }
+
+    return this.requestApiConfigRef(this.buildApiConfigRefRequest(first, rows));
+  }
+
+  /**
+   * API: Send a mapped apiConfigRef request and apply the table's responseTransformer
+   * (after the endpoint's transformResponse). A null request - the paramMapper found
+   * that no row can match - is answered with an empty page without calling the API.
+   */
+  private requestApiConfigRef(request: any): Observable<any> {
+    if (request === null) {
+      return of({ results: [], total: 0 });
+    }
+
+    const ref = this.config.apiConfigRef!;
+    const apiConfig = this.apiConfigRegistry.getConfig(ref.configId)!;
+    return this.apiService.request(apiConfig, ref.endpointId, request).pipe(
+      map((response: any) => ref.responseTransformer ? ref.responseTransformer(response) : response)
+    );
+  }
 }
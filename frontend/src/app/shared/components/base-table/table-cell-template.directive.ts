@@ -0,0 +1,44 @@
+/*
+  TABLE CELL TEMPLATE DIRECTIVE
+
+  PURPOSE:
+  Registers a consumer-supplied cell template with BaseTableComponent.
+  Columns with type: 'template' render the template whose name matches
+  their templateName. Everything else is formatted by column type.
+
+  USAGE:
+  <app-base-table [config]="tableConfig">
+    <ng-template appTableCellTemplate="status" let-value let-row="row">
+      <span [class]="'badge badge-' + value">{{ row.title_status }}</span>
+    </ng-template>
+  </app-base-table>
+
+  // In the column config:
+  { key: 'title_status', label: 'Title', type: 'template', templateName: 'status' }
+
+  Templates are passed on to expanded-row sub-tables, so sub-table columns
+  can reference them too. A missing template falls back to the plain value.
+*/
+
+import { Directive, Input, TemplateRef } from '@angular/core';
+
+import { TableColumn } from '../../models/table-config.model';
+
+/**
+ * Context available inside a cell template
+ */
+export interface TableCellTemplateContext {
+  $implicit: any;       // Cell value (row[column.key])
+  row: any;             // Whole row
+  column: TableColumn;  // Column definition
+}
+
+@Directive({
+  selector: '[appTableCellTemplate]'
+})
+export class TableCellTemplateDirective {
+  // Template name (matches TableColumn.templateName)
+  @Input('appTableCellTemplate') name!: string;
+
+  constructor(public templateRef: TemplateRef<TableCellTemplateContext>) {}
+}
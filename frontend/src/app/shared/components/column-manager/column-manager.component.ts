@@ -9,11 +9,12 @@
   - Separate component from BaseTable (separation of concerns)
   - Can be displayed as modal, dropdown, or sidebar
   - Integrates with ColumnPreferencesService for persistence
+  - BaseTable opens it from its toolbar when TableConfig.columnManager is enabled
 
   FEATURES:
   - Toggle column visibility (show/hide)
-  - Reorder columns (up/down buttons)
-  - Resize column widths
+  - Reorder columns (up/down buttons; locked / reorderable: false columns stay put)
+  - Resize column widths (resizable: false columns keep their configured width)
   - Apply/Cancel/Reset buttons
   - Real-time preview (optional)
 
@@ -173,7 +174,7 @@ export class ColumnManagerComponent implements OnInit, OnDestroy {
    * @param index - Index of column to move up
    */
   moveColumnUp(index: number): void {
-    if (index <= 0) return;
+    if (!this.canMoveUp(index)) return;
 
     // Swap with previous column
     const temp = this.workingCopy[index];
@@ -198,7 +199,7 @@ export class ColumnManagerComponent implements OnInit, OnDestroy {
    * @param index - Index of column to move down
    */
   moveColumnDown(index: number): void {
-    if (index >= this.workingCopy.length - 1) return;
+    if (!this.canMoveDown(index)) return;
 
     // Swap with next column
     const temp = this.workingCopy[index];
@@ -302,8 +303,8 @@ export class ColumnManagerComponent implements OnInit, OnDestroy {
     this.columnStates = defaults.columns;
     this.syncWorkingCopy();
 
-    // Emit changes
-    this.emitPreferencesChange();
+    // Emit changes (and enable Apply, so the table picks up the defaults)
+    this.markAsChanged();
   }
 
   /**
@@ -359,13 +360,37 @@ export class ColumnManagerComponent implements OnInit, OnDestroy {
    * IS REORDERABLE
    *
    * Checks if columns can be reordered.
-   * Can be disabled via config for tables that don't need reordering.
+   * Locked columns and columns with reorderable: false keep their position.
    *
+   * @param columnKey - The column key (omit to ask whether any column can move)
    * @returns true if reordering is enabled
    */
-  isReorderable(): boolean {
-    // Enable reordering by default unless explicitly disabled
-    return true;
+  isReorderable(columnKey?: string): boolean {
+    if (columnKey === undefined) {
+      return this.columns.some((c) => this.isReorderable(c.key));
+    }
+    const col = this.columns.find((c) => c.key === columnKey);
+    return col?.locked !== true && col?.reorderable !== false;  // Default to true
+  }
+
+  /**
+   * CAN MOVE UP / DOWN
+   *
+   * A column can only swap places with a neighbour that is reorderable too.
+   *
+   * @param index - Index of column in the working copy
+   * @returns true if the move button should be shown
+   */
+  canMoveUp(index: number): boolean {
+    return index > 0 &&
+      this.isReorderable(this.workingCopy[index].key) &&
+      this.isReorderable(this.workingCopy[index - 1].key);
+  }
+
+  canMoveDown(index: number): boolean {
+    return index < this.workingCopy.length - 1 &&
+      this.isReorderable(this.workingCopy[index].key) &&
+      this.isReorderable(this.workingCopy[index + 1].key);
   }
 
   /**
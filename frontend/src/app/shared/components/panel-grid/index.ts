@@ -0,0 +1,2 @@
+export * from './panel-grid.component';
+export * from './panel-grid-item.directive';
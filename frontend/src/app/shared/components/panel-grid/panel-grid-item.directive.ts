@@ -0,0 +1,33 @@
+/*
+  PANEL GRID ITEM DIRECTIVE
+
+  PURPOSE:
+  Registers a piece of content as a panel of PanelGridComponent.
+  Any existing component (BaseTableComponent, filters, charts) can become
+  a panel without changes - it is simply wrapped in an ng-template.
+
+  USAGE:
+  <app-panel-grid [layout]="items" (layoutChange)="onLayoutChange($event)">
+    <ng-template appPanelGridItem="results" panelTitle="Results" panelIcon="pi pi-table">
+      <app-base-table [config]="resultsConfig"></app-base-table>
+    </ng-template>
+  </app-panel-grid>
+
+  The panel ID must match a PanelLayoutItem.id in the layout.
+*/
+
+import { Directive, Input, TemplateRef } from '@angular/core';
+
+@Directive({
+  selector: '[appPanelGridItem]'
+})
+export class PanelGridItemDirective {
+  // Panel identifier (matches PanelLayoutItem.id)
+  @Input('appPanelGridItem') panelId!: string;
+
+  // Header title and optional PrimeIcons class
+  @Input() panelTitle = '';
+  @Input() panelIcon?: string;
+
+  constructor(public templateRef: TemplateRef<unknown>) {}
+}
@@ -0,0 +1,244 @@
+/*
+  PANEL GRID COMPONENT
+
+  PURPOSE:
+  Grid container for draggable, resizable panels (Workshop page).
+  Panels snap to a column grid (12 columns by default) and are compacted
+  upward so there are never gaps or overlaps.
+
+  ARCHITECTURE:
+  - Layout is an @Input (PanelLayoutItem[]) - the host owns persistence
+  - Panels are registered with the appPanelGridItem directive (content projection)
+  - Positioning uses CSS grid (grid-column / grid-row), so no pixel math for rendering
+  - Pixel math is only used while dragging, to convert pointer deltas to grid cells
+  - Layout rules (overlap, compaction) live in panel-layout.model.ts
+
+  INTERACTIONS:
+  - Drag the panel header to move
+  - Drag the bottom-right handle to resize
+  - Click the chevron to collapse/expand
+  - Click the pop-out icon (when [poppable]) to emit popOut with the panel ID
+  - layoutChange emits once per completed interaction (not on every pointer move)
+
+  USAGE:
+  <app-panel-grid
+    [layout]="items"
+    [rowHeight]="60"
+    (layoutChange)="onLayoutChange($event)">
+    <ng-template appPanelGridItem="picker" panelTitle="Picker">
+      <app-base-table [config]="pickerConfig"></app-base-table>
+    </ng-template>
+  </app-panel-grid>
+*/
+
+import {
+  Component,
+  Input,
+  Output,
+  EventEmitter,
+  ContentChildren,
+  QueryList,
+  ElementRef,
+  HostListener,
+  OnChanges,
+  SimpleChanges
+} from '@angular/core';
+
+import {
+  PanelLayoutItem,
+  PANEL_GRID_COLUMNS,
+  effectiveHeight,
+  resolveLayout,
+  layoutsEqual
+} from '../../models/panel-layout.model';
+import { PanelGridItemDirective } from './panel-grid-item.directive';
+
+/**
+ * Active pointer interaction (drag or resize)
+ */
+interface PanelInteraction {
+  type: 'move' | 'resize';
+  panelId: string;
+  pointerX: number;         // Pointer position at start (px)
+  pointerY: number;
+  origin: PanelLayoutItem;  // Panel position at start
+  before: PanelLayoutItem[]; // Whole layout at start (to detect no-op)
+}
+
+@Component({
+  selector: 'app-panel-grid',
+  templateUrl: './panel-grid.component.html',
+  styleUrls: ['./panel-grid.component.scss']
+})
+export class PanelGridComponent implements OnChanges {
+  // INPUTS: Layout and grid geometry
+  @Input() layout: PanelLayoutItem[] = [];
+  @Input() columns: number = PANEL_GRID_COLUMNS;
+  @Input() rowHeight: number = 60;   // px per grid row
+  @Input() gap: number = 16;         // px between cells
+  @Input() editable: boolean = true; // Allow drag/resize
+  @Input() poppable: boolean = false; // Show pop-out button in panel headers
+
+  // OUTPUTS: Layout after each completed move/resize/collapse
+  @Output() layoutChange = new EventEmitter<PanelLayoutItem[]>();
+
+  // OUTPUTS: Pop-out requested for a panel (host decides what that means)
+  @Output() popOut = new EventEmitter<string>();
+
+  // Registered panels (ng-template appPanelGridItem)
+  @ContentChildren(PanelGridItemDirective) panels!: QueryList<PanelGridItemDirective>;
+
+  // Working copy rendered by the template (updated live while dragging)
+  items: PanelLayoutItem[] = [];
+
+  // Current pointer interaction (null when idle)
+  interaction: PanelInteraction | null = null;
+
+  constructor(private elementRef: ElementRef<HTMLElement>) {}
+
+  ngOnChanges(changes: SimpleChanges): void {
+    if (changes['layout'] || changes['columns']) {
+      this.items = resolveLayout(this.layout || [], this.columns);
+    }
+  }
+
+  /**
+   * Find the registered panel for a layout item
+   */
+  getPanel(panelId: string): PanelGridItemDirective | undefined {
+    return this.panels?.find(panel => panel.panelId === panelId);
+  }
+
+  /**
+   * CSS grid placement for a layout item
+   */
+  gridColumn(item: PanelLayoutItem): string {
+    return `${item.x + 1} / span ${item.w}`;
+  }
+
+  gridRow(item: PanelLayoutItem): string {
+    return `${item.y + 1} / span ${effectiveHeight(item)}`;
+  }
+
+  trackById(index: number, item: PanelLayoutItem): string {
+    return item.id;
+  }
+
+  /**
+   * Start moving a panel (pointerdown on header)
+   */
+  startMove(event: PointerEvent, item: PanelLayoutItem): void {
+    // Header buttons handle their own clicks
+    if ((event.target as HTMLElement).closest('button')) {
+      return;
+    }
+    this.startInteraction('move', event, item);
+  }
+
+  /**
+   * Start resizing a panel (pointerdown on resize handle)
+   */
+  startResize(event: PointerEvent, item: PanelLayoutItem): void {
+    if (item.collapsed) {
+      return;
+    }
+    this.startInteraction('resize', event, item);
+  }
+
+  private startInteraction(type: 'move' | 'resize', event: PointerEvent, item: PanelLayoutItem): void {
+    if (!this.editable || event.button !== 0) {
+      return;
+    }
+    event.preventDefault();
+
+    this.interaction = {
+      type,
+      panelId: item.id,
+      pointerX: event.clientX,
+      pointerY: event.clientY,
+      origin: { ...item },
+      before: this.items.map(i => ({ ...i }))
+    };
+  }
+
+  /**
+   * Pointer moved: snap to grid cells and re-flow other panels
+   */
+  @HostListener('document:pointermove', ['$event'])
+  onPointerMove(event: PointerEvent): void {
+    if (!this.interaction) {
+      return;
+    }
+
+    const { cellWidth, cellHeight } = this.getCellSize();
+    const dx = Math.round((event.clientX - this.interaction.pointerX) / cellWidth);
+    const dy = Math.round((event.clientY - this.interaction.pointerY) / cellHeight);
+    const origin = this.interaction.origin;
+
+    const moved: PanelLayoutItem = this.interaction.type === 'move'
+      ? { ...origin, x: origin.x + dx, y: origin.y + dy }
+      : { ...origin, w: origin.w + dx, h: origin.h + dy };
+
+    const current = this.items.find(i => i.id === moved.id);
+    if (current && current.x === moved.x && current.y === moved.y &&
+        current.w === moved.w && current.h === moved.h) {
+      return;
+    }
+
+    // Keep the dragged panel where the pointer is; push the others out of the way
+    const next = this.interaction.before.map(i => (i.id === moved.id ? moved : i));
+    this.items = resolveLayout(next, this.columns, moved.id);
+  }
+
+  /**
+   * Pointer released: compact and emit the final layout
+   */
+  @HostListener('document:pointerup')
+  @HostListener('document:pointercancel')
+  onPointerUp(): void {
+    if (!this.interaction) {
+      return;
+    }
+
+    const before = this.interaction.before;
+    this.interaction = null;
+    this.items = resolveLayout(this.items, this.columns);
+
+    if (!layoutsEqual(before, this.items)) {
+      console.log('[PanelGrid] Layout changed');
+      this.emitLayout();
+    }
+  }
+
+  /**
+   * Collapse/expand a panel
+   */
+  toggleCollapse(item: PanelLayoutItem): void {
+    const next = this.items.map(i => (i.id === item.id ? { ...i, collapsed: !i.collapsed } : i));
+    this.items = resolveLayout(next, this.columns);
+    this.emitLayout();
+  }
+
+  /**
+   * Is this panel the one being dragged/resized?
+   */
+  isActive(item: PanelLayoutItem): boolean {
+    return this.interaction?.panelId === item.id;
+  }
+
+  private emitLayout(): void {
+    this.layoutChange.emit(this.items.map(i => ({ ...i })));
+  }
+
+  /**
+   * Size of one grid step in pixels (cell + gap)
+   */
+  private getCellSize(): { cellWidth: number; cellHeight: number } {
+    const width = this.elementRef.nativeElement.clientWidth;
+    const cellWidth = (width + this.gap) / this.columns;
+    return {
+      cellWidth: cellWidth > 0 ? cellWidth : 1,
+      cellHeight: this.rowHeight + this.gap
+    };
+  }
+}
@@ -0,0 +1,117 @@
+import {
+  ColumnFilter,
+  decodeColumnFilter,
+  encodeColumnFilter,
+  getColumnFilterOperator,
+  matchesColumnFilter
+} from './column-filter.model';
+import { TableColumn } from './table-config.model';
+
+describe('column filter codec', () => {
+  const TEXT: TableColumn = { key: 'model', label: 'Model', type: 'text', filterable: true };
+  const NUMBER: TableColumn = { key: 'year', label: 'Year', type: 'number', filterable: true };
+  const DATE: TableColumn = { key: 'sold', label: 'Sold', type: 'date', filterable: true };
+  const BOOLEAN: TableColumn = { key: 'active', label: 'Active', type: 'boolean', filterable: true };
+  const OPTIONS: TableColumn = {
+    key: 'trim',
+    label: 'Trim',
+    type: 'text',
+    filterable: true,
+    filterOptions: ['GTI', '2,5 TDI', 'R\\Line', 'a,b\\,c']
+  };
+  const FREE_LIST: TableColumn = { key: 'tags', label: 'Tags', type: 'text', filterable: true, filterOperator: 'in' };
+
+  function expectRoundTrip(column: TableColumn, filter: ColumnFilter): void {
+    const encoded = encodeColumnFilter(filter);
+    expect(decodeColumnFilter(column, encoded)).withContext(encoded).toEqual(filter);
+  }
+
+  it('should pick the operator from the column', () => {
+    expect(getColumnFilterOperator(TEXT)).toBe('contains');
+    expect(getColumnFilterOperator(NUMBER)).toBe('range');
+    expect(getColumnFilterOperator(DATE)).toBe('between');
+    expect(getColumnFilterOperator(BOOLEAN)).toBe('in');
+    expect(getColumnFilterOperator(OPTIONS)).toBe('in');
+    expect(getColumnFilterOperator({ ...NUMBER, filterOperator: 'contains' })).toBe('contains');
+  });
+
+  describe('contains', () => {
+    it('should round-trip text, including commas and range separators', () => {
+      ['f-1', '2,5 TDI', 'a..b', 'back\\slash'].forEach(value => {
+        expectRoundTrip(TEXT, { operator: 'contains', value });
+      });
+    });
+
+    it('should decode blank text to no filter', () => {
+      expect(decodeColumnFilter(TEXT, '  ')).toBeNull();
+    });
+  });
+
+  describe('range', () => {
+    it('should round-trip closed, open and negative ranges', () => {
+      expectRoundTrip(NUMBER, { operator: 'range', min: 2015, max: 2020 });
+      expectRoundTrip(NUMBER, { operator: 'range', min: 2015, max: undefined });
+      expectRoundTrip(NUMBER, { operator: 'range', min: undefined, max: 2020 });
+      expectRoundTrip(NUMBER, { operator: 'range', min: -5.5, max: -1 });
+    });
+
+    it('should encode open bounds as empty', () => {
+      expect(encodeColumnFilter({ operator: 'range', min: 2015 })).toBe('2015..');
+      expect(encodeColumnFilter({ operator: 'range', max: 2020 })).toBe('..2020');
+    });
+
+    it('should reject values that are not ranges of numbers', () => {
+      ['2015', 'abc..2020', '..', '2015,2020'].forEach(raw => {
+        expect(decodeColumnFilter(NUMBER, raw)).withContext(raw).toBeNull();
+      });
+    });
+  });
+
+  describe('between', () => {
+    it('should round-trip closed and open date ranges', () => {
+      expectRoundTrip(DATE, { operator: 'between', from: '2024-01-01', to: '2024-06-30' });
+      expectRoundTrip(DATE, { operator: 'between', from: '2024-01-01', to: undefined });
+      expectRoundTrip(DATE, { operator: 'between', from: undefined, to: '2024-06-30' });
+    });
+
+    it('should reject bounds that are not ISO dates', () => {
+      ['2024-01-01', '01/02/2024..', '2024-1-1..2024-06-30'].forEach(raw => {
+        expect(decodeColumnFilter(DATE, raw)).withContext(raw).toBeNull();
+      });
+    });
+  });
+
+  describe('in', () => {
+    it('should round-trip option values, including commas and backslashes', () => {
+      expectRoundTrip(OPTIONS, { operator: 'in', values: ['GTI', '2,5 TDI'] });
+      expectRoundTrip(OPTIONS, { operator: 'in', values: ['R\\Line', 'a,b\\,c'] });
+      expectRoundTrip(BOOLEAN, { operator: 'in', values: ['false'] });
+      expectRoundTrip(FREE_LIST, { operator: 'in', values: ['x,y', 'z'] });
+    });
+
+    it('should escape commas inside values only', () => {
+      expect(encodeColumnFilter({ operator: 'in', values: ['GTI', '2,5 TDI'] })).toBe('GTI,2\\,5 TDI');
+    });
+
+    it('should decode unescaped lists as before', () => {
+      expect(decodeColumnFilter(FREE_LIST, 'SUV,Pickup,')).toEqual({ operator: 'in', values: ['SUV', 'Pickup'] });
+      expect(decodeColumnFilter(FREE_LIST, 'C:\\temp')).toEqual({ operator: 'in', values: ['C:\\temp'] });
+    });
+
+    it('should drop values that are not options', () => {
+      expect(decodeColumnFilter(OPTIONS, 'GTI,Boat')).toEqual({ operator: 'in', values: ['GTI'] });
+      expect(decodeColumnFilter(OPTIONS, 'Boat')).toBeNull();
+      expect(decodeColumnFilter(BOOLEAN, 'maybe')).toBeNull();
+    });
+  });
+
+  describe('matchesColumnFilter', () => {
+    it('should match inclusive bounds and case-insensitive text', () => {
+      expect(matchesColumnFilter({ operator: 'range', min: 2015, max: 2020 }, 2020)).toBe(true);
+      expect(matchesColumnFilter({ operator: 'range', min: 2015 }, 2014)).toBe(false);
+      expect(matchesColumnFilter({ operator: 'between', to: '2024-06-30' }, '2024-06-30T12:00:00Z')).toBe(true);
+      expect(matchesColumnFilter({ operator: 'contains', value: 'f-1' }, 'F-150')).toBe(true);
+      expect(matchesColumnFilter({ operator: 'in', values: ['2,5 TDI'] }, '2,5 TDI')).toBe(true);
+    });
+  });
+});
@@ -0,0 +1,272 @@
+/*
+  COLUMN FILTER MODELS
+
+  PURPOSE:
+  Typed, operator-based column filters for BaseTableComponent.
+  The same filter object drives client-side matching, the URL (f_<key>)
+  and ApiConfigRef.paramMapper (TableRequestState.filters).
+
+  OPERATORS (chosen from the column type, overridable with filterOperator):
+  - contains: text / template columns          f_model=f-1
+  - range:    number / currency columns        f_year=2015..2020   f_year=2015..   f_year=..2020
+  - between:  date columns (ISO yyyy-mm-dd)    f_sold=2024-01-01..2024-06-30
+  - in:       boolean columns, or any column   f_body_class=SUV,Pickup
+              with filterOptions
+
+  Encoded values round-trip: decodeColumnFilter(column, encodeColumnFilter(f))
+  returns an equal filter. Inside 'in' values, ',' and '\' are escaped with
+  '\' (f_trim=2\,5 TDI,GTI). Values that don't decode for the column's
+  operator are ignored (the table stays unfiltered for that column).
+
+  USAGE:
+  { key: 'year', label: 'Year', type: 'number', filterable: true }
+  { key: 'body_class', label: 'Body', filterable: true, filterOptions: ['SUV', 'Sedan'] }
+*/
+
+import { TableColumn } from './table-config.model';
+
+/**
+ * FILTER OPERATOR
+ */
+export type ColumnFilterOperator = 'contains' | 'range' | 'between' | 'in';
+
+/**
+ * COLUMN FILTER
+ * Active filter of one column (discriminated by operator)
+ */
+export type ColumnFilter =
+  | { operator: 'contains'; value: string }
+  | { operator: 'range'; min?: number; max?: number }
+  | { operator: 'between'; from?: string; to?: string }   // ISO dates (yyyy-mm-dd)
+  | { operator: 'in'; values: string[] };
+
+// Separator between the bounds of range/between filters in the URL
+const RANGE_SEPARATOR = '..';
+
+// Separator between the values of 'in' filters in the URL (escaped inside values)
+const LIST_SEPARATOR = ',';
+const LIST_ESCAPE = '\\';
+
+// ISO calendar date (what <input type="date"> produces)
+const ISO_DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * Filter operator of a column
+ * Explicit filterOperator wins; filterOptions imply 'in'; otherwise by column type
+ */
+export function getColumnFilterOperator(column: TableColumn): ColumnFilterOperator {
+  if (column.filterOperator) {
+    return column.filterOperator;
+  }
+  if (column.filterOptions) {
+    return 'in';
+  }
+
+  switch (column.type) {
+    case 'number':
+    case 'currency':
+      return 'range';
+    case 'date':
+      return 'between';
+    case 'boolean':
+      return 'in';
+    default:
+      return 'contains';
+  }
+}
+
+/**
+ * Selectable values of an 'in' filter (boolean columns default to true/false)
+ */
+export function getColumnFilterOptions(column: TableColumn): readonly string[] {
+  if (column.filterOptions) {
+    return column.filterOptions;
+  }
+  return column.type === 'boolean' ? ['true', 'false'] : [];
+}
+
+/**
+ * Is the filter a no-op (nothing entered)?
+ * Empty filters are removed instead of stored.
+ */
+export function isColumnFilterEmpty(filter: ColumnFilter): boolean {
+  switch (filter.operator) {
+    case 'contains':
+      return filter.value.trim() === '';
+    case 'range':
+      return filter.min === undefined && filter.max === undefined;
+    case 'between':
+      return !filter.from && !filter.to;
+    case 'in':
+      return filter.values.length === 0;
+  }
+}
+
+/**
+ * ENCODE FILTER (URL value of f_<key>)
+ *
+ * @example
+ * encodeColumnFilter({ operator: 'range', min: 2015 })             // '2015..'
+ * encodeColumnFilter({ operator: 'in', values: ['SUV', 'Van'] })   // 'SUV,Van'
+ * encodeColumnFilter({ operator: 'in', values: ['2,5 TDI'] })      // '2\,5 TDI'
+ */
+export function encodeColumnFilter(filter: ColumnFilter): string {
+  switch (filter.operator) {
+    case 'contains':
+      return filter.value;
+    case 'range':
+      return `${filter.min ?? ''}${RANGE_SEPARATOR}${filter.max ?? ''}`;
+    case 'between':
+      return `${filter.from ?? ''}${RANGE_SEPARATOR}${filter.to ?? ''}`;
+    case 'in':
+      return filter.values.map(escapeListValue).join(LIST_SEPARATOR);
+  }
+}
+
+/**
+ * DECODE FILTER (from the URL value of f_<key>)
+ *
+ * @param column - Column the param belongs to (decides the operator)
+ * @param raw - URL value
+ * @returns The filter, or null when the value is empty or invalid for the operator
+ */
+export function decodeColumnFilter(column: TableColumn, raw: string): ColumnFilter | null {
+  let filter: ColumnFilter | null = null;
+
+  switch (getColumnFilterOperator(column)) {
+    case 'contains':
+      filter = { operator: 'contains', value: raw };
+      break;
+
+    case 'range': {
+      const bounds = splitRange(raw);
+      const min = bounds ? parseBound(bounds[0]) : null;
+      const max = bounds ? parseBound(bounds[1]) : null;
+      if (min !== null && max !== null) {
+        filter = { operator: 'range', min, max };
+      }
+      break;
+    }
+
+    case 'between': {
+      const bounds = splitRange(raw);
+      if (bounds && bounds.every(bound => bound === '' || ISO_DATE_PATTERN.test(bound))) {
+        filter = { operator: 'between', from: bounds[0] || undefined, to: bounds[1] || undefined };
+      }
+      break;
+    }
+
+    case 'in': {
+      const options = getColumnFilterOptions(column);
+      const values = splitList(raw).filter(value => value !== '');
+      // Unknown values are dropped (options list is the contract)
+      filter = {
+        operator: 'in',
+        values: options.length > 0 ? values.filter(value => options.includes(value)) : values
+      };
+      break;
+    }
+  }
+
+  return filter && !isColumnFilterEmpty(filter) ? filter : null;
+}
+
+/**
+ * CLIENT-SIDE MATCHING
+ * Does a cell value pass the filter? (contains is case-insensitive, bounds are inclusive)
+ */
+export function matchesColumnFilter(filter: ColumnFilter, value: any): boolean {
+  switch (filter.operator) {
+    case 'contains':
+      return String(value ?? '').toLowerCase().includes(filter.value.trim().toLowerCase());
+
+    case 'range': {
+      const num = typeof value === 'number' ? value : parseFloat(value);
+      if (isNaN(num)) {
+        return false;
+      }
+      return (filter.min === undefined || num >= filter.min) &&
+             (filter.max === undefined || num <= filter.max);
+    }
+
+    case 'between': {
+      const date = toIsoDate(value);
+      if (!date) {
+        return false;
+      }
+      return (!filter.from || date >= filter.from) && (!filter.to || date <= filter.to);
+    }
+
+    case 'in':
+      return filter.values.includes(String(value));
+  }
+}
+
+// ============================================================================
+// PRIVATE HELPERS
+// ============================================================================
+
+/**
+ * 'a..b' → ['a', 'b'] (null if there is no separator)
+ */
+function splitRange(raw: string): [string, string] | null {
+  const index = raw.indexOf(RANGE_SEPARATOR);
+  if (index < 0) {
+    return null;
+  }
+  return [raw.substring(0, index).trim(), raw.substring(index + RANGE_SEPARATOR.length).trim()];
+}
+
+/**
+ * 'in' value → URL list item ('2,5 TDI' → '2\,5 TDI')
+ */
+function escapeListValue(value: string): string {
+  return value.replace(/[\\,]/g, char => LIST_ESCAPE + char);
+}
+
+/**
+ * URL list → values: splits on unescaped commas
+ * (a '\' that escapes neither ',' nor '\' is literal, so unescaped lists decode as before)
+ */
+function splitList(raw: string): string[] {
+  const values: string[] = [];
+  let current = '';
+
+  for (let i = 0; i < raw.length; i++) {
+    const next = raw[i + 1];
+    if (raw[i] === LIST_ESCAPE && (next === LIST_SEPARATOR || next === LIST_ESCAPE)) {
+      current += next;
+      i++;
+    } else if (raw[i] === LIST_SEPARATOR) {
+      values.push(current);
+      current = '';
+    } else {
+      current += raw[i];
+    }
+  }
+
+  values.push(current);
+  return values;
+}
+
+/**
+ * Range bound: '' → undefined (open), number → number, anything else → null (invalid)
+ */
+function parseBound(bound: string): number | undefined | null {
+  if (bound === '') {
+    return undefined;
+  }
+  const num = Number(bound);
+  return isNaN(num) ? null : num;
+}
+
+/**
+ * Cell value → 'yyyy-mm-dd' (ISO strings compare correctly as text)
+ */
+function toIsoDate(value: any): string | null {
+  if (typeof value === 'string' && ISO_DATE_PATTERN.test(value.substring(0, 10))) {
+    return value.substring(0, 10);
+  }
+  const date = value instanceof Date ? value : new Date(value);
+  return value == null || isNaN(date.getTime()) ? null : date.toISOString().substring(0, 10);
+}
@@ -9,4 +9,11 @@
 */
 
 export * from './table-config.model';
+export * from './column-filter.model';
+export * from './selection-key.model';
 export * from './selection-state.model';
+export * from './panel-layout.model';
+export * from './virtual-scroll.model';
+export * from './table-export.model';
+export * from './row-grouping.model';
+export * from './selection-url.model';
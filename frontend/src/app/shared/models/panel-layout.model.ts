@@ -0,0 +1,167 @@
+/*
+  PANEL LAYOUT MODEL
+
+  PURPOSE:
+  Describes where panels sit in a grid-based workspace (e.g. the Workshop page).
+  Positions are in grid units, not pixels, so layouts survive window resizes
+  and can be stored in localStorage.
+
+  COORDINATES:
+  - x: column (0-based, 0..columns-1)
+  - y: row (0-based, grows downward without limit)
+  - w: width in columns
+  - h: height in rows
+
+  EXAMPLE (12-column grid):
+  [
+    { id: 'picker',  x: 0, y: 0, w: 4, h: 8 },   // left third
+    { id: 'results', x: 4, y: 0, w: 8, h: 8 }    // right two thirds
+  ]
+
+  Layout math is kept in pure functions here so the grid component, the
+  persistence service and pop-out windows all agree on the same rules.
+*/
+
+/**
+ * Default number of grid columns
+ */
+export const PANEL_GRID_COLUMNS = 12;
+
+/**
+ * Position and size of one panel in the grid
+ */
+export interface PanelLayoutItem {
+  id: string;               // Panel identifier (matches the registered panel)
+  x: number;                // Column (0-based)
+  y: number;                // Row (0-based)
+  w: number;                // Width in columns
+  h: number;                // Height in rows
+  minW?: number;            // Minimum width (default: 1)
+  minH?: number;            // Minimum height (default: 1)
+  collapsed?: boolean;      // Collapsed panels only occupy their header row
+}
+
+/**
+ * A named, complete layout
+ */
+export interface PanelLayout {
+  name: string;             // Layout name (used in ?layout= URL param)
+  label?: string;           // Display label (defaults to name)
+  items: PanelLayoutItem[]; // Panel positions
+}
+
+/**
+ * Effective height of a panel (collapsed panels take one row)
+ */
+export function effectiveHeight(item: PanelLayoutItem): number {
+  return item.collapsed ? 1 : item.h;
+}
+
+/**
+ * Do two panels overlap?
+ */
+export function itemsOverlap(a: PanelLayoutItem, b: PanelLayoutItem): boolean {
+  if (a.id === b.id) {
+    return false;
+  }
+  return a.x < b.x + b.w &&
+    b.x < a.x + a.w &&
+    a.y < b.y + effectiveHeight(b) &&
+    b.y < a.y + effectiveHeight(a);
+}
+
+/**
+ * Clamp a panel to the grid bounds and its minimum size
+ */
+export function clampItem(item: PanelLayoutItem, columns: number = PANEL_GRID_COLUMNS): PanelLayoutItem {
+  const w = Math.min(Math.max(Math.round(item.w), item.minW || 1), columns);
+  const h = Math.max(Math.round(item.h), item.minH || 1);
+  const x = Math.min(Math.max(Math.round(item.x), 0), columns - w);
+  const y = Math.max(Math.round(item.y), 0);
+  return { ...item, x, y, w, h };
+}
+
+/**
+ * RESOLVE LAYOUT
+ *
+ * Removes overlaps and compacts panels upward (gravity).
+ * The pinned panel (the one being dragged/resized) keeps its position;
+ * every other panel is placed at the highest free row in its column span,
+ * in top-to-bottom order.
+ *
+ * @param items - Panel positions (may overlap)
+ * @param columns - Grid column count
+ * @param pinnedId - Panel that must not move (optional)
+ * @returns New array in the same order as the input
+ */
+export function resolveLayout(
+  items: PanelLayoutItem[],
+  columns: number = PANEL_GRID_COLUMNS,
+  pinnedId?: string
+): PanelLayoutItem[] {
+  const clamped = items.map(item => clampItem(item, columns));
+
+  const ordered = [...clamped].sort((a, b) => {
+    if (a.id === pinnedId) return -1;
+    if (b.id === pinnedId) return 1;
+    return a.y - b.y || a.x - b.x;
+  });
+
+  const placed: PanelLayoutItem[] = [];
+  ordered.forEach(item => {
+    const next = { ...item };
+    if (item.id !== pinnedId) {
+      next.y = 0;
+      while (placed.some(other => itemsOverlap(other, next))) {
+        next.y++;
+      }
+    }
+    placed.push(next);
+  });
+
+  return clamped.map(item => placed.find(p => p.id === item.id)!);
+}
+
+/**
+ * MERGE LAYOUT
+ *
+ * Reconciles a saved layout with the panels that currently exist.
+ * - Panels in both: saved position, current size limits
+ * - New panels: default position
+ * - Removed panels: dropped
+ *
+ * @param saved - Previously saved positions
+ * @param defaults - Default positions for every current panel
+ * @param columns - Grid column count
+ */
+export function mergeLayout(
+  saved: PanelLayoutItem[],
+  defaults: PanelLayoutItem[],
+  columns: number = PANEL_GRID_COLUMNS
+): PanelLayoutItem[] {
+  const merged = defaults.map(def => {
+    const savedItem = saved.find(s => s.id === def.id);
+    return savedItem
+      ? { ...savedItem, minW: def.minW, minH: def.minH }
+      : { ...def };
+  });
+  return resolveLayout(merged, columns);
+}
+
+/**
+ * Are two layouts identical (same panels at same positions)?
+ */
+export function layoutsEqual(a: PanelLayoutItem[], b: PanelLayoutItem[]): boolean {
+  if (a.length !== b.length) {
+    return false;
+  }
+  return a.every(item => {
+    const other = b.find(o => o.id === item.id);
+    return !!other &&
+      other.x === item.x &&
+      other.y === item.y &&
+      other.w === item.w &&
+      other.h === item.h &&
+      !!other.collapsed === !!item.collapsed;
+  });
+}
@@ -0,0 +1,188 @@
+/*
+  ROW GROUPING MODELS
+
+  PURPOSE:
+  Grouping and aggregate math for BaseTableComponent's grouped mode
+  (TableConfig.grouping). groupRows() builds the group tree with aggregates
+  per group; flattenRowGroups() turns it into the lines the table renders
+  (group headers, data rows, group footers), skipping collapsed groups.
+
+  KEY CONCEPTS:
+  - Groups keep the order of their first row (the active sort orders them)
+  - Group keys are the JSON of the value path (['Ford', 'F-150']), unique
+    for any values - used to remember collapsed groups across reloads
+  - Aggregates skip empty cells; sum/min/max/avg also skip non-numeric ones
+    and are null when a group has no numeric value
+
+  USAGE:
+  const groups = groupRows(rows, ['manufacturer'], [{ key: 'year', functions: ['min', 'max'] }]);
+  groups[0].aggregates['year'];   // { min: 2015, max: 2024 }
+  computeAggregates(rows, aggregates);   // Whole-table aggregates
+*/
+
+import { AggregateFunction, ColumnAggregate } from './table-config.model';
+
+/**
+ * Aggregate values by column key, then by function
+ */
+export type AggregateValues = Record<string, Partial<Record<AggregateFunction, number | null>>>;
+
+/**
+ * ROW GROUP
+ * One group of one level (nested groups in children)
+ */
+export interface RowGroup {
+  key: string;                    // JSON of the value path (unique across levels)
+  column: string;                 // Column key this level groups by
+  value: any;                     // Shared value of the column
+  depth: number;                  // 0 = outermost level
+  rows: any[];                    // All data rows of the group (nested levels included)
+  children: RowGroup[];           // Sub-groups (empty at the innermost level)
+  aggregates: AggregateValues;
+}
+
+/**
+ * One rendered line of a grouped table
+ */
+export type GroupedRow =
+  | { kind: 'group'; group: RowGroup }
+  | { kind: 'row'; row: any; depth: number }      // depth = number of enclosing groups
+  | { kind: 'footer'; group: RowGroup };
+
+/**
+ * GROUP ROWS
+ *
+ * @param rows - Data rows (in display order)
+ * @param groupBy - Column keys, outermost first
+ * @param aggregates - Aggregates computed per group
+ * @returns Top-level groups
+ */
+export function groupRows(rows: any[], groupBy: string[], aggregates: ColumnAggregate[] = []): RowGroup[] {
+  return buildGroups(rows, groupBy, aggregates, 0, []);
+}
+
+/**
+ * COMPUTE AGGREGATES
+ *
+ * @example
+ * computeAggregates([{ price: 10 }, { price: 20 }, { price: null }],
+ *                   [{ key: 'price', functions: ['count', 'sum', 'avg'] }]);
+ * // { price: { count: 2, sum: 30, avg: 15 } }
+ */
+export function computeAggregates(rows: any[], aggregates: ColumnAggregate[]): AggregateValues {
+  const result: AggregateValues = {};
+
+  aggregates.forEach(aggregate => {
+    const values = rows
+      .map(row => row?.[aggregate.key])
+      .filter(value => value !== null && value !== undefined && value !== '');
+    const numbers = values
+      .map(value => typeof value === 'number' ? value : Number(value))
+      .filter(num => typeof num === 'number' && !isNaN(num));
+
+    const sum = numbers.reduce((total, num) => total + num, 0);
+    const columnResult: Partial<Record<AggregateFunction, number | null>> = {};
+
+    aggregate.functions.forEach(fn => {
+      switch (fn) {
+        case 'count':
+          columnResult.count = values.length;
+          break;
+        case 'sum':
+          columnResult.sum = numbers.length > 0 ? sum : null;
+          break;
+        case 'min':
+          columnResult.min = numbers.length > 0 ? numbers.reduce((a, b) => Math.min(a, b)) : null;
+          break;
+        case 'max':
+          columnResult.max = numbers.length > 0 ? numbers.reduce((a, b) => Math.max(a, b)) : null;
+          break;
+        case 'avg':
+          columnResult.avg = numbers.length > 0 ? sum / numbers.length : null;
+          break;
+      }
+    });
+
+    result[aggregate.key] = columnResult;
+  });
+
+  return result;
+}
+
+/**
+ * FLATTEN GROUPS (rendered lines)
+ * Header, then (unless collapsed) sub-groups or rows, then the footer
+ *
+ * @param groups - Groups of one level
+ * @param isCollapsed - Collapse state by group key
+ * @param footers - Add a footer line per group
+ */
+export function flattenRowGroups(
+  groups: RowGroup[],
+  isCollapsed: (key: string) => boolean,
+  footers: boolean
+): GroupedRow[] {
+  const lines: GroupedRow[] = [];
+
+  groups.forEach(group => {
+    lines.push({ kind: 'group', group });
+
+    if (!isCollapsed(group.key)) {
+      if (group.children.length > 0) {
+        lines.push(...flattenRowGroups(group.children, isCollapsed, footers));
+      } else {
+        group.rows.forEach(row => lines.push({ kind: 'row', row, depth: group.depth + 1 }));
+      }
+    }
+
+    if (footers) {
+      lines.push({ kind: 'footer', group });
+    }
+  });
+
+  return lines;
+}
+
+// ============================================================================
+// PRIVATE HELPERS
+// ============================================================================
+
+/**
+ * Groups of one level (recurses into the next group-by column)
+ */
+function buildGroups(
+  rows: any[],
+  groupBy: string[],
+  aggregates: ColumnAggregate[],
+  depth: number,
+  path: any[]
+): RowGroup[] {
+  const column = groupBy[depth];
+  const buckets = new Map<string, { value: any; rows: any[] }>();
+
+  rows.forEach(row => {
+    const value = row?.[column] ?? null;
+    const bucketKey = JSON.stringify(value);
+    const bucket = buckets.get(bucketKey);
+    if (bucket) {
+      bucket.rows.push(row);
+    } else {
+      buckets.set(bucketKey, { value, rows: [row] });
+    }
+  });
+
+  return Array.from(buckets.values()).map(({ value, rows: bucketRows }) => {
+    const groupPath = [...path, value];
+    return {
+      key: JSON.stringify(groupPath),
+      column,
+      value,
+      depth,
+      rows: bucketRows,
+      children: depth + 1 < groupBy.length
+        ? buildGroups(bucketRows, groupBy, aggregates, depth + 1, groupPath)
+        : [],
+      aggregates: computeAggregates(bucketRows, aggregates)
+    };
+  });
+}
@@ -0,0 +1,146 @@
+import {
+  decodeSelectionKey,
+  encodeSelectionKey,
+  joinSelectionKeys,
+  splitSelectionKeys
+} from './selection-key.model';
+import { HierarchicalSelectionHelper } from './selection-state.model';
+import { decodeSelectionParam, encodeSelectionParam } from './selection-url.model';
+import {
+  ModelCombination,
+  modelComboToSelectionKey,
+  modelComboToString,
+  modelCombosToUrlParam,
+  stringToModelCombo,
+  urlParamToModelCombos
+} from '../../models/manufacturer-model.model';
+
+describe('selection key codec', () => {
+  const DELIMITER_PATHS: string[][] = [
+    ['AC', 'Cobra|427'],
+    ['VW', 'Golf 2,5 TDI'],
+    ['Honda', 'Civic Type:R'],
+    ['Back\\slash', 'Model\\|1'],
+    ['|', ',', ':', '\\'],
+    ['Ford', '']
+  ];
+
+  describe('encode/decode', () => {
+    it('should leave plain values unescaped', () => {
+      expect(encodeSelectionKey(['Ford', 'F-150'])).toBe('Ford|F-150');
+      expect(encodeSelectionKey(['Ford', 'F-150'], ':')).toBe('Ford:F-150');
+    });
+
+    it('should escape every delimiter inside values', () => {
+      expect(encodeSelectionKey(['AC', 'Cobra|427'])).toBe('AC|Cobra\\|427');
+      expect(encodeSelectionKey(['VW', 'Golf 2,5'])).toBe('VW|Golf 2\\,5');
+      expect(encodeSelectionKey(['Honda', 'Type:R'])).toBe('Honda|Type\\:R');
+      expect(encodeSelectionKey(['A\\B'])).toBe('A\\\\B');
+    });
+
+    it('should round-trip values containing delimiters with either separator', () => {
+      DELIMITER_PATHS.forEach(path => {
+        expect(decodeSelectionKey(encodeSelectionKey(path))).withContext(path.join(' / ')).toEqual(path);
+        expect(decodeSelectionKey(encodeSelectionKey(path, ':'), ':')).withContext(path.join(' / ')).toEqual(path);
+      });
+    });
+
+    it('should decode unescaped legacy keys as before', () => {
+      expect(decodeSelectionKey('Ford|F-150|2022')).toEqual(['Ford', 'F-150', '2022']);
+      expect(decodeSelectionKey('Mazda:MX-5', ':')).toEqual(['Mazda', 'MX-5']);
+      expect(decodeSelectionKey('Ford')).toEqual(['Ford']);
+    });
+
+    it('should keep a backslash that does not escape a delimiter', () => {
+      expect(decodeSelectionKey('Model\\1|A\\')).toEqual(['Model\\1', 'A\\']);
+    });
+  });
+
+  describe('lists', () => {
+    it('should split on unescaped commas only', () => {
+      const keys = DELIMITER_PATHS.map(path => encodeSelectionKey(path));
+
+      expect(splitSelectionKeys(joinSelectionKeys(keys))).toEqual(keys);
+      expect(splitSelectionKeys('Ford|F-150,AC|Cobra\\,Roadster')).toEqual(['Ford|F-150', 'AC|Cobra\\,Roadster']);
+    });
+
+    it('should trim keys and drop empty ones', () => {
+      expect(splitSelectionKeys(' Ford|F-150 ,, Toyota ,')).toEqual(['Ford|F-150', 'Toyota']);
+      expect(splitSelectionKeys('')).toEqual([]);
+    });
+  });
+
+  describe('model combinations', () => {
+    const COMBOS: ModelCombination[] = [
+      { manufacturer: 'Ford', model: 'F-150' },
+      { manufacturer: 'AC', model: 'Cobra|427' },
+      { manufacturer: 'VW', model: 'Golf 2,5 TDI' },
+      { manufacturer: 'Honda', model: 'Civic Type:R' }
+    ];
+
+    it('should round-trip combinations through strings and selection keys', () => {
+      COMBOS.forEach(combo => {
+        expect(stringToModelCombo(modelComboToString(combo))).withContext(combo.model).toEqual(combo);
+        expect(stringToModelCombo(modelComboToSelectionKey(combo))).withContext(combo.model).toEqual(combo);
+      });
+    });
+
+    it('should read legacy unescaped strings', () => {
+      expect(stringToModelCombo('Mazda:MX-5:Miata')).toEqual({ manufacturer: 'Mazda', model: 'MX-5:Miata' });
+      expect(stringToModelCombo('Chevy|Corvette')).toEqual({ manufacturer: 'Chevy', model: 'Corvette' });
+    });
+
+    it('should round-trip combinations through the URL param', () => {
+      const param = modelCombosToUrlParam(COMBOS);
+
+      expect(param).toBe('Ford:F-150,AC:Cobra\\|427,VW:Golf 2\\,5 TDI,Honda:Civic Type\\:R');
+      expect(urlParamToModelCombos(param)).toEqual(COMBOS);
+    });
+
+    it('should round-trip large selections through the compact URL param', () => {
+      const combos: ModelCombination[] = [...COMBOS];
+      for (let i = 1; i <= 40; i++) {
+        combos.push({ manufacturer: 'Ford', model: `Model ${i}, "special"` });
+      }
+      const param = modelCombosToUrlParam(combos, { compact: true });
+
+      // The prefix tree groups keys by manufacturer
+      expect(param.startsWith('~')).toBe(true);
+      expect(urlParamToModelCombos(param)).toEqual(jasmine.arrayWithExactContents(combos));
+    });
+
+    it('should skip combinations without a manufacturer or model', () => {
+      expect(urlParamToModelCombos('Ford:F-150,Toyota,:Camry')).toEqual([{ manufacturer: 'Ford', model: 'F-150' }]);
+      expect(urlParamToModelCombos(null)).toEqual([]);
+    });
+  });
+
+  describe('HierarchicalSelectionHelper', () => {
+    interface VehicleRow {
+      manufacturer: string;
+      model: string;
+    }
+
+    const ROWS: VehicleRow[] = [
+      { manufacturer: 'AC', model: 'Cobra|427' },
+      { manufacturer: 'AC', model: 'Ace' },
+      { manufacturer: 'VW', model: 'Golf 2,5' }
+    ];
+
+    it('should round-trip selections of values with delimiters through the URL param', () => {
+      const helper = new HierarchicalSelectionHelper<VehicleRow>(ROWS, ['manufacturer', 'model'], 'tri-state');
+      helper.toggleChild(ROWS[0]);
+      helper.toggleChild(ROWS[2]);
+
+      const param = encodeSelectionParam(helper.getSelectedKeys());
+      expect(param).toBe('AC|Cobra\\|427,VW|Golf 2\\,5');
+
+      const restored = new HierarchicalSelectionHelper<VehicleRow>(ROWS, ['manufacturer', 'model'], 'tri-state');
+      restored.setSelectedKeys(decodeSelectionParam(param));
+
+      expect(restored.getSelectedItems()).toEqual([ROWS[0], ROWS[2]]);
+      expect(restored.getNodeState('AC')).toBe('indeterminate');
+      expect(restored.getNodeState('VW')).toBe('checked');
+    });
+  });
+});
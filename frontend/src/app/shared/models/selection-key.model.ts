@@ -0,0 +1,128 @@
+/*
+  SELECTION KEY CODEC
+
+  PURPOSE:
+  The one place that turns value paths into selection keys and back - used by
+  HierarchicalSelectionHelper, the selection URL param codec
+  (selection-url.model.ts) and the manufacturer/model URL helpers
+  (models/manufacturer-model.model.ts). Values may contain any character:
+  a model named "Cobra|427", "2,5 TDI" or "Type:R" round-trips unchanged.
+
+  KEY FORMAT:
+  Level values joined by a separator ('|' for selection keys, ':' for the
+  'models' param), keys joined by ','. Inside a value, the delimiters
+  '\', '|', ',' and ':' are escaped with '\' - whatever the separator, so a
+  key can be moved between the two formats without re-escaping:
+
+    ['Ford', 'F-150']      → Ford|F-150
+    ['AC', 'Cobra|427']    → AC|Cobra\|427
+    ['VW', 'Golf 2,5 TDI'] → VW|Golf 2\,5 TDI
+
+  BACKWARD COMPATIBILITY:
+  Keys written before escaping existed contain no '\' and decode exactly as
+  they used to. A '\' that does not escape a delimiter is kept as is.
+
+  USAGE:
+  const key = encodeSelectionKey(['Ford', 'F-150']);        // "Ford|F-150"
+  decodeSelectionKey(key);                                  // ['Ford', 'F-150']
+  encodeSelectionKey(['Ford', 'F-150'], ':');               // "Ford:F-150"
+  splitSelectionKeys('Ford|F-150,AC|Cobra\\,Roadster');     // ['Ford|F-150', 'AC|Cobra\\,Roadster']
+*/
+
+/**
+ * Separator between the levels of a selection key
+ */
+export const SELECTION_KEY_SEPARATOR = '|';
+
+/**
+ * Separator between the keys of a list (URL param)
+ */
+export const SELECTION_LIST_SEPARATOR = ',';
+
+/**
+ * ENCODE SELECTION KEY
+ *
+ * @param path - Values from the top level down (["Ford", "F-150"])
+ * @param separator - Level separator (default: '|')
+ * @returns Key with delimiters inside values escaped ("Ford|F-150")
+ */
+export function encodeSelectionKey(path: readonly string[], separator: string = SELECTION_KEY_SEPARATOR): string {
+  return path.map(escapeValue).join(separator);
+}
+
+/**
+ * DECODE SELECTION KEY
+ *
+ * @param key - Key written by encodeSelectionKey() (or an unescaped legacy key)
+ * @param separator - Level separator (must match the one used to encode)
+ * @returns Values from the top level down
+ */
+export function decodeSelectionKey(key: string, separator: string = SELECTION_KEY_SEPARATOR): string[] {
+  return splitUnescaped(key, separator).map(unescapeValue);
+}
+
+/**
+ * JOIN SELECTION KEYS into a list ("Ford|F-150,Ford|Ranger")
+ */
+export function joinSelectionKeys(keys: Iterable<string>): string {
+  return Array.from(keys).join(SELECTION_LIST_SEPARATOR);
+}
+
+/**
+ * SPLIT SELECTION KEYS
+ * Splits a list on unescaped commas (keys are trimmed, empty keys dropped)
+ */
+export function splitSelectionKeys(list: string): string[] {
+  return splitUnescaped(list, SELECTION_LIST_SEPARATOR)
+    .map(key => key.trim())
+    .filter(key => key.length > 0);
+}
+
+// ============================================================================
+// PRIVATE HELPERS
+// ============================================================================
+
+const ESCAPE_CHAR = '\\';
+const DELIMITERS = '\\|,:';
+const DELIMITER_PATTERN = /[\\|,:]/g;
+
+function escapeValue(value: string): string {
+  return value.replace(DELIMITER_PATTERN, char => ESCAPE_CHAR + char);
+}
+
+/**
+ * Drop the escape before delimiters (any other '\' is literal)
+ */
+function unescapeValue(value: string): string {
+  let result = '';
+  for (let i = 0; i < value.length; i++) {
+    if (value[i] === ESCAPE_CHAR && i + 1 < value.length && DELIMITERS.includes(value[i + 1])) {
+      i++;
+    }
+    result += value[i];
+  }
+  return result;
+}
+
+/**
+ * Split on a delimiter that is not escaped (parts keep their escapes)
+ */
+function splitUnescaped(text: string, delimiter: string): string[] {
+  const parts: string[] = [];
+  let current = '';
+
+  for (let i = 0; i < text.length; i++) {
+    if (text[i] === ESCAPE_CHAR && i + 1 < text.length && DELIMITERS.includes(text[i + 1])) {
+      current += text[i] + text[i + 1];
+      i++;
+    } else if (text[i] === delimiter) {
+      parts.push(current);
+      current = '';
+    } else {
+      current += text[i];
+    }
+  }
+
+  parts.push(current);
+  return parts;
+}
@@ -0,0 +1,119 @@
+import { HierarchicalSelectionHelper } from './selection-state.model';
+import { decodeSelectionParam, encodeSelectionParam } from './selection-url.model';
+
+interface VehicleRow {
+  manufacturer: string;
+  model: string;
+  year: number;
+}
+
+const ROWS: VehicleRow[] = [
+  { manufacturer: 'Ford', model: 'F-150', year: 2021 },
+  { manufacturer: 'Ford', model: 'F-150', year: 2022 },
+  { manufacturer: 'Ford', model: 'Mustang', year: 2022 },
+  { manufacturer: 'Chevrolet', model: 'Corvette', year: 2020 }
+];
+
+const LEVELS = ['manufacturer', 'model', 'year'];
+
+describe('HierarchicalSelectionHelper', () => {
+  let helper: HierarchicalSelectionHelper<VehicleRow>;
+
+  beforeEach(() => {
+    helper = new HierarchicalSelectionHelper<VehicleRow>(ROWS, LEVELS, 'tri-state');
+  });
+
+  describe('three-level cascade', () => {
+    it('should index nodes per level in data order', () => {
+      expect(helper.getChildNodes().map(node => node.key)).toEqual(['Ford', 'Chevrolet']);
+      expect(helper.getChildNodes('Ford').map(node => node.key)).toEqual(['Ford|F-150', 'Ford|Mustang']);
+      expect(helper.getChildNodes('Ford|F-150')).toEqual([]);
+      expect(helper.getRowsUnder('Ford|F-150').length).toBe(2);
+    });
+
+    it('should select every leaf under a top-level node', () => {
+      helper.toggleNode('Ford');
+
+      expect(Array.from(helper.getSelectedKeys())).toEqual(['Ford|F-150|2021', 'Ford|F-150|2022', 'Ford|Mustang|2022']);
+      expect(helper.getNodeState('Ford')).toBe('checked');
+      expect(helper.getNodeState('Ford|F-150')).toBe('checked');
+      expect(helper.getNodeState('Ford|Mustang')).toBe('checked');
+      expect(helper.getNodeState('Chevrolet')).toBe('unchecked');
+    });
+
+    it('should derive ancestor states from a mid-level toggle', () => {
+      helper.toggleNode('Ford|F-150');
+
+      expect(helper.getNodeState('Ford|F-150')).toBe('checked');
+      expect(helper.getNodeState('Ford')).toBe('indeterminate');
+
+      helper.toggleNode('Ford|Mustang');
+      expect(helper.getNodeState('Ford')).toBe('checked');
+    });
+
+    it('should derive node states from leaf toggles', () => {
+      helper.toggleChild(ROWS[0]);
+
+      expect(helper.getNodeState('Ford|F-150')).toBe('indeterminate');
+      expect(helper.getNodeState('Ford')).toBe('indeterminate');
+
+      helper.toggleChild(ROWS[1]);
+      expect(helper.getNodeState('Ford|F-150')).toBe('checked');
+      expect(helper.getNodeState('Ford')).toBe('indeterminate');
+    });
+
+    it('should select all on an indeterminate node and deselect all on a checked one', () => {
+      helper.toggleChild(ROWS[0]);
+      helper.toggleNode('Ford');
+      expect(helper.getNodeState('Ford')).toBe('checked');
+
+      helper.toggleNode('Ford');
+      expect(helper.getSelectionCount()).toBe(0);
+      expect(helper.getNodeState('Ford|F-150')).toBe('unchecked');
+    });
+
+    it('should report partial selections as unchecked in binary mode', () => {
+      const binary = new HierarchicalSelectionHelper<VehicleRow>(ROWS, LEVELS);
+      binary.toggleNode('Ford|F-150');
+
+      expect(binary.getNodeState('Ford|F-150')).toBe('checked');
+      expect(binary.getNodeState('Ford')).toBe('unchecked');
+    });
+  });
+
+  describe('partial keys', () => {
+    it('should expand partial keys of any depth to the leaves under them', () => {
+      helper.setSelectedKeys(['Ford|F-150', 'Chevrolet']);
+
+      expect(Array.from(helper.getSelectedKeys())).toEqual(['Ford|F-150|2021', 'Ford|F-150|2022', 'Chevrolet|Corvette|2020']);
+      expect(helper.getNodeState('Ford')).toBe('indeterminate');
+    });
+
+    it('should keep partial keys without data for the round trip', () => {
+      helper.setSelectedKeys(['Ford|Ranger', 'Ford|Mustang|2022']);
+
+      expect(helper.getSelectionCount()).toBe(2);
+      expect(helper.getSelectedKeys()).toEqual(new Set(['Ford|Mustang|2022', 'Ford|Ranger']));
+      expect(helper.getSelectedItems()).toEqual([ROWS[2]]);
+    });
+
+    it('should ignore keys deeper than the hierarchy or with empty values', () => {
+      helper.setSelectedKeys(['Ford|F-150|2021|XL', 'Ford||2021', '']);
+
+      expect(helper.getSelectionCount()).toBe(0);
+    });
+
+    it('should round-trip a partial selection through the URL param', () => {
+      helper.setSelectedKeys(['Ford|F-150', 'Toyota']);
+      const param = encodeSelectionParam(helper.getSelectedKeys());
+
+      expect(param).toBe('Ford|F-150|2021,Ford|F-150|2022,Toyota');
+
+      const restored = new HierarchicalSelectionHelper<VehicleRow>(ROWS, LEVELS, 'tri-state');
+      restored.setSelectedKeys(decodeSelectionParam(param));
+
+      expect(restored.getSelectedKeys()).toEqual(helper.getSelectedKeys());
+      expect(restored.getNodeState('Ford|F-150')).toBe('checked');
+    });
+  });
+});
@@ -6,21 +6,39 @@
   Implements the parent-child pattern from PICKER-CHECKBOX-BEHAVIOR.md.
 
   KEY CONCEPTS:
-  - Parent state is DERIVED from children (not stored)
+  - Parent (node) state is DERIVED from the leaf rows under it (not stored)
   - Selection stored as Set<string> for O(1) performance
-  - Key format: "parentValue|childValue" (e.g., "Ford|F-150")
+  - Any number of levels (e.g., manufacturer → model → year); two levels
+    is the classic parent-child picker
+  - Key format: level values joined by "|" (e.g., "Ford|F-150", "Ford|F-150|2022"),
+    delimiters inside values escaped (see selection-key.model.ts)
+  - Parent checkbox mode: 'binary' (default) or 'tri-state' (see ParentCheckboxMode)
 */
 
+import { decodeSelectionKey, encodeSelectionKey } from './selection-key.model';
+
 /**
  * CHECKBOX STATE
- * Binary states only - NO indeterminate/partial states
+ * 'indeterminate' only occurs in tri-state mode (some but not all children selected)
+ */
+export type CheckboxState = 'unchecked' | 'checked' | 'indeterminate';
+
+/**
+ * PARENT CHECKBOX MODE
  *
- * PHASE 4 REQUIREMENT:
- * Parent state = child state (always binary)
- * Checked: ALL children selected
- * Unchecked: Less than ALL children selected (including none)
+ * binary (PHASE 4 default):
+ *   Checked:   ALL children selected
+ *   Unchecked: Less than ALL children selected (including none)
+ *
+ * tri-state:
+ *   Checked:       ALL children selected
+ *   Indeterminate: SOME (at least one, not all) children selected
+ *   Unchecked:     NO children selected
+ *
+ * Toggle semantics are the same in both modes:
+ *   Checked → deselect all; Unchecked or Indeterminate → select all
  */
-export type CheckboxState = 'unchecked' | 'checked';
+export type ParentCheckboxMode = 'binary' | 'tri-state';
 
 /**
  * SELECTION EVENT
@@ -33,156 +51,248 @@ export interface SelectionChangeEvent<T = any> {
   removedKeys?: string[];           // Keys removed in this change
 }
 
+
+/**
+ * HIERARCHY NODE
+ * A value of a non-leaf level (e.g., manufacturer "Ford" or model "Ford|F-150"
+ * in a manufacturer → model → year hierarchy)
+ */
+export interface HierarchyNode {
+  key: string;                      // Path key ("Ford", "Ford|F-150")
+  value: string;                    // Value at this level ("F-150")
+  path: string[];                   // Values from the top level down (["Ford", "F-150"])
+  depth: number;                    // 0 = top level
+}
+
+/**
+ * One rendered line of a hierarchical (single-selector) table:
+ * a node row, or a data row under the deepest node level
+ */
+export type HierarchyLine<T = any> =
+  | { kind: 'node'; node: HierarchyNode }
+  | { kind: 'leaf'; row: T; depth: number };      // depth = number of enclosing nodes
+
 /**
  * HIERARCHICAL SELECTION HELPER
- * Utility class for managing parent-child selection state
+ * Utility class for managing N-level selection state
  *
  * ARCHITECTURE:
- * Uses Map<parentValue, childValue[]> for O(1) parent lookup
+ * Selection is a Set of leaf path keys; every node's state is derived from
+ * the leaves under it (Map<nodeKey, leafKeys> built once from the data)
+ *
+ * EXAMPLE (levels: manufacturer → model → year):
+ * selected = { "Ford|F-150|2021", "Ford|F-150|2022" }
+ * "Ford|F-150" => checked (both F-150 years selected)
+ * "Ford"       => indeterminate (tri-state; Mustang not selected)
+ *
+ * TWO LEVELS:
+ * ['manufacturer', 'model'] is the classic parent-child picker - parent
+ * methods (getParentState, toggleParent, getChildren, getUniqueParents)
+ * work on the top level, keys stay "parent|child"
  *
- * EXAMPLE:
- * Map {
- *   "BMW" => ["M3", "X5", "3 Series"],
- *   "Ford" => ["F-150", "Mustang"]
- * }
+ * PARTIAL KEYS:
+ * setSelectedKeys() accepts keys of any depth - "Ford|F-150" selects every
+ * F-150 row in the data. Partial keys that match no data are kept as-is
+ * (returned by getSelectedKeys()) so they survive a round trip.
  *
  * USAGE:
- * const helper = new HierarchicalSelectionHelper(data, 'manufacturer', 'model');
- * helper.toggleParent('Ford');  // Selects/deselects all Ford models
- * helper.getParentState('Ford'); // Returns 'checked' | 'indeterminate' | 'unchecked'
+ * const helper = new HierarchicalSelectionHelper(data, ['manufacturer', 'model', 'year']);
+ * helper.toggleNode('Ford|F-150');   // Selects/deselects every F-150 year
+ * helper.getNodeState('Ford');       // Returns 'checked' | 'indeterminate' | 'unchecked'
  */
 export class HierarchicalSelectionHelper<T = any> {
   /**
-   * Selection storage: Map<parentValue, childValue[]>
-   * Key = manufacturer (e.g., "BMW")
-   * Value = array of selected models (e.g., ["M3", "X5"])
+   * Selected leaf path keys (e.g., "Ford|F-150|2022")
    */
-  private selections = new Map<string, string[]>();
+  private selected = new Set<string>();
+
+  /**
+   * Partial keys that matched no data when hydrated (kept for the round trip)
+   */
+  private unresolved = new Set<string>();
+
+  /**
+   * Nodes by key, with the leaf keys and rows under each
+   */
+  private nodes = new Map<string, { node: HierarchyNode; leafKeys: Set<string>; rows: T[] }>();
+
+  /**
+   * Node children by parent node key ('' = top level)
+   */
+  private childNodes = new Map<string, HierarchyNode[]>();
+
+  /**
+   * Rendered lines (built on first use; the data doesn't change per helper)
+   */
+  private lines?: HierarchyLine<T>[];
 
   constructor(
     private data: T[],
-    private parentKey: string,
-    private childKey: string
-  ) {}
+    private levelKeys: string[],
+    private parentMode: ParentCheckboxMode = 'binary'
+  ) {
+    this.buildIndex();
+  }
+
+  /**
+   * Number of levels (leaf level included)
+   */
+  get depth(): number {
+    return this.levelKeys.length;
+  }
+
+  /**
+   * Path key of an item at a level (default: the leaf level)
+   *
+   * @example
+   * getPathKey({ manufacturer: 'Ford', model: 'F-150', year: 2022 });      // "Ford|F-150|2022"
+   * getPathKey({ manufacturer: 'Ford', model: 'F-150', year: 2022 }, 0);   // "Ford"
+   */
+  getPathKey(item: T, depth: number = this.levelKeys.length - 1): string {
+    return toPathKey(this.getPath(item).slice(0, depth + 1));
+  }
 
   /**
    * Check if an item is selected
    */
   isSelected(item: T): boolean {
-    const parent = (item as any)[this.parentKey];
-    const child = (item as any)[this.childKey];
+    return this.selected.has(this.getPathKey(item));
+  }
+
+  /**
+   * Get a node by key
+   */
+  getNode(nodeKey: string): HierarchyNode | undefined {
+    return this.nodes.get(nodeKey)?.node;
+  }
+
+  /**
+   * Get the nodes one level below a node (top-level nodes without a key)
+   * Nodes of the level above the leaves have no child nodes
+   */
+  getChildNodes(nodeKey?: string): HierarchyNode[] {
+    return this.childNodes.get(nodeKey ?? '') || [];
+  }
+
+  /**
+   * Get every node, top level first within each branch
+   */
+  getAllNodes(): HierarchyNode[] {
+    return Array.from(this.nodes.values()).map(entry => entry.node);
+  }
 
-    const selectedChildren = this.selections.get(parent);
-    return selectedChildren ? selectedChildren.includes(child) : false;
+  /**
+   * Get all data rows under a node
+   */
+  getRowsUnder(nodeKey: string): T[] {
+    return this.nodes.get(nodeKey)?.rows || [];
   }
 
   /**
-   * Get all children for a parent
+   * Get all children for a (top-level) parent
    */
   getChildren(parentValue: string): T[] {
-    return this.data.filter(item => (item as any)[this.parentKey] === parentValue);
+    return this.getRowsUnder(toPathKey([parentValue]));
   }
 
   /**
-   * Get parent checkbox state (binary only - checked or unchecked)
+   * Get node checkbox state (derived from the leaves under the node)
+   *
+   * Binary mode (PHASE 4 REQUIREMENT):
+   * Checked: ALL leaves selected
+   * Unchecked: Less than ALL leaves selected (including none)
    *
-   * PHASE 4 REQUIREMENT (No tri-state/indeterminate):
-   * Checked: ALL children selected
-   * Unchecked: Less than ALL children selected (including none)
+   * Tri-state mode adds Indeterminate: SOME (not all) leaves selected
    *
-   * This is the core algorithm from PICKER-CHECKBOX-BEHAVIOR.md
+   * This is the core algorithm from PICKER-CHECKBOX-BEHAVIOR.md, applied per level
    */
-  getParentState(parentValue: string): CheckboxState {
-    const allChildren = this.getChildren(parentValue);
-    if (allChildren.length === 0) {
-      console.log(`[Helper] getParentState(${parentValue}): NO CHILDREN FOUND`);
+  getNodeState(nodeKey: string): CheckboxState {
+    const entry = this.nodes.get(nodeKey);
+    if (!entry || entry.leafKeys.size === 0) {
+      console.log(`[Helper] getNodeState(${nodeKey}): NO CHILDREN FOUND`);
       return 'unchecked';
     }
 
-    const selectedChildren = this.selections.get(parentValue) || [];
-    const selectedCount = selectedChildren.length;
+    let selectedCount = 0;
+    entry.leafKeys.forEach(leafKey => {
+      if (this.selected.has(leafKey)) {
+        selectedCount++;
+      }
+    });
+
+    // Checked only if ALL leaves selected
+    if (selectedCount === entry.leafKeys.size) return 'checked';
 
-    console.log(`[Helper] getParentState(${parentValue}): ${selectedCount}/${allChildren.length} selected`);
-    console.log(`[Helper] Selected children:`, selectedChildren);
-    console.log(`[Helper] All selections:`, Object.fromEntries(this.selections));
+    // Tri-state: some selected = indeterminate
+    if (this.parentMode === 'tri-state' && selectedCount > 0) return 'indeterminate';
 
-    // Binary state: checked only if ALL children selected
-    if (selectedCount === allChildren.length) return 'checked';
-    return 'unchecked';  // Any other state (none or some) = unchecked
+    return 'unchecked';  // Binary: any other state (none or some) = unchecked
   }
 
   /**
-   * Toggle a child item
+   * Get parent checkbox state (top-level node)
    */
-  toggleChild(item: T): void {
-    const parent = (item as any)[this.parentKey];
-    const child = (item as any)[this.childKey];
-
-    // Get current selections for this parent
-    let selectedChildren = this.selections.get(parent) || [];
+  getParentState(parentValue: string): CheckboxState {
+    return this.getNodeState(toPathKey([parentValue]));
+  }
 
-    if (selectedChildren.includes(child)) {
-      // Remove child
-      selectedChildren = selectedChildren.filter(c => c !== child);
+  /**
+   * Toggle a child item (leaf)
+   */
+  toggleChild(item: T): void {
+    const leafKey = this.getPathKey(item);
 
-      if (selectedChildren.length === 0) {
-        // No children left, remove parent entry entirely
-        this.selections.delete(parent);
-      } else {
-        // Update with remaining children
-        this.selections.set(parent, selectedChildren);
-      }
+    if (this.selected.has(leafKey)) {
+      this.selected.delete(leafKey);
     } else {
-      // Add child
-      selectedChildren = [...selectedChildren, child];
-      this.selections.set(parent, selectedChildren);
+      this.selected.add(leafKey);
     }
 
-    console.log(`[Helper] toggleChild(${parent}, ${child}): Now ${this.selections.get(parent)?.length || 0} selected`);
+    console.log(`[Helper] toggleChild(${leafKey}): Now ${this.selected.size} selected`);
   }
 
   /**
-   * Toggle a parent (affects ALL children)
+   * Toggle a node (cascades to every leaf under it, all levels down)
    * Clicking indeterminate or unchecked → select all
    * Clicking checked → deselect all
    */
-  toggleParent(parentValue: string): void {
-    const allChildren = this.getChildren(parentValue);
-    const currentState = this.getParentState(parentValue);
+  toggleNode(nodeKey: string): void {
+    const entry = this.nodes.get(nodeKey);
+    if (!entry) {
+      return;
+    }
 
-    if (currentState === 'checked') {
-      // Deselect all children - remove parent entry
-      this.selections.delete(parentValue);
-      console.log(`[Helper] toggleParent(${parentValue}): Deselected all (removed from Map)`);
+    if (this.getNodeState(nodeKey) === 'checked') {
+      entry.leafKeys.forEach(leafKey => this.selected.delete(leafKey));
+      console.log(`[Helper] toggleNode(${nodeKey}): Deselected all ${entry.leafKeys.size} leaves`);
     } else {
-      // Select all children (works for both unchecked and indeterminate)
-      const allChildValues = allChildren.map(child => (child as any)[this.childKey]);
-      this.selections.set(parentValue, allChildValues);
-      console.log(`[Helper] toggleParent(${parentValue}): Selected all ${allChildValues.length} children`);
+      entry.leafKeys.forEach(leafKey => this.selected.add(leafKey));
+      console.log(`[Helper] toggleNode(${nodeKey}): Selected all ${entry.leafKeys.size} leaves`);
     }
   }
 
+  /**
+   * Toggle a parent (top-level node, affects ALL children)
+   */
+  toggleParent(parentValue: string): void {
+    this.toggleNode(toPathKey([parentValue]));
+  }
+
   /**
    * Clear all selections
    */
   clearAll(): void {
-    this.selections.clear();
+    this.selected.clear();
+    this.unresolved.clear();
   }
 
   /**
    * Get all selected keys (for compatibility with SelectionChangeEvent)
-   * Returns Set<string> with "parent|child" format
+   * Returns leaf path keys ("parent|child" for two levels) plus partial keys
+   * that matched no data
    */
   getSelectedKeys(): Set<string> {
-    const keys = new Set<string>();
-
-    this.selections.forEach((children, parent) => {
-      children.forEach(child => {
-        keys.add(`${parent}|${child}`);
-      });
-    });
-
-    return keys;
+    return new Set([...this.selected, ...this.unresolved]);
   }
 
   /**
@@ -194,46 +304,134 @@ export class HierarchicalSelectionHelper<T = any> {
 
   /**
    * Set selected keys (for hydration from URL)
-   * Accepts Set<string> or string[] with "parent|child" format
+   * Accepts leaf keys ("Ford|F-150|2022") and partial keys of any depth
+   * ("Ford|F-150" = every F-150 row, "Ford" = every Ford row)
+   * Keys are re-encoded, so legacy keys with a stray '\' still match their rows
    */
   setSelectedKeys(keys: Set<string> | string[]): void {
-    this.selections.clear();
+    this.clearAll();
 
     const keysArray = Array.isArray(keys) ? keys : Array.from(keys);
 
-    keysArray.forEach(key => {
-      const [parent, child] = key.split('|');
-      if (parent && child) {
-        const selectedChildren = this.selections.get(parent) || [];
-        if (!selectedChildren.includes(child)) {
-          selectedChildren.push(child);
-          this.selections.set(parent, selectedChildren);
-        }
+    keysArray.forEach(rawKey => {
+      const path = fromPathKey(rawKey);
+      if (path.length > this.levelKeys.length || path.some(value => value === '')) {
+        console.warn(`[Helper] setSelectedKeys: Ignoring key "${rawKey}" (expected up to ${this.levelKeys.length} values)`);
+        return;
+      }
+
+      const key = toPathKey(path);
+
+      if (path.length === this.levelKeys.length) {
+        this.selected.add(key);
+        return;
+      }
+
+      const entry = this.nodes.get(key);
+      if (entry) {
+        entry.leafKeys.forEach(leafKey => this.selected.add(leafKey));
+      } else {
+        this.unresolved.add(key);
       }
     });
 
-    console.log(`[Helper] setSelectedKeys: Hydrated ${keysArray.length} keys into Map:`, Object.fromEntries(this.selections));
+    console.log(`[Helper] setSelectedKeys: Hydrated ${keysArray.length} keys into ${this.selected.size} selections (${this.unresolved.size} unresolved)`);
   }
 
   /**
-   * Get selection count (total number of selected children)
+   * Get selection count (selected leaves plus unresolved partial keys)
    */
   getSelectionCount(): number {
-    let count = 0;
-    this.selections.forEach(children => {
-      count += children.length;
-    });
-    return count;
+    return this.selected.size + this.unresolved.size;
   }
 
   /**
-   * Get unique parent values
+   * Get unique parent values (top level)
    */
   getUniqueParents(): string[] {
-    const parents = new Set<string>();
+    return this.getChildNodes().map(node => node.value);
+  }
+
+  /**
+   * Get the rendered lines: each node, followed by its child nodes or
+   * (at the level above the leaves) its data rows
+   */
+  getLines(): HierarchyLine<T>[] {
+    if (!this.lines) {
+      this.lines = [];
+      this.appendLines(this.getChildNodes(), this.lines);
+    }
+    return this.lines;
+  }
+
+  /**
+   * Values of an item, one per level
+   */
+  private getPath(item: T): string[] {
+    return this.levelKeys.map(key => String((item as any)?.[key] ?? ''));
+  }
+
+  /**
+   * Build the node index (nodes in order of their first row)
+   */
+  private buildIndex(): void {
     this.data.forEach(item => {
-      parents.add((item as any)[this.parentKey]);
+      const path = this.getPath(item);
+      const leafKey = toPathKey(path);
+
+      for (let depth = 0; depth < path.length - 1; depth++) {
+        const nodePath = path.slice(0, depth + 1);
+        const nodeKey = toPathKey(nodePath);
+        let entry = this.nodes.get(nodeKey);
+
+        if (!entry) {
+          const node: HierarchyNode = { key: nodeKey, value: path[depth], path: nodePath, depth };
+          entry = { node, leafKeys: new Set(), rows: [] };
+          this.nodes.set(nodeKey, entry);
+
+          const parentKey = depth === 0 ? '' : toPathKey(path.slice(0, depth));
+          const siblings = this.childNodes.get(parentKey) || [];
+          siblings.push(node);
+          this.childNodes.set(parentKey, siblings);
+        }
+
+        entry.leafKeys.add(leafKey);
+        entry.rows.push(item);
+      }
+    });
+  }
+
+  /**
+   * Append the lines of a set of sibling nodes (depth-first)
+   */
+  private appendLines(nodes: HierarchyNode[], lines: HierarchyLine<T>[]): void {
+    nodes.forEach(node => {
+      lines.push({ kind: 'node', node });
+
+      const childNodes = this.getChildNodes(node.key);
+      if (childNodes.length > 0) {
+        this.appendLines(childNodes, lines);
+      } else {
+        this.getRowsUnder(node.key).forEach(row => lines.push({ kind: 'leaf', row, depth: node.depth + 1 }));
+      }
     });
-    return Array.from(parents);
   }
 }
+
+// ============================================================================
+// PRIVATE HELPERS
+// ============================================================================
+
+/**
+ * Path key of a value path ("Ford|F-150|2022")
+ */
+function toPathKey(path: string[]): string {
+  return encodeSelectionKey(path);
+}
+
+/**
+ * Value path of a path key
+ */
+function fromPathKey(key: string): string[] {
+  return decodeSelectionKey(key);
+}
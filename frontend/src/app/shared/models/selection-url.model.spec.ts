@@ -0,0 +1,115 @@
+import {
+  COMPACT_SELECTION_PREFIX,
+  DEFAULT_COMPACT_SELECTION_THRESHOLD,
+  decodeSelectionParam,
+  encodeSelectionParam,
+  isCompactSelectionParam
+} from './selection-url.model';
+
+describe('selection URL param codec', () => {
+  /**
+   * n models per manufacturer, m manufacturers ("Manufacturer 1|Model 1", ...)
+   */
+  function buildKeys(manufacturers: number, models: number): string[] {
+    const keys: string[] = [];
+    for (let i = 1; i <= manufacturers; i++) {
+      for (let j = 1; j <= models; j++) {
+        keys.push(`Manufacturer ${i}|Model ${j}`);
+      }
+    }
+    return keys;
+  }
+
+  function encodedLength(keys: string[]): number {
+    return encodeURIComponent(keys.join(',')).length;
+  }
+
+  describe('readable form', () => {
+    it('should join small selections with commas', () => {
+      expect(encodeSelectionParam(['Ford|F-150', 'Ford|Ranger'])).toBe('Ford|F-150,Ford|Ranger');
+    });
+
+    it('should return an empty string for no keys', () => {
+      expect(encodeSelectionParam([])).toBe('');
+      expect(encodeSelectionParam(['', ''])).toBe('');
+    });
+
+    it('should decode comma-separated keys, trimming and dropping empties', () => {
+      expect(decodeSelectionParam(' Ford|F-150 ,,Chevrolet ')).toEqual(['Ford|F-150', 'Chevrolet']);
+      expect(decodeSelectionParam('')).toEqual([]);
+      expect(decodeSelectionParam(null)).toEqual([]);
+      expect(decodeSelectionParam(undefined)).toEqual([]);
+    });
+
+    it('should force the compact form for keys starting with the compact prefix', () => {
+      const param = encodeSelectionParam(['~Tilde|Model']);
+
+      expect(isCompactSelectionParam(param)).toBe(true);
+      expect(decodeSelectionParam(param)).toEqual(['~Tilde|Model']);
+    });
+  });
+
+  describe('compact form', () => {
+    it('should decode the documented example', () => {
+      expect(decodeSelectionParam('~Rm9yZChGLTE1MCxSYW5nZXIpLENoZXZyb2xldChDb3J2ZXR0ZSk'))
+        .toEqual(['Ford|F-150', 'Ford|Ranger', 'Chevrolet|Corvette']);
+    });
+
+    it('should factor shared prefixes', () => {
+      const keys = ['Ford|F-150', 'Ford|Ranger', 'Ford|Maverick', 'Ford|Bronco'];
+      const param = encodeSelectionParam(keys, { compactThreshold: 0 });
+
+      expect(param).toBe('~' + btoa('Ford(F-150,Ranger,Maverick,Bronco)').replace(/=+$/, ''));
+      expect(decodeSelectionParam(param)).toEqual(keys);
+    });
+
+    it('should stay readable at the default threshold and compact just above it', () => {
+      let count = 1;
+      while (encodedLength(buildKeys(1, count + 1)) <= DEFAULT_COMPACT_SELECTION_THRESHOLD) {
+        count++;
+      }
+      const atThreshold = buildKeys(1, count);
+      const aboveThreshold = buildKeys(1, count + 1);
+
+      expect(encodedLength(atThreshold)).toBeLessThanOrEqual(DEFAULT_COMPACT_SELECTION_THRESHOLD);
+      expect(isCompactSelectionParam(encodeSelectionParam(atThreshold))).toBe(false);
+
+      const compact = encodeSelectionParam(aboveThreshold);
+      expect(compact.startsWith(COMPACT_SELECTION_PREFIX)).toBe(true);
+      expect(compact.length).toBeLessThan(encodedLength(aboveThreshold));
+      expect(decodeSelectionParam(compact)).toEqual(aboveThreshold);
+    });
+
+    it('should keep the readable form when compacting would not be shorter', () => {
+      expect(encodeSelectionParam(['Ford|F-150'], { compactThreshold: 0 })).toBe('Ford|F-150');
+    });
+
+    it('should round-trip large multi-level selections', () => {
+      const keys = [...buildKeys(40, 30), 'Ford', 'Ford|F-150', 'Ford|F-150|2022'];
+      const param = encodeSelectionParam(keys);
+
+      expect(isCompactSelectionParam(param)).toBe(true);
+      expect(decodeSelectionParam(param)).toEqual(keys);
+    });
+
+    it('should escape trie syntax characters inside values', () => {
+      const keys = ['Make (US)|Model (2)', 'Make (US)|Golf 2\\,5', 'Other)|x('];
+      const param = encodeSelectionParam(keys, { compactThreshold: 0 });
+
+      expect(decodeSelectionParam(param)).toEqual(keys);
+    });
+
+    it('should use the given level separator', () => {
+      const keys = ['Ford:F-150', 'Ford:Ranger', 'Ford:Maverick'];
+      const param = encodeSelectionParam(keys, { separator: ':', compactThreshold: 0 });
+
+      expect(isCompactSelectionParam(param)).toBe(true);
+      expect(decodeSelectionParam(param, { separator: ':' })).toEqual(keys);
+    });
+
+    it('should decode malformed compact values to no keys', () => {
+      expect(decodeSelectionParam('~not base64!')).toEqual([]);
+      expect(decodeSelectionParam('~' + btoa('Ford(F-150').replace(/=+$/, ''))).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,231 @@
+/*
+  SELECTION URL PARAM CODEC
+
+  PURPOSE:
+  URL encoding of selection keys (BaseTableComponent's selection param, the
+  search page's 'models' param). Small selections stay readable
+  ("Ford|F-150,Ford|Ranger"); above a size threshold the keys are written
+  in a compact form that fits in a URL and is still shareable - everything
+  is in the link itself, nothing is kept in local storage.
+
+  COMPACT FORM:
+  "~" + base64url(UTF-8 of the keys factored by shared prefixes):
+
+    Ford|F-150, Ford|Ranger, Chevrolet|Corvette
+    → Ford(F-150,Ranger),Chevrolet(Corvette)
+    → ~Rm9yZChGLTE1MCxSYW5nZXIpLENoZXZyb2xldChDb3J2ZXR0ZSk
+
+  Each manufacturer is written once instead of once per model; for large
+  selections that more than makes up for base64's overhead (the readable
+  form also pays three characters for every '|', sent as "%7C"). ',', '(', ')' and '\' inside values are escaped with '\'.
+
+  Keys are in the canonical escaped format of selection-key.model.ts; the
+  readable form splits on unescaped commas only.
+
+  KEY CONCEPTS:
+  - decodeSelectionParam() reads both forms, so hydration (e.g.
+    HierarchicalSelectionHelper.setSelectedKeys) never sees the difference
+  - The readable form never starts with "~" (such keys force the compact form)
+  - The compact form is only used when it is actually shorter
+
+  USAGE:
+  const param = encodeSelectionParam(['Ford|F-150', 'Ford|Ranger']);   // "Ford|F-150,Ford|Ranger"
+  decodeSelectionParam(param);                                         // ['Ford|F-150', 'Ford|Ranger']
+  encodeSelectionParam(keys, { separator: ':', compactThreshold: 0 }); // Always compact if shorter
+*/
+
+import {
+  SELECTION_KEY_SEPARATOR,
+  decodeSelectionKey,
+  encodeSelectionKey,
+  joinSelectionKeys,
+  splitSelectionKeys
+} from './selection-key.model';
+
+/**
+ * Marks a compact selection param
+ */
+export const COMPACT_SELECTION_PREFIX = '~';
+
+/**
+ * Default size (URL-encoded characters) above which the compact form is used
+ */
+export const DEFAULT_COMPACT_SELECTION_THRESHOLD = 1500;
+
+/**
+ * Codec options
+ */
+export interface SelectionParamOptions {
+  separator?: string;             // Separator between the levels of a key (default: SELECTION_KEY_SEPARATOR)
+  compactThreshold?: number;      // URL-encoded length above which keys are compacted
+                                  // (default: DEFAULT_COMPACT_SELECTION_THRESHOLD)
+}
+
+/**
+ * ENCODE SELECTION PARAM
+ *
+ * @param keys - Selection keys ("Ford|F-150", or partial keys like "Ford")
+ * @param options - Level separator and compact threshold
+ * @returns Comma-separated keys, or the compact form for large selections ('' when empty)
+ */
+export function encodeSelectionParam(keys: Iterable<string>, options: SelectionParamOptions = {}): string {
+  const list = Array.from(keys).filter(key => key.length > 0);
+  if (list.length === 0) {
+    return '';
+  }
+
+  const separator = options.separator ?? SELECTION_KEY_SEPARATOR;
+  const threshold = options.compactThreshold ?? DEFAULT_COMPACT_SELECTION_THRESHOLD;
+  const readable = joinSelectionKeys(list);
+  const mustCompact = readable.startsWith(COMPACT_SELECTION_PREFIX);
+
+  if (!mustCompact && encodeURIComponent(readable).length <= threshold) {
+    return readable;
+  }
+
+  const compact = COMPACT_SELECTION_PREFIX + toBase64Url(writeTrie(buildTrie(list, separator)));
+  return mustCompact || compact.length < encodeURIComponent(readable).length ? compact : readable;
+}
+
+/**
+ * DECODE SELECTION PARAM
+ * Reads both the readable and the compact form
+ *
+ * @param value - URL param value
+ * @param options - Level separator (must match the one used to encode)
+ * @returns Selection keys (empty for a missing or malformed value)
+ */
+export function decodeSelectionParam(value: string | null | undefined, options: SelectionParamOptions = {}): string[] {
+  if (!value || value.trim() === '') {
+    return [];
+  }
+
+  if (!isCompactSelectionParam(value)) {
+    return splitSelectionKeys(value);
+  }
+
+  try {
+    const text = fromBase64Url(value.slice(COMPACT_SELECTION_PREFIX.length));
+    return readTrie(text, options.separator ?? SELECTION_KEY_SEPARATOR);
+  } catch (error) {
+    console.warn('[SelectionUrl] Ignoring malformed compact selection param:', error);
+    return [];
+  }
+}
+
+/**
+ * Is the value in the compact form?
+ */
+export function isCompactSelectionParam(value: string | null | undefined): boolean {
+  return !!value && value.startsWith(COMPACT_SELECTION_PREFIX);
+}
+
+// ============================================================================
+// PRIVATE HELPERS
+// ============================================================================
+
+/**
+ * Prefix tree of keys (children in first-seen order)
+ */
+interface TrieNode {
+  terminal: boolean;              // The path down to this node is itself a key
+  children: Map<string, TrieNode>;
+}
+
+const SPECIAL_CHARS = /[\\,()]/g;
+
+function buildTrie(keys: string[], separator: string): TrieNode {
+  const root: TrieNode = { terminal: false, children: new Map() };
+
+  keys.forEach(key => {
+    let node = root;
+    decodeSelectionKey(key, separator).forEach(part => {
+      let child = node.children.get(part);
+      if (!child) {
+        child = { terminal: false, children: new Map() };
+        node.children.set(part, child);
+      }
+      node = child;
+    });
+    node.terminal = true;
+  });
+
+  return root;
+}
+
+/**
+ * "name" for a key, "name(children)" for a prefix, both when it is both
+ */
+function writeTrie(node: TrieNode): string {
+  const items: string[] = [];
+
+  node.children.forEach((child, part) => {
+    const name = part.replace(SPECIAL_CHARS, char => '\\' + char);
+    if (child.terminal) {
+      items.push(name);
+    }
+    if (child.children.size > 0) {
+      items.push(`${name}(${writeTrie(child)})`);
+    }
+  });
+
+  return items.join(',');
+}
+
+/**
+ * Parse writeTrie() output back to keys (throws on malformed input)
+ */
+function readTrie(text: string, separator: string): string[] {
+  const keys: string[] = [];
+  let pos = 0;
+
+  const readList = (prefix: string[]): void => {
+    for (;;) {
+      let name = '';
+      while (pos < text.length && !',()'.includes(text[pos])) {
+        if (text[pos] === '\\') {
+          pos++;
+          if (pos >= text.length) {
+            throw new Error('Dangling escape');
+          }
+        }
+        name += text[pos++];
+      }
+
+      const path = [...prefix, name];
+      if (text[pos] === '(') {
+        pos++;
+        readList(path);
+        if (text[pos++] !== ')') {
+          throw new Error('Unclosed group');
+        }
+      } else {
+        keys.push(encodeSelectionKey(path, separator));
+      }
+
+      if (text[pos] !== ',') {
+        return;
+      }
+      pos++;
+    }
+  };
+
+  readList([]);
+  if (pos !== text.length) {
+    throw new Error(`Unexpected "${text[pos]}" at ${pos}`);
+  }
+
+  return keys;
+}
+
+function toBase64Url(text: string): string {
+  let binary = '';
+  new TextEncoder().encode(text).forEach(byte => binary += String.fromCharCode(byte));
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+function fromBase64Url(value: string): string {
+  const binary = atob(value.replace(/-/g, '+').replace(/_/g, '/'));
+  const bytes = Uint8Array.from(binary, char => char.charCodeAt(0));
+  return new TextDecoder('utf-8', { fatal: true }).decode(bytes);
+}
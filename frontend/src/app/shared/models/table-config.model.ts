@@ -12,6 +12,10 @@
   - Expandable: ExpandableConfig.enabled = true
 */
 
+import { ColumnFilter, ColumnFilterOperator } from './column-filter.model';
+import { ExportFormat } from './table-export.model';
+import { ParentCheckboxMode } from './selection-state.model';
+
 /**
  * COLUMN TYPE
  * Determines how the column value is rendered
@@ -35,6 +39,8 @@ export interface TableColumn {
   width?: string;                 // Column width (e.g., '150px', '20%')
   sortable?: boolean;             // Enable column sorting
   filterable?: boolean;           // Enable column filtering
+  filterOperator?: ColumnFilterOperator;  // Filter operator (default: from type, see column-filter.model)
+  filterOptions?: readonly string[];      // Values offered by an 'in' filter (implies 'in')
   visible?: boolean;              // Column visibility (default: true)
   locked?: boolean;               // Prevent reordering/hiding (e.g., checkbox column)
   resizable?: boolean;            // Allow width resizing in ColumnManager (default: true)
@@ -43,6 +49,9 @@ export interface TableColumn {
   // Formatting
   dateFormat?: string;            // Date format string (for type: 'date')
   numberFormat?: string;          // Number format string (for type: 'number')
+  format?: {
+    useGrouping?: boolean;        // Thousands separators for number/currency (default: true; false for years, IDs)
+  };
 
   // Template slot
   templateName?: string;          // ng-template reference (for type: 'template')
@@ -55,6 +64,16 @@ export interface TableColumn {
   };
 }
 
+/**
+ * SORT CRITERION
+ * One entry of a (multi-column) sort, in priority order
+ * URL format: sort=manufacturer:asc,model:asc,year:desc
+ */
+export interface SortCriterion {
+  field: string;                  // Column key
+  order: 'asc' | 'desc';          // Direction
+}
+
 /**
  * SELECTION MODE
  * How many rows can be selected
@@ -81,10 +100,13 @@ export interface SelectionConfig {
   // Hierarchical selection (parent-child checkboxes)
   hierarchical?: {
     enabled: boolean;                         // Enable parent-child checkbox pattern
-    parentKey: string;                        // Property that groups children (e.g., 'manufacturer')
-    childKey: string;                         // Property that identifies children (e.g., 'model')
+    parentKey?: string;                       // Property that groups children (e.g., 'manufacturer')
+    childKey?: string;                        // Property that identifies children (e.g., 'model')
+    levels?: string[];                        // N levels, top first (e.g., ['manufacturer', 'model', 'year']);
+                                              // overrides parentKey/childKey (= levels: [parentKey, childKey])
     parentColumn?: number;                    // Column index for parent checkbox (dual mode)
     childColumn?: number;                     // Column index for child checkbox (dual mode)
+    parentCheckbox?: ParentCheckboxMode;      // 'binary' (default) or 'tri-state' (partial selection shows indeterminate)
   };
 
   // Apply button (for pickers)
@@ -99,7 +121,9 @@ export interface SelectionConfig {
   clearButton?: boolean;                      // Show "Clear All" button
 
   // URL-first state management (optional - enables URL persistence)
-  urlParam?: string;                          // Query param name (e.g., 'models', 'manufacturers')
+  urlParam?: string;                          // Query param name (e.g., 'models', 'manufacturers'; default: namespaced 'selected')
+  urlCompactThreshold?: number;               // URL-encoded length above which the selection is written compactly
+                                              // (default: 1500; see selection-url.model.ts)
   serializer?: (selectedItems: any[]) => string;  // Convert selections to URL string
   deserializer?: (urlValue: string) => any[];     // Parse URL string to selections
   keyGenerator?: (item: any) => string;           // Generate key from item (e.g., 'Ford|F-150')
@@ -115,14 +139,79 @@ export interface ExpandableConfig {
   collapseIcon?: string;                      // PrimeNG icon class (default: 'pi pi-chevron-down')
 
   // Sub-table configuration
-  subTable?: {
-    columns: TableColumn[];                   // Columns for expanded sub-table
-    dataKey: string;                          // Property name for sub-data (or use API)
-    api?: {
-      endpoint: string;                       // API endpoint for fetching sub-data
-      paramMapper?: (parentRow: any) => any;  // Map parent row to API params
-    };
+  subTable?: SubTableConfig;
+}
+
+/**
+ * SUB-TABLE CONFIGURATION
+ * What an expanded row shows and where its rows come from
+ *
+ * DATA SOURCES (checked in order):
+ * 1. parentRow[dataKey] - sub-rows embedded in the parent row
+ * 2. apiConfigRef       - fetched on expand through ApiConfigRegistryService (recommended)
+ * 3. api.endpoint       - fetched on expand from a direct URL (legacy)
+ *
+ * PAGING:
+ * - Array response without totalKey → full list, paged client-side
+ * - Array response with totalKey → one page, total read from parentRow[totalKey]
+ * - { results|data, total } response → one page, total from the response
+ */
+export interface SubTableConfig {
+  columns: TableColumn[];                     // Columns for expanded sub-table
+  dataKey?: string;                           // Property name for embedded sub-data
+
+  // Configuration-driven API (references ApiConfig by ID)
+  apiConfigRef?: SubTableApiConfigRef;
+
+  // Direct endpoint (legacy)
+  api?: {
+    endpoint: string;                         // API endpoint for fetching sub-data
+    paramMapper?: (parentRow: any, request: SubTableRequestState) => any;  // Map parent row to API params
   };
+
+  totalKey?: string;                          // Parent row property with total sub-row count (e.g. 'instance_count')
+
+  // Paging inside the expanded row (independent of the parent table and the URL)
+  pagination?: {
+    enabled: boolean;
+    pageSize?: number;                        // Sub-rows per page (default: 10)
+    pageSizeOptions?: number[];               // Page size dropdown options (default: [10, 25, 50])
+  };
+
+  // Scroll client-side sub-rows instead of paging them (server-paged sub-tables keep their paginator)
+  virtualScroll?: VirtualScrollConfig;
+}
+
+/**
+ * SUB-TABLE API CONFIGURATION REFERENCE
+ * Like ApiConfigRef, but params are derived from the expanded parent row
+ *
+ * @example
+ * apiConfigRef: {
+ *   configId: 'vehicles',
+ *   endpointId: 'vinInstances',
+ *   paramMapper: (row, { page, size }) => ({
+ *     manufacturer: row.manufacturer,
+ *     model: row.model,
+ *     page,
+ *     limit: size
+ *   })
+ * }
+ */
+export interface SubTableApiConfigRef {
+  configId: string;                           // ApiConfig.id (e.g. 'vehicles')
+  endpointId: string;                         // Endpoint key (e.g. 'vinInstances')
+  paramMapper?: (parentRow: any, request: SubTableRequestState) => any;  // Default: { page, size }
+  responseTransformer?: (response: any) => any;  // Applied after the endpoint's transformResponse
+}
+
+/**
+ * SUB-TABLE REQUEST STATE
+ * Paging state of one expanded row, passed to sub-table paramMappers
+ */
+export interface SubTableRequestState {
+  page: number;                               // 1-indexed page
+  size: number;                               // Sub-rows per page
 }
 
 /**
@@ -138,6 +227,99 @@ export interface PaginationConfig {
   currentPageReportTemplate?: string;         // Template for page report (default: 'Showing {first} to {last} of {totalRecords} entries')
 }
 
+/**
+ * VIRTUAL SCROLL CONFIGURATION
+ * Renders only the rows inside a scrolling viewport; replaces pagination.
+ * Paginated API endpoints are read in windows of rows as they scroll into view
+ * (full-list responses and static data are virtualized client-side).
+ */
+export interface VirtualScrollConfig {
+  enabled: boolean;                           // Enable virtual scrolling
+  rowHeight?: number;                         // Row height in px (default: 44)
+  fixedRowHeight?: boolean;                   // false = rowHeight is an estimate, refined from rendered rows (default: true)
+  expandedRowHeight?: number;                 // Estimated expanded-row height until measured (default: 320)
+  viewportHeight?: string;                    // Scroll viewport height (default: '500px')
+  bufferRows?: number;                        // Extra rows rendered above/below the viewport (default: 10)
+  windowSize?: number;                        // Rows per lazy API request (default: 100)
+}
+
+/**
+ * COLUMN MANAGER CONFIGURATION
+ * Adds a toolbar button that opens ColumnManagerComponent, and lets users
+ * drag headers to reorder and drag header edges to resize. Preferences are
+ * saved per table id (ColumnPreferencesService: columnPrefs_<id>) and applied
+ * on init. Column flags: locked (always shown, fixed position),
+ * reorderable: false (fixed position), resizable: false (configured width).
+ */
+export interface ColumnManagerConfig {
+  enabled: boolean;                           // Show the button and apply saved preferences
+  buttonLabel?: string;                       // Toolbar button text (default: 'Columns')
+}
+
+/**
+ * URL STATE CONFIGURATION
+ * The table's URL params (page, pageSize, sort, f_*, default selection param)
+ * are scoped to a namespace, so several tables can share one route:
+ * ?manufacturer-model-picker.page=2&vehicle-results-table.sort=year:desc
+ *
+ * An alias shortens the prefix; the empty alias writes bare names (?page=2),
+ * for the one primary table of a route. Params under the full namespace are
+ * still read (see UrlStateService namespace methods).
+ */
+export interface TableUrlStateConfig {
+  namespace?: string;                         // Param prefix (default: TableConfig.id)
+  alias?: string;                             // Short prefix written to the URL ('' = bare param names)
+}
+
+/**
+ * EXPORT CONFIGURATION
+ * Adds an Export button to the toolbar. Files are built in the browser from
+ * the visible columns (display order) with active filters and sort applied.
+ * Server-paged tables can also export all pages; tables with a sub-table can
+ * include each row's sub-rows. Both are fetched through the table's own
+ * API configuration and capped at maxRows lines.
+ */
+export interface TableExportConfig {
+  enabled: boolean;                           // Show the Export button
+  formats?: ExportFormat[];                   // Offered formats (default: ['csv', 'xlsx', 'json'])
+  fileName?: string;                          // File name stem (default: table id); date is appended
+  pageSize?: number;                          // Rows per request when fetching pages (default: 500)
+  maxRows?: number;                           // Most lines (rows + sub-rows) in one file (default: 10000)
+}
+
+/**
+ * AGGREGATE FUNCTION
+ * - count: non-empty values
+ * - sum / min / max / avg: numeric values (non-numeric cells are skipped)
+ */
+export type AggregateFunction = 'count' | 'sum' | 'min' | 'max' | 'avg';
+
+/**
+ * Aggregates of one column (shown in that column of the footer rows)
+ */
+export interface ColumnAggregate {
+  key: string;                                // Column key
+  functions: AggregateFunction[];             // Shown in this order
+}
+
+/**
+ * ROW GROUPING CONFIGURATION
+ * Groups rows by one or more columns (outermost first) under collapsible
+ * group headers, with aggregate footer rows per group and for the table.
+ * Groups keep the order of their first row, so the active sort orders them.
+ * Client-side data (static data, full-list API responses) is grouped as a
+ * whole; server-paged tables group the rows of the current page.
+ * Not combined with hierarchical selection or virtual scroll.
+ */
+export interface RowGroupingConfig {
+  enabled: boolean;
+  groupBy: string[];                          // Column keys, e.g. ['manufacturer', 'model']
+  aggregates?: ColumnAggregate[];             // Footer aggregates (none = no footer rows)
+  collapsed?: boolean;                        // Groups start collapsed (default: false)
+  groupFooter?: boolean;                      // Aggregate row under each group (default: true)
+  tableFooter?: boolean;                      // Aggregate row for the whole table (default: true)
+}
+
 /**
  * TABLE API CONFIGURATION (Legacy)
  * How to fetch data from backend - table-specific configuration
@@ -186,8 +368,34 @@ export interface ApiConfigRef {
   /**
    * Optional parameter mapper
    * Transform table state to API request parameters
+   * If omitted, page/size/sortBy/sortOrder are sent (BaseFilters shape)
+   * Return null when no row can match (e.g. contradictory criteria): the
+   * table shows an empty result without calling the API
    */
-  paramMapper?: (tableState: any) => any;
+  paramMapper?: (tableState: TableRequestState) => any;
+
+  /**
+   * Optional response transformer
+   * Applied AFTER the endpoint's own transformResponse
+   * Use when the endpoint's shape doesn't match table rows
+   * (e.g. flattening manufacturer -> models[] into one row per model)
+   */
+  responseTransformer?: (response: any) => any;
+}
+
+/**
+ * TABLE REQUEST STATE
+ * Snapshot of table state passed to ApiConfigRef.paramMapper
+ * Page is 1-indexed (matches BaseFilters and the URL)
+ */
+export interface TableRequestState {
+  page: number;                               // Current page (1-indexed)
+  size: number;                               // Page size
+  sortBy?: string;                            // Primary sort column
+  sortOrder?: 'asc' | 'desc';                 // Primary sort direction
+  sort?: SortCriterion[];                     // Full sort list, highest priority first
+  filters?: Record<string, ColumnFilter>;     // Active column filters (typed by operator)
+  queryParams: Record<string, any>;           // Full URL query params (for route-level filters)
 }
 
 /**
@@ -202,6 +410,12 @@ export interface TableConfig<T = any> {
   selection?: SelectionConfig;                // Checkbox selection
   expandable?: ExpandableConfig;              // Row expansion
   pagination?: PaginationConfig;              // Pagination
+  virtualScroll?: VirtualScrollConfig;        // Virtual scrolling (replaces pagination when enabled)
+  columnManager?: ColumnManagerConfig;        // User column order/visibility/width
+  export?: TableExportConfig;                 // CSV/XLSX/JSON download
+  grouping?: RowGroupingConfig;               // Group rows by columns, aggregate footers
+  defaultSort?: SortCriterion[];              // Sort when the URL has none (omitted from the URL; a cleared sort is written as sort=-)
+  urlState?: TableUrlStateConfig;             // URL param namespace (default: id)
 
   // Data source (choose ONE)
   api?: TableApiConfig;                       // Legacy API configuration
@@ -0,0 +1,76 @@
+/*
+  TABLE EXPORT MODELS
+
+  PURPOSE:
+  What BaseTableComponent hands to TableExportService when the user exports:
+  the visible columns (in display order) and the rows as cells, each cell
+  carrying both its display text and its typed value. The service picks
+  what each format needs:
+
+  - CSV:  display text (what the table shows: "$12,500.00", "Jan 5, 2024")
+  - XLSX: numbers as numeric cells (number/currency columns), text otherwise
+  - JSON: typed values ({ "estimated_value": 12500, "manufacturer": "Ford" })
+
+  SUB-ROWS:
+  With sub-rows (e.g. VIN instances of a vehicle), CSV/XLSX repeat the
+  parent's cells on every sub-row line (one flat sheet); JSON nests them
+  under each parent record as "subRows".
+*/
+
+import { ColumnType } from './table-config.model';
+
+/**
+ * File format
+ */
+export type ExportFormat = 'csv' | 'xlsx' | 'json';
+
+/**
+ * Which rows to export
+ * - view: rows the table holds (filters/sort applied; server-paged tables: the current page)
+ * - all:  every page of a server-paged table (fetched page by page)
+ */
+export type ExportScope = 'view' | 'all';
+
+/**
+ * Options chosen in the export panel
+ */
+export interface TableExportOptions {
+  format: ExportFormat;
+  scope: ExportScope;
+  includeSubRows: boolean;
+}
+
+/**
+ * One exported column
+ */
+export interface ExportColumn {
+  key: string;
+  label: string;
+  type: ColumnType;
+}
+
+/**
+ * One exported cell
+ */
+export interface ExportCell {
+  text: string;                               // Display text (formatted by column type)
+  value: string | number | boolean | null;    // Typed value (number/currency → number, boolean → boolean)
+}
+
+/**
+ * One exported row (with its sub-rows, if requested)
+ */
+export interface ExportRow {
+  cells: ExportCell[];
+  subRows?: ExportCell[][];
+}
+
+/**
+ * Everything needed to write the file
+ */
+export interface ExportTable {
+  name: string;                               // Sheet name / file name stem
+  columns: ExportColumn[];
+  subColumns: ExportColumn[];                 // Empty without sub-rows
+  rows: ExportRow[];
+}
@@ -0,0 +1,118 @@
+/*
+  VIRTUAL SCROLL MODELS
+
+  PURPOSE:
+  Window math for BaseTableComponent's virtual scroll mode. The table flattens
+  what it would render (parent rows, data rows, expanded rows, not-yet-loaded
+  placeholders) into a VirtualRow list; VirtualScrollWindow turns a scroll
+  position into the slice of that list to render plus the spacer heights
+  that stand in for everything above and below it.
+
+  KEY CONCEPTS:
+  - Heights are per item, so expanded rows can be taller than data rows
+  - Offsets are prefix sums: offsets[i] = top of item i, offsets[n] = total height
+  - Lookup is a binary search over offsets (O(log n) per scroll event)
+*/
+
+import { HierarchyNode } from './selection-state.model';
+
+/**
+ * VIRTUAL ROW KIND
+ * - parent:      single-selector node row of any level above the data rows (node)
+ * - child:       single-selector child row (row)
+ * - row:         data row of a dual-selector or simple table (row)
+ * - expanded:    sub-table of an expanded row (row)
+ * - placeholder: row of a window that hasn't loaded yet (index into the table data)
+ */
+export type VirtualRowKind = 'parent' | 'child' | 'row' | 'expanded' | 'placeholder';
+
+/**
+ * VIRTUAL ROW
+ * One rendered line of a virtual table
+ */
+export interface VirtualRow {
+  kind: VirtualRowKind;
+  row?: any;
+  node?: HierarchyNode;
+  depth?: number;          // child: number of enclosing node rows
+  index?: number;
+}
+
+/**
+ * VISIBLE RANGE
+ * Items [start, end) are rendered between two spacers
+ */
+export interface VirtualRange {
+  start: number;
+  end: number;
+  offsetTop: number;       // Height of the spacer above the rendered items
+  offsetBottom: number;    // Height of the spacer below the rendered items
+}
+
+/**
+ * VIRTUAL SCROLL WINDOW
+ *
+ * @example
+ * const window = new VirtualScrollWindow([44, 44, 320, 44], 2);
+ * window.getRange(100, 500);   // { start: 0, end: 4, offsetTop: 0, offsetBottom: 0 }
+ */
+export class VirtualScrollWindow {
+  private offsets: number[];
+
+  constructor(heights: number[], private bufferRows: number) {
+    this.offsets = new Array(heights.length + 1);
+    this.offsets[0] = 0;
+    for (let i = 0; i < heights.length; i++) {
+      this.offsets[i + 1] = this.offsets[i] + heights[i];
+    }
+  }
+
+  /**
+   * Height of all items together (scrollable content height)
+   */
+  get totalHeight(): number {
+    return this.offsets[this.offsets.length - 1];
+  }
+
+  /**
+   * Items to render for a scroll position
+   *
+   * @param scrollTop - Viewport scrollTop (px)
+   * @param viewportHeight - Viewport clientHeight (px)
+   * @returns Visible range including the buffer rows on both sides
+   */
+  getRange(scrollTop: number, viewportHeight: number): VirtualRange {
+    const count = this.offsets.length - 1;
+    const first = this.indexAt(scrollTop);
+    const last = this.indexAt(scrollTop + viewportHeight);
+
+    const start = Math.max(0, first - this.bufferRows);
+    const end = Math.min(count, last + 1 + this.bufferRows);
+
+    return {
+      start,
+      end,
+      offsetTop: this.offsets[start],
+      offsetBottom: this.totalHeight - this.offsets[end]
+    };
+  }
+
+  /**
+   * Index of the item covering a vertical position (clamped to the last item)
+   */
+  private indexAt(position: number): number {
+    let low = 0;
+    let high = this.offsets.length - 2;
+
+    while (low < high) {
+      const mid = (low + high + 1) >> 1;
+      if (this.offsets[mid] <= position) {
+        low = mid;
+      } else {
+        high = mid - 1;
+      }
+    }
+
+    return Math.max(0, low);
+  }
+}
@@ -253,12 +253,15 @@ export class ColumnPreferencesService {
    *
    * @param saved - Previously saved preferences
    * @param currentColumns - Current list of columns
-   * @returns Merged preferences
+   * @returns Merged preferences, in display order (order = index)
    *
    * BEHAVIOR:
    * - Columns that still exist: keep saved preferences
    * - New columns: add with default state
    * - Removed columns: skip (not in merged result)
+   * - Locked columns: always visible, always at their configured position
+   * - reorderable: false columns: always at their configured position
+   * - Other columns take the remaining positions in saved order
    *
    * @example
    * const saved = { columns: [{ key: 'a', visible: true, order: 0 }] };
@@ -268,25 +271,37 @@ export class ColumnPreferencesService {
    */
   mergePreferences(
     saved: ColumnPreferences,
-    currentColumns: Array<{ key: string; visible?: boolean }>
+    currentColumns: Array<{ key: string; visible?: boolean; locked?: boolean; reorderable?: boolean }>
   ): ColumnPreferences {
-    const merged: ColumnState[] = [];
+    const isMovable = (col: { locked?: boolean; reorderable?: boolean }) =>
+      col.locked !== true && col.reorderable !== false;
 
     // Merge existing preferences with current columns
-    currentColumns.forEach((col) => {
+    const states: ColumnState[] = currentColumns.map((col, idx) => {
       const savedState = saved.columns.find((s) => s.key === col.key);
 
       if (savedState) {
-        // Column exists in both: use saved state
-        merged.push(savedState);
-      } else {
-        // New column: add with defaults
-        merged.push({
-          key: col.key,
-          visible: col.visible !== false,
-          order: merged.length
-        });
+        // Column exists in both: use saved state (locked columns can't be hidden)
+        return { ...savedState, visible: col.locked === true || savedState.visible };
       }
+
+      // New column: add with defaults (configured position)
+      return { key: col.key, visible: col.visible !== false, order: idx };
+    });
+
+    // Movable columns in saved order (ties keep configured order)
+    const movable = states
+      .map((state, idx) => ({ state, idx }))
+      .filter(({ idx }) => isMovable(currentColumns[idx]))
+      .sort((a, b) => a.state.order - b.state.order || a.idx - b.idx)
+      .map(({ state }) => state);
+
+    // Fixed columns keep their slot; movable ones fill the rest
+    const merged = currentColumns.map((col, idx) =>
+      isMovable(col) ? movable.shift()! : states[idx]
+    );
+    merged.forEach((state, idx) => {
+      state.order = idx;
     });
 
     return {
@@ -1,2 +1,4 @@
 // Barrel file for shared services
 export * from './column-preferences.service';
+export * from './table-export.service';
+export * from './saved-search.service';
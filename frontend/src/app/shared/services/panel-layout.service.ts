@@ -0,0 +1,223 @@
+/*
+  PANEL LAYOUT SERVICE
+
+  PURPOSE:
+  Persists grid panel layouts (positions, sizes, collapse states) to browser
+  localStorage. Supports several named layouts per workspace so users can
+  switch between arrangements (e.g. "default", "results-focus", "my-layout").
+
+  STORAGE:
+  Uses localStorage with key pattern: panelLayouts_{workspaceId}
+  Example: panelLayouts_workshop
+
+  DATA MODEL:
+  {
+    workspaceId: 'workshop',
+    activeLayout: 'default',
+    layouts: [
+      { name: 'default', items: [{ id: 'picker', x: 0, y: 0, w: 4, h: 8 }, ...] },
+      { name: 'my-layout', label: 'My Layout', items: [...] }
+    ],
+    lastModified: 1731401234567
+  }
+
+  Only layouts the user changed or created are stored. Built-in layouts
+  (from config) are used as-is until the user modifies them.
+
+  URL vs localStorage:
+  - ?layout=<name> selects WHICH layout is shown (shareable)
+  - localStorage holds WHAT each layout looks like (per-browser UI preference)
+
+  USAGE:
+  constructor(private layoutService: PanelLayoutService) {}
+
+  ngOnInit() {
+    const saved = this.layoutService.getLayout('workshop', 'default');
+    this.items = saved ? saved.items : DEFAULT_ITEMS;
+  }
+
+  onLayoutChange(items) {
+    this.layoutService.saveLayout('workshop', { name: 'default', items });
+  }
+*/
+
+import { Injectable } from '@angular/core';
+
+import { PanelLayout } from '../models/panel-layout.model';
+
+/**
+ * All stored layouts for one workspace
+ */
+export interface StoredPanelLayouts {
+  workspaceId: string;      // Which workspace these layouts belong to
+  activeLayout?: string;    // Last layout the user switched to
+  layouts: PanelLayout[];   // User-modified and user-created layouts
+  lastModified: number;     // Timestamp of last modification
+}
+
+/**
+ * PANEL LAYOUT SERVICE
+ *
+ * Manages persistence of named panel layouts to localStorage.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class PanelLayoutService {
+  // Prefix for all panel layout keys in localStorage
+  private readonly STORAGE_PREFIX = 'panelLayouts_';
+
+  /**
+   * LOAD ALL LAYOUTS
+   *
+   * @param workspaceId - The workspace identifier
+   * @returns Stored layouts or null if nothing saved yet
+   */
+  loadLayouts(workspaceId: string): StoredPanelLayouts | null {
+    const key = this.generateKey(workspaceId);
+
+    try {
+      const data = localStorage.getItem(key);
+      if (data) {
+        const stored = JSON.parse(data) as StoredPanelLayouts;
+        if (Array.isArray(stored.layouts)) {
+          return stored;
+        }
+        console.warn('[PanelLayoutService] Ignoring invalid stored layouts for:', workspaceId);
+      }
+    } catch (error) {
+      console.error('[PanelLayoutService] Error loading layouts:', error);
+    }
+
+    return null;
+  }
+
+  /**
+   * GET LAYOUT
+   *
+   * @param workspaceId - The workspace identifier
+   * @param name - Layout name
+   * @returns The stored layout or null if the user never saved it
+   */
+  getLayout(workspaceId: string, name: string): PanelLayout | null {
+    const stored = this.loadLayouts(workspaceId);
+    return stored?.layouts.find(layout => layout.name === name) || null;
+  }
+
+  /**
+   * SAVE LAYOUT
+   *
+   * Adds or replaces a named layout.
+   *
+   * @param workspaceId - The workspace identifier
+   * @param layout - Layout to save
+   *
+   * @example
+   * this.layoutService.saveLayout('workshop', {
+   *   name: 'wide-results',
+   *   label: 'Wide Results',
+   *   items: this.items
+   * });
+   */
+  saveLayout(workspaceId: string, layout: PanelLayout): void {
+    const stored = this.loadLayouts(workspaceId) || this.createEmpty(workspaceId);
+    const layouts = stored.layouts.filter(l => l.name !== layout.name);
+    layouts.push({ ...layout, items: layout.items.map(item => ({ ...item })) });
+
+    this.write(workspaceId, { ...stored, layouts });
+    console.log('[PanelLayoutService] Saved layout:', workspaceId, layout.name);
+  }
+
+  /**
+   * DELETE LAYOUT
+   *
+   * Removes a stored layout. For built-in layouts this resets them to
+   * their configured default; user-created layouts disappear.
+   *
+   * @param workspaceId - The workspace identifier
+   * @param name - Layout name
+   */
+  deleteLayout(workspaceId: string, name: string): void {
+    const stored = this.loadLayouts(workspaceId);
+    if (!stored) {
+      return;
+    }
+
+    const layouts = stored.layouts.filter(l => l.name !== name);
+    const activeLayout = stored.activeLayout === name ? undefined : stored.activeLayout;
+
+    this.write(workspaceId, { ...stored, layouts, activeLayout });
+    console.log('[PanelLayoutService] Deleted layout:', workspaceId, name);
+  }
+
+  /**
+   * GET ACTIVE LAYOUT NAME
+   *
+   * Used when the URL has no ?layout= param.
+   *
+   * @param workspaceId - The workspace identifier
+   * @returns Last active layout name, or null
+   */
+  getActiveLayoutName(workspaceId: string): string | null {
+    return this.loadLayouts(workspaceId)?.activeLayout || null;
+  }
+
+  /**
+   * SET ACTIVE LAYOUT NAME
+   *
+   * @param workspaceId - The workspace identifier
+   * @param name - Layout name
+   */
+  setActiveLayoutName(workspaceId: string, name: string): void {
+    const stored = this.loadLayouts(workspaceId) || this.createEmpty(workspaceId);
+    if (stored.activeLayout === name) {
+      return;
+    }
+    this.write(workspaceId, { ...stored, activeLayout: name });
+  }
+
+  /**
+   * DELETE ALL LAYOUTS
+   *
+   * Removes every stored layout for a workspace (full reset).
+   *
+   * @param workspaceId - The workspace identifier
+   */
+  deleteAllLayouts(workspaceId: string): void {
+    try {
+      localStorage.removeItem(this.generateKey(workspaceId));
+      console.log('[PanelLayoutService] Deleted all layouts for:', workspaceId);
+    } catch (error) {
+      console.error('[PanelLayoutService] Error deleting layouts:', error);
+    }
+  }
+
+  /**
+   * Persist stored layouts (updates timestamp)
+   */
+  private write(workspaceId: string, stored: StoredPanelLayouts): void {
+    try {
+      localStorage.setItem(
+        this.generateKey(workspaceId),
+        JSON.stringify({ ...stored, workspaceId, lastModified: Date.now() })
+      );
+    } catch (error) {
+      console.error('[PanelLayoutService] Error saving layouts:', error);
+    }
+  }
+
+  private createEmpty(workspaceId: string): StoredPanelLayouts {
+    return { workspaceId, layouts: [], lastModified: Date.now() };
+  }
+
+  /**
+   * GENERATE STORAGE KEY
+   *
+   * PATTERN:
+   * Input: 'workshop'
+   * Output: 'panelLayouts_workshop'
+   */
+  private generateKey(workspaceId: string): string {
+    return `${this.STORAGE_PREFIX}${workspaceId}`;
+  }
+}
@@ -0,0 +1,162 @@
+import { Router } from '@angular/router';
+
+import { ColumnPreferences, ColumnPreferencesService } from './column-preferences.service';
+import { MAX_RECENT_SEARCHES, SavedSearchService, SearchSnapshot } from './saved-search.service';
+
+describe('SavedSearchService', () => {
+  const SNAPSHOT: SearchSnapshot = {
+    route: '/search',
+    queryParams: { models: 'Ford:F-150', yearMin: '2020' },
+    columnPreferencesId: 'vehicle-results-table'
+  };
+
+  const PREFS: ColumnPreferences = {
+    tableId: 'vehicle-results-table',
+    columns: [{ key: 'year', visible: true, order: 0 }, { key: 'vin', visible: false, order: 1 }],
+    lastModified: 1
+  };
+
+  // Fake localStorage contents
+  let storage: Record<string, string>;
+  let navigate: jasmine.Spy;
+  let columnPreferences: jasmine.SpyObj<ColumnPreferencesService>;
+  let service: SavedSearchService;
+
+  beforeEach(() => {
+    storage = {};
+    spyOn(localStorage, 'getItem').and.callFake((key: string) => storage[key] ?? null);
+    spyOn(localStorage, 'setItem').and.callFake((key: string, value: string) => {
+      storage[key] = value;
+    });
+
+    jasmine.clock().install();
+    jasmine.clock().mockDate(new Date(2024, 0, 1));
+
+    navigate = jasmine.createSpy('navigate').and.returnValue(Promise.resolve(true));
+    columnPreferences = jasmine.createSpyObj<ColumnPreferencesService>('ColumnPreferencesService', ['loadPreferences', 'savePreferences']);
+    columnPreferences.loadPreferences.and.returnValue(PREFS);
+
+    service = createService();
+  });
+
+  afterEach(() => {
+    jasmine.clock().uninstall();
+  });
+
+  function createService(): SavedSearchService {
+    return new SavedSearchService({ navigate } as unknown as Router, columnPreferences);
+  }
+
+  describe('saved searches', () => {
+    it('should replace a search saved under the same name, ignoring case and spaces', () => {
+      const first = service.saveSearch('Ford trucks', SNAPSHOT, ['trucks'])!;
+      const second = service.saveSearch('  ford TRUCKS ', { ...SNAPSHOT, queryParams: { yearMin: '2022' } })!;
+
+      expect(service.getSavedSearches().length).toBe(1);
+      expect(second.id).toBe(first.id);
+      expect(second.name).toBe('ford TRUCKS');
+      expect(second.queryParams).toEqual({ yearMin: '2022' });
+      expect(second.tags).withContext('kept without new tags').toEqual(['trucks']);
+    });
+
+    it('should not save under an empty name', () => {
+      expect(service.saveSearch('   ', SNAPSHOT)).toBeNull();
+      expect(service.getSavedSearches()).toEqual([]);
+    });
+
+    it('should not rename to a name taken by another search', () => {
+      service.saveSearch('Ford trucks', SNAPSHOT);
+      const other = service.saveSearch('Sedans', SNAPSHOT)!;
+
+      expect(service.renameSearch(other.id, 'FORD trucks')).toBe(false);
+      expect(service.renameSearch(other.id, ' ')).toBe(false);
+      expect(service.renameSearch(other.id, 'sedans')).withContext('own name, other case').toBe(true);
+      expect(service.renameSearch('missing', 'Coupes')).toBe(false);
+      expect(service.getSavedSearches().map(search => search.name)).toEqual(['sedans', 'Ford trucks']);
+    });
+
+    it('should store tags lowercase, trimmed and without duplicates', () => {
+      const search = service.saveSearch('Ford trucks', SNAPSHOT, [' Trucks', 'FORD', 'trucks ', ''])!;
+      expect(search.tags).toEqual(['trucks', 'ford']);
+
+      service.setSearchTags(search.id, ['Pickup', 'pickup', ' 4x4 ']);
+      expect(service.getSavedSearches()[0].tags).toEqual(['pickup', '4x4']);
+      expect(service.getAllTags()).toEqual(['4x4', 'pickup']);
+    });
+
+    it('should copy the column preferences of the results table', () => {
+      const search = service.saveSearch('Ford trucks', SNAPSHOT)!;
+
+      expect(columnPreferences.loadPreferences).toHaveBeenCalledWith('vehicle-results-table');
+      expect(search.columns).toEqual(PREFS.columns);
+      expect(search.columns![0]).not.toBe(PREFS.columns[0]);
+    });
+
+    it('should persist searches to localStorage', () => {
+      service.saveSearch('Ford trucks', SNAPSHOT);
+
+      expect(createService().getSavedSearches().map(search => search.name)).toEqual(['Ford trucks']);
+    });
+  });
+
+  describe('recent searches', () => {
+    it('should move a search run again to the top instead of adding it twice', () => {
+      service.recordRecentSearch(SNAPSHOT);
+      service.recordRecentSearch({ ...SNAPSHOT, queryParams: { yearMin: '2022' } });
+      service.recordRecentSearch({ ...SNAPSHOT, queryParams: { yearMin: '2020', models: 'Ford:F-150', page: undefined } });
+
+      expect(service.getRecentSearches().map(recent => recent.queryParams['yearMin'])).toEqual(['2020', '2022']);
+    });
+
+    it('should dedupe by the given key', () => {
+      service.recordRecentSearch(SNAPSHOT, 'ford');
+      service.recordRecentSearch({ ...SNAPSHOT, queryParams: { ...SNAPSHOT.queryParams, sort: 'year:desc' } }, 'ford');
+
+      expect(service.getRecentSearches().length).toBe(1);
+      expect(service.getRecentSearches()[0].queryParams['sort']).toBe('year:desc');
+    });
+
+    it('should keep the newest MAX_RECENT_SEARCHES searches', () => {
+      for (let i = 0; i <= MAX_RECENT_SEARCHES; i++) {
+        service.recordRecentSearch({ ...SNAPSHOT, queryParams: { yearMin: `${2000 + i}` } });
+      }
+
+      const years = service.getRecentSearches().map(recent => recent.queryParams['yearMin']);
+      expect(years.length).toBe(MAX_RECENT_SEARCHES);
+      expect(years[0]).toBe(`${2000 + MAX_RECENT_SEARCHES}`);
+      expect(years).not.toContain('2000');
+    });
+
+    it('should not copy column preferences', () => {
+      service.recordRecentSearch(SNAPSHOT);
+
+      expect(service.getRecentSearches()[0].columns).toBeUndefined();
+    });
+  });
+
+  describe('openSearch', () => {
+    it('should restore the saved column preferences and navigate', () => {
+      const search = service.saveSearch('Ford trucks', SNAPSHOT)!;
+      jasmine.clock().tick(1000);
+
+      service.openSearch(search);
+
+      expect(columnPreferences.savePreferences).toHaveBeenCalledWith('vehicle-results-table', {
+        tableId: 'vehicle-results-table',
+        columns: PREFS.columns,
+        lastModified: Date.now()
+      });
+      expect(navigate).toHaveBeenCalledWith(['/search'], { queryParams: SNAPSHOT.queryParams });
+      expect(service.getSavedSearches()[0].lastOpened).toBe(Date.now());
+    });
+
+    it('should leave column preferences alone for recent searches', () => {
+      service.recordRecentSearch(SNAPSHOT);
+
+      service.openSearch(service.getRecentSearches()[0]);
+
+      expect(columnPreferences.savePreferences).not.toHaveBeenCalled();
+      expect(navigate).toHaveBeenCalledWith(['/search'], { queryParams: SNAPSHOT.queryParams });
+    });
+  });
+});
@@ -0,0 +1,347 @@
+/*
+  SAVED SEARCH SERVICE
+
+  PURPOSE:
+  Persists searches to browser localStorage so users can reopen them with one
+  click (Home page):
+  - Saved searches: named and tagged by the user (rename, retag, delete)
+  - Recent searches: recorded automatically, newest first, capped
+
+  A search is a snapshot of a route's query state (search criteria, sort,
+  page size, table filters - everything but the page number) plus the id of
+  the results table whose column preferences go with it. Saved searches also
+  keep a copy of those column preferences, restored when the search is opened.
+
+  STORAGE:
+  - savedSearches:  SavedSearch[]
+  - recentSearches: RecentSearch[] (at most MAX_RECENT_SEARCHES)
+
+  DATA MODEL:
+  {
+    id: 'lq3k8x2-4f1a',
+    name: 'Ford trucks',
+    tags: ['trucks', 'ford'],
+    route: '/search',
+    queryParams: { models: 'Ford:F-150,Ford:Ranger', yearMin: '2020', sort: 'year:desc' },
+    columnPreferencesId: 'vehicle-results-table',
+    columns: [{ key: 'year', visible: true, order: 0 }, ...],
+    savedAt: 1731401234567,
+    lastOpened: 1731405678901
+  }
+
+  USAGE:
+  constructor(private savedSearches: SavedSearchService) {}
+
+  save() {
+    this.savedSearches.saveSearch('Ford trucks', this.captureSearch(), ['trucks']);
+  }
+
+  this.savedSearches.savedSearches$.subscribe(list => this.searches = list);
+  this.savedSearches.openSearch(search);   // Navigates to /search?models=...
+*/
+
+import { Injectable } from '@angular/core';
+import { Router } from '@angular/router';
+import { BehaviorSubject, Observable } from 'rxjs';
+
+import { QueryParams } from '../../core/services/url-state.service';
+import { ColumnPreferencesService, ColumnState } from './column-preferences.service';
+
+/**
+ * Most recent searches kept in the history
+ */
+export const MAX_RECENT_SEARCHES = 10;
+
+/**
+ * What a search restores: route + query state (+ column preferences)
+ */
+export interface SearchSnapshot {
+  route: string;                    // Route path (e.g. '/search')
+  queryParams: QueryParams;         // Query state without the page number
+  columnPreferencesId?: string;     // Results table id (ColumnPreferences tableId)
+  columns?: ColumnState[];          // Column preferences at save time (saved searches only)
+}
+
+/**
+ * Named search saved by the user
+ */
+export interface SavedSearch extends SearchSnapshot {
+  id: string;                       // Generated, stable across renames
+  name: string;                     // Unique (case-insensitive)
+  tags: string[];                   // Lowercase, no duplicates
+  savedAt: number;                  // Last time the search was saved
+  lastOpened?: number;
+}
+
+/**
+ * Automatically recorded search
+ */
+export interface RecentSearch extends SearchSnapshot {
+  key: string;                      // Identity in the history (same key → same entry)
+  timestamp: number;                // Last time the search was run
+}
+
+/**
+ * SAVED SEARCH SERVICE
+ *
+ * Manages saved and recent searches in localStorage and reopens them.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class SavedSearchService {
+  private readonly SAVED_KEY = 'savedSearches';
+  private readonly RECENT_KEY = 'recentSearches';
+
+  private savedSubject = new BehaviorSubject<SavedSearch[]>(this.read<SavedSearch>(this.SAVED_KEY));
+  private recentSubject = new BehaviorSubject<RecentSearch[]>(this.read<RecentSearch>(this.RECENT_KEY));
+
+  /**
+   * Saved searches, newest first
+   */
+  public savedSearches$: Observable<SavedSearch[]> = this.savedSubject.asObservable();
+
+  /**
+   * Recent searches, newest first
+   */
+  public recentSearches$: Observable<RecentSearch[]> = this.recentSubject.asObservable();
+
+  constructor(
+    private router: Router,
+    private columnPreferences: ColumnPreferencesService
+  ) {}
+
+  // ============================================================================
+  // SAVED SEARCHES
+  // ============================================================================
+
+  getSavedSearches(): SavedSearch[] {
+    return this.savedSubject.value;
+  }
+
+  /**
+   * SAVE SEARCH
+   *
+   * Saves the snapshot under a name. Saving under an existing name replaces
+   * that search (keeping its id and, unless given, its tags).
+   *
+   * @param name - Display name
+   * @param snapshot - Search to save
+   * @param tags - Optional tags
+   * @returns The saved search, or null for an empty name
+   *
+   * @example
+   * this.savedSearches.saveSearch('Ford trucks', {
+   *   route: '/search',
+   *   queryParams: { models: 'Ford:F-150', yearMin: '2020' },
+   *   columnPreferencesId: 'vehicle-results-table'
+   * }, ['trucks']);
+   */
+  saveSearch(name: string, snapshot: SearchSnapshot, tags?: string[]): SavedSearch | null {
+    const trimmed = name.trim();
+    if (!trimmed) {
+      return null;
+    }
+
+    const existing = this.findByName(trimmed);
+    const prefs = snapshot.columnPreferencesId
+      ? this.columnPreferences.loadPreferences(snapshot.columnPreferencesId)
+      : null;
+
+    const search: SavedSearch = {
+      route: snapshot.route,
+      queryParams: { ...snapshot.queryParams },
+      columnPreferencesId: snapshot.columnPreferencesId,
+      columns: prefs ? prefs.columns.map(column => ({ ...column })) : undefined,
+      id: existing?.id || this.generateId(),
+      name: trimmed,
+      tags: tags ? this.normalizeTags(tags) : existing?.tags || [],
+      savedAt: Date.now()
+    };
+
+    this.writeSaved([search, ...this.getSavedSearches().filter(s => s.id !== search.id)]);
+    console.log('[SavedSearchService] Saved search:', trimmed);
+    return search;
+  }
+
+  /**
+   * RENAME SEARCH
+   *
+   * @returns false if the name is empty or taken by another search
+   */
+  renameSearch(id: string, name: string): boolean {
+    const trimmed = name.trim();
+    const other = this.findByName(trimmed);
+    if (!trimmed || (other && other.id !== id)) {
+      console.warn('[SavedSearchService] Cannot rename to:', trimmed);
+      return false;
+    }
+
+    return this.updateSaved(id, { name: trimmed });
+  }
+
+  /**
+   * SET TAGS (replaces all tags of the search)
+   */
+  setSearchTags(id: string, tags: string[]): boolean {
+    return this.updateSaved(id, { tags: this.normalizeTags(tags) });
+  }
+
+  deleteSearch(id: string): void {
+    this.writeSaved(this.getSavedSearches().filter(search => search.id !== id));
+    console.log('[SavedSearchService] Deleted search:', id);
+  }
+
+  /**
+   * All tags in use, sorted
+   */
+  getAllTags(): string[] {
+    const tags = new Set<string>();
+    this.getSavedSearches().forEach(search => search.tags.forEach(tag => tags.add(tag)));
+    return Array.from(tags).sort();
+  }
+
+  // ============================================================================
+  // RECENT SEARCHES
+  // ============================================================================
+
+  getRecentSearches(): RecentSearch[] {
+    return this.recentSubject.value;
+  }
+
+  /**
+   * RECORD RECENT SEARCH
+   *
+   * Adds the snapshot to the top of the history. An entry with the same key
+   * is replaced, so refining one search (sort, page size) keeps one entry.
+   *
+   * @param snapshot - Search that was run (column preferences are not copied)
+   * @param key - Identity in the history (default: the query params)
+   */
+  recordRecentSearch(snapshot: SearchSnapshot, key: string = this.serializeParams(snapshot.queryParams)): void {
+    const entry: RecentSearch = {
+      route: snapshot.route,
+      queryParams: { ...snapshot.queryParams },
+      columnPreferencesId: snapshot.columnPreferencesId,
+      key,
+      timestamp: Date.now()
+    };
+
+    const history = [entry, ...this.getRecentSearches().filter(recent => recent.key !== key)];
+    this.writeRecent(history.slice(0, MAX_RECENT_SEARCHES));
+  }
+
+  removeRecentSearch(key: string): void {
+    this.writeRecent(this.getRecentSearches().filter(recent => recent.key !== key));
+  }
+
+  clearRecentSearches(): void {
+    this.writeRecent([]);
+    console.log('[SavedSearchService] Cleared recent searches');
+  }
+
+  // ============================================================================
+  // OPEN
+  // ============================================================================
+
+  /**
+   * OPEN SEARCH
+   *
+   * Restores the saved column preferences (if any) and navigates to the
+   * search's route with its query params.
+   *
+   * @returns Navigation result
+   */
+  openSearch(search: SavedSearch | RecentSearch): Promise<boolean> {
+    if (search.columnPreferencesId && search.columns) {
+      this.columnPreferences.savePreferences(search.columnPreferencesId, {
+        tableId: search.columnPreferencesId,
+        columns: search.columns.map(column => ({ ...column })),
+        lastModified: Date.now()
+      });
+    }
+
+    if ('id' in search) {
+      this.updateSaved(search.id, { lastOpened: Date.now() });
+    }
+
+    console.log('[SavedSearchService] Opening search:', search.route, search.queryParams);
+    return this.router.navigate([search.route], { queryParams: search.queryParams });
+  }
+
+  // ============================================================================
+  // PRIVATE HELPERS
+  // ============================================================================
+
+  private findByName(name: string): SavedSearch | undefined {
+    const lower = name.toLowerCase();
+    return this.getSavedSearches().find(search => search.name.toLowerCase() === lower);
+  }
+
+  private updateSaved(id: string, changes: Partial<SavedSearch>): boolean {
+    const searches = this.getSavedSearches();
+    if (!searches.some(search => search.id === id)) {
+      return false;
+    }
+
+    this.writeSaved(searches.map(search => search.id === id ? { ...search, ...changes } : search));
+    return true;
+  }
+
+  private normalizeTags(tags: string[]): string[] {
+    const normalized = tags
+      .map(tag => tag.trim().toLowerCase())
+      .filter(tag => tag.length > 0);
+    return Array.from(new Set(normalized));
+  }
+
+  /**
+   * Params as a stable string (key order and undefined values don't matter)
+   */
+  private serializeParams(params: QueryParams): string {
+    return Object.keys(params)
+      .filter(key => params[key] !== undefined)
+      .sort()
+      .map(key => `${key}=${JSON.stringify(params[key])}`)
+      .join('&');
+  }
+
+  private generateId(): string {
+    return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`;
+  }
+
+  private read<T>(key: string): T[] {
+    try {
+      const data = localStorage.getItem(key);
+      if (data) {
+        const parsed = JSON.parse(data);
+        if (Array.isArray(parsed)) {
+          return parsed as T[];
+        }
+        console.warn('[SavedSearchService] Ignoring invalid stored searches:', key);
+      }
+    } catch (error) {
+      console.error('[SavedSearchService] Error loading searches:', error);
+    }
+
+    return [];
+  }
+
+  private write(key: string, value: unknown[]): void {
+    try {
+      localStorage.setItem(key, JSON.stringify(value));
+    } catch (error) {
+      console.error('[SavedSearchService] Error saving searches:', error);
+    }
+  }
+
+  private writeSaved(searches: SavedSearch[]): void {
+    this.write(this.SAVED_KEY, searches);
+    this.savedSubject.next(searches);
+  }
+
+  private writeRecent(searches: RecentSearch[]): void {
+    this.write(this.RECENT_KEY, searches);
+    this.recentSubject.next(searches);
+  }
+}
@@ -0,0 +1,224 @@
+import { TableExportService } from './table-export.service';
+import { ExportTable } from '../models/table-export.model';
+
+describe('TableExportService', () => {
+  let service: TableExportService;
+
+  const table: ExportTable = {
+    name: 'Vehicles [2024]',
+    columns: [
+      { key: 'manufacturer', label: 'Manufacturer', type: 'text' },
+      { key: 'model', label: 'Model "name"', type: 'text' },
+      { key: 'price', label: 'Price', type: 'currency' }
+    ],
+    subColumns: [],
+    rows: [
+      { cells: [{ text: 'Ford', value: 'Ford' }, { text: 'F-150, XL', value: 'F-150, XL' }, { text: '$1,234.50', value: 1234.5 }] },
+      { cells: [{ text: 'AC', value: 'AC' }, { text: 'Cobra "427"\nRoadster', value: 'Cobra "427"\nRoadster' }, { text: '-$5.00', value: -5 }] },
+      { cells: [{ text: '=SUM(A1)', value: '=SUM(A1)' }, { text: '<Tag> & Co', value: '<Tag> & Co' }, { text: '', value: null }] }
+    ]
+  };
+
+  beforeEach(() => {
+    service = new TableExportService(document);
+  });
+
+  describe('toCsv', () => {
+    it('should quote fields with commas, quotes and line breaks', () => {
+      const lines = service.toCsv(table).split('\r\n');
+
+      expect(lines[0]).toBe('Manufacturer,"Model ""name""",Price');
+      expect(lines[1]).toBe('Ford,"F-150, XL","$1,234.50"');
+      expect(lines[2]).toBe('AC,"Cobra ""427""\nRoadster",-$5.00');
+    });
+
+    it('should neutralize formula-like text but not negative numbers', () => {
+      const lines = service.toCsv(table).split('\r\n');
+
+      expect(lines[2]).toMatch(/,-\$5\.00$/);
+      expect(lines[3]).toBe(`'=SUM(A1),<Tag> & Co,`);
+    });
+
+    it('should round-trip through an RFC 4180 parser', () => {
+      const records = parseCsv(service.toCsv(table));
+
+      expect(records).toEqual([
+        ['Manufacturer', 'Model "name"', 'Price'],
+        ['Ford', 'F-150, XL', '$1,234.50'],
+        ['AC', 'Cobra "427"\nRoadster', '-$5.00'],
+        [`'=SUM(A1)`, '<Tag> & Co', '']
+      ]);
+    });
+  });
+
+  describe('toXlsx', () => {
+    const PARTS = [
+      '[Content_Types].xml',
+      '_rels/.rels',
+      'xl/workbook.xml',
+      'xl/_rels/workbook.xml.rels',
+      'xl/styles.xml',
+      'xl/worksheets/sheet1.xml'
+    ];
+
+    it('should write a zip whose central directory matches its local headers', () => {
+      const zip = service.toXlsx(table);
+      const entries = readZip(zip);
+
+      expect(entries.map(entry => entry.name)).toEqual(PARTS);
+      entries.forEach(entry => {
+        expect(entry.localName).withContext(entry.name).toBe(entry.name);
+        expect(entry.method).withContext(entry.name).toBe(0);
+        expect(entry.compressedSize).withContext(entry.name).toBe(entry.size);
+        expect(entry.data.length).withContext(entry.name).toBe(entry.size);
+      });
+    });
+
+    it('should store the CRC-32 of every part', () => {
+      readZip(service.toXlsx(table)).forEach(entry => {
+        expect(entry.crc).withContext(entry.name).toBe(referenceCrc32(entry.data));
+        expect(entry.localCrc).withContext(entry.name).toBe(entry.crc);
+      });
+    });
+
+    it('should write numeric cells as numbers and escape text', () => {
+      const sheet = readPart(service.toXlsx(table), 'xl/worksheets/sheet1.xml');
+
+      expect(sheet).toContain('<c r="C2" s="4"><v>1234.5</v></c>');
+      expect(sheet).toContain('<c r="C3" s="4"><v>-5</v></c>');
+      expect(sheet).toContain('Model &quot;name&quot;');
+      expect(sheet).toContain('&lt;Tag&gt; &amp; Co');
+      expect(sheet).not.toContain('<c r="C4"');
+    });
+
+    it('should strip characters sheet names cannot contain', () => {
+      const workbook = readPart(service.toXlsx(table), 'xl/workbook.xml');
+
+      expect(workbook).toContain('<sheet name="Vehicles  2024" sheetId="1" r:id="rId1"/>');
+    });
+  });
+
+  describe('referenceCrc32', () => {
+    it('should match the standard check value', () => {
+      expect(referenceCrc32(new TextEncoder().encode('123456789'))).toBe(0xCBF43926);
+    });
+  });
+});
+
+// ============================================================================
+// TEST HELPERS
+// ============================================================================
+
+interface ZipEntry {
+  name: string;
+  localName: string;
+  method: number;
+  crc: number;
+  localCrc: number;
+  compressedSize: number;
+  size: number;
+  data: Uint8Array;
+}
+
+/**
+ * Reads a stored (uncompressed) zip through its end-of-central-directory record
+ */
+function readZip(zip: Uint8Array): ZipEntry[] {
+  const view = new DataView(zip.buffer, zip.byteOffset, zip.byteLength);
+  const decoder = new TextDecoder();
+  const end = zip.length - 22;
+
+  expect(view.getUint32(end, true)).toBe(0x06054B50);
+  const count = view.getUint16(end + 10, true);
+  const centralSize = view.getUint32(end + 12, true);
+  const centralOffset = view.getUint32(end + 16, true);
+  expect(centralOffset + centralSize).toBe(end);
+
+  const entries: ZipEntry[] = [];
+  let position = centralOffset;
+
+  for (let i = 0; i < count; i++) {
+    expect(view.getUint32(position, true)).toBe(0x02014B50);
+    const nameLength = view.getUint16(position + 28, true);
+    const localOffset = view.getUint32(position + 42, true);
+    const size = view.getUint32(position + 24, true);
+
+    expect(view.getUint32(localOffset, true)).toBe(0x04034B50);
+    const localNameLength = view.getUint16(localOffset + 26, true);
+    const dataStart = localOffset + 30 + localNameLength + view.getUint16(localOffset + 28, true);
+
+    entries.push({
+      name: decoder.decode(zip.subarray(position + 46, position + 46 + nameLength)),
+      localName: decoder.decode(zip.subarray(localOffset + 30, localOffset + 30 + localNameLength)),
+      method: view.getUint16(position + 10, true),
+      crc: view.getUint32(position + 16, true),
+      localCrc: view.getUint32(localOffset + 14, true),
+      compressedSize: view.getUint32(position + 20, true),
+      size,
+      data: zip.subarray(dataStart, dataStart + view.getUint32(localOffset + 22, true))
+    });
+
+    position += 46 + nameLength;
+  }
+
+  expect(position).toBe(end);
+  return entries;
+}
+
+function readPart(zip: Uint8Array, name: string): string {
+  const entry = readZip(zip).find(candidate => candidate.name === name);
+  return entry ? new TextDecoder().decode(entry.data) : '';
+}
+
+/**
+ * Bitwise CRC-32 (IEEE), independent of the service's table-driven one
+ */
+function referenceCrc32(bytes: Uint8Array): number {
+  let crc = 0xFFFFFFFF;
+  bytes.forEach(byte => {
+    crc ^= byte;
+    for (let k = 0; k < 8; k++) {
+      crc = crc & 1 ? (crc >>> 1) ^ 0xEDB88320 : crc >>> 1;
+    }
+  });
+  return (crc ^ 0xFFFFFFFF) >>> 0;
+}
+
+/**
+ * Minimal RFC 4180 reader (quoted fields, "" escapes, CRLF records)
+ */
+function parseCsv(text: string): string[][] {
+  const records: string[][] = [];
+  let record: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      record.push(field);
+      field = '';
+    } else if (char === '\r' && text[i + 1] === '\n') {
+      record.push(field);
+      records.push(record);
+      record = [];
+      field = '';
+      i++;
+    } else {
+      field += char;
+    }
+  }
+
+  return records;
+}
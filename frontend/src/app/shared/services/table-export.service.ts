@@ -0,0 +1,406 @@
+/*
+  TABLE EXPORT SERVICE
+
+  PURPOSE:
+  Turns an ExportTable (built by BaseTableComponent) into a CSV, XLSX or
+  JSON file and downloads it. Everything happens in the browser - no server
+  round trip, no third-party spreadsheet library.
+
+  FORMATS:
+  - CSV:  RFC 4180 (quoted fields, CRLF), UTF-8 with BOM so Excel detects
+          the encoding. Text starting with = + - @ is prefixed with ' so
+          spreadsheet apps don't evaluate it as a formula.
+  - XLSX: Minimal SpreadsheetML workbook (one sheet, inline strings, bold
+          header, number formats) in an uncompressed zip container.
+  - JSON: Array of records keyed by column key (typed values), sub-rows
+          nested as "subRows".
+
+  USAGE:
+  constructor(private exportService: TableExportService) {}
+
+  this.exportService.download(table, 'xlsx', 'vehicle-results');
+  // → vehicle-results-2024-06-30.xlsx
+*/
+
+import { Inject, Injectable } from '@angular/core';
+import { DOCUMENT } from '@angular/common';
+
+import {
+  ExportFormat,
+  ExportTable,
+  ExportColumn,
+  ExportCell
+} from '../models/table-export.model';
+
+// MIME type per format
+const MIME_TYPES: Record<ExportFormat, string> = {
+  csv: 'text/csv;charset=utf-8',
+  xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  json: 'application/json;charset=utf-8'
+};
+
+// Text that spreadsheet apps would run as a formula
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+// Characters not allowed in XML 1.0 (control characters except tab/newline/CR)
+const INVALID_XML_CHARS = /[\u0000-\u0008\u000B\u000C\u000E-\u001F]/g;
+
+/**
+ * TABLE EXPORT SERVICE
+ *
+ * Serializes exported table data and triggers the browser download.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class TableExportService {
+  constructor(@Inject(DOCUMENT) private document: Document) {}
+
+  /**
+   * DOWNLOAD
+   *
+   * Builds the file and saves it as <fileName>-<yyyy-mm-dd>.<format>
+   *
+   * @param table - Columns and rows to export
+   * @param format - File format
+   * @param fileName - File name stem (without date/extension)
+   */
+  download(table: ExportTable, format: ExportFormat, fileName: string): void {
+    const blob = this.buildFile(table, format);
+    const date = new Date().toISOString().substring(0, 10);
+    const name = `${fileName}-${date}.${format}`;
+
+    const url = URL.createObjectURL(blob);
+    const link = this.document.createElement('a');
+    link.href = url;
+    link.download = name;
+    link.style.display = 'none';
+    this.document.body.appendChild(link);
+    link.click();
+    this.document.body.removeChild(link);
+    setTimeout(() => URL.revokeObjectURL(url));
+
+    console.log('[TableExportService] Exported', table.rows.length, 'rows as', name);
+  }
+
+  /**
+   * BUILD FILE
+   *
+   * @returns File contents with the format's MIME type
+   */
+  buildFile(table: ExportTable, format: ExportFormat): Blob {
+    switch (format) {
+      case 'csv':
+        return new Blob(['\uFEFF', this.toCsv(table)], { type: MIME_TYPES.csv });
+      case 'json':
+        return new Blob([this.toJson(table)], { type: MIME_TYPES.json });
+      case 'xlsx':
+        return new Blob([this.toXlsx(table)], { type: MIME_TYPES.xlsx });
+    }
+  }
+
+  /**
+   * CSV (display text, one line per row / sub-row)
+   */
+  toCsv(table: ExportTable): string {
+    const lines = [
+      this.getHeaderLabels(table).map(label => csvField(label, label)),
+      ...flattenRows(table).map(cells => cells.map(cell => csvField(cell.text, cell.value)))
+    ];
+    return lines.map(fields => fields.join(',')).join('\r\n') + '\r\n';
+  }
+
+  /**
+   * JSON (typed values, sub-rows nested)
+   */
+  toJson(table: ExportTable): string {
+    const records = table.rows.map(row => {
+      const record = toRecord(table.columns, row.cells);
+      if (row.subRows) {
+        record['subRows'] = row.subRows.map(cells => toRecord(table.subColumns, cells));
+      }
+      return record;
+    });
+    return JSON.stringify(records, null, 2);
+  }
+
+  /**
+   * XLSX (one sheet, numeric cells for number/currency columns)
+   */
+  toXlsx(table: ExportTable): Uint8Array {
+    const columns = [...table.columns, ...table.subColumns];
+    const header = this.getHeaderLabels(table)
+      .map((label, index) => `<c r="${cellRef(index, 1)}" t="inlineStr" s="${XLSX_STYLE.header}"><is><t>${xmlEscape(label)}</t></is></c>`)
+      .join('');
+
+    const body = flattenRows(table).map((cells, rowIndex) => {
+      const rowNumber = rowIndex + 2;
+      const xmlCells = cells.map((cell, index) => xlsxCell(cell, columns[index], cellRef(index, rowNumber))).join('');
+      return `<row r="${rowNumber}">${xmlCells}</row>`;
+    }).join('');
+
+    const sheet =
+      `${XML_HEADER}<worksheet xmlns="${SPREADSHEET_NS}">` +
+      `<sheetData><row r="1">${header}</row>${body}</sheetData></worksheet>`;
+
+    return buildZip([
+      { name: '[Content_Types].xml', content: XLSX_CONTENT_TYPES },
+      { name: '_rels/.rels', content: XLSX_ROOT_RELS },
+      { name: 'xl/workbook.xml', content: xlsxWorkbook(table.name) },
+      { name: 'xl/_rels/workbook.xml.rels', content: XLSX_WORKBOOK_RELS },
+      { name: 'xl/styles.xml', content: XLSX_STYLES },
+      { name: 'xl/worksheets/sheet1.xml', content: sheet }
+    ]);
+  }
+
+  /**
+   * Header labels (sub-columns follow the row columns)
+   */
+  private getHeaderLabels(table: ExportTable): string[] {
+    return [...table.columns, ...table.subColumns].map(column => column.label);
+  }
+}
+
+// ============================================================================
+// PRIVATE HELPERS
+// ============================================================================
+
+/**
+ * Rows → sheet lines: a row without sub-rows is one line; a row with sub-rows
+ * is one line per sub-row (parent cells repeated). Empty cells pad the gaps.
+ */
+function flattenRows(table: ExportTable): ExportCell[][] {
+  const emptySubCells = table.subColumns.map(() => EMPTY_CELL);
+  const lines: ExportCell[][] = [];
+
+  table.rows.forEach(row => {
+    if (row.subRows && row.subRows.length > 0) {
+      row.subRows.forEach(subCells => lines.push([...row.cells, ...subCells]));
+    } else {
+      lines.push([...row.cells, ...emptySubCells]);
+    }
+  });
+
+  return lines;
+}
+
+const EMPTY_CELL: ExportCell = { text: '', value: null };
+
+/**
+ * Cells → { columnKey: value }
+ */
+function toRecord(columns: ExportColumn[], cells: ExportCell[]): Record<string, any> {
+  const record: Record<string, any> = {};
+  columns.forEach((column, index) => {
+    record[column.key] = cells[index]?.value ?? null;
+  });
+  return record;
+}
+
+/**
+ * One CSV field (quoted when needed, formula-like text neutralized)
+ */
+function csvField(text: string, value: ExportCell['value']): string {
+  let field = text;
+  if (typeof value !== 'number' && FORMULA_PREFIX.test(field)) {
+    field = `'${field}`;
+  }
+  return /[",\r\n]/.test(field) ? `"${field.replace(/"/g, '""')}"` : field;
+}
+
+function xmlEscape(text: string): string {
+  return text
+    .replace(INVALID_XML_CHARS, '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+/**
+ * Column index + 1-based row → 'A1', 'AB12'
+ */
+function cellRef(columnIndex: number, rowNumber: number): string {
+  let letters = '';
+  let n = columnIndex + 1;
+  while (n > 0) {
+    const remainder = (n - 1) % 26;
+    letters = String.fromCharCode(65 + remainder) + letters;
+    n = Math.floor((n - 1) / 26);
+  }
+  return `${letters}${rowNumber}`;
+}
+
+/**
+ * One worksheet cell: numeric for number/currency values, inline string otherwise
+ */
+function xlsxCell(cell: ExportCell, column: ExportColumn | undefined, ref: string): string {
+  if (typeof cell.value === 'number' && isFinite(cell.value)) {
+    const style = column?.type === 'currency'
+      ? XLSX_STYLE.currency
+      : Number.isInteger(cell.value) ? XLSX_STYLE.integer : XLSX_STYLE.decimal;
+    return `<c r="${ref}" s="${style}"><v>${cell.value}</v></c>`;
+  }
+  if (cell.text === '') {
+    return '';
+  }
+  return `<c r="${ref}" t="inlineStr"><is><t xml:space="preserve">${xmlEscape(cell.text)}</t></is></c>`;
+}
+
+// ----------------------------------------------------------------------------
+// XLSX package parts
+// ----------------------------------------------------------------------------
+
+const XML_HEADER = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n';
+const SPREADSHEET_NS = 'http://schemas.openxmlformats.org/spreadsheetml/2006/main';
+const RELATIONSHIP_NS = 'http://schemas.openxmlformats.org/officeDocument/2006/relationships';
+const PACKAGE_RELS_NS = 'http://schemas.openxmlformats.org/package/2006/relationships';
+
+// Index into cellXfs of styles.xml
+const XLSX_STYLE = { header: 1, integer: 2, decimal: 3, currency: 4 };
+
+const XLSX_CONTENT_TYPES =
+  `${XML_HEADER}<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">` +
+  '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>' +
+  '<Default Extension="xml" ContentType="application/xml"/>' +
+  '<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>' +
+  '<Override PartName="/xl/worksheets/sheet1.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>' +
+  '<Override PartName="/xl/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.styles+xml"/>' +
+  '</Types>';
+
+const XLSX_ROOT_RELS =
+  `${XML_HEADER}<Relationships xmlns="${PACKAGE_RELS_NS}">` +
+  '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/>' +
+  '</Relationships>';
+
+const XLSX_WORKBOOK_RELS =
+  `${XML_HEADER}<Relationships xmlns="${PACKAGE_RELS_NS}">` +
+  '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet1.xml"/>' +
+  '<Relationship Id="rId2" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles" Target="styles.xml"/>' +
+  '</Relationships>';
+
+// Styles: 0 default, 1 bold header, 2 #,##0, 3 #,##0.00, 4 $#,##0.00
+const XLSX_STYLES =
+  `${XML_HEADER}<styleSheet xmlns="${SPREADSHEET_NS}">` +
+  '<numFmts count="1"><numFmt numFmtId="164" formatCode="&quot;$&quot;#,##0.00"/></numFmts>' +
+  '<fonts count="2"><font><sz val="11"/><name val="Calibri"/></font><font><b/><sz val="11"/><name val="Calibri"/></font></fonts>' +
+  '<fills count="2"><fill><patternFill patternType="none"/></fill><fill><patternFill patternType="gray125"/></fill></fills>' +
+  '<borders count="1"><border><left/><right/><top/><bottom/><diagonal/></border></borders>' +
+  '<cellStyleXfs count="1"><xf numFmtId="0" fontId="0" fillId="0" borderId="0"/></cellStyleXfs>' +
+  '<cellXfs count="5">' +
+  '<xf numFmtId="0" fontId="0" fillId="0" borderId="0" xfId="0"/>' +
+  '<xf numFmtId="0" fontId="1" fillId="0" borderId="0" xfId="0" applyFont="1"/>' +
+  '<xf numFmtId="3" fontId="0" fillId="0" borderId="0" xfId="0" applyNumberFormat="1"/>' +
+  '<xf numFmtId="4" fontId="0" fillId="0" borderId="0" xfId="0" applyNumberFormat="1"/>' +
+  '<xf numFmtId="164" fontId="0" fillId="0" borderId="0" xfId="0" applyNumberFormat="1"/>' +
+  '</cellXfs>' +
+  '<cellStyles count="1"><cellStyle name="Normal" xfId="0" builtinId="0"/></cellStyles>' +
+  '</styleSheet>';
+
+/**
+ * Workbook part (sheet names: max 31 chars, no []:*?/\)
+ */
+function xlsxWorkbook(name: string): string {
+  const sheetName = (name.replace(/[\[\]:*?\/\\]/g, ' ').trim() || 'Sheet1').substring(0, 31);
+  return `${XML_HEADER}<workbook xmlns="${SPREADSHEET_NS}" xmlns:r="${RELATIONSHIP_NS}">` +
+    `<sheets><sheet name="${xmlEscape(sheetName)}" sheetId="1" r:id="rId1"/></sheets></workbook>`;
+}
+
+// ----------------------------------------------------------------------------
+// ZIP container (stored entries, no compression)
+// ----------------------------------------------------------------------------
+
+let crcTable: Uint32Array | undefined;
+
+function crc32(bytes: Uint8Array): number {
+  if (!crcTable) {
+    crcTable = new Uint32Array(256);
+    for (let n = 0; n < 256; n++) {
+      let c = n;
+      for (let k = 0; k < 8; k++) {
+        c = c & 1 ? 0xEDB88320 ^ (c >>> 1) : c >>> 1;
+      }
+      crcTable[n] = c >>> 0;
+    }
+  }
+
+  let crc = 0xFFFFFFFF;
+  for (let i = 0; i < bytes.length; i++) {
+    crc = crcTable[(crc ^ bytes[i]) & 0xFF] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xFFFFFFFF) >>> 0;
+}
+
+/**
+ * Zip archive of text files (UTF-8)
+ * Layout: [local header + data]... [central directory] [end of central directory]
+ */
+function buildZip(files: Array<{ name: string; content: string }>): Uint8Array {
+  const encoder = new TextEncoder();
+  const DOS_DATE = 0x0021;  // 1980-01-01 (timestamps don't matter here)
+  const UTF8_FLAG = 0x0800;
+
+  const entries = files.map(file => {
+    const name = encoder.encode(file.name);
+    const data = encoder.encode(file.content);
+    return { name, data, crc: crc32(data), offset: 0 };
+  });
+
+  const localSize = entries.reduce((size, entry) => size + 30 + entry.name.length + entry.data.length, 0);
+  const centralSize = entries.reduce((size, entry) => size + 46 + entry.name.length, 0);
+  const buffer = new Uint8Array(localSize + centralSize + 22);
+  const view = new DataView(buffer.buffer);
+  let position = 0;
+
+  // Local file headers + data
+  entries.forEach(entry => {
+    entry.offset = position;
+    view.setUint32(position, 0x04034B50, true);
+    view.setUint16(position + 4, 20, true);                 // Version needed
+    view.setUint16(position + 6, UTF8_FLAG, true);
+    view.setUint16(position + 8, 0, true);                  // Stored
+    view.setUint16(position + 10, 0, true);                 // Time
+    view.setUint16(position + 12, DOS_DATE, true);
+    view.setUint32(position + 14, entry.crc, true);
+    view.setUint32(position + 18, entry.data.length, true); // Compressed size
+    view.setUint32(position + 22, entry.data.length, true); // Uncompressed size
+    view.setUint16(position + 26, entry.name.length, true);
+    view.setUint16(position + 28, 0, true);                 // Extra field length
+    buffer.set(entry.name, position + 30);
+    buffer.set(entry.data, position + 30 + entry.name.length);
+    position += 30 + entry.name.length + entry.data.length;
+  });
+
+  // Central directory
+  const centralOffset = position;
+  entries.forEach(entry => {
+    view.setUint32(position, 0x02014B50, true);
+    view.setUint16(position + 4, 20, true);                 // Version made by
+    view.setUint16(position + 6, 20, true);                 // Version needed
+    view.setUint16(position + 8, UTF8_FLAG, true);
+    view.setUint16(position + 10, 0, true);                 // Stored
+    view.setUint16(position + 12, 0, true);
+    view.setUint16(position + 14, DOS_DATE, true);
+    view.setUint32(position + 16, entry.crc, true);
+    view.setUint32(position + 20, entry.data.length, true);
+    view.setUint32(position + 24, entry.data.length, true);
+    view.setUint16(position + 28, entry.name.length, true);
+    view.setUint16(position + 30, 0, true);                 // Extra field length
+    view.setUint16(position + 32, 0, true);                 // Comment length
+    view.setUint16(position + 34, 0, true);                 // Disk number
+    view.setUint16(position + 36, 0, true);                 // Internal attributes
+    view.setUint32(position + 38, 0, true);                 // External attributes
+    view.setUint32(position + 42, entry.offset, true);
+    buffer.set(entry.name, position + 46);
+    position += 46 + entry.name.length;
+  });
+
+  // End of central directory
+  view.setUint32(position, 0x06054B50, true);
+  view.setUint16(position + 8, entries.length, true);
+  view.setUint16(position + 10, entries.length, true);
+  view.setUint32(position + 12, centralSize, true);
+  view.setUint32(position + 16, centralOffset, true);
+
+  return buffer;
+}
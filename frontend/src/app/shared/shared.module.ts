@@ -7,6 +7,8 @@
 
   EXPORTS:
   - BaseTableComponent (universal configuration-driven table)
+  - TableCellTemplateDirective (named cell templates for BaseTableComponent)
+  - PanelGridComponent + PanelGridItemDirective (draggable/resizable panel grid)
   - All PrimeNG modules needed across the app
   - CommonModule, FormsModule, ReactiveFormsModule
 */
@@ -28,16 +30,23 @@ import { InputTextModule } from 'primeng/inputtext';
 import { DropdownModule } from 'primeng/dropdown';
 import { PaginatorModule } from 'primeng/paginator';
 import { TooltipModule } from 'primeng/tooltip';
+import { MultiSelectModule } from 'primeng/multiselect';
 
 // Shared Components
 import { BaseTableComponent } from './components/base-table/base-table.component';
+import { TableCellTemplateDirective } from './components/base-table/table-cell-template.directive';
 import { ColumnManagerComponent } from './components/column-manager/column-manager.component';
+import { PanelGridComponent } from './components/panel-grid/panel-grid.component';
+import { PanelGridItemDirective } from './components/panel-grid/panel-grid-item.directive';
 
 
 @NgModule({
   declarations: [
     BaseTableComponent,
-    ColumnManagerComponent
+    TableCellTemplateDirective,
+    ColumnManagerComponent,
+    PanelGridComponent,
+    PanelGridItemDirective
   ],
   imports: [
     CommonModule,
@@ -55,7 +64,8 @@ import { ColumnManagerComponent } from './components/column-manager/column-manag
     InputTextModule,
     DropdownModule,
     PaginatorModule,
-    TooltipModule
+    TooltipModule,
+    MultiSelectModule
   ],
   exports: [
     // Angular modules
@@ -75,9 +85,13 @@ import { ColumnManagerComponent } from './components/column-manager/column-manag
     DropdownModule,
     PaginatorModule,
     TooltipModule,
+    MultiSelectModule,
     // Shared components
     BaseTableComponent,
-    ColumnManagerComponent
+    TableCellTemplateDirective,
+    ColumnManagerComponent,
+    PanelGridComponent,
+    PanelGridItemDirective
   ]
 })
 export class SharedModule { }
@@ -0,0 +1,12 @@
+// Offline development / e2e environment: every vehicle API call is answered
+// by the mock backend interceptor from generated fixtures (no autos backend needed).
+// Used by `ng serve --configuration mock` (npm run start:mock).
+
+export const environment = {
+  production: false,
+  apiUrl: 'http://autos.minilab/api',
+  mockBackend: {
+    enabled: true,
+    latency: 300  // Simulated response time (ms)
+  }
+};
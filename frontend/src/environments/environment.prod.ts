@@ -1,4 +1,8 @@
 export const environment = {
   production: true,
-  apiUrl: 'http://autos.minilab/api'
+  apiUrl: 'http://autos.minilab/api',
+  mockBackend: {
+    enabled: false,
+    latency: 0
+  }
 };
@@ -4,7 +4,14 @@
 
 export const environment = {
   production: false,
-  apiUrl: 'http://autos.minilab/api'
+  apiUrl: 'http://autos.minilab/api',
+
+  // Serve API calls from generated fixtures instead of the autos backend
+  // (see core/mock-backend). `ng serve --configuration mock` turns it on.
+  mockBackend: {
+    enabled: false,
+    latency: 300  // Simulated response time (ms)
+  }
 };
 
 /*